@@ -1,4 +1,8 @@
 import '@testing-library/jest-dom';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom lacks the encoding APIs the tokenizer relies on
+Object.assign(global, { TextDecoder, TextEncoder });
 
 // Mock environment variables for testing
 process.env.NODE_ENV = 'test';
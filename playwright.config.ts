@@ -30,5 +30,10 @@ export default defineConfig({
     command: 'npm run dev',
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
+    // Serve every execution from the mock provider so specs run offline
+    env: {
+      LLM_FORCE_MODEL: 'mock:echo',
+      MOCK_LLM_FIXTURES: 'tests/fixtures/llm-responses.json',
+    },
   },
 });
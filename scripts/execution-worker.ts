@@ -0,0 +1,27 @@
+#!/usr/bin/env tsx
+/* eslint-disable no-console */
+
+/**
+ * Long-running execution worker - claims queued executions from Postgres
+ * and runs them until stopped. Run as many copies as needed; each claims
+ * different executions.
+ */
+
+import { executionWorker } from '../src/lib/execution/execution-worker';
+import { executionQueue } from '../src/lib/execution/job-queue';
+import { prisma } from '../src/lib/database/client';
+
+const pollIntervalMs = parseInt(process.env.EXECUTION_WORKER_POLL_MS || '1000');
+
+async function shutdown(signal: string): Promise<void> {
+  console.log(`${signal} received, finishing running executions...`);
+  await executionWorker.stop();
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+console.log(`Execution worker ${executionQueue.ownerId} started`);
+executionWorker.start(pollIntervalMs);
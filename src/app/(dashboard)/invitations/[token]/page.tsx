@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+export default function AcceptInvitationPage(): JSX.Element {
+  const params = useParams();
+  const router = useRouter();
+  const token = params.token as string;
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async (): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      const response = await fetch(
+        `/api/invitations/${encodeURIComponent(token)}`,
+        { method: 'POST' }
+      );
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `Request failed: ${response.status}`);
+      }
+      router.push('/settings/workspaces');
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to accept invitation'
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-lg py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Workspace Invitation</CardTitle>
+          <CardDescription>
+            Join the workspace to work on its shared prompts. Sign in with the
+            email address the invitation was sent to.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button onClick={handleAccept} disabled={isBusy}>
+            Accept Invitation
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
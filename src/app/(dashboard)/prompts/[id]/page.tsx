@@ -20,20 +20,30 @@ import {
 } from '@/components/ui/loading-spinner';
 import { ExecutionPanel } from '@/components/execution/execution-panel';
 import { ExecutionHistory } from '@/components/execution/execution-history';
+import { AbComparison } from '@/components/prompts/ab-comparison';
+import { MessageEditor } from '@/components/prompts/message-editor';
+import { PromptBranches } from '@/components/prompts/prompt-branches';
+import { VersionDiff } from '@/components/prompts/version-diff';
+import { VersionHistory } from '@/components/prompts/version-history';
+import type { PromptMessage, PromptMessageRole } from '@/types/database';
 
 interface PromptWithDetails {
   id: string;
   name: string;
   description: string | null;
   template: string;
+  messages: Array<{ role: PromptMessageRole; content: string }>;
   variables: Array<{ name: string; type: string; required?: boolean }> | null;
+  model: string | null;
   version: number;
+  liveVersion: number | null;
   status: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
   tags: string[];
   createdAt: Date;
   updatedAt: Date;
   publishedAt: Date | null;
   userId: string;
+  workspaceId: string | null;
   validations: Array<{
     id: string;
     type: string;
@@ -148,6 +158,30 @@ export default function PromptDetailPage(): JSX.Element {
     }
   };
 
+  const handleMessagesSave = async (
+    messages: PromptMessage[]
+  ): Promise<void> => {
+    const response = await fetch(`/api/prompts/${promptId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ messages, expectedVersion: prompt?.version }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.details?.[0]?.message ||
+          errorData.error ||
+          'Failed to save messages'
+      );
+    }
+
+    const updatedPrompt = await response.json();
+    setPrompt(updatedPrompt);
+  };
+
   const getStatusBadgeVariant = (
     status: string
   ): 'default' | 'secondary' | 'outline' => {
@@ -225,6 +259,9 @@ export default function PromptDetailPage(): JSX.Element {
             <Badge variant={getStatusBadgeVariant(prompt.status)}>
               {prompt.status}
             </Badge>
+            {prompt.status === 'PUBLISHED' && prompt.liveVersion !== null && (
+              <span>Live v{prompt.liveVersion}</span>
+            )}
             <span>{prompt._count.executions} executions</span>
             <span>Updated {formatDate(prompt.updatedAt)}</span>
           </div>
@@ -280,10 +317,11 @@ export default function PromptDetailPage(): JSX.Element {
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="details">Details</TabsTrigger>
           <TabsTrigger value="executions">Execute</TabsTrigger>
           <TabsTrigger value="history">History</TabsTrigger>
+          <TabsTrigger value="compare">Compare</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
@@ -295,7 +333,9 @@ export default function PromptDetailPage(): JSX.Element {
               <CardHeader>
                 <CardTitle>Template</CardTitle>
                 <CardDescription>
-                  The prompt template with variable placeholders
+                  {prompt.messages?.length
+                    ? 'Sent as the final user message, after the messages below'
+                    : 'The prompt template with variable placeholders'}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -324,6 +364,22 @@ export default function PromptDetailPage(): JSX.Element {
                 </CardContent>
               </Card>
 
+              {/* Chat messages */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Messages</CardTitle>
+                  <CardDescription>
+                    System and example turns sent before the template
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MessageEditor
+                    messages={prompt.messages || []}
+                    onSave={handleMessagesSave}
+                  />
+                </CardContent>
+              </Card>
+
               {/* Metadata */}
               <Card>
                 <CardHeader>
@@ -381,7 +437,55 @@ export default function PromptDetailPage(): JSX.Element {
         </TabsContent>
 
         {/* History Tab */}
-        <TabsContent value="history">
+        <TabsContent value="history" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Versions</CardTitle>
+              <CardDescription>
+                Roll back, label versions and choose which one is live
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <VersionHistory
+                promptId={prompt.id}
+                currentVersion={prompt.version}
+                onChange={fetchPrompt}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Branches</CardTitle>
+              <CardDescription>
+                Draft changes without touching the current version, then merge
+                them back as a new version
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PromptBranches
+                promptId={prompt.id}
+                currentVersion={prompt.version}
+                onMerged={fetchPrompt}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Version Changes</CardTitle>
+              <CardDescription>
+                Line and word changes between two versions of this prompt
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <VersionDiff
+                promptId={prompt.id}
+                currentVersion={prompt.version}
+              />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Execution History</CardTitle>
@@ -402,6 +506,26 @@ export default function PromptDetailPage(): JSX.Element {
           </Card>
         </TabsContent>
 
+        {/* Compare Tab */}
+        <TabsContent value="compare">
+          <Card>
+            <CardHeader>
+              <CardTitle>A/B Comparison</CardTitle>
+              <CardDescription>
+                Run two versions or models over the same inputs and compare
+                outputs, latency, cost and validation side by side
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AbComparison
+                promptId={prompt.id}
+                currentVersion={prompt.version}
+                defaultModel={prompt.model}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Settings Tab */}
         <TabsContent value="settings">
           <Card>
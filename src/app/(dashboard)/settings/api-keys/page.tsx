@@ -0,0 +1,29 @@
+'use client';
+
+import { ApiKeyList } from '@/components/settings/api-key-list';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+export default function ApiKeysPage(): JSX.Element {
+  return (
+    <div className="container mx-auto py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>API Keys</CardTitle>
+          <CardDescription>
+            Call the API from your services with{' '}
+            <code>Authorization: Bearer fo_…</code>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ApiKeyList />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
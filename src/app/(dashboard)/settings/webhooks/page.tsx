@@ -0,0 +1,29 @@
+'use client';
+
+import { WebhookList } from '@/components/settings/webhook-list';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+export default function WebhooksPage(): JSX.Element {
+  return (
+    <div className="container mx-auto py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhooks</CardTitle>
+          <CardDescription>
+            Get execution and budget events POSTed to your endpoints, signed
+            with <code>X-FormaOps-Signature</code>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WebhookList />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { WorkspaceList } from '@/components/settings/workspace-list';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+export default function WorkspacesPage(): JSX.Element {
+  return (
+    <div className="container mx-auto py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Workspaces</CardTitle>
+          <CardDescription>
+            Share prompts with your team. Owners manage members, editors change
+            prompts, runners execute them and viewers read them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WorkspaceList />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireAuth } from '../../../../lib/auth/server';
+import { withRateLimit } from '../../../../lib/security/rate-limiter';
 import { getExecutionStats } from '../../../../lib/database/queries';
 import { costTracker } from '../../../../lib/monitoring/cost-tracker';
+import {
+  budgetManager,
+  type BudgetStatus,
+} from '../../../../lib/monitoring/budgets';
 import { handleApiError } from '../../../../lib/utils/error-handler';
 
 const AnalyticsQuerySchema = z.object({
@@ -70,11 +75,15 @@ interface CombinedAnalyticsData {
     avgCost: number;
     totalTokens: number;
   }>;
+  // Current period's spend against each budget
+  budgets: BudgetStatus[];
 }
 
-export async function GET(request: NextRequest): Promise<NextResponse> {
+export const GET = withRateLimit(async function GET(
+  request: NextRequest
+): Promise<NextResponse> {
   try {
-    const user = await requireAuth();
+    const user = await requireAuth('PROMPTS_READ');
     const { searchParams } = new URL(request.url);
 
     // Parse and validate query parameters
@@ -149,11 +158,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       : 30; // Default to 30 days
 
     // Fetch data in parallel for better performance
-    const [executionStats, costMetrics, topPrompts] = await Promise.all([
-      getExecutionStats(user.id, dateRange),
-      costTracker.getUserCostMetrics(user.id, days),
-      costTracker.getTopExpensivePrompts(user.id, 10),
-    ]);
+    const [executionStats, costMetrics, topPrompts, budgets] =
+      await Promise.all([
+        getExecutionStats(user.id, dateRange),
+        costTracker.getUserCostMetrics(user.id, days),
+        costTracker.getTopExpensivePrompts(user.id, 10),
+        budgetManager.getStatus(user.id),
+      ]);
 
     // Calculate today's executions
     const today = new Date();
@@ -223,6 +234,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         dailyTrend: costMetrics.dailyTrend,
       },
       topPrompts,
+      budgets,
     };
 
     return NextResponse.json({
@@ -243,4 +255,4 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const apiError = handleApiError(error);
     return NextResponse.json(apiError, { status: apiError.statusCode });
   }
-}
+});
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiKeyManager } from '@/lib/auth/api-keys';
+import { requireAuth } from '@/lib/auth/server';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+/**
+ * Revokes an API key. The record is kept so its usage stays visible.
+ */
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    await apiKeyManager.revokeKey(user.id, params.id);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'api_key.revoke',
+      targetId: params.id,
+      before: { isActive: true },
+      after: { isActive: false },
+    });
+
+    return NextResponse.json({
+      message: 'API key revoked successfully',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiKeyManager } from '@/lib/auth/api-keys';
+import { requireAuth } from '@/lib/auth/server';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(['PROMPTS_READ', 'EXECUTE', 'ADMIN'])).min(1),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+export const GET = withRateLimit(async function GET(): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+
+    const apiKeys = await apiKeyManager.listKeys(user.id);
+
+    return NextResponse.json({ apiKeys });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+/**
+ * Creates an API key. The key is only ever returned in this response.
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const { name, scopes, expiresInDays } = CreateApiKeySchema.parse(body);
+
+    const { apiKey, key } = await apiKeyManager.createKey(user.id, {
+      name,
+      scopes,
+      ...(expiresInDays && {
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      }),
+    });
+
+    // The key itself never goes into the audit trail
+    await auditLog.record(auditActor(request, user), {
+      action: 'api_key.create',
+      targetId: apiKey.id,
+      after: {
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt,
+      },
+    });
+
+    return NextResponse.json({ ...apiKey, key }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
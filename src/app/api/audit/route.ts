@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { auditLog } from '@/lib/monitoring/audit-log';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+const AuditQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  action: z.string().max(100).optional(),
+  targetType: z.string().max(50).optional(),
+  targetId: z.string().max(100).optional(),
+  actorId: z.string().uuid().optional(),
+  workspaceId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Downloads every matching event instead of a page
+  format: z.enum(['json', 'csv', 'jsonl']).default('json'),
+});
+
+/**
+ * Audit events the user may see, newest first: their own, and events in
+ * workspaces they own
+ */
+export const GET = withRateLimit(async function GET(
+  request: NextRequest
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { searchParams } = new URL(request.url);
+
+    const { format, ...query } = AuditQuerySchema.parse(
+      Object.fromEntries(searchParams)
+    );
+
+    if (format !== 'json') {
+      const body = await auditLog.exportEvents(user.id, query, format);
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': CONTENT_TYPES[format],
+          'Content-Disposition': `attachment; filename="audit-events.${format}"`,
+        },
+      });
+    }
+
+    const result = await auditLog.listEvents(user.id, query);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
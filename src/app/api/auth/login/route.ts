@@ -3,14 +3,29 @@ import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { z } from 'zod';
 import type { Database } from '@/types/supabase';
+import {
+  getClientIp,
+  LOGIN_RATE_LIMIT,
+  rateLimiter,
+  withRateLimit,
+} from '@/lib/security/rate-limiter';
+import { RateLimitError } from '@/lib/utils/error-handler';
 
 const LoginSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
 });
 
-export async function POST(request: NextRequest): Promise<NextResponse> {
+export const POST = withRateLimit(async function POST(
+  request: NextRequest
+): Promise<NextResponse> {
   try {
+    // Slow down password guessing from one address
+    await rateLimiter.enforce(
+      `login:${getClientIp(request.headers)}`,
+      LOGIN_RATE_LIMIT
+    );
+
     const cookieStore = await cookies();
     const supabase = createServerClient<Database>(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -54,6 +69,13 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       refresh_token: data.session.refresh_token,
     });
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: 'Too many login attempts', code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
@@ -73,4 +95,4 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
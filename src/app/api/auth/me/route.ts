@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import type { Database } from '@/types/supabase';
+import { rateLimiter, withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError, RateLimitError } from '@/lib/utils/error-handler';
 
-export async function GET(): Promise<NextResponse> {
+export const GET = withRateLimit(async function GET(): Promise<NextResponse> {
   try {
     const cookieStore = await cookies();
     const supabase = createServerClient<Database>(
@@ -29,11 +31,13 @@ export async function GET(): Promise<NextResponse> {
     } = await supabase.auth.getUser();
 
     if (error || !user) {
+      await rateLimiter.enforceForClient(await headers());
       return NextResponse.json(
         { error: 'Unauthorized', code: 'UNAUTHORIZED' },
         { status: 401 }
       );
     }
+    await rateLimiter.enforceForUser(user, 'PROMPTS_READ');
 
     return NextResponse.json({
       id: user.id,
@@ -42,9 +46,14 @@ export async function GET(): Promise<NextResponse> {
       createdAt: user.created_at,
     });
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      const apiError = handleApiError(error);
+      return NextResponse.json(apiError, { status: apiError.statusCode });
+    }
+
     return NextResponse.json(
       { error: 'Internal server error', code: 'INTERNAL_ERROR' },
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getBatchById } from '@/lib/database/queries';
+import type { DatasetFormat } from '@/lib/datasets/dataset-parser';
+import { batchRunner } from '@/lib/execution/batch-runner';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const CONTENT_TYPES: Record<DatasetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * Downloads a finished batch's results as CSV or JSONL (`?format=`,
+ * defaulting to the uploaded dataset's format)
+ */
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = await context.params;
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid batch ID format', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const requested = request.nextUrl.searchParams.get('format');
+    if (requested !== null && requested !== 'csv' && requested !== 'jsonl') {
+      return NextResponse.json(
+        { error: 'Format must be csv or jsonl', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const batch = await getBatchById(id, user.id);
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (batch.status !== 'COMPLETED') {
+      return NextResponse.json(
+        {
+          error: 'Results are available once the batch has completed',
+          code: 'VALIDATION_ERROR',
+          details: { currentStatus: batch.status },
+        },
+        { status: 400 }
+      );
+    }
+
+    const format: DatasetFormat =
+      requested === 'csv' || requested === 'jsonl'
+        ? requested
+        : batch.format === 'jsonl'
+          ? 'jsonl'
+          : 'csv';
+    const body = await batchRunner.exportResults(batch, format);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="batch-${batch.id}-results.${format}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
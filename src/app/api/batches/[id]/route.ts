@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { prisma } from '@/lib/database/client';
+import { getBatchById } from '@/lib/database/queries';
+import { batchRunner } from '@/lib/execution/batch-runner';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const UpdateBatchSchema = z.object({
+  action: z.enum(['pause', 'resume']).optional(),
+  concurrency: z.number().int().min(1).max(50).optional(),
+  // null removes the cap
+  costCapUsd: z.number().positive().nullable().optional(),
+});
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function batchResponse(
+  batch: NonNullable<Awaited<ReturnType<typeof getBatchById>>>
+): Promise<NextResponse> {
+  return NextResponse.json({
+    success: true,
+    data: {
+      ...batch,
+      costCapUsd: batch.costCapUsd?.toNumber() ?? null,
+      progress: await batchRunner.getProgress(batch.id),
+    },
+  });
+}
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = await context.params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid batch ID format', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const batch = await getBatchById(id, user.id);
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return batchResponse(batch);
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * Pauses or resumes a batch, or changes its concurrency or cost cap.
+ * Settings apply before the action, so raising the cap and resuming can
+ * happen in one request.
+ */
+export const PATCH = withRateLimit(async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('EXECUTE');
+    const { id } = await context.params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid batch ID format', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const data = UpdateBatchSchema.parse(await request.json());
+
+    const batch = await getBatchById(id, user.id, 'run');
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (batch.status === 'COMPLETED') {
+      return NextResponse.json(
+        {
+          error: 'Completed batches cannot be changed',
+          code: 'VALIDATION_ERROR',
+          details: { currentStatus: batch.status },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (data.concurrency !== undefined || data.costCapUsd !== undefined) {
+      await prisma.batch.update({
+        where: { id },
+        data: {
+          concurrency: data.concurrency,
+          costCapUsd: data.costCapUsd,
+        },
+      });
+    }
+
+    const applied =
+      data.action === 'pause'
+        ? await batchRunner.pause(id)
+        : data.action === 'resume'
+          ? await batchRunner.resume(id)
+          : true;
+
+    if (!applied) {
+      return NextResponse.json(
+        {
+          error: `Only ${data.action === 'pause' ? 'running' : 'paused'} batches can be ${data.action}d`,
+          code: 'VALIDATION_ERROR',
+          details: { currentStatus: batch.status },
+        },
+        { status: 400 }
+      );
+    }
+
+    // A higher concurrency or cap lets a running batch queue more rows now
+    if (!data.action) {
+      await batchRunner.advance(id);
+    }
+
+    const updated = await getBatchById(id, user.id);
+    return batchResponse(updated || batch);
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
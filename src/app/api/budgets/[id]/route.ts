@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import {
+  auditActor,
+  auditLog,
+  budgetSnapshot,
+} from '@/lib/monitoring/audit-log';
+import { budgetManager } from '@/lib/monitoring/budgets';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    const budget = (await budgetManager.getStatus(user.id)).find(
+      status => status.budgetId === params.id
+    );
+    await budgetManager.deleteBudget(user.id, params.id);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'budget.delete',
+      targetId: params.id,
+      before: budget && budgetSnapshot(budget),
+    });
+
+    return NextResponse.json({
+      message: 'Budget deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
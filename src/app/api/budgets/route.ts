@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import {
+  auditActor,
+  auditLog,
+  budgetSnapshot,
+} from '@/lib/monitoring/audit-log';
+import { budgetManager } from '@/lib/monitoring/budgets';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const SetBudgetSchema = z.object({
+  // Omit to cap spend across all of the user's executions
+  promptId: z.string().uuid().optional(),
+  period: z.enum(['DAILY', 'MONTHLY']),
+  limitUsd: z.number().min(0).max(1000000),
+  warnAtPercent: z.number().int().min(1).max(100).optional(),
+});
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const promptId = new URL(request.url).searchParams.get('promptId');
+
+    const budgets = await budgetManager.getStatus(
+      user.id,
+      promptId ?? undefined
+    );
+
+    return NextResponse.json({ budgets });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+export const POST = withRateLimit(async function POST(
+  request: NextRequest
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const data = SetBudgetSchema.parse(body);
+
+    const previous = (
+      await budgetManager.getStatus(user.id, data.promptId)
+    ).find(
+      status =>
+        status.budgetId !== null &&
+        status.promptId === (data.promptId ?? null) &&
+        status.period === data.period
+    );
+    const budget = await budgetManager.setBudget(user.id, data);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'budget.set',
+      targetId: budget.budgetId ?? undefined,
+      before: previous && budgetSnapshot(previous),
+      after: budgetSnapshot(budget),
+    });
+
+    return NextResponse.json(budget);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getComparisonRunById } from '@/lib/database/queries';
+import { comparisonRunner } from '@/lib/execution/comparison-runner';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const DecideComparisonSchema = z.object({
+  winner: z.enum(['A', 'B', 'TIE']),
+  note: z.string().max(500).optional(),
+});
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+function invalidIdResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Invalid comparison ID format', code: 'VALIDATION_ERROR' },
+    { status: 400 }
+  );
+}
+
+function notFoundResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Comparison not found', code: 'NOT_FOUND' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Returns both sides' outputs paired by input row, with per-side latency,
+ * cost and validation pass rates
+ */
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = await context.params;
+
+    if (!uuidRegex.test(id)) {
+      return invalidIdResponse();
+    }
+
+    const comparison = await getComparisonRunById(id, user.id);
+    if (!comparison) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await comparisonRunner.getComparison(comparison),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * Marks the winner and records the decision in the winning version's
+ * change log
+ */
+export const PATCH = withRateLimit(async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id } = await context.params;
+
+    if (!uuidRegex.test(id)) {
+      return invalidIdResponse();
+    }
+
+    const data = DecideComparisonSchema.parse(await request.json());
+
+    const comparison = await getComparisonRunById(id, user.id, 'edit');
+    if (!comparison) {
+      return notFoundResponse();
+    }
+
+    const statuses = await comparisonRunner.getStatuses([comparison.id]);
+    if (statuses.get(comparison.id) !== 'COMPLETED') {
+      return NextResponse.json(
+        {
+          error: 'A winner can be marked once every row has finished',
+          code: 'VALIDATION_ERROR',
+          details: { currentStatus: statuses.get(comparison.id) },
+        },
+        { status: 400 }
+      );
+    }
+
+    const decided = await comparisonRunner.decide(
+      comparison,
+      data.winner,
+      data.note
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: await comparisonRunner.getComparison(decided),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -17,6 +17,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     executionsDeleted: 0,
     logsDeleted: 0,
     versionsDeleted: 0,
+    rateLimitCountersDeleted: 0,
     errors: [] as string[],
   };
 
@@ -96,7 +97,22 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       logger.error(errorMessage);
     }
 
-    // 4. Database maintenance - analyze and vacuum (PostgreSQL specific)
+    // 4. Clean up expired rate limit counters
+    try {
+      const deletedCounters = await prisma.rateLimitCounter.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+      results.rateLimitCountersDeleted = deletedCounters.count;
+      logger.info(
+        `Deleted ${deletedCounters.count} expired rate limit counters`
+      );
+    } catch (error) {
+      const errorMessage = `Failed to delete rate limit counters: ${error}`;
+      results.errors.push(errorMessage);
+      logger.error(errorMessage);
+    }
+
+    // 5. Database maintenance - analyze and vacuum (PostgreSQL specific)
     try {
       if (process.env.DATABASE_URL?.includes('postgresql')) {
         await prisma.$executeRaw`ANALYZE`;
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { executionWorker } from '@/lib/execution/execution-worker';
+import { executionQueue } from '@/lib/execution/job-queue';
+import { logger } from '@/lib/monitoring/logger';
+
+// Stop claiming executions with time to spare before the 30s function limit
+const DRAIN_BUDGET_MS = 20000;
+
+// Runs queued executions for deployments without a long-running worker
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  // Verify cron job authorization
+  const authHeader = request.headers.get('authorization');
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET || 'default-cron-secret'}`;
+
+  if (authHeader !== expectedAuth) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const processed = await executionWorker.drain({
+      deadline: startTime + DRAIN_BUDGET_MS,
+    });
+    const load = await executionQueue.getLoad();
+    const duration = Date.now() - startTime;
+
+    logger.info(`Execution queue drained ${processed} executions`, {
+      ...load,
+      duration,
+    });
+
+    return NextResponse.json({
+      success: true,
+      duration: `${duration}ms`,
+      results: { processed, ...load },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = `Execution queue job failed: ${error}`;
+
+    logger.error(errorMessage);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorMessage,
+        duration: `${duration}ms`,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggers
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  return GET(request);
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import {
+  deleteEvalSuite,
+  getEvalSuiteById,
+  updateEvalSuite,
+} from '@/lib/database/queries';
+import {
+  EvalCaseListSchema,
+  EvaluatorListSchema,
+} from '@/lib/evaluation/evaluators';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const UpdateEvalSuiteSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  evaluators: EvaluatorListSchema.optional(),
+  // Replaces every case
+  cases: EvalCaseListSchema.optional(),
+});
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+function invalidIdResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Invalid evaluation suite ID format', code: 'VALIDATION_ERROR' },
+    { status: 400 }
+  );
+}
+
+function notFoundResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Evaluation suite not found', code: 'NOT_FOUND' },
+    { status: 404 }
+  );
+}
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = await context.params;
+    if (!uuidRegex.test(id)) return invalidIdResponse();
+
+    const suite = await getEvalSuiteById(id, user.id);
+    if (!suite) return notFoundResponse();
+
+    return NextResponse.json({ success: true, data: suite });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+export const PATCH = withRateLimit(async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id } = await context.params;
+    if (!uuidRegex.test(id)) return invalidIdResponse();
+
+    const data = UpdateEvalSuiteSchema.parse(await request.json());
+
+    const suite = await getEvalSuiteById(id, user.id, 'edit');
+    if (!suite) return notFoundResponse();
+
+    await updateEvalSuite(id, data);
+    const updated = await getEvalSuiteById(id, user.id);
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id } = await context.params;
+    if (!uuidRegex.test(id)) return invalidIdResponse();
+
+    const { count } = await deleteEvalSuite(id, user.id);
+    if (count === 0) return notFoundResponse();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
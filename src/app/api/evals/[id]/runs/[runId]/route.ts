@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getEvalRunById, getEvalSuiteById } from '@/lib/database/queries';
+import { evaluationRunner } from '@/lib/evaluation/evaluation-runner';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+/**
+ * Returns a run with per-case scores. Completed runs also get a
+ * comparison with the previous completed run of the suite, or with the
+ * run given as `?baseline=`, listing cases that regressed.
+ */
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; runId: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id, runId } = await context.params;
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    const baselineRunId =
+      request.nextUrl.searchParams.get('baseline') || undefined;
+    if (
+      !uuidRegex.test(id) ||
+      !uuidRegex.test(runId) ||
+      (baselineRunId && !uuidRegex.test(baselineRunId))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid ID format', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const suite = await getEvalSuiteById(id, user.id);
+    const run = suite && (await getEvalRunById(runId, id));
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Evaluation run not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const comparison =
+      run.status === 'COMPLETED'
+        ? await evaluationRunner.compareWithBaseline(run, baselineRunId)
+        : null;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...run,
+        costUsd: run.costUsd?.toNumber() ?? null,
+        comparison,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import {
+  getEvalRuns,
+  getEvalSuiteById,
+  getPromptById,
+} from '@/lib/database/queries';
+import { evaluationRunner } from '@/lib/evaluation/evaluation-runner';
+import { llmClient } from '@/lib/providers/llm-client';
+import { ModelRefSchema, providerRegistry } from '@/lib/providers/registry';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const StartRunSchema = z.object({
+  // Prompt version to score; defaults to the current version
+  version: z.number().int().min(1).optional(),
+  // Score a draft branch instead of a version
+  branch: z.string().optional(),
+  model: ModelRefSchema.optional(),
+  maxTokens: z.number().min(1).max(4000).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+});
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = await context.params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid evaluation suite ID format',
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const suite = await getEvalSuiteById(id, user.id);
+    if (!suite) {
+      return NextResponse.json(
+        { error: 'Evaluation suite not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const runs = await getEvalRuns(id);
+
+    return NextResponse.json({
+      runs: runs.map(run => ({
+        ...run,
+        costUsd: run.costUsd?.toNumber() ?? null,
+      })),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * Starts scoring a prompt version and model against the suite. Cases run
+ * on the execution queue; poll the run for scores.
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('EXECUTE');
+    const { id } = await context.params;
+
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid evaluation suite ID format',
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = StartRunSchema.parse(await request.json());
+
+    const suite = await getEvalSuiteById(id, user.id);
+    if (!suite) {
+      return NextResponse.json(
+        { error: 'Evaluation suite not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const prompt = await getPromptById(suite.promptId, user.id, 'run');
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const { ref: model } = providerRegistry.resolve(
+      data.model || prompt.model || llmClient.getDefaultConfig().model
+    );
+
+    const run = await evaluationRunner.startRun(user.id, suite, prompt, {
+      ...data,
+      model,
+    });
+
+    return NextResponse.json(
+      { ...run, costUsd: run.costUsd?.toNumber() ?? null },
+      { status: 202 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '../../../../../lib/auth/server';
+import { withRateLimit } from '../../../../../lib/security/rate-limiter';
+import {
+  cancelExecution,
+  getExecutionById,
+} from '../../../../../lib/database/queries';
+import { handleApiError } from '../../../../../lib/utils/error-handler';
+import { logger } from '../../../../../lib/monitoring/logger';
+import { executionRunner } from '../../../../../lib/execution/execution-runner';
+
+const CANCELLABLE_STATUSES = ['PENDING', 'RUNNING'];
+
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    // Authentication
+    const user = await requireAuth('EXECUTE');
+    const params = await context.params;
+    const { id: executionId } = params;
+
+    // Validate execution ID format (basic UUID validation)
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(executionId)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid execution ID format',
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Verify the execution exists and the user may run its prompt before
+    // cancelling
+    const execution = await getExecutionById(executionId, user.id, 'run');
+
+    if (!execution) {
+      return NextResponse.json(
+        {
+          error: 'Execution not found',
+          code: 'NOT_FOUND',
+        },
+        { status: 404 }
+      );
+    }
+
+    // The status can change between the read and the update, so the
+    // update checks it again
+    const cancelled =
+      CANCELLABLE_STATUSES.includes(execution.status) &&
+      (await cancelExecution(executionId, user.id));
+
+    if (!cancelled) {
+      return NextResponse.json(
+        {
+          error: 'Only pending or running executions can be cancelled',
+          code: 'VALIDATION_ERROR',
+          details: {
+            currentStatus: execution.status,
+            allowedStatuses: CANCELLABLE_STATUSES,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Stop the provider call now if this process is running it; other
+    // processes notice on their next heartbeat
+    const abortedLocally = executionRunner.cancel(executionId);
+
+    await logger.info(
+      'Execution cancelled',
+      {
+        promptId: execution.prompt.id,
+        userId: user.id,
+        previousStatus: execution.status,
+        abortedLocally,
+      },
+      executionId
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        executionId,
+        status: 'CANCELLED',
+        previousStatus: execution.status,
+      },
+    });
+  } catch (error) {
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,219 @@
+/**
+ * @jest-environment node
+ */
+import type { NextRequest } from 'next/server';
+import { prisma } from '@/lib/database/client';
+import { getExecutionById, getPromptById } from '@/lib/database/queries';
+import { budgetManager } from '@/lib/monitoring/budgets';
+import { promptVersionManager } from '@/lib/prompts/versioning';
+import { BudgetExceededError } from '@/lib/utils/error-handler';
+import { POST } from '../route';
+
+jest.mock('@/lib/auth/server', () => ({
+  requireAuth: jest.fn().mockResolvedValue({ id: 'user-1' }),
+}));
+
+jest.mock('@/lib/security/rate-limiter', () => ({
+  withRateLimit: <T>(handler: T): T => handler,
+}));
+
+jest.mock('@/lib/auth/access-control', () => ({
+  executionAccess: jest.fn(() => ({})),
+  promptAccess: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    execution: { findFirst: jest.fn(), create: jest.fn() },
+  },
+}));
+
+// Runs the real retryExecution against the mocked client
+jest.mock('@/lib/database/queries', () => ({
+  ...jest.requireActual('@/lib/database/queries'),
+  getExecutionById: jest.fn(),
+  getPromptById: jest.fn(),
+}));
+
+jest.mock('@/lib/monitoring/budgets', () => ({
+  budgetManager: {
+    reserve: jest.fn().mockResolvedValue([]),
+    estimateJobCost: jest.fn(() => 0.002),
+  },
+}));
+
+jest.mock('@/lib/prompts/versioning', () => ({
+  promptVersionManager: { loadVersion: jest.fn() },
+}));
+
+jest.mock('@/lib/providers/llm-client', () => ({
+  llmClient: {
+    getDefaultConfig: jest.fn(() => ({
+      model: 'openai:gpt-4o-mini',
+      maxTokens: 256,
+    })),
+  },
+}));
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn() },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const mockPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  execution: MockModel;
+};
+const mockLoadVersion = promptVersionManager.loadVersion as jest.Mock;
+
+const executionId = '7f9c2b1e-4d3a-4c5b-9e8f-0a1b2c3d4e5f';
+const variables = [{ name: 'name', type: 'string', required: true }];
+
+const failedExecution = {
+  id: executionId,
+  status: 'FAILED',
+  userId: 'user-1',
+  promptId: 'prompt-1',
+  inputs: { name: 'Ada' },
+  priority: 'NORMAL',
+  model: 'openai:gpt-4o-mini',
+  promptVersionId: 'version-1',
+  promptVersion: { version: 1 },
+  context: {
+    messages: [{ role: 'user', content: 'Hello Ada' }],
+    config: { model: 'openai:gpt-4o-mini', temperature: 0.2 },
+  },
+};
+
+const retry = (body: Record<string, unknown>): Promise<Response> =>
+  POST({ json: async () => body } as unknown as NextRequest, {
+    params: Promise.resolve({ id: executionId }),
+  });
+
+// Data the retried execution was created with
+const created = (): Record<string, unknown> =>
+  mockPrisma.execution.create.mock.calls[0][0].data;
+
+describe('POST /api/executions/[id]/retry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(callback => callback(prisma));
+    (getExecutionById as jest.Mock).mockResolvedValue({
+      ...failedExecution,
+      prompt: { id: 'prompt-1' },
+    });
+    (getPromptById as jest.Mock).mockResolvedValue({
+      id: 'prompt-1',
+      userId: 'user-1',
+      model: null,
+      version: 2,
+    });
+    mockPrisma.execution.findFirst.mockResolvedValue(failedExecution);
+    mockPrisma.execution.create.mockResolvedValue({ id: 'exec-2' });
+    mockLoadVersion.mockImplementation(async (_userId, _prompt, version) => ({
+      id: `version-${version}`,
+      template: version === 1 ? 'Hello {{name}}' : 'Bye {{name}}',
+      messages: [],
+      variables,
+      partials: {},
+    }));
+  });
+
+  it('queues the saved job again for the same version', async () => {
+    const response = await retry({ version: 'same' });
+
+    expect(response.status).toBe(200);
+    expect(mockLoadVersion).not.toHaveBeenCalled();
+    expect(created()).toMatchObject({
+      status: 'PENDING',
+      promptVersionId: 'version-1',
+      context: failedExecution.context,
+      queuedAt: expect.any(Date),
+      reservedCostUsd: 0.002,
+    });
+    expect(budgetManager.reserve).toHaveBeenCalledWith(
+      prisma,
+      'user-1',
+      'prompt-1',
+      0.002
+    );
+  });
+
+  it('records the API key the original execution was started with', async () => {
+    mockPrisma.execution.findFirst.mockResolvedValue({
+      ...failedExecution,
+      apiKeyId: 'key-1',
+    });
+
+    await retry({ version: 'same' });
+
+    expect(created()).toMatchObject({ apiKeyId: 'key-1' });
+  });
+
+  it('answers 402 when a budget has no room for the retry', async () => {
+    (budgetManager.reserve as jest.Mock).mockRejectedValueOnce(
+      new BudgetExceededError('Daily budget of $1.00 would be exceeded')
+    );
+
+    const response = await retry({ version: 'same' });
+
+    expect(response.status).toBe(402);
+    expect(mockPrisma.execution.create).not.toHaveBeenCalled();
+  });
+
+  it('renders the current version for the latest version', async () => {
+    await retry({ version: 'latest' });
+
+    expect(mockLoadVersion).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ id: 'prompt-1' }),
+      2
+    );
+    expect(created()).toMatchObject({
+      promptVersionId: 'version-2',
+      context: {
+        messages: [{ role: 'user', content: 'Bye Ada' }],
+        config: failedExecution.context.config,
+      },
+      queuedAt: expect.any(Date),
+    });
+  });
+
+  it('re-renders the pinned version when no job was saved', async () => {
+    mockPrisma.execution.findFirst.mockResolvedValue({
+      ...failedExecution,
+      context: null,
+    });
+
+    await retry({ version: 'same' });
+
+    expect(mockLoadVersion).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ id: 'prompt-1' }),
+      1
+    );
+    expect(created()).toMatchObject({
+      promptVersionId: 'version-1',
+      context: {
+        messages: [{ role: 'user', content: 'Hello Ada' }],
+        config: { model: 'openai:gpt-4o-mini' },
+      },
+      queuedAt: expect.any(Date),
+    });
+  });
+
+  it('answers 409 when there is neither a job nor a version to run', async () => {
+    mockPrisma.execution.findFirst.mockResolvedValue({
+      ...failedExecution,
+      context: null,
+      promptVersionId: null,
+      promptVersion: null,
+    });
+
+    const response = await retry({ version: 'same' });
+
+    expect(response.status).toBe(409);
+    expect(mockPrisma.execution.create).not.toHaveBeenCalled();
+  });
+});
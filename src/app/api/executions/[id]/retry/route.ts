@@ -1,20 +1,90 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { requireAuth } from '../../../../../lib/auth/server';
+import { withRateLimit } from '../../../../../lib/security/rate-limiter';
 import {
   retryExecution,
   getExecutionById,
+  getPromptById,
 } from '../../../../../lib/database/queries';
-import { handleApiError } from '../../../../../lib/utils/error-handler';
+import {
+  handleApiError,
+  NotFoundError,
+  ValidationError,
+} from '../../../../../lib/utils/error-handler';
 import { logger } from '../../../../../lib/monitoring/logger';
 import { executionErrorHandler } from '../../../../../lib/execution/error-handler';
+import { llmClient } from '../../../../../lib/providers/llm-client';
+import { templateEngine } from '../../../../../lib/prompts/template-engine';
+import { promptVersionManager } from '../../../../../lib/prompts/versioning';
+import type { PromptMessage } from '../../../../../types/database';
+
+const RetryExecutionSchema = z.object({
+  // Re-run the prompt version the execution used, or the current one
+  version: z.enum(['same', 'latest']).default('same'),
+});
+
+/**
+ * Renders the execution's inputs with a version of its prompt, the
+ * current one by default
+ */
+async function renderVersion(
+  userId: string,
+  promptId: string,
+  inputs: Record<string, unknown>,
+  model: string | null | undefined,
+  versionNumber?: number
+): Promise<{ promptVersionId: string; messages: PromptMessage[] }> {
+  const prompt = await getPromptById(promptId, userId, 'run');
+  if (!prompt) {
+    throw new NotFoundError('Prompt');
+  }
+
+  const number = versionNumber ?? prompt.version;
+  const version = await promptVersionManager.loadVersion(
+    prompt.userId,
+    prompt,
+    number
+  );
+  const defaults = llmClient.getDefaultConfig();
+  const { result, usage } = templateEngine.fitToContextWindow(
+    version.template,
+    inputs,
+    version.variables,
+    {
+      partials: version.partials,
+      messages: version.messages,
+      model: model || prompt.model || defaults.model,
+      maxTokens: defaults.maxTokens,
+      overflow: 'reject',
+    }
+  );
+
+  if (!result.isValid) {
+    throw new ValidationError(
+      `The inputs do not match version ${number} of the prompt`,
+      {
+        missingVariables: result.missingVariables,
+        invalidVariables: result.invalidVariables,
+      }
+    );
+  }
+  if (!usage.fits) {
+    throw new ValidationError(
+      `Version ${number} of the prompt exceeds the model context window`
+    );
+  }
+
+  return { promptVersionId: version.id, messages: result.messages };
+}
 
-export async function POST(
+export const POST = withRateLimit(async function POST(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   try {
     // Authentication
-    const user = await requireAuth();
+    const user = await requireAuth('EXECUTE');
     const params = await context.params;
     const { id: executionId } = params;
 
@@ -31,8 +101,13 @@ export async function POST(
       );
     }
 
-    // Verify the execution exists and belongs to the user before retrying
-    const originalExecution = await getExecutionById(executionId, user.id);
+    // Verify the execution exists and the user may run its prompt before
+    // retrying
+    const originalExecution = await getExecutionById(
+      executionId,
+      user.id,
+      'run'
+    );
 
     if (!originalExecution) {
       return NextResponse.json(
@@ -84,8 +159,24 @@ export async function POST(
       }
     }
 
-    // Create retry execution
-    const newExecution = await retryExecution(executionId, user.id);
+    const { version } = RetryExecutionSchema.parse(
+      await request.json().catch(() => ({}))
+    );
+
+    // Create retry execution, rendering the latest version if asked to
+    const newExecution = await retryExecution(
+      executionId,
+      user.id,
+      version,
+      versionNumber =>
+        renderVersion(
+          user.id,
+          originalExecution.prompt.id,
+          originalExecution.inputs || {},
+          originalExecution.model,
+          versionNumber
+        )
+    );
 
     // Log the retry action
     await logger.info('Execution retry initiated', {
@@ -93,6 +184,7 @@ export async function POST(
       newExecutionId: newExecution.id,
       promptId: originalExecution.prompt.id,
       userId: user.id,
+      version,
     });
 
     return NextResponse.json({
@@ -100,6 +192,7 @@ export async function POST(
       data: {
         newExecutionId: newExecution.id,
         originalExecutionId: executionId,
+        version,
         message: 'Execution retry initiated successfully',
       },
     });
@@ -110,7 +203,21 @@ export async function POST(
       userId: 'unknown',
     });
 
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
     const apiError = handleApiError(error);
     return NextResponse.json(apiError, { status: apiError.statusCode });
   }
-}
+});
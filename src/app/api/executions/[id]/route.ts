@@ -1,15 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '../../../../lib/auth/server';
+import { withRateLimit } from '../../../../lib/security/rate-limiter';
 import { getExecutionById } from '../../../../lib/database/queries';
 import { handleApiError } from '../../../../lib/utils/error-handler';
 
-export async function GET(
+export const GET = withRateLimit(async function GET(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   try {
     // Authentication
-    const user = await requireAuth();
+    const user = await requireAuth('PROMPTS_READ');
     const params = await context.params;
     const { id: executionId } = params;
 
@@ -53,4 +54,4 @@ export async function GET(
     const apiError = handleApiError(error);
     return NextResponse.json(apiError, { status: apiError.statusCode });
   }
-}
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireAuth } from '../../../lib/auth/server';
+import { withRateLimit } from '../../../lib/security/rate-limiter';
 import {
   getExecutionHistory,
   type ExecutionFilters,
@@ -18,9 +19,11 @@ const ExecutionsQuerySchema = z.object({
   to: z.string().optional(),
 });
 
-export async function GET(request: NextRequest): Promise<NextResponse> {
+export const GET = withRateLimit(async function GET(
+  request: NextRequest
+): Promise<NextResponse> {
   try {
-    const user = await requireAuth();
+    const user = await requireAuth('PROMPTS_READ');
     const { searchParams } = new URL(request.url);
 
     const query = ExecutionsQuerySchema.parse({
@@ -71,4 +74,4 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const apiError = handleApiError(error);
     return NextResponse.json(apiError, { status: apiError.statusCode });
   }
-}
+});
@@ -1,22 +1,26 @@
 import { NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
 
 // Simple health check without database dependency
-export async function GET(): Promise<NextResponse> {
-  const health = {
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    environment: process.env.NODE_ENV || 'development',
-    uptime: process.uptime(),
-    services: {
-      openai: !!process.env.OPENAI_API_KEY ? 'configured' : 'missing',
-      supabase: !!(
-        process.env.NEXT_PUBLIC_SUPABASE_URL &&
-        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-      )
-        ? 'configured'
-        : 'missing',
-    },
-  };
+export const GET = withRateLimit(
+  async function GET(): Promise<NextResponse> {
+    const health = {
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      environment: process.env.NODE_ENV || 'development',
+      uptime: process.uptime(),
+      services: {
+        openai: !!process.env.OPENAI_API_KEY ? 'configured' : 'missing',
+        supabase: !!(
+          process.env.NEXT_PUBLIC_SUPABASE_URL &&
+          process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+        )
+          ? 'configured'
+          : 'missing',
+      },
+    };
 
-  return NextResponse.json(health, { status: 200 });
-}
+    return NextResponse.json(health, { status: 200 });
+  },
+  { anonymous: true }
+);
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/server';
+import { workspaceManager } from '@/lib/auth/workspaces';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+/**
+ * Accepts a workspace invitation as the signed-in user
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    const workspace = await workspaceManager.acceptInvitation(
+      params.token,
+      user.id
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'workspace.invitation_accept',
+      targetId: workspace.id,
+      workspaceId: workspace.id,
+      after: { userId: user.id, role: workspace.role },
+    });
+
+    return NextResponse.json(workspace);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import type { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/server';
+import { getPromptById } from '@/lib/database/queries';
+import { MemoryRateLimitStore, RateLimiter } from '@/lib/security/rate-limiter';
+import { ForbiddenError } from '@/lib/utils/error-handler';
+import { DELETE, GET, PUT } from '../route';
+
+jest.mock('@/lib/auth/server', () => ({
+  requireAuth: jest.fn(),
+}));
+
+jest.mock('@/lib/database/queries', () => ({
+  getPromptById: jest.fn(),
+  updatePrompt: jest.fn(),
+  deletePrompt: jest.fn(),
+}));
+
+const mockRequireAuth = requireAuth as jest.Mock;
+const mockGetPromptById = getPromptById as jest.Mock;
+
+const promptId = '7f9c2b1e-4d3a-4c5b-9e8f-0a1b2c3d4e5f';
+const context = { params: Promise.resolve({ id: promptId }) };
+const request = {
+  json: async () => ({ title: 'Renamed' }),
+} as unknown as NextRequest;
+
+describe('/api/prompts/[id]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetPromptById.mockResolvedValue({ id: promptId, userId: 'user-1' });
+
+    // The plan's request quota is used up
+    const limiter = new RateLimiter(new MemoryRateLimitStore());
+    mockRequireAuth.mockImplementation(async () => {
+      await limiter.enforce('user:user-1:requests', {
+        limit: 0,
+        windowMs: 60_000,
+      });
+      return { id: 'user-1' };
+    });
+  });
+
+  it.each([
+    ['GET', GET],
+    ['PUT', PUT],
+    ['DELETE', DELETE],
+  ])('should return 429 with Retry-After from %s', async (_method, handler) => {
+    const response = await handler(request, context);
+    const data = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(data.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+  });
+
+  it('should return 403 when access is denied', async () => {
+    mockRequireAuth.mockResolvedValue({ id: 'user-1' });
+    mockGetPromptById.mockRejectedValue(new ForbiddenError('No access'));
+
+    const response = await GET(request, context);
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getBatchesForPrompt, getPromptById } from '@/lib/database/queries';
+import {
+  detectDatasetFormat,
+  parseDataset,
+} from '@/lib/datasets/dataset-parser';
+import { batchRunner } from '@/lib/execution/batch-runner';
+import { llmClient } from '@/lib/providers/llm-client';
+import { ModelRefSchema, providerRegistry } from '@/lib/providers/registry';
+import { handleApiError, ValidationError } from '@/lib/utils/error-handler';
+
+const MAX_DATASET_BYTES = 10 * 1024 * 1024;
+const MAX_DATASET_ROWS = 10000;
+
+// Multipart fields arrive as strings
+const CreateBatchSchema = z
+  .object({
+    name: z.string().min(1).max(100).optional(),
+    model: ModelRefSchema.optional(),
+    maxTokens: z.coerce.number().int().min(1).max(4000).optional(),
+    temperature: z.coerce.number().min(0).max(2).optional(),
+    priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'CRITICAL']).default('LOW'),
+    // Row executions queued or running at once
+    concurrency: z.coerce.number().int().min(1).max(50).default(2),
+    costCapUsd: z.coerce.number().positive().optional(),
+    // JSON object of prompt variable name -> dataset column
+    mapping: z
+      .string()
+      .transform((value, ctx) => {
+        try {
+          return JSON.parse(value) as unknown;
+        } catch {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Invalid JSON',
+          });
+          return z.NEVER;
+        }
+      })
+      .pipe(z.record(z.string().min(1)))
+      .optional(),
+    contextOverflow: z.enum(['reject', 'truncate']).default('reject'),
+    // Run a version or the version a label points at instead of the live one
+    version: z.coerce.number().int().positive().optional(),
+    label: z.string().min(1).optional(),
+  })
+  .refine(data => !(data.version && data.label), {
+    message: 'Specify at most one of version and label',
+  });
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = params;
+
+    const prompt = await getPromptById(id, user.id);
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const batches = await getBatchesForPrompt(id, user.id);
+
+    return NextResponse.json({ batches });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * Starts a batch from a multipart upload: `file` is a CSV or JSONL
+ * dataset, the other fields configure the batch
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth('EXECUTE');
+    const { id } = params;
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof Blob)) {
+      throw new ValidationError('A dataset file is required');
+    }
+    if (file.size > MAX_DATASET_BYTES) {
+      throw new ValidationError(
+        `Dataset files are limited to ${MAX_DATASET_BYTES / 1024 / 1024}MB`
+      );
+    }
+
+    const fileName = file instanceof File ? file.name : '';
+    const format = detectDatasetFormat(fileName, file.type);
+    if (!format) {
+      throw new ValidationError('Dataset must be a .csv or .jsonl file');
+    }
+
+    const data = CreateBatchSchema.parse(
+      Object.fromEntries(
+        Array.from(formData.entries()).filter(
+          ([key, value]) => key !== 'file' && typeof value === 'string'
+        )
+      )
+    );
+
+    const prompt = await getPromptById(id, user.id, 'run');
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (prompt.status === 'ARCHIVED') {
+      return NextResponse.json(
+        { error: 'Cannot execute archived prompt', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const dataset = parseDataset(await file.text(), format);
+    if (dataset.rows.length > MAX_DATASET_ROWS) {
+      throw new ValidationError(
+        `Datasets are limited to ${MAX_DATASET_ROWS} rows`
+      );
+    }
+
+    const unknownColumns = Object.values(data.mapping || {}).filter(
+      column => !dataset.columns.includes(column)
+    );
+    if (unknownColumns.length > 0) {
+      throw new ValidationError(
+        'Mapping refers to columns not in the dataset',
+        {
+          unknownColumns,
+          columns: dataset.columns,
+        }
+      );
+    }
+
+    // Unconfigured providers fail before any execution record exists
+    const { ref: model } = providerRegistry.resolve(
+      data.model || prompt.model || llmClient.getDefaultConfig().model
+    );
+
+    const batch = await batchRunner.createBatch(user.id, prompt, dataset, {
+      ...data,
+      name: data.name || fileName || `${prompt.name} batch`,
+      model,
+    });
+
+    return NextResponse.json(
+      {
+        ...batch,
+        costCapUsd: batch.costCapUsd?.toNumber() ?? null,
+        progress: await batchRunner.getProgress(batch.id),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getPromptById } from '@/lib/database/queries';
+import {
+  auditActor,
+  auditLog,
+  promptSnapshot,
+} from '@/lib/monitoring/audit-log';
+import { promptBranchManager } from '@/lib/prompts/branches';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const MergeBranchSchema = z.object({
+  changeLog: z.string().max(500).optional(),
+});
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+/**
+ * Previews the merge: the merged content and any conflicts with changes
+ * made on the main line since the branch started
+ */
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; branch: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id, branch } = await context.params;
+
+    const data = await promptBranchManager.previewMerge(id, user.id, branch);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * Merges the branch as the next version. Conflicts answer 409 with the
+ * conflicting changes; resolve them on the branch, set its baseVersion
+ * to the current version and merge again.
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; branch: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id, branch } = await context.params;
+
+    const { changeLog } = MergeBranchSchema.parse(
+      await request.json().catch(() => ({}))
+    );
+
+    const before = await getPromptById(id, user.id);
+    const { prompt, newVersion } = await promptBranchManager.mergeBranch(
+      id,
+      user.id,
+      branch,
+      changeLog
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'prompt.branch_merge',
+      targetId: id,
+      workspaceId: prompt.workspaceId,
+      before: before && promptSnapshot(before),
+      after: { ...promptSnapshot(prompt), branch },
+    });
+
+    return NextResponse.json(
+      { success: true, data: { prompt, version: newVersion.version } },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
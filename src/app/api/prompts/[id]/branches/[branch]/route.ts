@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getPromptBranch } from '@/lib/database/queries';
+import { promptBranchManager } from '@/lib/prompts/branches';
+import { MessagesSchema, TemplateSchema } from '@/lib/prompts/prompt-schema';
+import { VariableDefinitionSchema } from '@/lib/prompts/variable-schema';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const UpdateBranchSchema = z.object({
+  template: TemplateSchema.optional(),
+  messages: MessagesSchema.optional(),
+  variables: z.array(VariableDefinitionSchema).optional(),
+  // Main-line version the content now builds on, after resolving conflicts
+  baseVersion: z.number().int().min(1).optional(),
+});
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+function notFoundResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Branch not found', code: 'NOT_FOUND' },
+    { status: 404 }
+  );
+}
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; branch: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id, branch: name } = await context.params;
+
+    const branch = await getPromptBranch(id, user.id, name);
+    if (!branch) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({ success: true, data: branch });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * Saves draft content without changing what runs on the main line
+ */
+export const PUT = withRateLimit(async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; branch: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id, branch: name } = await context.params;
+
+    const updates = UpdateBranchSchema.parse(await request.json());
+
+    const branch = await promptBranchManager.updateBranch(
+      id,
+      user.id,
+      name,
+      updates
+    );
+
+    return NextResponse.json({ success: true, data: branch });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; branch: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id, branch: name } = await context.params;
+
+    await promptBranchManager.deleteBranch(id, user.id, name);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
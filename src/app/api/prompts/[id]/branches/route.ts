@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getPromptBranches, getPromptById } from '@/lib/database/queries';
+import { promptBranchManager } from '@/lib/prompts/branches';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+// Lowercase names such as tone-experiment or fix_2
+const BranchNameSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9_-]{0,49}$/,
+    'Branch names are lowercase letters, digits, dashes and underscores'
+  );
+
+const CreateBranchSchema = z.object({
+  name: BranchNameSchema,
+  // Version to branch from; defaults to the current version
+  fromVersion: z.number().int().min(1).optional(),
+});
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+/**
+ * Lists a prompt's draft branches, newest first. `behind` marks open
+ * branches started before the current version.
+ */
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = await context.params;
+
+    const prompt = await getPromptById(id, user.id);
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const branches = await getPromptBranches(id, user.id);
+
+    return NextResponse.json({
+      branches: branches.map(branch => ({
+        ...branch,
+        behind: !branch.mergedAt && branch.baseVersion < prompt.version,
+      })),
+      currentVersion: prompt.version,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * Starts a draft branch with the content of a version
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id } = await context.params;
+
+    const { name, fromVersion } = CreateBranchSchema.parse(
+      await request.json()
+    );
+
+    const branch = await promptBranchManager.createBranch(
+      id,
+      user.id,
+      name,
+      fromVersion
+    );
+
+    return NextResponse.json(branch, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import {
+  getComparisonRunsForPrompt,
+  getPromptById,
+} from '@/lib/database/queries';
+import { comparisonRunner } from '@/lib/execution/comparison-runner';
+import { llmClient } from '@/lib/providers/llm-client';
+import { ModelRefSchema, providerRegistry } from '@/lib/providers/registry';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const ComparisonSideSchema = z.object({
+  // Prompt version to run; defaults to the current version
+  version: z.number().int().min(1).optional(),
+  model: ModelRefSchema.optional(),
+});
+
+const StartComparisonSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  a: ComparisonSideSchema,
+  b: ComparisonSideSchema,
+  inputs: z.array(z.record(z.unknown())).min(1).max(100),
+  maxTokens: z.number().min(1).max(4000).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+});
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = params;
+
+    const prompt = await getPromptById(id, user.id);
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const comparisons = await getComparisonRunsForPrompt(id, user.id);
+    const statuses = await comparisonRunner.getStatuses(
+      comparisons.map(comparison => comparison.id)
+    );
+
+    return NextResponse.json({
+      comparisons: comparisons.map(comparison => ({
+        ...comparison,
+        status: statuses.get(comparison.id),
+      })),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * Runs two versions of the prompt, or one version on two models, over the
+ * same inputs. Rows run on the execution queue; poll the comparison for
+ * results.
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth('EXECUTE');
+    const { id } = params;
+
+    const data = StartComparisonSchema.parse(await request.json());
+
+    const prompt = await getPromptById(id, user.id, 'run');
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const resolveSide = (
+      side: z.infer<typeof ComparisonSideSchema>
+    ): { version: number; model: string } => ({
+      version: side.version ?? prompt.version,
+      model: providerRegistry.resolve(
+        side.model || prompt.model || llmClient.getDefaultConfig().model
+      ).ref,
+    });
+    const a = resolveSide(data.a);
+    const b = resolveSide(data.b);
+
+    if (a.version === b.version && a.model === b.model) {
+      return NextResponse.json(
+        {
+          error: 'Both sides use the same version and model',
+          code: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await comparisonRunner.startComparison(user.id, prompt, {
+      ...data,
+      a,
+      b,
+    });
+
+    return NextResponse.json(
+      { ...comparison, status: 'RUNNING' },
+      { status: 202 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import {
+  createEvalSuite,
+  getEvalSuitesForPrompt,
+  getPromptById,
+} from '@/lib/database/queries';
+import {
+  EvalCaseListSchema,
+  EvaluatorListSchema,
+} from '@/lib/evaluation/evaluators';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const CreateEvalSuiteSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  evaluators: EvaluatorListSchema,
+  cases: EvalCaseListSchema,
+});
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = params;
+
+    const prompt = await getPromptById(id, user.id);
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const suites = await getEvalSuitesForPrompt(id, user.id);
+
+    return NextResponse.json({
+      suites: suites.map(({ runs, _count, ...suite }) => ({
+        ...suite,
+        caseCount: _count.cases,
+        latestRun: runs[0]
+          ? { ...runs[0], costUsd: runs[0].costUsd?.toNumber() ?? null }
+          : null,
+      })),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+    const { id } = params;
+    const body = await request.json();
+
+    const data = CreateEvalSuiteSchema.parse(body);
+
+    const prompt = await getPromptById(id, user.id, 'edit');
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const suite = await createEvalSuite(user.id, id, data);
+
+    return NextResponse.json(
+      { ...suite, caseCount: data.cases.length },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
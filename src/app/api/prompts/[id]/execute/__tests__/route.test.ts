@@ -0,0 +1,225 @@
+/**
+ * @jest-environment node
+ */
+import type { NextRequest } from 'next/server';
+import { prisma } from '@/lib/database/client';
+import { getPromptBranch, getPromptById } from '@/lib/database/queries';
+import { executionQueue } from '@/lib/execution/job-queue';
+import { POST } from '../route';
+
+jest.mock('@/lib/auth/server', () => ({
+  requireAuth: jest.fn().mockResolvedValue({ id: 'user-1' }),
+}));
+
+jest.mock('@/lib/security/rate-limiter', () => ({
+  withRateLimit: <T>(handler: T): T => handler,
+}));
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    promptVersion: { findUnique: jest.fn(), upsert: jest.fn() },
+    promptLabel: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/database/queries', () => ({
+  getPromptById: jest.fn(),
+  getPromptBranch: jest.fn(),
+  createExecution: jest.fn(async (_userId, _promptId, data) => ({
+    id: 'exec-1',
+    status: 'PENDING',
+    createdAt: new Date(),
+    startedAt: null,
+    leaseOwner: null,
+    ...data,
+  })),
+  updateExecution: jest.fn(),
+}));
+
+jest.mock('@/lib/prompts/snippets', () => ({
+  snippetLibrary: {
+    resolveForTemplate: jest.fn().mockResolvedValue({
+      partials: {},
+      snippetVersions: {},
+    }),
+    loadPinnedPartials: jest.fn().mockResolvedValue({}),
+  },
+}));
+
+jest.mock('@/lib/providers/registry', () => ({
+  ...jest.requireActual('@/lib/providers/registry'),
+  providerRegistry: {
+    resolve: jest.fn(() => ({ ref: 'openai:gpt-4o-mini' })),
+  },
+}));
+
+jest.mock('@/lib/providers/llm-client', () => ({
+  llmClient: {
+    getDefaultConfig: jest.fn(() => ({
+      model: 'openai:gpt-4o-mini',
+      maxTokens: 256,
+    })),
+  },
+}));
+
+jest.mock('@/lib/execution/job-queue', () => ({
+  executionQueue: {
+    enqueue: jest.fn(async (executionId: string) => ({
+      executionId,
+      status: 'PENDING',
+      estimatedTime: 0,
+    })),
+  },
+}));
+
+jest.mock('@/lib/execution/execution-runner', () => ({
+  executionRunner: {
+    fail: jest.fn(async (_execution, error) => {
+      throw error;
+    }),
+    classifyError: jest.fn(error => {
+      throw error;
+    }),
+  },
+}));
+
+jest.mock('@/lib/monitoring/budgets', () => ({
+  budgetManager: { reserveExecution: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('@/lib/monitoring/cost-tracker', () => ({
+  costTracker: { calculateProviderCost: jest.fn().mockReturnValue(0) },
+}));
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: { logExecutionStart: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/lib/webhooks/webhook-manager', () => ({
+  webhookManager: { dispatch: jest.fn() },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const mockPrisma = prisma as unknown as {
+  promptVersion: MockModel;
+  promptLabel: MockModel;
+};
+const mockGetPromptById = getPromptById as jest.Mock;
+const mockGetPromptBranch = getPromptBranch as jest.Mock;
+const mockEnqueue = executionQueue.enqueue as jest.Mock;
+
+const variables = [{ name: 'name', type: 'string', required: true }];
+
+// Published at version 1, then edited to version 2
+const prompt = {
+  id: 'prompt-1',
+  userId: 'user-1',
+  name: 'Greeting',
+  status: 'PUBLISHED',
+  model: null,
+  version: 2,
+  liveVersion: 1,
+  template: 'Bye {{name}}',
+  messages: [],
+  variables,
+};
+
+const storedVersions: Record<number, object> = {
+  1: {
+    id: 'version-1',
+    version: 1,
+    template: 'Hello {{name}}',
+    messages: [],
+    variables,
+    snippetVersions: {},
+  },
+  2: {
+    id: 'version-2',
+    version: 2,
+    template: 'Bye {{name}}',
+    messages: [],
+    variables,
+    snippetVersions: {},
+  },
+};
+
+// jest.setup.js stubs the global Request, so hand the route its body directly
+const execute = (body: Record<string, unknown>): Promise<Response> =>
+  POST(
+    {
+      json: async () => ({ inputs: { name: 'Ada' }, queue: true, ...body }),
+    } as unknown as NextRequest,
+    { params: Promise.resolve({ id: 'prompt-1' }) }
+  );
+
+// Content of the job the execution was queued with
+const queuedContent = (): string =>
+  mockEnqueue.mock.calls[0][1].messages
+    .map((message: { content: string }) => message.content)
+    .join('\n');
+
+describe('POST /api/prompts/[id]/execute', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetPromptById.mockResolvedValue(prompt);
+    mockPrisma.promptVersion.findUnique.mockImplementation(
+      async ({ where }) =>
+        storedVersions[where.promptId_version.version] ?? null
+    );
+  });
+
+  it('runs the live version, not edits made after publishing', async () => {
+    const response = await execute({});
+
+    expect(response.status).toBe(202);
+    expect(queuedContent()).toBe('Hello Ada');
+  });
+
+  it('runs a version asked for by number or label', async () => {
+    await execute({ version: 2 });
+    expect(queuedContent()).toBe('Bye Ada');
+
+    mockEnqueue.mockClear();
+    mockPrisma.promptLabel.findUnique.mockResolvedValue({ version: 1 });
+    await execute({ label: 'production' });
+    expect(mockPrisma.promptLabel.findUnique).toHaveBeenCalledWith({
+      where: { promptId_name: { promptId: 'prompt-1', name: 'production' } },
+    });
+    expect(queuedContent()).toBe('Hello Ada');
+  });
+
+  it('runs the current version until the prompt is published', async () => {
+    mockGetPromptById.mockResolvedValue({
+      ...prompt,
+      status: 'DRAFT',
+      liveVersion: null,
+    });
+
+    await execute({});
+
+    expect(queuedContent()).toBe('Bye Ada');
+  });
+
+  it('answers 404 for unknown labels', async () => {
+    mockPrisma.promptLabel.findUnique.mockResolvedValue(null);
+
+    const response = await execute({ label: 'staging' });
+
+    expect(response.status).toBe(404);
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  it('refuses to run branches that were merged', async () => {
+    mockGetPromptBranch.mockResolvedValue({
+      id: 'branch-1',
+      name: 'friendlier',
+      mergedAt: new Date(),
+      mergedVersion: 2,
+    });
+
+    const response = await execute({ branch: 'friendlier' });
+
+    expect(response.status).toBe(409);
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+});
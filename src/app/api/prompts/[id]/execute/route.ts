@@ -1,45 +1,106 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireAuth } from '../../../../../lib/auth/server';
+import { withRateLimit } from '../../../../../lib/security/rate-limiter';
 import {
   getPromptById,
+  getPromptBranch,
   createExecution,
   updateExecution,
 } from '../../../../../lib/database/queries';
-import { openAIClient } from '../../../../../lib/openai/client';
+import { executionQueue } from '../../../../../lib/execution/job-queue';
+import {
+  llmClient,
+  type LLMRequestConfig,
+} from '../../../../../lib/providers/llm-client';
+import {
+  ModelRefSchema,
+  providerRegistry,
+} from '../../../../../lib/providers/registry';
 import { templateEngine } from '../../../../../lib/prompts/template-engine';
-import { schemaValidator } from '../../../../../lib/validation/schema-validator';
+import { snippetLibrary } from '../../../../../lib/prompts/snippets';
+import { promptVersionManager } from '../../../../../lib/prompts/versioning';
 import { logger } from '../../../../../lib/monitoring/logger';
+import { costTracker } from '../../../../../lib/monitoring/cost-tracker';
 import {
-  executionErrorHandler,
-  ExecutionError,
-} from '../../../../../lib/execution/error-handler';
-
-const ExecutePromptSchema = z.object({
-  inputs: z.record(z.unknown()),
-  model: z.enum(['gpt-3.5-turbo', 'gpt-4']).optional(),
-  maxTokens: z.number().min(1).max(4000).optional(),
-  temperature: z.number().min(0).max(2).optional(),
-});
+  budgetManager,
+  type BudgetWarning,
+} from '../../../../../lib/monitoring/budgets';
+import type { ExecutionError } from '../../../../../lib/execution/error-handler';
+import { executionRunner } from '../../../../../lib/execution/execution-runner';
+import { webhookManager } from '../../../../../lib/webhooks/webhook-manager';
+import {
+  BudgetExceededError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+} from '../../../../../lib/utils/error-handler';
+import {
+  formatServerSentEvent,
+  SSE_HEADERS,
+} from '../../../../../lib/utils/sse';
+import type {
+  PromptMessage,
+  VariableDefinition,
+} from '../../../../../types/database';
+
+const ExecutePromptSchema = z
+  .object({
+    inputs: z.record(z.unknown()),
+    // `provider:model`; falls back to the prompt's model, then the default
+    model: ModelRefSchema.optional(),
+    maxTokens: z.number().min(1).max(4000).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    // What to do when prompt + maxTokens exceeds the model's context window
+    contextOverflow: z.enum(['reject', 'truncate']).default('reject'),
+    // Respond with Server-Sent Events as the output is generated
+    stream: z.boolean().default(false),
+    priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'CRITICAL']).default('NORMAL'),
+    // Respond 202 at once and leave the execution to a queue worker
+    queue: z.boolean().default(false),
+    // Run a draft branch, a version or the version a label points at
+    // instead of the live version (the current one until it is published)
+    branch: z.string().optional(),
+    version: z.number().int().positive().optional(),
+    label: z.string().min(1).optional(),
+  })
+  .refine(
+    data => [data.branch, data.version, data.label].filter(Boolean).length <= 1,
+    { message: 'Specify at most one of branch, version and label' }
+  );
+
+const EXECUTION_ERROR_STATUS: Record<ExecutionError['type'], number> = {
+  VALIDATION_ERROR: 400,
+  RATE_LIMIT: 429,
+  TIMEOUT: 408,
+  API_ERROR: 500,
+  CANCELLED: 409,
+};
 
-export async function POST(
+export const POST = withRateLimit(async function POST(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   const params = await context.params;
   const { id: promptId } = params;
 
-  let execution: { id: string; status: string; startedAt: Date | null } | null =
-    null;
+  let execution: {
+    id: string;
+    status: string;
+    createdAt: Date;
+    startedAt: Date | null;
+    leaseOwner: string | null;
+  } | null = null;
 
   try {
     // Authentication
-    const user = await requireAuth();
+    const user = await requireAuth('EXECUTE');
     const body = await request.json();
     const data = ExecutePromptSchema.parse(body);
 
     // Get and validate prompt
-    const prompt = await getPromptById(promptId, user.id);
+    const prompt = await getPromptById(promptId, user.id, 'run');
     if (!prompt) {
       return NextResponse.json(
         { error: 'Prompt not found', code: 'NOT_FOUND' },
@@ -55,11 +116,50 @@ export async function POST(
       );
     }
 
+    // Resolve the provider up front so unconfigured providers fail before
+    // an execution record exists
+    const defaults = llmClient.getDefaultConfig();
+    const { ref: modelRef } = providerRegistry.resolve(
+      data.model || prompt.model || defaults.model
+    );
+
+    // Draft branches run their own content
+    const branch = data.branch
+      ? await getPromptBranch(promptId, user.id, data.branch)
+      : null;
+    if (data.branch && !branch) {
+      return NextResponse.json(
+        { error: 'Branch not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+    if (branch?.mergedAt) {
+      return NextResponse.json(
+        {
+          error: `Branch ${branch.name} was merged into version ${branch.mergedVersion}`,
+          code: 'CONFLICT',
+        },
+        { status: 409 }
+      );
+    }
+    // Published prompts run their live version, so edits made since only
+    // run once they are published or asked for
+    const source =
+      branch ??
+      (await promptVersionManager.loadForExecution(prompt, {
+        version: data.version,
+        label: data.label,
+      }));
+    const promptVersion = 'partials' in source ? source : null;
+
     // Create execution record
     const executionData = {
       inputs: data.inputs,
-      model: data.model || 'gpt-3.5-turbo',
-      priority: 'NORMAL' as const,
+      model: modelRef,
+      priority: data.priority,
+      promptVersionId: promptVersion?.id,
+      promptBranchId: branch?.id,
+      apiKeyId: user.apiKey?.id,
     };
 
     execution = await createExecution(user.id, promptId, executionData);
@@ -69,30 +169,44 @@ export async function POST(
       promptId,
       userId: user.id,
       inputs: data.inputs,
-      priority: 'NORMAL',
-      model: data.model,
-    });
-
-    // Update to RUNNING status
-    await updateExecution(execution.id, {
-      status: 'RUNNING',
-      startedAt: new Date(),
+      priority: data.priority,
+      model: modelRef,
     });
 
     // Process template with variables
-    const variableDefinitions = Array.isArray(prompt.variables)
-      ? (prompt.variables as Array<{
-          name: string;
-          type: 'string' | 'number' | 'boolean' | 'array';
-          required: boolean;
-          description?: string;
-        }>)
+    const variableDefinitions = Array.isArray(source.variables)
+      ? (source.variables as unknown as VariableDefinition[])
+      : [];
+    const promptMessages = Array.isArray(source.messages)
+      ? (source.messages as unknown as PromptMessage[])
       : [];
 
-    const templateResult = templateEngine.processTemplate(
-      prompt.template,
+    // Templates include their author's snippets, whoever runs them;
+    // stored versions the snippet versions they were saved with
+    const { partials } = promptVersion
+      ? promptVersion
+      : await snippetLibrary.resolveForTemplate(
+          [source.template, ...promptMessages.map(message => message.content)],
+          prompt.userId
+        );
+
+    // Pre-flight: prompt plus requested completion must fit the context
+    // window, optionally by truncating the largest text inputs
+    const {
+      result: templateResult,
+      usage: contextUsage,
+      truncatedVariables,
+    } = templateEngine.fitToContextWindow(
+      source.template,
       data.inputs,
-      variableDefinitions
+      variableDefinitions,
+      {
+        partials,
+        messages: promptMessages,
+        model: modelRef,
+        maxTokens: data.maxTokens || defaults.maxTokens,
+        overflow: data.contextOverflow,
+      }
     );
 
     if (!templateResult.isValid) {
@@ -103,155 +217,171 @@ export async function POST(
 
       return NextResponse.json(
         {
-          error: 'Required variables missing',
+          error:
+            templateResult.missingVariables.length > 0
+              ? 'Required variables missing'
+              : 'Invalid variable values',
           code: 'VALIDATION_ERROR',
-          details: { missingVariables: templateResult.missingVariables },
+          details: {
+            missingVariables: templateResult.missingVariables,
+            invalidVariables: templateResult.invalidVariables,
+          },
         },
         { status: 400 }
       );
     }
 
-    // Execute with OpenAI using error handler and retry logic
-    const startTime = Date.now();
-    let attemptCount = 0;
+    if (!contextUsage.fits) {
+      await updateExecution(execution.id, {
+        status: 'FAILED',
+        completedAt: new Date(),
+      });
 
-    if (!execution) {
-      throw new Error('Execution not created');
+      return NextResponse.json(
+        {
+          error: `Prompt (${contextUsage.promptTokens} tokens) plus maxTokens (${contextUsage.maxTokens}) exceeds the ${contextUsage.contextWindow}-token context window of ${contextUsage.model}`,
+          code: 'CONTEXT_WINDOW_EXCEEDED',
+          details: {
+            ...contextUsage,
+            truncatedVariables,
+          },
+        },
+        { status: 400 }
+      );
     }
 
-    const executionId = execution.id; // Extract ID to avoid null issues in callbacks
+    // Spend caps: the estimate assumes the full maxTokens of output, so an
+    // execution is refused if it could take spend past a budget. The
+    // estimate counts as spend until the execution records its cost.
+    const estimatedCostUsd = costTracker.calculateProviderCost(
+      {
+        inputTokens: contextUsage.promptTokens,
+        outputTokens: contextUsage.maxTokens,
+      },
+      modelRef
+    );
+    let budgetWarnings: BudgetWarning[];
+    try {
+      budgetWarnings = await budgetManager.reserveExecution(
+        user.id,
+        promptId,
+        execution.id,
+        estimatedCostUsd
+      );
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error;
 
-    const aiResult = await executionErrorHandler.executeWithRetry(
-      executionId,
-      async () => {
-        attemptCount++;
+      await updateExecution(execution.id, {
+        status: 'FAILED',
+        completedAt: new Date(),
+      });
 
-        // Note: Retry count tracking would be implemented via logs/metadata
-        // The retryCount field doesn't exist in the current Execution model
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
 
-        return await openAIClient.executePrompt(
-          templateResult.processedTemplate,
-          {
-            model: data.model,
-            maxTokens: data.maxTokens,
-            temperature: data.temperature,
-          },
-          executionId
-        );
-      },
-      async (attempt, delay) => {
-        // Log retry attempt
-        await logger.info('Execution retry attempt', {
-          executionId,
-          attempt,
-          delayMs: delay,
-          totalAttempts: attemptCount,
+    for (const warning of budgetWarnings) {
+      if (warning.crossedThreshold) {
+        await webhookManager.dispatch(user.id, 'budget.threshold', {
+          executionId: execution.id,
+          promptId,
+          budget: warning,
         });
       }
-    );
+    }
 
-    const latencyMs = Date.now() - startTime;
+    const job = {
+      messages: templateResult.messages,
+      config: {
+        model: modelRef,
+        maxTokens: data.maxTokens,
+        temperature: data.temperature,
+      },
+    };
 
-    // Validate AI output against prompt's validation rules (if any)
-    let validationResult = null;
-    try {
-      validationResult = await schemaValidator.validateExecutionOutput(
+    // Streams hold the connection open, so they always run right away;
+    // other executions wait on the queue while it is at capacity
+    if (
+      data.queue ||
+      (!data.stream && !(await executionQueue.hasCapacity(data.priority)))
+    ) {
+      const queued = await executionQueue.enqueue(
         execution.id,
-        aiResult.output
-      );
-    } catch (validationError) {
-      // Log validation error but don't fail the execution
-      await logger.error(
-        'Output validation failed',
-        validationError,
-        {},
-        execution.id
+        job,
+        data.priority
       );
+      return NextResponse.json({ ...queued, budgetWarnings }, { status: 202 });
     }
 
-    // Update execution with successful results
-    await updateExecution(execution.id, {
-      status: 'COMPLETED',
-      output: aiResult.output,
-      validationStatus: validationResult?.validationStatus || 'SKIPPED',
-      latencyMs,
-      costUsd: aiResult.costUsd,
-      completedAt: new Date(),
-      tokenUsage: {
-        input: aiResult.tokenUsage.inputTokens,
-        output: aiResult.tokenUsage.outputTokens,
-        total: aiResult.tokenUsage.totalTokens,
-        model: aiResult.model,
-      },
-    });
+    // Lease the execution to this request; a heartbeat keeps the lease so
+    // a worker only takes it over if this process dies
+    execution = await executionQueue.claim(execution.id, job);
+    const executionId = execution.id;
+    const stopHeartbeat = executionQueue.keepAlive(executionId, () =>
+      executionRunner.cancel(executionId)
+    );
 
-    // Log successful completion
-    await logger.logExecutionComplete(execution.id, {
-      status: 'COMPLETED',
-      latencyMs,
-      tokenUsage: {
-        input: aiResult.tokenUsage.inputTokens,
-        output: aiResult.tokenUsage.outputTokens,
-        total: aiResult.tokenUsage.totalTokens,
-      },
-      costUsd: aiResult.costUsd,
-      validationStatus: validationResult?.validationStatus || 'SKIPPED',
-    });
+    if (data.stream) {
+      return streamExecution(request, execution, {
+        promptName: prompt.name,
+        inputs: data.inputs,
+        ...job,
+        truncatedVariables,
+        budgetWarnings,
+        onClose: stopHeartbeat,
+      });
+    }
+
+    // Execute with the selected provider using error handler and retry logic
+    let outcome;
+    try {
+      outcome = await executionRunner.run({
+        executionId: execution.id,
+        ...job,
+      });
+    } finally {
+      stopHeartbeat();
+    }
 
     // Return success response
     return NextResponse.json({
       executionId: execution.id,
       status: 'COMPLETED',
-      output: aiResult.output,
-      tokenUsage: {
-        inputTokens: aiResult.tokenUsage.inputTokens,
-        outputTokens: aiResult.tokenUsage.outputTokens,
-        totalTokens: aiResult.tokenUsage.totalTokens,
-      },
-      costUsd: aiResult.costUsd,
-      validationStatus: validationResult?.validationStatus || 'SKIPPED',
-      validationErrors: validationResult?.errors || [],
+      output: outcome.output,
+      tokenUsage: outcome.tokenUsage,
+      costUsd: outcome.costUsd,
+      validationStatus: outcome.validationStatus,
+      validationErrors: outcome.validationErrors,
+      truncatedVariables,
+      budgetWarnings,
     });
   } catch (error) {
-    // Process error through execution error handler
-    let executionError: ExecutionError;
-
-    // Check if this is a final error from retry handler
-    if (error && typeof error === 'object' && 'executionError' in error) {
-      executionError = (error as { executionError: ExecutionError })
-        .executionError;
-    } else {
-      executionError = executionErrorHandler.handleError(error);
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
     }
-
-    // Update execution status to FAILED if we have an execution record
-    if (execution) {
-      const latencyMs =
-        Date.now() - (execution.startedAt?.getTime() || Date.now());
-
-      await updateExecution(execution.id, {
-        status: 'FAILED',
-        completedAt: new Date(),
-        latencyMs,
-      });
-
-      await logger.logExecutionComplete(execution.id, {
-        status: 'FAILED',
-        latencyMs,
-        error: executionError.message,
-      });
+    if (
+      error instanceof ForbiddenError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError
+    ) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
     }
 
-    // Return error response based on execution error type
-    const statusCode =
-      executionError.type === 'VALIDATION_ERROR'
-        ? 400
-        : executionError.type === 'RATE_LIMIT'
-          ? 429
-          : executionError.type === 'TIMEOUT'
-            ? 408
-            : 500;
+    // Template syntax errors and circular snippet includes classify as
+    // non-retryable validation errors
+    const executionError = execution
+      ? await executionRunner.fail(execution, error)
+      : executionRunner.classifyError(error);
 
+    // Return error response based on execution error type
     return NextResponse.json(
       {
         error: executionError.message,
@@ -259,8 +389,111 @@ export async function POST(
         retryable: executionError.retryable,
         retryAfter: executionError.retryAfter,
         executionId: execution?.id,
+        ...(error instanceof ValidationError && { details: error.details }),
       },
-      { status: statusCode }
+      { status: EXECUTION_ERROR_STATUS[executionError.type] }
     );
   }
+});
+
+/**
+ * Runs the execution while streaming Server-Sent Events: `started`, then
+ * `delta` for each piece of output (`retry` means start the output over),
+ * and finally `usage`, `validation` and `completed`, or `failed`. Closing
+ * the connection cancels the execution.
+ */
+function streamExecution(
+  request: NextRequest,
+  execution: {
+    id: string;
+    createdAt: Date;
+    startedAt: Date | null;
+    leaseOwner: string | null;
+  },
+  run: {
+    promptName: string;
+    inputs: Record<string, unknown>;
+    messages: PromptMessage[];
+    config: Partial<LLMRequestConfig>;
+    truncatedVariables: string[];
+    budgetWarnings: BudgetWarning[];
+    onClose: () => void;
+  }
+): NextResponse {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal.addEventListener('abort', () => abortController.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller): Promise<void> {
+      let open = true;
+      const send = (event: string, data: unknown): void => {
+        if (!open) return;
+        try {
+          controller.enqueue(
+            encoder.encode(formatServerSentEvent(event, data))
+          );
+        } catch {
+          // The client went away; the abort signal cancels the run
+          open = false;
+        }
+      };
+
+      send('started', {
+        executionId: execution.id,
+        model: run.config.model,
+        promptName: run.promptName,
+        inputs: run.inputs,
+        createdAt: execution.createdAt,
+        startedAt: execution.startedAt,
+      });
+
+      try {
+        const outcome = await executionRunner.run({
+          executionId: execution.id,
+          messages: run.messages,
+          config: run.config,
+          signal: abortController.signal,
+          onDelta: text => send('delta', { text }),
+          onRetry: (attempt, delayMs) => send('retry', { attempt, delayMs }),
+        });
+
+        send('usage', { ...outcome.tokenUsage, costUsd: outcome.costUsd });
+        send('validation', {
+          validationStatus: outcome.validationStatus,
+          validationErrors: outcome.validationErrors,
+        });
+        send('completed', {
+          executionId: execution.id,
+          status: 'COMPLETED',
+          output: outcome.output,
+          tokenUsage: outcome.tokenUsage,
+          costUsd: outcome.costUsd,
+          latencyMs: outcome.latencyMs,
+          validationStatus: outcome.validationStatus,
+          validationErrors: outcome.validationErrors,
+          truncatedVariables: run.truncatedVariables,
+          budgetWarnings: run.budgetWarnings,
+        });
+      } catch (error) {
+        const executionError = await executionRunner.fail(execution, error);
+        send('failed', {
+          error: executionError.message,
+          code: executionError.type,
+          retryable: executionError.retryable,
+          retryAfter: executionError.retryAfter,
+          executionId: execution.id,
+        });
+      } finally {
+        run.onClose();
+        open = false;
+        controller.close();
+      }
+    },
+    cancel(): void {
+      abortController.abort();
+    },
+  });
+
+  return new NextResponse(stream, { headers: SSE_HEADERS });
 }
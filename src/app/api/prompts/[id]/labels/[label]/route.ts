@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getPromptById } from '@/lib/database/queries';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { promptVersionManager } from '@/lib/prompts/versioning';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+// Lowercase names such as production, staging or canary-2
+const LabelNameSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9_-]{0,49}$/,
+    'Labels are lowercase letters, digits, dashes and underscores'
+  );
+
+const SetLabelSchema = z.object({
+  version: z.number().int().min(1),
+});
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+/**
+ * Points a label at a version, moving it off any version that had it
+ */
+export const PUT = withRateLimit(async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; label: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id, label } = await context.params;
+
+    const name = LabelNameSchema.parse(label);
+    const { version } = SetLabelSchema.parse(await request.json());
+
+    const prompt = await getPromptById(id, user.id);
+    const data = await promptVersionManager.setLabel(
+      id,
+      user.id,
+      name,
+      version
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'prompt.label_set',
+      targetId: id,
+      workspaceId: prompt?.workspaceId,
+      after: { label: name, version },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; label: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id, label } = await context.params;
+
+    const name = LabelNameSchema.parse(label);
+    const prompt = await getPromptById(id, user.id);
+    await promptVersionManager.removeLabel(id, user.id, name);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'prompt.label_remove',
+      targetId: id,
+      workspaceId: prompt?.workspaceId,
+      before: { label: name },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getPromptById } from '@/lib/database/queries';
+import { templateEngine } from '@/lib/prompts/template-engine';
+import { snippetLibrary } from '@/lib/prompts/snippets';
+import {
+  ForbiddenError,
+  RateLimitError,
+  ValidationError,
+} from '@/lib/utils/error-handler';
+import type { PromptMessage, VariableDefinition } from '@/types/database';
+
+const PreviewPromptSchema = z.object({
+  inputs: z.record(z.unknown()).default({}),
+  // Preview unsaved edits from the editor instead of the stored template
+  template: z.string().min(1).max(10000).optional(),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(['system', 'user', 'assistant']),
+        content: z.string().min(1).max(10000),
+      })
+    )
+    .max(50)
+    .optional(),
+  // Count tokens with this model's encoding and context window
+  model: z.string().min(1).max(100).optional(),
+});
+
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+    const { id } = params;
+    const body = await request.json();
+
+    const data = PreviewPromptSchema.parse(body);
+
+    const prompt = await getPromptById(id, user.id);
+
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const variableDefinitions = Array.isArray(prompt.variables)
+      ? (prompt.variables as unknown as VariableDefinition[])
+      : [];
+
+    const template = data.template ?? prompt.template;
+    const messages =
+      data.messages ??
+      (Array.isArray(prompt.messages)
+        ? (prompt.messages as unknown as PromptMessage[])
+        : []);
+    const { partials } = await snippetLibrary.resolveForTemplate(
+      [template, ...messages.map(message => message.content)],
+      prompt.userId
+    );
+
+    const preview = templateEngine.previewTemplate(
+      template,
+      data.inputs,
+      variableDefinitions,
+      { partials, messages, model: data.model }
+    );
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof ForbiddenError || error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Syntax errors and circular snippet includes
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: 'VALIDATION_ERROR',
+          details: error.details,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+});
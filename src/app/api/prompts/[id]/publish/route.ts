@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getPromptById } from '@/lib/database/queries';
+import {
+  auditActor,
+  auditLog,
+  promptSnapshot,
+} from '@/lib/monitoring/audit-log';
+import { promptVersionManager } from '@/lib/prompts/versioning';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const PublishSchema = z.object({
+  // Defaults to the current version
+  version: z.number().int().min(1).optional(),
+});
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+/**
+ * Publishes the prompt with the given version as live. Publishing an
+ * earlier version rolls the live version back without touching drafts.
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id } = await context.params;
+
+    const { version } = PublishSchema.parse(
+      await request.json().catch(() => ({}))
+    );
+
+    const before = await getPromptById(id, user.id);
+    const prompt = await promptVersionManager.publish(id, user.id, version);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'prompt.publish',
+      targetId: id,
+      workspaceId: prompt.workspaceId,
+      before: before && promptSnapshot(before),
+      after: promptSnapshot(prompt),
+    });
+
+    return NextResponse.json({ success: true, data: prompt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -1,39 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireAuth } from '@/lib/auth/server';
+import { assertCanMovePrompt } from '@/lib/auth/access-control';
+import { withRateLimit } from '@/lib/security/rate-limiter';
 import {
   getPromptById,
   updatePrompt,
   deletePrompt,
 } from '@/lib/database/queries';
-
-const VariableSchema = z.object({
-  name: z
-    .string()
-    .min(1)
-    .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Invalid variable name'),
-  type: z.enum(['string', 'number', 'boolean', 'array']),
-  required: z.boolean(),
-  description: z.string().optional(),
-  defaultValue: z.unknown().optional(),
-  options: z.array(z.string()).optional(),
-});
+import {
+  auditActor,
+  auditLog,
+  promptSnapshot,
+} from '@/lib/monitoring/audit-log';
+import { MessagesSchema, TemplateSchema } from '@/lib/prompts/prompt-schema';
+import { VariableDefinitionSchema } from '@/lib/prompts/variable-schema';
+import { promptVersionManager } from '@/lib/prompts/versioning';
+import { ModelRefSchema } from '@/lib/providers/registry';
+import { handleApiError } from '@/lib/utils/error-handler';
 
 const UpdatePromptSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   description: z.string().max(500).optional(),
-  template: z.string().min(1).max(10000).optional(),
-  variables: z.array(VariableSchema).optional(),
+  template: TemplateSchema.optional(),
+  messages: MessagesSchema.optional(),
+  variables: z.array(VariableDefinitionSchema).optional(),
+  // null clears the prompt's model so executions use the default again
+  model: ModelRefSchema.nullable().optional(),
   status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
+  // Moves the prompt to a workspace, or null to make it personal
+  workspaceId: z.string().uuid().nullable().optional(),
+  // Recorded on the new version when the template, messages or variables change
+  changeLog: z.string().max(500).optional(),
+  // Version the edit was based on; a newer saved version is a 409 conflict
+  expectedVersion: z.number().int().min(1).optional(),
 });
 
-export async function GET(
+export const GET = withRateLimit(async function GET(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   const params = await context.params;
   try {
-    const user = await requireAuth();
+    const user = await requireAuth('PROMPTS_READ');
     const { id } = params;
 
     const prompt = await getPromptById(id, user.id);
@@ -54,14 +63,12 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(
-      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
-      { status: 500 }
-    );
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
   }
-}
+});
 
-export async function PUT(
+export const PUT = withRateLimit(async function PUT(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
@@ -71,20 +78,85 @@ export async function PUT(
     const { id } = params;
     const body = await request.json();
 
-    const data = UpdatePromptSchema.parse(body);
-
-    const result = await updatePrompt(id, user.id, data);
-
-    if (result.count === 0) {
+    const {
+      template,
+      messages,
+      variables,
+      changeLog,
+      expectedVersion,
+      status,
+      ...details
+    } = UpdatePromptSchema.parse(body);
+
+    const prompt = await getPromptById(id, user.id, 'edit');
+    if (!prompt) {
       return NextResponse.json(
         { error: 'Prompt not found', code: 'NOT_FOUND' },
         { status: 404 }
       );
     }
 
+    if (details.workspaceId !== undefined) {
+      await assertCanMovePrompt(prompt, user.id, details.workspaceId);
+    }
+
+    // Content edits create a new version; other fields change in place
+    const contentChanged =
+      (template !== undefined && template !== prompt.template) ||
+      (messages !== undefined &&
+        JSON.stringify(messages) !== JSON.stringify(prompt.messages)) ||
+      (variables !== undefined &&
+        JSON.stringify(variables) !== JSON.stringify(prompt.variables));
+    if (contentChanged) {
+      await promptVersionManager.createVersion(id, user.id, {
+        template,
+        messages,
+        variables,
+        changeLog,
+        expectedVersion,
+      });
+    }
+
+    // Publishing pins the current version as live
+    if (status === 'PUBLISHED') {
+      await promptVersionManager.publish(id, user.id);
+    }
+
+    const updates = {
+      ...details,
+      ...(status && status !== 'PUBLISHED' && { status }),
+    };
+    if (Object.keys(updates).length > 0) {
+      await updatePrompt(id, user.id, updates);
+    }
+
     // Fetch updated prompt
     const updatedPrompt = await getPromptById(id, user.id);
 
+    const actor = auditActor(request, user);
+    const workspaceId = updatedPrompt?.workspaceId ?? prompt.workspaceId;
+    if (contentChanged || Object.keys(details).length > 0) {
+      await auditLog.record(actor, {
+        action: 'prompt.update',
+        targetId: id,
+        workspaceId,
+        before: promptSnapshot(prompt),
+        after: updatedPrompt && promptSnapshot(updatedPrompt),
+      });
+    }
+    if (status && status !== prompt.status) {
+      await auditLog.record(actor, {
+        action: 'prompt.status_change',
+        targetId: id,
+        workspaceId,
+        before: { status: prompt.status, liveVersion: prompt.liveVersion },
+        after: updatedPrompt && {
+          status: updatedPrompt.status,
+          liveVersion: updatedPrompt.liveVersion,
+        },
+      });
+    }
+
     return NextResponse.json(updatedPrompt);
   } catch (error) {
     if (error instanceof Error && error.message === 'Authentication required') {
@@ -108,14 +180,12 @@ export async function PUT(
       );
     }
 
-    return NextResponse.json(
-      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
-      { status: 500 }
-    );
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withRateLimit(async function DELETE(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
@@ -124,7 +194,8 @@ export async function DELETE(
     const user = await requireAuth();
     const { id } = params;
 
-    const result = await deletePrompt(id, user.id);
+    const prompt = await getPromptById(id, user.id, 'edit');
+    const result = prompt ? await deletePrompt(id, user.id) : { count: 0 };
 
     if (result.count === 0) {
       return NextResponse.json(
@@ -133,6 +204,13 @@ export async function DELETE(
       );
     }
 
+    await auditLog.record(auditActor(request, user), {
+      action: 'prompt.delete',
+      targetId: id,
+      workspaceId: prompt?.workspaceId,
+      before: prompt && promptSnapshot(prompt),
+    });
+
     return NextResponse.json({
       message: 'Prompt deleted successfully',
     });
@@ -144,9 +222,7 @@ export async function DELETE(
       );
     }
 
-    return NextResponse.json(
-      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
-      { status: 500 }
-    );
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
   }
-}
+});
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { getPromptById } from '@/lib/database/queries';
+import {
+  auditActor,
+  auditLog,
+  promptSnapshot,
+} from '@/lib/monitoring/audit-log';
+import { promptVersionManager } from '@/lib/prompts/versioning';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const VersionParamSchema = z.coerce.number().int().min(1);
+
+const RollbackSchema = z.object({
+  changeLog: z.string().max(500).optional(),
+});
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const apiError = handleApiError(error);
+  return NextResponse.json(apiError, { status: apiError.statusCode });
+}
+
+/**
+ * Restores an earlier version's content as a new version, so the history
+ * between them is kept
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; version: string }> }
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const { id, version } = await context.params;
+
+    const targetVersion = VersionParamSchema.parse(version);
+    const { changeLog } = RollbackSchema.parse(
+      await request.json().catch(() => ({}))
+    );
+
+    const before = await getPromptById(id, user.id);
+    const { prompt, newVersion } = await promptVersionManager.rollbackToVersion(
+      id,
+      user.id,
+      targetVersion,
+      changeLog
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'prompt.rollback',
+      targetId: id,
+      workspaceId: prompt.workspaceId,
+      before: before && promptSnapshot(before),
+      after: { ...promptSnapshot(prompt), restoredVersion: targetVersion },
+    });
+
+    return NextResponse.json(
+      { success: true, data: { prompt, version: newVersion.version } },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
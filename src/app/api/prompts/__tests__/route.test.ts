@@ -14,10 +14,17 @@ jest.mock('@/lib/auth/server', () => ({
   createServerSupabaseClient: jest.fn(),
 }));
 
+jest.mock('@/lib/monitoring/audit-log', () => ({
+  auditLog: { record: jest.fn() },
+  auditActor: jest.fn(() => ({ userId: 'user-123' })),
+  promptSnapshot: jest.fn(() => ({})),
+}));
+
 import { NextRequest } from 'next/server';
 import { GET, POST } from '../route';
 import { getUserPrompts, createPrompt } from '@/lib/database/queries';
 import { requireAuth } from '@/lib/auth/server';
+import { auditLog } from '@/lib/monitoring/audit-log';
 
 // Get typed mocks for better intellisense
 const mockGetUserPrompts = getUserPrompts as jest.MockedFunction<
@@ -49,6 +56,7 @@ describe('/api/prompts', () => {
             status: 'PUBLISHED' as const,
             createdAt: new Date(),
             updatedAt: new Date(),
+            workspaceId: null,
             _count: { executions: 0 },
           },
         ],
@@ -146,6 +154,8 @@ describe('/api/prompts', () => {
         name: 'New Prompt',
         description: 'Test description',
         template: 'Hello {{name}}',
+        messages: [],
+        model: null,
         variables: [{ name: 'name', type: 'string', required: true }],
         userId: 'user-123',
         status: 'DRAFT' as const,
@@ -154,6 +164,8 @@ describe('/api/prompts', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         publishedAt: null,
+        liveVersion: null,
+        workspaceId: null,
       };
 
       mockCreatePrompt.mockResolvedValue(newPrompt);
@@ -180,6 +192,13 @@ describe('/api/prompts', () => {
         template: 'Hello {{name}}',
         variables: [{ name: 'name', type: 'string', required: true }],
       });
+      expect(auditLog.record).toHaveBeenCalledWith(
+        { userId: 'user-123' },
+        expect.objectContaining({
+          action: 'prompt.create',
+          targetId: newPrompt.id,
+        })
+      );
     });
 
     it('should validate required fields', async () => {
@@ -253,6 +272,8 @@ describe('/api/prompts', () => {
         name: 'Auto Variables',
         description: null,
         template: 'Hello {{name}}, you are {{age}} years old',
+        messages: [],
+        model: null,
         variables: [
           { name: 'name', type: 'string', required: true },
           { name: 'age', type: 'string', required: true },
@@ -264,6 +285,8 @@ describe('/api/prompts', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         publishedAt: null,
+        liveVersion: null,
+        workspaceId: null,
       };
 
       mockCreatePrompt.mockResolvedValue(newPrompt);
@@ -323,6 +346,8 @@ describe('/api/prompts', () => {
         name: 'Test Prompt',
         description: null,
         template: 'Hello {{name}}',
+        messages: [],
+        model: null,
         variables: [{ name: 'name', type: 'string', required: true }],
         userId: 'user-123',
         status: 'DRAFT' as const,
@@ -331,6 +356,8 @@ describe('/api/prompts', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         publishedAt: null,
+        liveVersion: null,
+        workspaceId: null,
       };
 
       mockCreatePrompt.mockResolvedValue(newPrompt);
@@ -1,25 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireAuth } from '@/lib/auth/server';
+import { assertWorkspacePermission } from '@/lib/auth/access-control';
+import { withRateLimit } from '@/lib/security/rate-limiter';
 import { getUserPrompts, createPrompt } from '@/lib/database/queries';
-
-const VariableSchema = z.object({
-  name: z
-    .string()
-    .min(1)
-    .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Invalid variable name'),
-  type: z.enum(['string', 'number', 'boolean', 'array']),
-  required: z.boolean(),
-  description: z.string().optional(),
-  defaultValue: z.unknown().optional(),
-  options: z.array(z.string()).optional(),
-});
+import {
+  auditActor,
+  auditLog,
+  promptSnapshot,
+} from '@/lib/monitoring/audit-log';
+import { MessagesSchema, TemplateSchema } from '@/lib/prompts/prompt-schema';
+import { VariableDefinitionSchema } from '@/lib/prompts/variable-schema';
+import { ModelRefSchema } from '@/lib/providers/registry';
+import { ForbiddenError, RateLimitError } from '@/lib/utils/error-handler';
 
 const CreatePromptSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
-  template: z.string().min(1).max(10000),
-  variables: z.array(VariableSchema),
+  template: TemplateSchema,
+  messages: MessagesSchema.optional(),
+  variables: z.array(VariableDefinitionSchema),
+  model: ModelRefSchema.optional(),
+  // Shares the prompt with the workspace; personal when omitted
+  workspaceId: z.string().uuid().optional(),
 });
 
 const PromptsQuerySchema = z.object({
@@ -27,11 +30,15 @@ const PromptsQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(20),
   status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
   search: z.string().optional(),
+  // A workspace id, or `personal` for prompts outside any workspace
+  workspace: z.union([z.literal('personal'), z.string().uuid()]).optional(),
 });
 
-export async function GET(request: NextRequest): Promise<NextResponse> {
+export const GET = withRateLimit(async function GET(
+  request: NextRequest
+): Promise<NextResponse> {
   try {
-    const user = await requireAuth();
+    const user = await requireAuth('PROMPTS_READ');
     const { searchParams } = new URL(request.url);
 
     const query = PromptsQuerySchema.parse({
@@ -39,9 +46,16 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       limit: searchParams.get('limit'),
       status: searchParams.get('status'),
       search: searchParams.get('search'),
+      workspace: searchParams.get('workspace') ?? undefined,
     });
 
-    const result = await getUserPrompts(user.id, query);
+    const { workspace, ...filters } = query;
+    const result = await getUserPrompts(user.id, {
+      ...filters,
+      ...(workspace && {
+        workspaceId: workspace === 'personal' ? null : workspace,
+      }),
+    });
 
     return NextResponse.json(result);
   } catch (error) {
@@ -52,6 +66,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    if (error instanceof ForbiddenError || error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
@@ -71,17 +92,30 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest): Promise<NextResponse> {
+export const POST = withRateLimit(async function POST(
+  request: NextRequest
+): Promise<NextResponse> {
   try {
     const user = await requireAuth();
     const body = await request.json();
 
     const data = CreatePromptSchema.parse(body);
 
+    if (data.workspaceId) {
+      await assertWorkspacePermission(data.workspaceId, user.id, 'edit');
+    }
+
     const prompt = await createPrompt(user.id, data);
 
+    await auditLog.record(auditActor(request, user), {
+      action: 'prompt.create',
+      targetId: prompt.id,
+      workspaceId: prompt.workspaceId,
+      after: promptSnapshot(prompt),
+    });
+
     return NextResponse.json(prompt, { status: 201 });
   } catch (error) {
     if (error instanceof Error && error.message === 'Authentication required') {
@@ -91,6 +125,13 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    if (error instanceof ForbiddenError || error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
@@ -110,4 +151,4 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import {
+  auditActor,
+  auditLog,
+  snippetSnapshot,
+} from '@/lib/monitoring/audit-log';
+import { snippetLibrary } from '@/lib/prompts/snippets';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+// Names are referenced by `{{> name}}` in templates, so they cannot change
+const UpdateSnippetSchema = z.object({
+  description: z.string().max(500).optional(),
+  content: z.string().min(1).max(10000).optional(),
+});
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+
+    const snippet = await snippetLibrary.getSnippet(params.id, user.id);
+
+    if (!snippet) {
+      return NextResponse.json(
+        { error: 'Snippet not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(snippet);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+export const PUT = withRateLimit(async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const data = UpdateSnippetSchema.parse(body);
+
+    const before = await snippetLibrary.getSnippet(params.id, user.id);
+    const snippet = await snippetLibrary.updateSnippet(
+      params.id,
+      user.id,
+      data
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'snippet.update',
+      targetId: snippet.id,
+      before: before && snippetSnapshot(before),
+      after: snippetSnapshot(snippet),
+    });
+
+    return NextResponse.json(snippet);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    const before = await snippetLibrary.getSnippet(params.id, user.id);
+    await snippetLibrary.deleteSnippet(params.id, user.id);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'snippet.delete',
+      targetId: params.id,
+      before: before && snippetSnapshot(before),
+    });
+
+    return NextResponse.json({
+      message: 'Snippet deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
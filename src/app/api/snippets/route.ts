@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import {
+  auditActor,
+  auditLog,
+  snippetSnapshot,
+} from '@/lib/monitoring/audit-log';
+import { snippetLibrary } from '@/lib/prompts/snippets';
+import { PARTIAL_NAME } from '@/lib/prompts/template-parser';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const CreateSnippetSchema = z.object({
+  name: z.string().min(1).max(100).regex(PARTIAL_NAME, 'Invalid snippet name'),
+  description: z.string().max(500).optional(),
+  content: z.string().min(1).max(10000),
+});
+
+export const GET = withRateLimit(async function GET(): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+
+    const snippets = await snippetLibrary.listSnippets(user.id);
+
+    return NextResponse.json({ snippets });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+export const POST = withRateLimit(async function POST(
+  request: NextRequest
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const data = CreateSnippetSchema.parse(body);
+
+    const snippet = await snippetLibrary.createSnippet(user.id, data);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'snippet.create',
+      targetId: snippet.id,
+      after: snippetSnapshot(snippet),
+    });
+
+    return NextResponse.json(snippet, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Duplicate names surface as a Prisma unique violation (409)
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
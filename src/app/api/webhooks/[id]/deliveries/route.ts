@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/server';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { webhookManager } from '@/lib/webhooks/webhook-manager';
+
+/**
+ * The webhook's delivery log, newest first
+ */
+export const GET = withRateLimit(async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    const deliveries = await webhookManager.listDeliveries(user.id, params.id);
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
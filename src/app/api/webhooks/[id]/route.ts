@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { WEBHOOK_EVENTS, webhookManager } from '@/lib/webhooks/webhook-manager';
+
+const UpdateWebhookSchema = z.object({
+  url: z.string().url().max(2000).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  description: z.string().max(200).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const PATCH = withRateLimit(async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const updates = UpdateWebhookSchema.parse(body);
+
+    const webhook = await webhookManager.updateWebhook(
+      user.id,
+      params.id,
+      updates
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'webhook.update',
+      targetId: webhook.id,
+      after: updates,
+    });
+
+    return NextResponse.json(webhook);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+/**
+ * Deletes a webhook endpoint along with its delivery log
+ */
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    await webhookManager.deleteWebhook(user.id, params.id);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'webhook.delete',
+      targetId: params.id,
+    });
+
+    return NextResponse.json({
+      message: 'Webhook deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+import { WEBHOOK_EVENTS, webhookManager } from '@/lib/webhooks/webhook-manager';
+
+const CreateWebhookSchema = z.object({
+  url: z.string().url().max(2000),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  description: z.string().max(200).optional(),
+});
+
+export const GET = withRateLimit(async function GET(): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+
+    const webhooks = await webhookManager.listWebhooks(user.id);
+
+    return NextResponse.json({ webhooks, events: WEBHOOK_EVENTS });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+/**
+ * Registers a webhook endpoint. The signing secret is only ever returned in
+ * this response.
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const input = CreateWebhookSchema.parse(body);
+
+    const { webhook, secret } = await webhookManager.createWebhook(
+      user.id,
+      input
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'webhook.create',
+      targetId: webhook.id,
+      after: {
+        url: webhook.url,
+        description: webhook.description,
+        events: webhook.events,
+      },
+    });
+
+    return NextResponse.json({ ...webhook, secret }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/server';
+import { workspaceManager } from '@/lib/auth/workspaces';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+/**
+ * Revokes a pending invitation so its token can no longer be accepted
+ */
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; invitationId: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    await workspaceManager.revokeInvitation(
+      params.id,
+      user.id,
+      params.invitationId
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'workspace.invitation_revoke',
+      targetId: params.id,
+      workspaceId: params.id,
+      before: { invitationId: params.invitationId },
+    });
+
+    return NextResponse.json({
+      message: 'Invitation revoked successfully',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
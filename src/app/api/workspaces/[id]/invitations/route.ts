@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { workspaceManager } from '@/lib/auth/workspaces';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const CreateInvitationSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(['OWNER', 'EDITOR', 'RUNNER', 'VIEWER']).default('VIEWER'),
+});
+
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    const invitations = await workspaceManager.listInvitations(
+      params.id,
+      user.id
+    );
+
+    return NextResponse.json({ invitations });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+/**
+ * Invites an email address. The token, and the link built from it, are only
+ * ever returned in this response.
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const data = CreateInvitationSchema.parse(body);
+
+    const { invitation, token } = await workspaceManager.createInvitation(
+      params.id,
+      user.id,
+      data
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'workspace.invitation_create',
+      targetId: params.id,
+      workspaceId: params.id,
+      after: {
+        invitationId: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        ...invitation,
+        token,
+        acceptUrl: new URL(`/invitations/${token}`, request.url).toString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { workspaceManager } from '@/lib/auth/workspaces';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const UpdateMemberSchema = z.object({
+  role: z.enum(['OWNER', 'EDITOR', 'RUNNER', 'VIEWER']),
+});
+
+export const PATCH = withRateLimit(async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; userId: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const { role } = UpdateMemberSchema.parse(body);
+
+    const previousRole = await workspaceManager.updateMemberRole(
+      params.id,
+      user.id,
+      params.userId,
+      role
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'workspace.member_update',
+      targetId: params.id,
+      workspaceId: params.id,
+      before: { userId: params.userId, role: previousRole },
+      after: { userId: params.userId, role },
+    });
+
+    return NextResponse.json({ message: 'Member role updated successfully' });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+/**
+ * Removes a member, or leaves the workspace when the member is the caller
+ */
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; userId: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    const role = await workspaceManager.removeMember(
+      params.id,
+      user.id,
+      params.userId
+    );
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'workspace.member_remove',
+      targetId: params.id,
+      workspaceId: params.id,
+      before: { userId: params.userId, role },
+    });
+
+    return NextResponse.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { workspaceManager } from '@/lib/auth/workspaces';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const UpdateWorkspaceSchema = z.object({
+  name: z.string().min(1).max(100),
+});
+
+/**
+ * Workspace with its members, and its pending invitations for owners
+ */
+export const GET = withRateLimit(async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+
+    const workspace = await workspaceManager.getWorkspace(params.id, user.id);
+
+    return NextResponse.json(workspace);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+export const PATCH = withRateLimit(async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const { name } = UpdateWorkspaceSchema.parse(body);
+
+    const before = await workspaceManager.getWorkspace(params.id, user.id);
+    await workspaceManager.renameWorkspace(params.id, user.id, name);
+    const workspace = await workspaceManager.getWorkspace(params.id, user.id);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'workspace.update',
+      targetId: params.id,
+      workspaceId: params.id,
+      before: { name: before.name },
+      after: { name },
+    });
+
+    return NextResponse.json(workspace);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+/**
+ * Deletes the workspace together with its prompts and their executions
+ */
+export const DELETE = withRateLimit(async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await context.params;
+  try {
+    const user = await requireAuth();
+
+    const workspace = await workspaceManager.getWorkspace(params.id, user.id);
+    await workspaceManager.deleteWorkspace(params.id, user.id);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'workspace.delete',
+      targetId: params.id,
+      workspaceId: params.id,
+      before: {
+        name: workspace.name,
+        memberCount: workspace.memberCount,
+        promptCount: workspace.promptCount,
+      },
+    });
+
+    return NextResponse.json({
+      message: 'Workspace deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/server';
+import { workspaceManager } from '@/lib/auth/workspaces';
+import { auditActor, auditLog } from '@/lib/monitoring/audit-log';
+import { withRateLimit } from '@/lib/security/rate-limiter';
+import { handleApiError } from '@/lib/utils/error-handler';
+
+const CreateWorkspaceSchema = z.object({
+  name: z.string().min(1).max(100),
+});
+
+export const GET = withRateLimit(async function GET(): Promise<NextResponse> {
+  try {
+    const user = await requireAuth('PROMPTS_READ');
+
+    const workspaces = await workspaceManager.listWorkspaces(user.id);
+
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
+
+/**
+ * Creates a workspace owned by the current user
+ */
+export const POST = withRateLimit(async function POST(
+  request: NextRequest
+): Promise<NextResponse> {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    const { name } = CreateWorkspaceSchema.parse(body);
+
+    const workspace = await workspaceManager.createWorkspace(user.id, name);
+
+    await auditLog.record(auditActor(request, user), {
+      action: 'workspace.create',
+      targetId: workspace.id,
+      workspaceId: workspace.id,
+      after: { name },
+    });
+
+    return NextResponse.json(workspace, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(apiError, { status: apiError.statusCode });
+  }
+});
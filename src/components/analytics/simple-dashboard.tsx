@@ -18,6 +18,7 @@ import {
 import { Badge } from '../ui/badge';
 import { formatCurrency } from '../../lib/utils';
 import type { CostMetrics } from '../../lib/monitoring/cost-tracker';
+import type { BudgetStatus } from '../../lib/monitoring/budgets';
 
 interface DashboardProps {
   userId: string;
@@ -44,6 +45,7 @@ interface AnalyticsData {
     avgCost: number;
     totalTokens: number;
   }>;
+  budgets: BudgetStatus[];
 }
 
 interface DateRangeFilter {
@@ -172,7 +174,10 @@ export function SimpleDashboard({
     );
   }
 
-  const { metrics, costMetrics, topPrompts } = data;
+  const { metrics, costMetrics, topPrompts, budgets } = data;
+  const budgetWarnings = budgets.filter(
+    budget => budget.percentUsed >= budget.warnAtPercent
+  );
 
   return (
     <div className="space-y-6">
@@ -295,6 +300,66 @@ export function SimpleDashboard({
         </Card>
       </div>
 
+      {/* Budgets */}
+      {budgets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Budgets</CardTitle>
+            <CardDescription>
+              {budgetWarnings.length > 0
+                ? `${budgetWarnings.length} budget${budgetWarnings.length === 1 ? '' : 's'} past the warning threshold. Executions that would exceed a budget are refused.`
+                : 'Spend in the current UTC day and month'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {budgets.map(budget => {
+              const isWarning = budget.percentUsed >= budget.warnAtPercent;
+
+              return (
+                <div
+                  key={budget.budgetId ?? `plan-${budget.period}`}
+                  className="space-y-1"
+                >
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      {budget.period === 'DAILY' ? 'Daily' : 'Monthly'}{' '}
+                      {budget.budgetId === null
+                        ? 'plan limit'
+                        : budget.promptId
+                          ? 'prompt budget'
+                          : 'budget'}
+                      {isWarning && (
+                        <Badge
+                          variant={
+                            budget.percentUsed >= 100
+                              ? 'destructive'
+                              : 'secondary'
+                          }
+                        >
+                          {formatPercentage(budget.percentUsed / 100)}
+                        </Badge>
+                      )}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {formatCurrency(budget.spentUsd)} of{' '}
+                      {formatCurrency(budget.limitUsd)}
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted">
+                    <div
+                      className={`h-2 rounded-full ${isWarning ? 'bg-destructive' : 'bg-primary'}`}
+                      style={{
+                        width: `${Math.min(100, budget.percentUsed)}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Token Usage */}
       <Card>
         <CardHeader>
@@ -45,15 +45,22 @@ export function ExecutionHistory({
   );
   const limit = 20;
 
-  const { executions, pagination, loading, error, refetch, retryExecution } =
-    useExecutions({
-      promptId,
-      status: statusFilter,
-      page,
-      limit,
-      from: dateFilter.from,
-      to: dateFilter.to,
-    });
+  const {
+    executions,
+    pagination,
+    loading,
+    error,
+    refetch,
+    retryExecution,
+    cancelExecution,
+  } = useExecutions({
+    promptId,
+    status: statusFilter,
+    page,
+    limit,
+    from: dateFilter.from,
+    to: dateFilter.to,
+  });
 
   const handleRetry = async (executionId: string): Promise<void> => {
     try {
@@ -63,6 +70,14 @@ export function ExecutionHistory({
     }
   };
 
+  const handleCancel = async (executionId: string): Promise<void> => {
+    try {
+      await cancelExecution(executionId);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to cancel execution');
+    }
+  };
+
   const handleRowClick = (executionId: string): void => {
     onExecutionSelect?.(executionId);
   };
@@ -177,6 +192,13 @@ export function ExecutionHistory({
                 >
                   Pending
                 </Button>
+                <Button
+                  variant={statusFilter === 'CANCELLED' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setStatusFilter('CANCELLED')}
+                >
+                  Cancelled
+                </Button>
               </div>
             </div>
 
@@ -304,6 +326,19 @@ export function ExecutionHistory({
                                 Retry
                               </Button>
                             )}
+                            {(execution.status === 'PENDING' ||
+                              execution.status === 'RUNNING') && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={e => {
+                                  e.stopPropagation();
+                                  handleCancel(execution.id);
+                                }}
+                              >
+                                Cancel
+                              </Button>
+                            )}
                             <Button
                               size="sm"
                               variant="ghost"
@@ -13,10 +13,21 @@ import {
 } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
-// Note: Using native select to avoid Radix dependency
+import { Textarea } from '../ui/textarea';
 import { LoadingSpinner } from '../ui/loading-spinner';
 import { Badge } from '../ui/badge';
-import type { Prompt, VariableDefinition } from '../../types/database';
+import type {
+  FileVariableValue,
+  Prompt,
+  VariableDefinition,
+} from '../../types/database';
+import { createVariableSchema } from '../../lib/prompts/variable-schema';
+import type { BudgetWarning } from '../../lib/monitoring/budgets';
+import {
+  ExecutionRequestError,
+  useExecutions,
+} from '../../hooks/use-executions';
+import { ResultsViewer } from './results-viewer';
 
 interface ExecutionPanelProps {
   prompt: Prompt;
@@ -31,6 +42,41 @@ interface ExecutionError {
   executionId?: string;
 }
 
+// Structured defaults are edited as text in the form
+const toFormDefault = (variable: VariableDefinition): unknown => {
+  const value = variable.defaultValue;
+  if (variable.type === 'array' && Array.isArray(value)) {
+    return value.join('\n');
+  }
+  if (
+    (variable.type === 'object' || variable.type === 'json') &&
+    typeof value !== 'string'
+  ) {
+    return JSON.stringify(value, null, 2);
+  }
+  return value;
+};
+
+// Suggestions only; any `provider:model` reference is accepted
+const MODEL_SUGGESTIONS = [
+  'gpt-3.5-turbo',
+  'gpt-4',
+  'gpt-4o',
+  'gpt-4o-mini',
+  'anthropic:claude-3-5-sonnet-latest',
+  'anthropic:claude-3-5-haiku-latest',
+  'azure:gpt-4o',
+  'local:llama3.1',
+];
+
+const TEXTAREA_PLACEHOLDERS: Partial<
+  Record<VariableDefinition['type'], string>
+> = {
+  array: 'One item per line',
+  object: 'JSON object',
+  json: 'JSON value',
+};
+
 interface ExecutionResult {
   executionId: string;
   status: string;
@@ -46,45 +92,21 @@ interface ExecutionResult {
     path: string;
     message: string;
   }>;
+  budgetWarnings?: BudgetWarning[];
 }
 
 // Dynamic form schema based on prompt variables
 const createExecutionSchema = (variables: VariableDefinition[]) => {
-  const inputsSchema: Record<string, z.ZodSchema> = {};
+  const inputsSchema: Record<string, z.ZodTypeAny> = {};
 
   variables.forEach(variable => {
-    let schema: z.ZodSchema;
-
-    switch (variable.type) {
-      case 'string':
-        schema = z.string();
-        if (variable.options && variable.options.length > 0) {
-          schema = z.enum(variable.options as [string, ...string[]]);
-        }
-        break;
-      case 'number':
-        schema = z.coerce.number();
-        break;
-      case 'boolean':
-        schema = z.boolean();
-        break;
-      case 'array':
-        schema = z.array(z.string());
-        break;
-      default:
-        schema = z.string();
-    }
-
-    if (!variable.required) {
-      schema = schema.optional();
-    }
-
-    inputsSchema[variable.name] = schema;
+    // Same coercion and constraints the execute route enforces
+    inputsSchema[variable.name] = createVariableSchema(variable);
   });
 
   return z.object({
     inputs: z.object(inputsSchema),
-    model: z.enum(['gpt-3.5-turbo', 'gpt-4']).default('gpt-3.5-turbo'),
+    model: z.string().trim().min(1, 'Model is required').max(200),
     maxTokens: z.number().min(1).max(4000).default(2000),
     temperature: z.number().min(0).max(2).default(0.7),
   });
@@ -99,6 +121,8 @@ export function ExecutionPanel({
     useState<ExecutionResult | null>(null);
   const [error, setError] = useState<ExecutionError | null>(null);
   const [retryCountdown, setRetryCountdown] = useState<number>(0);
+  const { executePrompt, streamingExecution, isStreaming, cancelExecution } =
+    useExecutions({ promptId: prompt.id, stream: true });
 
   // Parse variables from prompt (assuming they're stored as JSON)
   const variables: VariableDefinition[] = Array.isArray(prompt.variables)
@@ -121,13 +145,13 @@ export function ExecutionPanel({
       inputs: variables.reduce(
         (acc, variable) => {
           if (variable.defaultValue !== undefined) {
-            acc[variable.name] = variable.defaultValue;
+            acc[variable.name] = toFormDefault(variable);
           }
           return acc;
         },
         {} as Record<string, any>
       ),
-      model: 'gpt-3.5-turbo',
+      model: prompt.model || 'gpt-3.5-turbo',
       maxTokens: 2000,
       temperature: 0.7,
     },
@@ -143,27 +167,25 @@ export function ExecutionPanel({
       setError(null);
       setExecutionResult(null);
 
-      const response = await fetch(`/api/prompts/${prompt.id}/execute`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: data.inputs,
-          model: data.model,
-          maxTokens: data.maxTokens,
-          temperature: data.temperature,
-        }),
+      // Output streams into the results viewer while this waits
+      const result = await executePrompt(prompt.id, data.inputs, {
+        model: data.model,
+        maxTokens: data.maxTokens,
+        temperature: data.temperature,
       });
+      setExecutionResult(result);
+      onExecutionComplete?.(result);
+    } catch (err) {
+      if (err instanceof ExecutionRequestError) {
+        // The viewer already shows the cancelled run and its partial output
+        if (err.code === 'CANCELLED') return;
 
-      if (!response.ok) {
-        const errorData = await response.json();
         const executionError: ExecutionError = {
-          error: errorData.error || 'Failed to execute prompt',
-          code: errorData.code || 'UNKNOWN_ERROR',
-          retryable: errorData.retryable || false,
-          retryAfter: errorData.retryAfter,
-          executionId: errorData.executionId,
+          error: err.message,
+          code: err.code,
+          retryable: err.retryable,
+          retryAfter: err.retryAfter,
+          executionId: err.executionId,
         };
 
         // Start countdown for rate limit errors
@@ -184,10 +206,6 @@ export function ExecutionPanel({
         return;
       }
 
-      const result = await response.json();
-      setExecutionResult(result);
-      onExecutionComplete?.(result);
-    } catch (err) {
       const executionError: ExecutionError = {
         error: err instanceof Error ? err.message : 'Unknown error occurred',
         code: 'CLIENT_ERROR',
@@ -205,44 +223,78 @@ export function ExecutionPanel({
     setError(null);
   };
 
+  const handleFileChange = async (
+    variable: VariableDefinition,
+    file: File | undefined
+  ) => {
+    const fieldName = `inputs.${variable.name}` as const;
+
+    if (!file) {
+      setValue(fieldName, undefined, { shouldValidate: true });
+      return;
+    }
+
+    // Files are sent as text so templates can include their contents
+    const value: FileVariableValue = {
+      name: file.name,
+      type: file.type || 'text/plain',
+      size: file.size,
+      content: await file.text(),
+    };
+    setValue(fieldName, value, { shouldValidate: true });
+  };
+
+  const renderField = (
+    variable: VariableDefinition,
+    control: React.ReactNode
+  ) => {
+    const fieldError = errors.inputs?.[variable.name];
+    const fieldMessage =
+      fieldError && 'message' in fieldError && fieldError.message;
+
+    return (
+      <div key={variable.name} className="space-y-2">
+        <label className="text-sm font-medium">
+          {variable.name}
+          {variable.required && (
+            <span className="text-destructive ml-1">*</span>
+          )}
+        </label>
+        {variable.description && (
+          <p className="text-xs text-muted-foreground">
+            {variable.description}
+          </p>
+        )}
+        {control}
+        {fieldError && (
+          <p className="text-xs text-destructive">
+            {typeof fieldMessage === 'string' ? fieldMessage : 'Invalid input'}
+          </p>
+        )}
+      </div>
+    );
+  };
+
   const renderVariableInput = (variable: VariableDefinition) => {
     const fieldName = `inputs.${variable.name}` as const;
     const fieldError = errors.inputs?.[variable.name];
+    const constraints = variable.constraints || {};
 
     if (variable.options && variable.options.length > 0) {
-      return (
-        <div key={variable.name} className="space-y-2">
-          <label className="text-sm font-medium">
-            {variable.name}
-            {variable.required && (
-              <span className="text-destructive ml-1">*</span>
-            )}
-          </label>
-          {variable.description && (
-            <p className="text-xs text-muted-foreground">
-              {variable.description}
-            </p>
-          )}
-          <select
-            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-            value={watch(`inputs.${variable.name}`) || ''}
-            onChange={e => setValue(`inputs.${variable.name}`, e.target.value)}
-          >
-            <option value="">{`Select ${variable.name}`}</option>
-            {variable.options.map(option => (
-              <option key={option} value={option}>
-                {option}
-              </option>
-            ))}
-          </select>
-          {fieldError && (
-            <p className="text-xs text-destructive">
-              {typeof fieldError === 'string'
-                ? fieldError
-                : (fieldError as any)?.message || 'Invalid input'}
-            </p>
-          )}
-        </div>
+      return renderField(
+        variable,
+        <select
+          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+          value={watch(`inputs.${variable.name}`) || ''}
+          onChange={e => setValue(`inputs.${variable.name}`, e.target.value)}
+        >
+          <option value="">{`Select ${variable.name}`}</option>
+          {variable.options.map(option => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
       );
     }
 
@@ -278,38 +330,69 @@ export function ExecutionPanel({
       );
     }
 
-    return (
-      <div key={variable.name} className="space-y-2">
-        <label className="text-sm font-medium">
-          {variable.name}
-          {variable.required && (
-            <span className="text-destructive ml-1">*</span>
-          )}
-        </label>
-        {variable.description && (
-          <p className="text-xs text-muted-foreground">
-            {variable.description}
-          </p>
-        )}
-        <Input
-          type={variable.type === 'number' ? 'number' : 'text'}
+    if (
+      variable.type === 'long-text' ||
+      variable.type === 'array' ||
+      variable.type === 'object' ||
+      variable.type === 'json'
+    ) {
+      const isCode = variable.type === 'object' || variable.type === 'json';
+
+      return renderField(
+        variable,
+        <Textarea
+          rows={isCode ? 6 : 4}
+          className={isCode ? 'font-mono' : undefined}
+          maxLength={constraints.maxLength}
           placeholder={
-            variable.defaultValue
-              ? String(variable.defaultValue)
-              : `Enter ${variable.name}`
+            TEXTAREA_PLACEHOLDERS[variable.type] || `Enter ${variable.name}`
           }
-          {...register(fieldName, {
-            valueAsNumber: variable.type === 'number',
-          })}
+          {...register(fieldName)}
         />
-        {fieldError && (
-          <p className="text-xs text-destructive">
-            {typeof fieldError === 'string'
-              ? fieldError
-              : (fieldError as any)?.message || 'Invalid input'}
-          </p>
-        )}
-      </div>
+      );
+    }
+
+    if (variable.type === 'file') {
+      const selected = watch(fieldName) as FileVariableValue | undefined;
+
+      return renderField(
+        variable,
+        <>
+          <Input
+            type="file"
+            accept={constraints.accept?.join(',')}
+            onChange={e => handleFileChange(variable, e.target.files?.[0])}
+          />
+          {selected?.name && (
+            <p className="text-xs text-muted-foreground">
+              {selected.name} ({selected.size} bytes)
+            </p>
+          )}
+        </>
+      );
+    }
+
+    return renderField(
+      variable,
+      <Input
+        type={
+          variable.type === 'number'
+            ? 'number'
+            : variable.type === 'date'
+              ? 'date'
+              : 'text'
+        }
+        min={variable.type === 'date' ? constraints.minDate : constraints.min}
+        max={variable.type === 'date' ? constraints.maxDate : constraints.max}
+        maxLength={constraints.maxLength}
+        pattern={constraints.pattern}
+        placeholder={
+          variable.defaultValue
+            ? String(variable.defaultValue)
+            : `Enter ${variable.name}`
+        }
+        {...register(fieldName)}
+      />
     );
   };
 
@@ -344,19 +427,22 @@ export function ExecutionPanel({
               <div className="grid gap-4 sm:grid-cols-3">
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Model</label>
-                  <select
-                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  <Input
+                    list="execution-model-suggestions"
+                    placeholder="provider:model"
                     value={watchedModel}
-                    onChange={e =>
-                      setValue(
-                        'model',
-                        e.target.value as 'gpt-3.5-turbo' | 'gpt-4'
-                      )
-                    }
-                  >
-                    <option value="gpt-3.5-turbo">GPT-3.5 Turbo</option>
-                    <option value="gpt-4">GPT-4</option>
-                  </select>
+                    onChange={e => setValue('model', e.target.value)}
+                  />
+                  <datalist id="execution-model-suggestions">
+                    {MODEL_SUGGESTIONS.map(model => (
+                      <option key={model} value={model} />
+                    ))}
+                  </datalist>
+                  {errors.model && (
+                    <p className="text-xs text-destructive">
+                      {errors.model.message}
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -458,6 +544,14 @@ export function ExecutionPanel({
               </p>
             )}
 
+            {/* Budget error specific messaging */}
+            {error.code === 'BUDGET_EXCEEDED' && (
+              <p className="text-sm text-muted-foreground">
+                This execution would go over a spend budget. Raise the budget or
+                wait for it to reset before trying again.
+              </p>
+            )}
+
             {/* Validation error specific messaging */}
             {error.code === 'VALIDATION_ERROR' && (
               <p className="text-sm text-muted-foreground">
@@ -499,6 +593,15 @@ export function ExecutionPanel({
         </Card>
       )}
 
+      {/* Live output while streaming, or a cancelled or failed run */}
+      {streamingExecution && !executionResult && (
+        <ResultsViewer
+          execution={streamingExecution}
+          isStreaming={isStreaming}
+          onCancel={() => void cancelExecution()}
+        />
+      )}
+
       {/* Results Display */}
       {executionResult && (
         <Card>
@@ -563,6 +666,23 @@ export function ExecutionPanel({
               </div>
             </div>
 
+            {/* Budget Warnings */}
+            {executionResult.budgetWarnings &&
+              executionResult.budgetWarnings.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Budget Warnings</label>
+                  <div className="rounded-md border border-yellow-500 bg-yellow-500/5 p-4">
+                    <ul className="space-y-1">
+                      {executionResult.budgetWarnings.map((warning, index) => (
+                        <li key={index} className="text-sm">
+                          {warning.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
             {/* Validation Errors */}
             {executionResult.validationErrors &&
               executionResult.validationErrors.length > 0 && (
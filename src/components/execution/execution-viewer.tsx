@@ -7,7 +7,10 @@ import { ResultsViewer } from './results-viewer';
 import { Card, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { LoadingState, ErrorState } from '../ui/loading-spinner';
-import type { ExecutionWithDetails } from '../../lib/database/queries';
+import type {
+  ExecutionWithDetails,
+  RetryVersion,
+} from '../../lib/database/queries';
 
 interface ExecutionViewerProps {
   userId: string;
@@ -46,11 +49,11 @@ export function ExecutionViewer({
     }
   };
 
-  const handleRetry = async (): Promise<void> => {
+  const handleRetry = async (version: RetryVersion): Promise<void> => {
     if (!selectedExecutionId) return;
 
     try {
-      await retryExecution(selectedExecutionId);
+      await retryExecution(selectedExecutionId, version);
       // Refresh the selected execution after retry
       await handleExecutionSelect(selectedExecutionId);
     } catch (error) {
@@ -12,26 +12,42 @@ import {
 } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { LoadingSpinner } from '../ui/loading-spinner';
-import type { ExecutionWithDetails } from '../../lib/database/queries';
+import type {
+  ExecutionWithDetails,
+  RetryVersion,
+} from '../../lib/database/queries';
 
 interface ResultsViewerProps {
   execution: ExecutionWithDetails;
-  onRetry?: () => void;
+  onRetry?: (version: RetryVersion) => void;
+  // Output is still arriving; render it as-is instead of formatting it
+  isStreaming?: boolean;
+  onCancel?: () => void;
 }
 
 export function ResultsViewer({
   execution,
   onRetry,
+  isStreaming = false,
+  onCancel,
 }: ResultsViewerProps): JSX.Element {
   const [isRetrying, setIsRetrying] = useState(false);
   const [copyStatus, setCopyStatus] = useState<{ [key: string]: boolean }>({});
 
-  const handleRetry = async (): Promise<void> => {
+  // Offer the latest version when the prompt changed after this execution
+  const ranVersion = execution.promptVersion?.version;
+  const latestVersion = execution.prompt.version;
+  const canRetryLatest =
+    ranVersion !== undefined &&
+    latestVersion !== undefined &&
+    ranVersion !== latestVersion;
+
+  const handleRetry = async (version: RetryVersion): Promise<void> => {
     if (!onRetry) return;
 
     try {
       setIsRetrying(true);
-      await onRetry();
+      await onRetry(version);
     } catch (error) {
       // Error handling is done by parent component
     } finally {
@@ -146,6 +162,9 @@ export function ResultsViewer({
   const formatOutput = (
     output: string | null
   ): { formatted: string; isJson: boolean } => {
+    if (isStreaming) {
+      return { formatted: output || 'Waiting for output...', isJson: false };
+    }
     if (!output) return { formatted: 'No output generated', isJson: false };
 
     if (isJsonString(output)) {
@@ -191,24 +210,44 @@ export function ResultsViewer({
                 </Badge>
               </CardTitle>
               <CardDescription>
-                {execution.prompt.name} • {formatDate(execution.createdAt)}
+                {execution.prompt.name}
+                {ranVersion !== undefined && ` v${ranVersion}`} •{' '}
+                {formatDate(execution.createdAt)}
               </CardDescription>
             </div>
+            {isStreaming && onCancel && (
+              <Button onClick={onCancel} variant="outline">
+                Cancel
+              </Button>
+            )}
             {execution.status === 'FAILED' && onRetry && (
-              <Button
-                onClick={handleRetry}
-                disabled={isRetrying}
-                variant="outline"
-              >
-                {isRetrying ? (
-                  <>
-                    <LoadingSpinner size="sm" className="mr-2" />
-                    Retrying...
-                  </>
-                ) : (
-                  'Retry Execution'
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => handleRetry('same')}
+                  disabled={isRetrying}
+                  variant="outline"
+                >
+                  {isRetrying ? (
+                    <>
+                      <LoadingSpinner size="sm" className="mr-2" />
+                      Retrying...
+                    </>
+                  ) : canRetryLatest ? (
+                    `Retry with v${ranVersion}`
+                  ) : (
+                    'Retry Execution'
+                  )}
+                </Button>
+                {canRetryLatest && (
+                  <Button
+                    onClick={() => handleRetry('latest')}
+                    disabled={isRetrying}
+                    variant="outline"
+                  >
+                    Retry with Latest (v{latestVersion})
+                  </Button>
                 )}
-              </Button>
+              </div>
             )}
           </div>
         </CardHeader>
@@ -309,6 +348,12 @@ export function ResultsViewer({
                 <span>{formatDate(execution.completedAt)}</span>
               </div>
             )}
+            {execution.cancelledAt && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Cancelled:</span>
+                <span>{formatDate(execution.cancelledAt)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm font-medium">
               <span className="text-muted-foreground">Duration:</span>
               <span>{getDuration()}</span>
@@ -339,7 +384,7 @@ export function ResultsViewer({
               variant="ghost"
               size="sm"
               onClick={() => handleCopy(execution.output || '', 'output')}
-              disabled={!execution.output}
+              disabled={!execution.output || isStreaming}
             >
               {copyStatus.output ? 'Copied!' : 'Copy'}
             </Button>
@@ -349,6 +394,12 @@ export function ResultsViewer({
           <div className="relative">
             <pre className="bg-muted p-4 rounded-md text-sm overflow-auto max-h-96 whitespace-pre-wrap">
               <code>{outputInfo.formatted}</code>
+              {isStreaming && (
+                <span
+                  aria-hidden="true"
+                  className="ml-0.5 inline-block h-4 w-2 animate-pulse bg-foreground align-text-bottom"
+                />
+              )}
             </pre>
           </div>
         </CardContent>
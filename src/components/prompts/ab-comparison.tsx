@@ -0,0 +1,388 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import type {
+  ComparisonCell,
+  ComparisonDetail,
+  ComparisonSideSummary,
+  ComparisonStatus,
+} from '@/lib/execution/comparison-runner';
+
+interface ComparisonListItem {
+  id: string;
+  name: string | null;
+  versionA: number;
+  modelA: string;
+  versionB: number;
+  modelB: string;
+  totalRows: number;
+  winner: 'A' | 'B' | 'TIE' | null;
+  status: ComparisonStatus;
+  createdAt: string;
+}
+
+interface AbComparisonProps {
+  promptId: string;
+  currentVersion: number;
+  defaultModel: string | null;
+}
+
+// How often a running comparison is refreshed
+const POLL_INTERVAL_MS = 3000;
+
+const formatCost = (cost: number | null): string =>
+  cost === null ? '—' : `$${cost.toFixed(6)}`;
+
+const formatPercent = (rate: number | null): string =>
+  rate === null ? '—' : `${Math.round(rate * 100)}%`;
+
+const formatLatency = (latencyMs: number | null): string =>
+  latencyMs === null ? '—' : `${Math.round(latencyMs)} ms`;
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed: ${response.status}`);
+  }
+  return body as T;
+}
+
+function SummaryCard({
+  label,
+  summary,
+  isWinner,
+}: {
+  label: string;
+  summary: ComparisonSideSummary;
+  isWinner: boolean;
+}): JSX.Element {
+  return (
+    <div className="space-y-2 rounded-md border p-4">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">
+          {label}: v{summary.version}
+        </span>
+        <span className="text-sm text-muted-foreground">{summary.model}</span>
+        {isWinner && <Badge>Winner</Badge>}
+      </div>
+      <dl className="grid grid-cols-2 gap-1 text-sm">
+        <dt className="text-muted-foreground">Completed</dt>
+        <dd>
+          {summary.completed} ({summary.failed} failed, {summary.pending}{' '}
+          pending)
+        </dd>
+        <dt className="text-muted-foreground">Avg latency</dt>
+        <dd>{formatLatency(summary.avgLatencyMs)}</dd>
+        <dt className="text-muted-foreground">Total cost</dt>
+        <dd>{formatCost(summary.totalCostUsd)}</dd>
+        <dt className="text-muted-foreground">Avg cost</dt>
+        <dd>{formatCost(summary.avgCostUsd)}</dd>
+        <dt className="text-muted-foreground">Validation pass rate</dt>
+        <dd>{formatPercent(summary.validationPassRate)}</dd>
+      </dl>
+    </div>
+  );
+}
+
+function OutputCell({ cell }: { cell: ComparisonCell | null }): JSX.Element {
+  if (!cell) {
+    return <p className="text-sm text-muted-foreground">No execution</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+        <Badge variant={cell.status === 'FAILED' ? 'destructive' : 'outline'}>
+          {cell.status}
+        </Badge>
+        <span>{formatLatency(cell.latencyMs)}</span>
+        <span>{formatCost(cell.costUsd)}</span>
+        <span>validation: {cell.validationStatus.toLowerCase()}</span>
+      </div>
+      <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-sm">
+        {cell.output ?? cell.errorMessage ?? ''}
+      </pre>
+    </div>
+  );
+}
+
+export function AbComparison({
+  promptId,
+  currentVersion,
+  defaultModel,
+}: AbComparisonProps): JSX.Element {
+  const [comparisons, setComparisons] = useState<ComparisonListItem[]>([]);
+  const [selected, setSelected] = useState<ComparisonDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isDeciding, setIsDeciding] = useState(false);
+  const [note, setNote] = useState('');
+  const [form, setForm] = useState({
+    name: '',
+    versionA: String(Math.max(currentVersion - 1, 1)),
+    modelA: defaultModel || '',
+    versionB: String(currentVersion),
+    modelB: defaultModel || '',
+    inputs: '[\n  {}\n]',
+  });
+
+  const loadComparisons = useCallback(async (): Promise<void> => {
+    try {
+      const body = await readJson<{ comparisons: ComparisonListItem[] }>(
+        await fetch(`/api/prompts/${promptId}/comparisons`)
+      );
+      setComparisons(body.comparisons);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    }
+  }, [promptId]);
+
+  const loadComparison = useCallback(async (id: string): Promise<void> => {
+    try {
+      const body = await readJson<{ data: ComparisonDetail }>(
+        await fetch(`/api/comparisons/${id}`)
+      );
+      setSelected(body.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadComparisons();
+  }, [loadComparisons]);
+
+  // Refresh the open comparison until every row has finished
+  useEffect(() => {
+    if (!selected || selected.status !== 'RUNNING') return;
+
+    const timer = setTimeout(() => {
+      loadComparison(selected.id).then(loadComparisons);
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [selected, loadComparison, loadComparisons]);
+
+  const handleStart = async (): Promise<void> => {
+    try {
+      setIsStarting(true);
+      setError(null);
+
+      let inputs: unknown;
+      try {
+        inputs = JSON.parse(form.inputs);
+      } catch {
+        throw new Error('Inputs must be a JSON array of objects');
+      }
+
+      const side = (
+        version: string,
+        model: string
+      ): { version?: number; model?: string } => ({
+        version: version ? Number(version) : undefined,
+        model: model.trim() || undefined,
+      });
+
+      const comparison = await readJson<{ id: string }>(
+        await fetch(`/api/prompts/${promptId}/comparisons`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: form.name.trim() || undefined,
+            a: side(form.versionA, form.modelA),
+            b: side(form.versionB, form.modelB),
+            inputs,
+          }),
+        })
+      );
+
+      await loadComparisons();
+      await loadComparison(comparison.id);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to start comparison'
+      );
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleDecide = async (winner: 'A' | 'B' | 'TIE'): Promise<void> => {
+    if (!selected) return;
+
+    try {
+      setIsDeciding(true);
+      setError(null);
+
+      const body = await readJson<{ data: ComparisonDetail }>(
+        await fetch(`/api/comparisons/${selected.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ winner, note: note.trim() || undefined }),
+        })
+      );
+
+      setSelected(body.data);
+      setNote('');
+      await loadComparisons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark winner');
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  const updateForm = (field: keyof typeof form, value: string): void => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <Input
+          placeholder="Comparison name (optional)"
+          value={form.name}
+          onChange={e => updateForm('name', e.target.value)}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          {(['A', 'B'] as const).map(side => (
+            <div key={side} className="space-y-2">
+              <p className="text-sm font-medium">Side {side}</p>
+              <Input
+                type="number"
+                min={1}
+                placeholder={`Version (current: ${currentVersion})`}
+                value={form[`version${side}`]}
+                onChange={e => updateForm(`version${side}`, e.target.value)}
+              />
+              <Input
+                placeholder="Model, e.g. openai:gpt-4o-mini"
+                value={form[`model${side}`]}
+                onChange={e => updateForm(`model${side}`, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+        <Textarea
+          rows={5}
+          className="font-mono text-sm"
+          placeholder='[{"text": "first input"}, {"text": "second input"}]'
+          value={form.inputs}
+          onChange={e => updateForm('inputs', e.target.value)}
+        />
+        <Button onClick={handleStart} disabled={isStarting}>
+          {isStarting ? 'Starting...' : 'Run Comparison'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {comparisons.length > 0 && (
+        <div className="space-y-2">
+          {comparisons.map(comparison => (
+            <button
+              key={comparison.id}
+              type="button"
+              className={`flex w-full items-center gap-2 rounded-md border p-2 text-left text-sm hover:bg-muted ${
+                selected?.id === comparison.id ? 'border-primary' : ''
+              }`}
+              onClick={() => loadComparison(comparison.id)}
+            >
+              <span className="font-medium">
+                {comparison.name || 'A/B comparison'}
+              </span>
+              <span className="text-muted-foreground">
+                v{comparison.versionA} ({comparison.modelA}) vs v
+                {comparison.versionB} ({comparison.modelB}),{' '}
+                {comparison.totalRows} rows
+              </span>
+              <span className="ml-auto flex gap-1">
+                {comparison.winner && (
+                  <Badge variant="secondary">
+                    {comparison.winner === 'TIE'
+                      ? 'Tie'
+                      : `${comparison.winner} won`}
+                  </Badge>
+                )}
+                <Badge variant="outline">{comparison.status}</Badge>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <SummaryCard
+              label="A"
+              summary={selected.summary.a}
+              isWinner={selected.winner === 'A'}
+            />
+            <SummaryCard
+              label="B"
+              summary={selected.summary.b}
+              isWinner={selected.winner === 'B'}
+            />
+          </div>
+
+          {selected.status === 'COMPLETED' && (
+            <div className="space-y-2">
+              {selected.winner && (
+                <p className="text-sm text-muted-foreground">
+                  Decided:{' '}
+                  {selected.winner === 'TIE' ? 'tie' : `${selected.winner} won`}
+                  {selected.decisionNote && ` (${selected.decisionNote})`}
+                </p>
+              )}
+              <Input
+                placeholder="Decision note (optional)"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={isDeciding}
+                  onClick={() => handleDecide('A')}
+                >
+                  A Wins
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={isDeciding}
+                  onClick={() => handleDecide('B')}
+                >
+                  B Wins
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isDeciding}
+                  onClick={() => handleDecide('TIE')}
+                >
+                  Tie
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {selected.rows.map(row => (
+            <div key={row.row} className="space-y-2 rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">
+                Row {row.row}: {JSON.stringify(row.inputs)}
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <OutputCell cell={row.a} />
+                <OutputCell cell={row.b} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
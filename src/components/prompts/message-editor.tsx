@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import type { PromptMessage, PromptMessageRole } from '@/types/database';
+
+interface MessageEditorProps {
+  messages: PromptMessage[];
+  onSave: (messages: PromptMessage[]) => Promise<void>;
+}
+
+const ROLES: PromptMessageRole[] = ['system', 'user', 'assistant'];
+
+export function MessageEditor({
+  messages,
+  onSave,
+}: MessageEditorProps): JSX.Element {
+  const [draft, setDraft] = useState<PromptMessage[]>(messages);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(messages);
+  }, [messages]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(messages);
+
+  const updateMessage = (
+    index: number,
+    update: Partial<PromptMessage>
+  ): void => {
+    setDraft(current =>
+      current.map((message, i) =>
+        i === index ? { ...message, ...update } : message
+      )
+    );
+  };
+
+  const moveMessage = (index: number, offset: -1 | 1): void => {
+    setDraft(current => {
+      const next = [...current];
+      const [message] = next.splice(index, 1);
+      next.splice(index + offset, 0, message);
+      return next;
+    });
+  };
+
+  const addMessage = (): void => {
+    // The first turn is usually the system prompt, later ones few-shot pairs
+    const lastRole = draft[draft.length - 1]?.role;
+    const role: PromptMessageRole =
+      lastRole === undefined
+        ? 'system'
+        : lastRole === 'user'
+          ? 'assistant'
+          : 'user';
+    setDraft(current => [...current, { role, content: '' }]);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSave(draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save messages');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {draft.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No messages. The template is sent as a single user message.
+        </p>
+      )}
+
+      {draft.map((message, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <select
+              className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              value={message.role}
+              onChange={e =>
+                updateMessage(index, {
+                  role: e.target.value as PromptMessageRole,
+                })
+              }
+            >
+              {ROLES.map(role => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <div className="ml-auto flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => moveMessage(index, -1)}
+                disabled={index === 0}
+              >
+                ↑
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => moveMessage(index, 1)}
+                disabled={index === draft.length - 1}
+              >
+                ↓
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setDraft(current => current.filter((_, i) => i !== index))
+                }
+              >
+                Remove
+              </Button>
+            </div>
+          </div>
+          <Textarea
+            rows={4}
+            value={message.content}
+            placeholder="Message template, e.g. You are a {{tone}} assistant"
+            onChange={e => updateMessage(index, { content: e.target.value })}
+          />
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={addMessage}>
+          Add Message
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!isDirty || isSaving || draft.some(m => !m.content.trim())}
+        >
+          {isSaving ? 'Saving...' : 'Save Messages'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import type {
+  BranchContent,
+  BranchMergeConflict,
+} from '@/lib/prompts/branches';
+
+interface BranchListItem {
+  id: string;
+  name: string;
+  template: string;
+  baseVersion: number;
+  mergedAt: string | null;
+  mergedVersion: number | null;
+  behind: boolean;
+  updatedAt: string;
+}
+
+interface PromptBranchesProps {
+  promptId: string;
+  currentVersion: number;
+  // Called after a merge creates a version, e.g. to refetch the prompt
+  onMerged?: () => void;
+}
+
+interface MergeConflictState {
+  conflicts: BranchMergeConflict[];
+  currentVersion: number;
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw Object.assign(
+      new Error(body.error || `Request failed: ${response.status}`),
+      { status: response.status, details: body.details }
+    );
+  }
+  return body as T;
+}
+
+export function PromptBranches({
+  promptId,
+  currentVersion,
+  onMerged,
+}: PromptBranchesProps): JSX.Element {
+  const [branches, setBranches] = useState<BranchListItem[]>([]);
+  const [newName, setNewName] = useState('');
+  const [selected, setSelected] = useState<BranchListItem | null>(null);
+  const [template, setTemplate] = useState('');
+  const [rebaseTo, setRebaseTo] = useState<number | null>(null);
+  const [changeLog, setChangeLog] = useState('');
+  const [conflict, setConflict] = useState<MergeConflictState | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const branchUrl = (name: string): string =>
+    `/api/prompts/${promptId}/branches/${encodeURIComponent(name)}`;
+
+  const loadBranches = useCallback(async (): Promise<BranchListItem[]> => {
+    try {
+      const body = await readJson<{ branches: BranchListItem[] }>(
+        await fetch(`/api/prompts/${promptId}/branches`)
+      );
+      setBranches(body.branches);
+      return body.branches;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load branches');
+      return [];
+    }
+  }, [promptId]);
+
+  useEffect(() => {
+    loadBranches();
+  }, [loadBranches, currentVersion]);
+
+  const selectBranch = (branch: BranchListItem): void => {
+    setSelected(branch);
+    setTemplate(branch.template);
+    setRebaseTo(null);
+    setConflict(null);
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = (): Promise<void> =>
+    run(async () => {
+      const branch = await readJson<BranchListItem>(
+        await fetch(`/api/prompts/${promptId}/branches`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: newName.trim().toLowerCase() }),
+        })
+      );
+      setNewName('');
+      await loadBranches();
+      selectBranch({ ...branch, behind: false });
+    });
+
+  const handleSave = (): Promise<void> =>
+    run(async () => {
+      if (!selected) return;
+      await readJson(
+        await fetch(branchUrl(selected.name), {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            template,
+            ...(rebaseTo !== null && { baseVersion: rebaseTo }),
+          }),
+        })
+      );
+      const refreshed = await loadBranches();
+      const branch = refreshed.find(b => b.name === selected.name);
+      if (branch) selectBranch(branch);
+    });
+
+  const handleMerge = (): Promise<void> =>
+    run(async () => {
+      if (!selected) return;
+      try {
+        await readJson(
+          await fetch(`${branchUrl(selected.name)}/merge`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ changeLog: changeLog.trim() || undefined }),
+          })
+        );
+      } catch (err) {
+        const details = (
+          err as {
+            details?: MergeConflictState & { merged: BranchContent };
+          }
+        ).details;
+        if ((err as { status?: number }).status !== 409 || !details?.merged) {
+          throw err;
+        }
+
+        // Resolve in the editor, then save to rebase onto the current version
+        setConflict({
+          conflicts: details.conflicts,
+          currentVersion: details.currentVersion,
+        });
+        setTemplate(details.merged.template);
+        setRebaseTo(details.currentVersion);
+        return;
+      }
+
+      setSelected(null);
+      setChangeLog('');
+      await loadBranches();
+      onMerged?.();
+    });
+
+  const handleDelete = (name: string): Promise<void> =>
+    run(async () => {
+      await readJson(await fetch(branchUrl(name), { method: 'DELETE' }));
+      if (selected?.name === name) setSelected(null);
+      await loadBranches();
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input
+          className="w-64"
+          placeholder="New branch, e.g. shorter-intro"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+        />
+        <Button
+          size="sm"
+          onClick={handleCreate}
+          disabled={isBusy || !newName.trim()}
+        >
+          Create Branch
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {branches.length > 0 && (
+        <div className="space-y-2">
+          {branches.map(branch => (
+            <div
+              key={branch.id}
+              className={`flex items-center gap-2 rounded-md border p-2 text-sm ${
+                selected?.id === branch.id ? 'border-primary' : ''
+              }`}
+            >
+              <button
+                type="button"
+                className="font-medium hover:underline disabled:no-underline"
+                disabled={Boolean(branch.mergedAt)}
+                onClick={() => selectBranch(branch)}
+              >
+                {branch.name}
+              </button>
+              <span className="text-muted-foreground">
+                from v{branch.baseVersion}
+              </span>
+              {branch.behind && (
+                <Badge variant="outline">Behind v{currentVersion}</Badge>
+              )}
+              {branch.mergedAt && (
+                <Badge variant="secondary">
+                  Merged as v{branch.mergedVersion}
+                </Badge>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="ml-auto"
+                disabled={isBusy}
+                onClick={() => handleDelete(branch.name)}
+              >
+                Delete
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-3 rounded-md border p-4">
+          <p className="text-sm font-medium">
+            Editing {selected.name}
+            {rebaseTo !== null && ` (saving rebases it onto v${rebaseTo})`}
+          </p>
+
+          {conflict && (
+            <div className="space-y-1 rounded-md border border-destructive p-3 text-sm">
+              <p className="font-medium text-destructive">
+                {conflict.conflicts.length} conflict
+                {conflict.conflicts.length === 1 ? '' : 's'} with v
+                {conflict.currentVersion}
+              </p>
+              <ul className="list-disc pl-5 text-muted-foreground">
+                {conflict.conflicts.map((item, i) => (
+                  <li key={i}>
+                    {item.field}
+                    {item.name && ` "${item.name}"`}
+                  </li>
+                ))}
+              </ul>
+              <p className="text-muted-foreground">
+                Template conflicts are marked in the editor. Resolve them, save,
+                then merge again.
+              </p>
+            </div>
+          )}
+
+          <Textarea
+            rows={10}
+            className="font-mono text-sm"
+            value={template}
+            onChange={e => setTemplate(e.target.value)}
+          />
+          <Input
+            placeholder="Change log for the merge (optional)"
+            value={changeLog}
+            onChange={e => setChangeLog(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={isBusy}>
+              Save Draft
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleMerge}
+              disabled={isBusy || template !== selected.template}
+            >
+              Merge into Main
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { DiffLine, TextDiff } from '@/lib/prompts/text-diff';
+import type { VersionComparison } from '@/lib/prompts/versioning';
+import { cn } from '@/lib/utils';
+
+interface VersionDiffProps {
+  promptId: string;
+  currentVersion: number;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  context: '',
+  add: 'bg-green-50 dark:bg-green-950/40',
+  remove: 'bg-red-50 dark:bg-red-950/40',
+};
+
+const SEGMENT_STYLES = {
+  equal: '',
+  insert: 'rounded-sm bg-green-200 dark:bg-green-800',
+  delete: 'rounded-sm bg-red-200 dark:bg-red-800',
+};
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = {
+  context: ' ',
+  add: '+',
+  remove: '-',
+};
+
+function DiffLineRow({ line }: { line: DiffLine }): JSX.Element {
+  return (
+    <tr className={LINE_STYLES[line.type]}>
+      <td className="w-10 select-none pr-2 text-right text-muted-foreground">
+        {line.oldNumber ?? ''}
+      </td>
+      <td className="w-10 select-none pr-2 text-right text-muted-foreground">
+        {line.newNumber ?? ''}
+      </td>
+      <td className="whitespace-pre-wrap break-all">
+        <span className="select-none text-muted-foreground">
+          {LINE_PREFIX[line.type]}{' '}
+        </span>
+        {line.segments
+          ? line.segments.map((segment, i) => (
+              <span key={i} className={SEGMENT_STYLES[segment.type]}>
+                {segment.text}
+              </span>
+            ))
+          : line.content}
+      </td>
+    </tr>
+  );
+}
+
+function TextDiffView({
+  title,
+  diff,
+}: {
+  title: string;
+  diff: TextDiff;
+}): JSX.Element {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h4 className="text-sm font-medium">{title}</h4>
+        <span className="text-xs text-green-700 dark:text-green-400">
+          +{diff.additions}
+        </span>
+        <span className="text-xs text-red-700 dark:text-red-400">
+          -{diff.deletions}
+        </span>
+      </div>
+      <div className="overflow-x-auto rounded-md border font-mono text-xs">
+        {diff.hunks.map((hunk, i) => (
+          <table key={i} className="w-full border-collapse">
+            <tbody>
+              <tr className="bg-muted text-muted-foreground">
+                <td colSpan={3} className="px-2 py-1">
+                  {`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`}
+                </td>
+              </tr>
+              {hunk.lines.map((line, j) => (
+                <DiffLineRow key={j} line={line} />
+              ))}
+            </tbody>
+          </table>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function VersionDiff({
+  promptId,
+  currentVersion,
+}: VersionDiffProps): JSX.Element {
+  const [from, setFrom] = useState(String(Math.max(currentVersion - 1, 1)));
+  const [to, setTo] = useState(String(currentVersion));
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDiff = useCallback(
+    async (fromVersion: string, toVersion: string): Promise<void> => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({
+          from: fromVersion,
+          to: toVersion,
+        });
+        const response = await fetch(
+          `/api/prompts/${promptId}/versions/compare?${params}`
+        );
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(body.error || `Request failed: ${response.status}`);
+        }
+
+        setComparison(body.data);
+      } catch (err) {
+        setComparison(null);
+        setError(err instanceof Error ? err.message : 'Failed to load diff');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [promptId]
+  );
+
+  useEffect(() => {
+    if (currentVersion > 1) {
+      loadDiff(String(currentVersion - 1), String(currentVersion));
+    }
+  }, [currentVersion, loadDiff]);
+
+  const changes = comparison?.changes;
+  const variablesDiff = changes?.variablesDiff;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={1}
+          max={currentVersion}
+          className="w-24"
+          value={from}
+          onChange={e => setFrom(e.target.value)}
+        />
+        <span className="text-sm text-muted-foreground">→</span>
+        <Input
+          type="number"
+          min={1}
+          max={currentVersion}
+          className="w-24"
+          value={to}
+          onChange={e => setTo(e.target.value)}
+        />
+        <Button
+          size="sm"
+          onClick={() => loadDiff(from, to)}
+          disabled={loading || !from || !to}
+        >
+          {loading ? 'Comparing...' : 'Compare'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {currentVersion === 1 && !comparison && (
+        <p className="text-sm text-muted-foreground">
+          This prompt has a single version.
+        </p>
+      )}
+
+      {changes &&
+        !changes.templateChanged &&
+        !changes.messagesChanged &&
+        !changes.variablesChanged && (
+          <p className="text-sm text-muted-foreground">
+            The versions are identical.
+          </p>
+        )}
+
+      {changes?.templateDiff && (
+        <TextDiffView title="Template" diff={changes.templateDiff} />
+      )}
+      {changes?.messagesDiff && (
+        <TextDiffView title="Messages" diff={changes.messagesDiff} />
+      )}
+
+      {variablesDiff && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Variables</h4>
+          <div className="flex flex-wrap gap-2">
+            {variablesDiff.added.map(variable => (
+              <Badge
+                key={`added-${variable.name}`}
+                variant="outline"
+                className={cn(SEGMENT_STYLES.insert, 'border-transparent')}
+              >
+                + {variable.name}
+              </Badge>
+            ))}
+            {variablesDiff.removed.map(variable => (
+              <Badge
+                key={`removed-${variable.name}`}
+                variant="outline"
+                className={cn(SEGMENT_STYLES.delete, 'border-transparent')}
+              >
+                - {variable.name}
+              </Badge>
+            ))}
+            {variablesDiff.modified.map(({ name }) => (
+              <Badge key={`modified-${name}`} variant="secondary">
+                ~ {name}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
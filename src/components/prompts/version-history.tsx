@@ -0,0 +1,196 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { VersionInfo } from '@/lib/prompts/versioning';
+import { formatDate } from '@/lib/utils';
+
+interface VersionHistoryProps {
+  promptId: string;
+  currentVersion: number;
+  // Called after an action changes the prompt, e.g. to refetch it
+  onChange?: () => void;
+}
+
+type VersionListItem = Omit<VersionInfo, 'createdAt'> & { createdAt: string };
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed: ${response.status}`);
+  }
+  return body as T;
+}
+
+export function VersionHistory({
+  promptId,
+  currentVersion,
+  onChange,
+}: VersionHistoryProps): JSX.Element {
+  const [versions, setVersions] = useState<VersionListItem[]>([]);
+  const [labelDrafts, setLabelDrafts] = useState<Record<number, string>>({});
+  const [busyVersion, setBusyVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async (): Promise<void> => {
+    try {
+      const body = await readJson<{ versions: VersionListItem[] }>(
+        await fetch(`/api/prompts/${promptId}/versions`)
+      );
+      setVersions(body.versions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    }
+  }, [promptId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, currentVersion]);
+
+  const runAction = async (
+    version: number,
+    request: () => Promise<Response>
+  ): Promise<void> => {
+    try {
+      setBusyVersion(version);
+      setError(null);
+      await readJson(await request());
+      await loadVersions();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleRollback = (version: number): Promise<void> =>
+    runAction(version, () =>
+      fetch(`/api/prompts/${promptId}/versions/${version}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      })
+    );
+
+  const handlePublish = (version: number): Promise<void> =>
+    runAction(version, () =>
+      fetch(`/api/prompts/${promptId}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      })
+    );
+
+  const handleAddLabel = async (version: number): Promise<void> => {
+    const name = labelDrafts[version]?.trim().toLowerCase();
+    if (!name) return;
+
+    await runAction(version, () =>
+      fetch(`/api/prompts/${promptId}/labels/${encodeURIComponent(name)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      })
+    );
+    setLabelDrafts(current => ({ ...current, [version]: '' }));
+  };
+
+  const handleRemoveLabel = (version: number, name: string): Promise<void> =>
+    runAction(version, () =>
+      fetch(`/api/prompts/${promptId}/labels/${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+      })
+    );
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {versions.map(version => {
+        const isBusy = busyVersion === version.version;
+        const isCurrent = version.version === currentVersion;
+
+        return (
+          <div
+            key={version.version}
+            className="space-y-2 rounded-md border p-3 text-sm"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">v{version.version}</span>
+              {isCurrent && <Badge variant="secondary">Current</Badge>}
+              {version.isLive && <Badge>Live</Badge>}
+              {version.labels.map(label => (
+                <Badge key={label} variant="outline" className="gap-1">
+                  {label}
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={`Remove label ${label}`}
+                    disabled={isBusy}
+                    onClick={() => handleRemoveLabel(version.version, label)}
+                  >
+                    ×
+                  </button>
+                </Badge>
+              ))}
+              <span className="ml-auto text-muted-foreground">
+                {formatDate(version.createdAt)}
+              </span>
+            </div>
+
+            {version.changeLog && (
+              <p className="whitespace-pre-wrap text-muted-foreground">
+                {version.changeLog}
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              {!isCurrent && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isBusy}
+                  onClick={() => handleRollback(version.version)}
+                >
+                  Rollback
+                </Button>
+              )}
+              {!version.isLive && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isBusy}
+                  onClick={() => handlePublish(version.version)}
+                >
+                  Make Live
+                </Button>
+              )}
+              <Input
+                className="h-8 w-36"
+                placeholder="Label, e.g. staging"
+                value={labelDrafts[version.version] ?? ''}
+                onChange={e =>
+                  setLabelDrafts(current => ({
+                    ...current,
+                    [version.version]: e.target.value,
+                  }))
+                }
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={isBusy || !labelDrafts[version.version]?.trim()}
+                onClick={() => handleAddLabel(version.version)}
+              >
+                Add Label
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
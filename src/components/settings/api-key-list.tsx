@@ -0,0 +1,204 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ApiKeyInfo } from '@/lib/auth/api-keys';
+import { formatDate } from '@/lib/utils';
+import type { ApiKeyScope } from '@/types/database';
+
+type ApiKeyListItem = Omit<
+  ApiKeyInfo,
+  'expiresAt' | 'revokedAt' | 'createdAt' | 'usage'
+> & {
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  usage: Omit<ApiKeyInfo['usage'], 'lastUsed'> & { lastUsed: string | null };
+};
+
+const SCOPES: Array<{ value: ApiKeyScope; label: string }> = [
+  { value: 'PROMPTS_READ', label: 'Read prompts' },
+  { value: 'EXECUTE', label: 'Execute' },
+  { value: 'ADMIN', label: 'Admin' },
+];
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed: ${response.status}`);
+  }
+  return body as T;
+}
+
+export function ApiKeyList(): JSX.Element {
+  const [apiKeys, setApiKeys] = useState<ApiKeyListItem[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['EXECUTE']);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async (): Promise<void> => {
+    try {
+      const body = await readJson<{ apiKeys: ApiKeyListItem[] }>(
+        await fetch('/api/api-keys')
+      );
+      setApiKeys(body.apiKeys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const toggleScope = (scope: ApiKeyScope): void => {
+    setScopes(current =>
+      current.includes(scope)
+        ? current.filter(value => value !== scope)
+        : [...current, scope]
+    );
+  };
+
+  const handleCreate = async (): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      const body = await readJson<{ key: string }>(
+        await fetch('/api/api-keys', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: name.trim(),
+            scopes,
+            ...(expiresInDays && { expiresInDays: Number(expiresInDays) }),
+          }),
+        })
+      );
+      setCreatedKey(body.key);
+      setName('');
+      setExpiresInDays('');
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async (id: string): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      await readJson(await fetch(`/api/api-keys/${id}`, { method: 'DELETE' }));
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3 rounded-md border p-4">
+        <div className="flex flex-wrap gap-2">
+          <Input
+            className="w-64"
+            placeholder="Key name, e.g. billing-service"
+            value={name}
+            onChange={e => setName(e.target.value)}
+          />
+          <Input
+            className="w-40"
+            type="number"
+            min={1}
+            max={365}
+            placeholder="Expires in days"
+            value={expiresInDays}
+            onChange={e => setExpiresInDays(e.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {SCOPES.map(scope => (
+            <label key={scope.value} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope.value)}
+                onChange={() => toggleScope(scope.value)}
+              />
+              {scope.label}
+            </label>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          onClick={handleCreate}
+          disabled={isBusy || !name.trim() || scopes.length === 0}
+        >
+          Create API Key
+        </Button>
+      </div>
+
+      {createdKey && (
+        <div className="space-y-2 rounded-md border border-primary p-4 text-sm">
+          <p className="font-medium">
+            Copy this key now. It will not be shown again.
+          </p>
+          <code className="block break-all rounded bg-muted p-2">
+            {createdKey}
+          </code>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setCreatedKey(null)}
+          >
+            Done
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="space-y-2">
+        {apiKeys.map(apiKey => (
+          <div
+            key={apiKey.id}
+            className="flex flex-wrap items-center gap-2 rounded-md border p-3 text-sm"
+          >
+            <span className="font-medium">{apiKey.name}</span>
+            <code className="text-muted-foreground">{apiKey.prefix}…</code>
+            {apiKey.scopes.map(scope => (
+              <Badge key={scope} variant="outline">
+                {SCOPES.find(item => item.value === scope)?.label ?? scope}
+              </Badge>
+            ))}
+            {!apiKey.isActive && <Badge variant="secondary">Revoked</Badge>}
+            <span className="text-muted-foreground">
+              {apiKey.usage.requests} requests, {apiKey.usage.executions}{' '}
+              executions, ${apiKey.usage.totalCostUsd.toFixed(4)}
+              {apiKey.usage.lastUsed &&
+                `, last used ${formatDate(apiKey.usage.lastUsed)}`}
+              {apiKey.expiresAt && `, expires ${formatDate(apiKey.expiresAt)}`}
+            </span>
+            {apiKey.isActive && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="ml-auto"
+                disabled={isBusy}
+                onClick={() => handleRevoke(apiKey.id)}
+              >
+                Revoke
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
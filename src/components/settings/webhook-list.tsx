@@ -0,0 +1,329 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatDate } from '@/lib/utils';
+import type {
+  WebhookDeliveryInfo,
+  WebhookInfo,
+} from '@/lib/webhooks/webhook-manager';
+
+type WebhookListItem = Omit<WebhookInfo, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+type DeliveryListItem = Omit<
+  WebhookDeliveryInfo,
+  'createdAt' | 'deliveredAt' | 'nextAttemptAt'
+> & {
+  createdAt: string;
+  deliveredAt: string | null;
+  nextAttemptAt: string | null;
+};
+
+const STATUS_VARIANTS: Record<
+  DeliveryListItem['status'],
+  'default' | 'secondary' | 'destructive'
+> = {
+  SUCCEEDED: 'default',
+  PENDING: 'secondary',
+  FAILED: 'destructive',
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed: ${response.status}`);
+  }
+  return body as T;
+}
+
+export function WebhookList(): JSX.Element {
+  const [webhooks, setWebhooks] = useState<WebhookListItem[]>([]);
+  const [availableEvents, setAvailableEvents] = useState<string[]>([]);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<string[]>(['execution.failed']);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<DeliveryListItem[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadWebhooks = useCallback(async (): Promise<void> => {
+    try {
+      const body = await readJson<{
+        webhooks: WebhookListItem[];
+        events: string[];
+      }>(await fetch('/api/webhooks'));
+      setWebhooks(body.webhooks);
+      setAvailableEvents(body.events);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    }
+  }, []);
+
+  const loadDeliveries = useCallback(async (id: string): Promise<void> => {
+    try {
+      const body = await readJson<{ deliveries: DeliveryListItem[] }>(
+        await fetch(`/api/webhooks/${id}/deliveries`)
+      );
+      setDeliveries(body.deliveries);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load deliveries'
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  useEffect(() => {
+    if (openId) {
+      loadDeliveries(openId);
+    }
+  }, [openId, loadDeliveries]);
+
+  const toggleEvent = (event: string): void => {
+    setEvents(current =>
+      current.includes(event)
+        ? current.filter(value => value !== event)
+        : [...current, event]
+    );
+  };
+
+  const handleCreate = async (): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      const body = await readJson<{ secret: string }>(
+        await fetch('/api/webhooks', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            url: url.trim(),
+            events,
+            ...(description.trim() && { description: description.trim() }),
+          }),
+        })
+      );
+      setCreatedSecret(body.secret);
+      setUrl('');
+      setDescription('');
+      await loadWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create webhook');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleToggleActive = async (
+    webhook: WebhookListItem
+  ): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      await readJson(
+        await fetch(`/api/webhooks/${webhook.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ isActive: !webhook.isActive }),
+        })
+      );
+      await loadWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update webhook');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTest = async (id: string): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      await readJson(
+        await fetch(`/api/webhooks/${id}/test`, { method: 'POST' })
+      );
+      setOpenId(id);
+      await loadDeliveries(id);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to send test event'
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async (id: string): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      await readJson(await fetch(`/api/webhooks/${id}`, { method: 'DELETE' }));
+      if (openId === id) {
+        setOpenId(null);
+      }
+      await loadWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete webhook');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3 rounded-md border p-4">
+        <div className="flex flex-wrap gap-2">
+          <Input
+            className="w-80"
+            placeholder="https://example.com/hooks/formaops"
+            value={url}
+            onChange={e => setUrl(e.target.value)}
+          />
+          <Input
+            className="w-64"
+            placeholder="Description (optional)"
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {availableEvents.map(event => (
+            <label key={event} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={() => toggleEvent(event)}
+              />
+              <code>{event}</code>
+            </label>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          onClick={handleCreate}
+          disabled={isBusy || !url.trim() || events.length === 0}
+        >
+          Add Webhook
+        </Button>
+      </div>
+
+      {createdSecret && (
+        <div className="space-y-2 rounded-md border border-primary p-4 text-sm">
+          <p className="font-medium">
+            Copy this signing secret now. It will not be shown again.
+          </p>
+          <code className="block break-all rounded bg-muted p-2">
+            {createdSecret}
+          </code>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setCreatedSecret(null)}
+          >
+            Done
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="space-y-2">
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className="rounded-md border p-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <code className="font-medium">{webhook.url}</code>
+              {webhook.description && (
+                <span className="text-muted-foreground">
+                  {webhook.description}
+                </span>
+              )}
+              {webhook.events.map(event => (
+                <Badge key={event} variant="outline">
+                  {event}
+                </Badge>
+              ))}
+              {!webhook.isActive && <Badge variant="secondary">Paused</Badge>}
+              <div className="ml-auto flex gap-1">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isBusy}
+                  onClick={() => handleTest(webhook.id)}
+                >
+                  Send test event
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    setOpenId(openId === webhook.id ? null : webhook.id)
+                  }
+                >
+                  {openId === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isBusy}
+                  onClick={() => handleToggleActive(webhook)}
+                >
+                  {webhook.isActive ? 'Pause' : 'Resume'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isBusy}
+                  onClick={() => handleDelete(webhook.id)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            {openId === webhook.id && (
+              <div className="mt-3 space-y-1 border-t pt-3">
+                {deliveries.length === 0 && (
+                  <p className="text-muted-foreground">No deliveries yet</p>
+                )}
+                {deliveries.map(delivery => (
+                  <div
+                    key={delivery.id}
+                    className="flex flex-wrap items-center gap-2"
+                  >
+                    <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                      {delivery.status}
+                    </Badge>
+                    <code>{delivery.event}</code>
+                    <span className="text-muted-foreground">
+                      {formatDate(delivery.createdAt)}, {delivery.attempts}{' '}
+                      {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                      {delivery.responseStatus !== null &&
+                        `, HTTP ${delivery.responseStatus}`}
+                      {delivery.status === 'PENDING' &&
+                        delivery.nextAttemptAt &&
+                        `, next attempt ${formatDate(delivery.nextAttemptAt)}`}
+                    </span>
+                    {delivery.errorMessage && (
+                      <span className="text-destructive">
+                        {delivery.errorMessage}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
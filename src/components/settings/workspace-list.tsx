@@ -0,0 +1,367 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type {
+  InvitationInfo,
+  WorkspaceDetails,
+  WorkspaceSummary,
+} from '@/lib/auth/workspaces';
+import { formatDate } from '@/lib/utils';
+import type { WorkspaceRole } from '@/types/database';
+
+type WorkspaceListItem = Omit<WorkspaceSummary, 'createdAt'> & {
+  createdAt: string;
+};
+
+type WorkspaceView = Omit<
+  WorkspaceDetails,
+  'createdAt' | 'members' | 'invitations'
+> & {
+  createdAt: string;
+  members: Array<
+    Omit<WorkspaceDetails['members'][number], 'joinedAt'> & {
+      joinedAt: string;
+    }
+  >;
+  invitations: Array<
+    Omit<InvitationInfo, 'expiresAt' | 'createdAt'> & {
+      expiresAt: string;
+      createdAt: string;
+    }
+  >;
+};
+
+const ROLES: Array<{ value: WorkspaceRole; label: string }> = [
+  { value: 'OWNER', label: 'Owner' },
+  { value: 'EDITOR', label: 'Editor' },
+  { value: 'RUNNER', label: 'Runner' },
+  { value: 'VIEWER', label: 'Viewer' },
+];
+
+const SELECT_CLASS =
+  'flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed: ${response.status}`);
+  }
+  return body as T;
+}
+
+export function WorkspaceList(): JSX.Element {
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [workspaces, setWorkspaces] = useState<WorkspaceListItem[]>([]);
+  const [selected, setSelected] = useState<WorkspaceView | null>(null);
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('EDITOR');
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadWorkspaces = useCallback(async (): Promise<void> => {
+    try {
+      const body = await readJson<{ workspaces: WorkspaceListItem[] }>(
+        await fetch('/api/workspaces')
+      );
+      setWorkspaces(body.workspaces);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load workspaces'
+      );
+    }
+  }, []);
+
+  const loadWorkspace = useCallback(async (id: string): Promise<void> => {
+    try {
+      setSelected(
+        await readJson<WorkspaceView>(await fetch(`/api/workspaces/${id}`))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load workspace');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWorkspaces();
+    // Members can leave on their own, so tell their row apart
+    fetch('/api/auth/me')
+      .then(response => readJson<{ id: string }>(response))
+      .then(user => setCurrentUserId(user.id))
+      .catch(() => setCurrentUserId(null));
+  }, [loadWorkspaces]);
+
+  // Runs a change to the selected workspace, then reloads it, or closes it
+  // once the user is no longer a member
+  const mutate = async (
+    request: () => Promise<Response>,
+    fallback: string,
+    leaving = false
+  ): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      await readJson(await request());
+      if (leaving) setSelected(null);
+      else if (selected) await loadWorkspace(selected.id);
+      await loadWorkspaces();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async (): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      const workspace = await readJson<WorkspaceListItem>(
+        await fetch('/api/workspaces', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: name.trim() }),
+        })
+      );
+      setName('');
+      await loadWorkspaces();
+      await loadWorkspace(workspace.id);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to create workspace'
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleInvite = async (): Promise<void> => {
+    if (!selected) return;
+    try {
+      setIsBusy(true);
+      setError(null);
+      const body = await readJson<{ acceptUrl: string }>(
+        await fetch(`/api/workspaces/${selected.id}/invitations`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email: inviteEmail.trim(), role: inviteRole }),
+        })
+      );
+      setInviteUrl(body.acceptUrl);
+      setInviteEmail('');
+      await loadWorkspace(selected.id);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to send invitation'
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const canManage = selected?.role === 'OWNER';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2 rounded-md border p-4">
+        <Input
+          className="w-64"
+          placeholder="Workspace name, e.g. Support team"
+          value={name}
+          onChange={e => setName(e.target.value)}
+        />
+        <Button
+          size="sm"
+          onClick={handleCreate}
+          disabled={isBusy || !name.trim()}
+        >
+          Create Workspace
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="space-y-2">
+        {workspaces.map(workspace => (
+          <div
+            key={workspace.id}
+            className="flex flex-wrap items-center gap-2 rounded-md border p-3 text-sm"
+          >
+            <span className="font-medium">{workspace.name}</span>
+            <Badge variant="outline">
+              {ROLES.find(role => role.value === workspace.role)?.label}
+            </Badge>
+            <span className="text-muted-foreground">
+              {workspace.memberCount} members, {workspace.promptCount} prompts
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="ml-auto"
+              onClick={() => loadWorkspace(workspace.id)}
+            >
+              {selected?.id === workspace.id ? 'Selected' : 'Open'}
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="space-y-4 rounded-md border p-4">
+          <h3 className="font-medium">{selected.name} members</h3>
+
+          <div className="space-y-2">
+            {selected.members.map(member => (
+              <div
+                key={member.userId}
+                className="flex flex-wrap items-center gap-2 text-sm"
+              >
+                <span>{member.name ?? member.email}</span>
+                <span className="text-muted-foreground">
+                  joined {formatDate(member.joinedAt)}
+                </span>
+                {canManage ? (
+                  <select
+                    className={`${SELECT_CLASS} ml-auto`}
+                    value={member.role}
+                    disabled={isBusy}
+                    onChange={e =>
+                      mutate(
+                        () =>
+                          fetch(
+                            `/api/workspaces/${selected.id}/members/${member.userId}`,
+                            {
+                              method: 'PATCH',
+                              headers: { 'Content-Type': 'application/json' },
+                              body: JSON.stringify({ role: e.target.value }),
+                            }
+                          ),
+                        'Failed to change role'
+                      )
+                    }
+                  >
+                    {ROLES.map(role => (
+                      <option key={role.value} value={role.value}>
+                        {role.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <Badge variant="outline" className="ml-auto">
+                    {ROLES.find(role => role.value === member.role)?.label}
+                  </Badge>
+                )}
+                {(canManage || member.userId === currentUserId) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isBusy}
+                    onClick={() =>
+                      mutate(
+                        () =>
+                          fetch(
+                            `/api/workspaces/${selected.id}/members/${member.userId}`,
+                            { method: 'DELETE' }
+                          ),
+                        'Failed to remove member',
+                        member.userId === currentUserId
+                      )
+                    }
+                  >
+                    {member.userId === currentUserId ? 'Leave' : 'Remove'}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {canManage && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  className="w-64"
+                  type="email"
+                  placeholder="teammate@example.com"
+                  value={inviteEmail}
+                  onChange={e => setInviteEmail(e.target.value)}
+                />
+                <select
+                  className={SELECT_CLASS}
+                  value={inviteRole}
+                  onChange={e => setInviteRole(e.target.value as WorkspaceRole)}
+                >
+                  {ROLES.map(role => (
+                    <option key={role.value} value={role.value}>
+                      {role.label}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  onClick={handleInvite}
+                  disabled={isBusy || !inviteEmail.trim()}
+                >
+                  Invite
+                </Button>
+              </div>
+
+              {inviteUrl && (
+                <div className="space-y-2 rounded-md border border-primary p-4 text-sm">
+                  <p className="font-medium">
+                    Send this link to the invitee. It will not be shown again.
+                  </p>
+                  <code className="block break-all rounded bg-muted p-2">
+                    {inviteUrl}
+                  </code>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setInviteUrl(null)}
+                  >
+                    Done
+                  </Button>
+                </div>
+              )}
+
+              {selected.invitations.map(invitation => (
+                <div
+                  key={invitation.id}
+                  className="flex flex-wrap items-center gap-2 text-sm"
+                >
+                  <span>{invitation.email}</span>
+                  <Badge variant="secondary">Invited</Badge>
+                  <span className="text-muted-foreground">
+                    {ROLES.find(role => role.value === invitation.role)?.label},
+                    expires {formatDate(invitation.expiresAt)}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="ml-auto"
+                    disabled={isBusy}
+                    onClick={() =>
+                      mutate(
+                        () =>
+                          fetch(
+                            `/api/workspaces/${selected.id}/invitations/${invitation.id}`,
+                            { method: 'DELETE' }
+                          ),
+                        'Failed to revoke invitation'
+                      )
+                    }
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
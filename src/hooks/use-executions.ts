@@ -3,7 +3,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 
 // Import from the database queries file to maintain consistency
-import type { ExecutionWithDetails } from '../lib/database/queries';
+import type {
+  ExecutionWithDetails,
+  RetryVersion,
+} from '../lib/database/queries';
+import type { BudgetWarning } from '../lib/monitoring/budgets';
+import { readServerSentEvents } from '../lib/utils/sse';
 
 // Export the type for external use
 export type { ExecutionWithDetails } from '../lib/database/queries';
@@ -28,15 +33,46 @@ interface ExecutionResult {
   };
   costUsd: number;
   validationStatus: 'PENDING' | 'PASSED' | 'FAILED' | 'SKIPPED';
-  validationErrors: string[];
+  validationErrors: Array<{ path: string; message: string }>;
+  // Queued executions come back PENDING with only this and executionId
+  estimatedTime?: number;
+  // Budgets this execution took past their soft limit
+  budgetWarnings?: BudgetWarning[];
+}
+
+// Failed execute request, with the API's error code and retry hints
+export class ExecutionRequestError extends Error {
+  code: string;
+  retryable: boolean;
+  retryAfter?: number;
+  executionId?: string;
+
+  constructor(data: {
+    error?: string;
+    code?: string;
+    retryable?: boolean;
+    retryAfter?: number;
+    executionId?: string;
+  }) {
+    super(data.error || 'Failed to execute prompt');
+    this.name = 'ExecutionRequestError';
+    this.code = data.code || 'UNKNOWN_ERROR';
+    this.retryable = data.retryable || false;
+    this.retryAfter = data.retryAfter;
+    this.executionId = data.executionId;
+  }
 }
 
 // Execute prompt request payload
 interface ExecutePromptRequest {
   inputs: Record<string, any>;
-  model?: 'gpt-3.5-turbo' | 'gpt-4';
+  // `provider:model`, or a bare OpenAI model name
+  model?: string;
   maxTokens?: number;
   temperature?: number;
+  priority?: 'LOW' | 'NORMAL' | 'HIGH' | 'CRITICAL';
+  // Leave the execution to a queue worker instead of waiting for it
+  queue?: boolean;
 }
 
 interface ExecutionsResponse {
@@ -61,6 +97,8 @@ interface UseExecutionsOptions {
   to?: string;
   autoRefresh?: boolean;
   refreshInterval?: number; // in milliseconds
+  // executePrompt streams output into streamingExecution as it arrives
+  stream?: boolean;
 }
 
 interface UseExecutionsReturn {
@@ -79,8 +117,18 @@ interface UseExecutionsReturn {
     inputs: Record<string, any>,
     options?: Partial<ExecutePromptRequest>
   ) => Promise<ExecutionResult>;
-  retryExecution: (executionId: string) => Promise<void>;
+  // Re-runs a failed execution with the version it used, or the latest one
+  retryExecution: (
+    executionId: string,
+    version?: RetryVersion
+  ) => Promise<void>;
   getExecutionById: (executionId: string) => Promise<ExecutionWithDetails>;
+  // Stream mode: the execution in flight (or last finished), updated live
+  streamingExecution: ExecutionWithDetails | null;
+  isStreaming: boolean;
+  // Cancels a pending or running execution; without an id, the one
+  // streaming
+  cancelExecution: (executionId?: string) => Promise<void>;
 }
 
 export function useExecutions(
@@ -89,7 +137,11 @@ export function useExecutions(
   const [data, setData] = useState<ExecutionsResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [streamingExecution, setStreamingExecution] =
+    useState<ExecutionWithDetails | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
   const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const streamControllerRef = useRef<AbortController | null>(null);
   const mountedRef = useRef(true);
 
   // Cleanup on unmount
@@ -99,6 +151,7 @@ export function useExecutions(
       if (refreshIntervalRef.current) {
         clearInterval(refreshIntervalRef.current);
       }
+      streamControllerRef.current?.abort();
     };
   }, []);
 
@@ -147,6 +200,141 @@ export function useExecutions(
     options.to,
   ]);
 
+  const updateStreamingExecution = useCallback(
+    (
+      update: (execution: ExecutionWithDetails) => Partial<ExecutionWithDetails>
+    ): void => {
+      if (!mountedRef.current) return;
+      setStreamingExecution(current =>
+        current ? { ...current, ...update(current) } : current
+      );
+    },
+    []
+  );
+
+  const streamExecution = useCallback(
+    async (
+      promptId: string,
+      requestPayload: ExecutePromptRequest
+    ): Promise<ExecutionResult> => {
+      streamControllerRef.current?.abort();
+      const controller = new AbortController();
+      streamControllerRef.current = controller;
+      setStreamingExecution(null);
+      setIsStreaming(true);
+
+      try {
+        const response = await fetch(`/api/prompts/${promptId}/execute`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'text/event-stream',
+          },
+          body: JSON.stringify({ ...requestPayload, stream: true }),
+          signal: controller.signal,
+        });
+
+        // Pre-flight failures come back as plain JSON errors
+        if (!response.ok || !response.body) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new ExecutionRequestError({
+            error: `Failed to execute prompt: ${response.status}`,
+            ...errorData,
+          });
+        }
+
+        for await (const { event, data } of readServerSentEvents(
+          response.body
+        )) {
+          const payload = JSON.parse(data);
+
+          switch (event) {
+            case 'started':
+              if (!mountedRef.current) break;
+              setStreamingExecution({
+                id: payload.executionId,
+                status: 'RUNNING',
+                inputs: payload.inputs,
+                output: '',
+                validationStatus: 'PENDING',
+                latencyMs: null,
+                costUsd: null,
+                tokenUsage: { model: payload.model },
+                createdAt: new Date(payload.createdAt),
+                startedAt: payload.startedAt
+                  ? new Date(payload.startedAt)
+                  : null,
+                completedAt: null,
+                prompt: { id: promptId, name: payload.promptName },
+              });
+              break;
+            case 'delta':
+              updateStreamingExecution(current => ({
+                output: (current.output || '') + payload.text,
+              }));
+              break;
+            case 'retry':
+              // The server starts the output over on each attempt
+              updateStreamingExecution(() => ({ output: '' }));
+              break;
+            case 'usage':
+              updateStreamingExecution(current => ({
+                tokenUsage: { ...current.tokenUsage, ...payload },
+                costUsd: payload.costUsd,
+              }));
+              break;
+            case 'validation':
+              updateStreamingExecution(() => ({
+                validationStatus: payload.validationStatus,
+              }));
+              break;
+            case 'completed':
+              updateStreamingExecution(() => ({
+                status: 'COMPLETED',
+                output: payload.output,
+                latencyMs: payload.latencyMs,
+                completedAt: new Date(),
+              }));
+              if (mountedRef.current) {
+                await fetchExecutions();
+              }
+              return payload as ExecutionResult;
+            case 'failed':
+              updateStreamingExecution(() => ({
+                status: payload.code === 'CANCELLED' ? 'CANCELLED' : 'FAILED',
+                completedAt: new Date(),
+              }));
+              throw new ExecutionRequestError(payload);
+          }
+        }
+
+        throw new ExecutionRequestError({
+          error: 'Execution stream ended unexpectedly',
+          code: 'STREAM_ERROR',
+          retryable: true,
+        });
+      } catch (err) {
+        if (controller.signal.aborted) {
+          updateStreamingExecution(() => ({
+            status: 'CANCELLED',
+            completedAt: new Date(),
+          }));
+          throw new ExecutionRequestError({
+            error: 'Execution cancelled',
+            code: 'CANCELLED',
+          });
+        }
+        throw err;
+      } finally {
+        if (streamControllerRef.current === controller) {
+          streamControllerRef.current = null;
+          if (mountedRef.current) setIsStreaming(false);
+        }
+      }
+    },
+    [fetchExecutions, updateStreamingExecution]
+  );
+
   const executePrompt = useCallback(
     async (
       promptId: string,
@@ -159,6 +347,10 @@ export function useExecutions(
           ...executionOptions,
         };
 
+        if (options.stream) {
+          return await streamExecution(promptId, requestPayload);
+        }
+
         const response = await fetch(`/api/prompts/${promptId}/execute`, {
           method: 'POST',
           headers: {
@@ -169,9 +361,10 @@ export function useExecutions(
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
-          throw new Error(
-            errorData.error || `Failed to execute prompt: ${response.status}`
-          );
+          throw new ExecutionRequestError({
+            error: `Failed to execute prompt: ${response.status}`,
+            ...errorData,
+          });
         }
 
         const result = await response.json();
@@ -187,14 +380,61 @@ export function useExecutions(
         throw err instanceof Error ? err : new Error('Unknown error');
       }
     },
-    [fetchExecutions]
+    [fetchExecutions, options.stream, streamExecution]
+  );
+
+  const cancelExecution = useCallback(
+    async (executionId?: string): Promise<void> => {
+      const streamingId = streamControllerRef.current
+        ? streamingExecution?.id
+        : undefined;
+      const id = executionId ?? streamingId;
+
+      // Nothing to cancel on the server before the stream has started
+      if (!id) {
+        streamControllerRef.current?.abort();
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/executions/${id}/cancel`, {
+          method: 'POST',
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(
+            errorData.error || `Failed to cancel execution: ${response.status}`
+          );
+        }
+
+        // A streamed execution reports the cancel through its stream
+        if (id !== streamingId && mountedRef.current) {
+          await fetchExecutions();
+        }
+      } catch (err) {
+        // Closing the stream cancels the execution as well
+        if (id === streamingId) {
+          streamControllerRef.current?.abort();
+          return;
+        }
+        console.error('Error cancelling execution:', err);
+        throw err instanceof Error ? err : new Error('Unknown error');
+      }
+    },
+    [fetchExecutions, streamingExecution?.id]
   );
 
   const retryExecution = useCallback(
-    async (executionId: string): Promise<void> => {
+    async (
+      executionId: string,
+      version: RetryVersion = 'same'
+    ): Promise<void> => {
       try {
         const response = await fetch(`/api/executions/${executionId}/retry`, {
           method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ version }),
         });
 
         if (!response.ok) {
@@ -271,5 +511,8 @@ export function useExecutions(
     executePrompt,
     retryExecution,
     getExecutionById,
+    streamingExecution,
+    isStreaming,
+    cancelExecution,
   };
 }
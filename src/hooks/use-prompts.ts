@@ -12,6 +12,8 @@ interface UsePromptsOptions {
   limit?: number;
   status?: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
   search?: string;
+  // A workspace id, or `personal`
+  workspace?: string;
 }
 
 export function usePrompts(options: UsePromptsOptions = {}) {
@@ -29,6 +31,7 @@ export function usePrompts(options: UsePromptsOptions = {}) {
       if (options.limit) params.set('limit', options.limit.toString());
       if (options.status) params.set('status', options.status);
       if (options.search) params.set('search', options.search);
+      if (options.workspace) params.set('workspace', options.workspace);
 
       const response = await fetch(`/api/prompts?${params}`);
 
@@ -44,7 +47,13 @@ export function usePrompts(options: UsePromptsOptions = {}) {
     } finally {
       setLoading(false);
     }
-  }, [options.page, options.limit, options.status, options.search]);
+  }, [
+    options.page,
+    options.limit,
+    options.status,
+    options.search,
+    options.workspace,
+  ]);
 
   const createPrompt = useCallback(
     async (promptData: CreatePromptRequest) => {
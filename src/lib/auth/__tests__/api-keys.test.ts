@@ -0,0 +1,146 @@
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/database/client';
+import { NotFoundError } from '@/lib/utils/error-handler';
+import { ApiKeyManager } from '../api-keys';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    apiKey: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    execution: { groupBy: jest.fn().mockResolvedValue([]) },
+  },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const mockPrisma = prisma as unknown as {
+  apiKey: MockModel;
+  execution: MockModel;
+};
+
+const sha256 = (value: string): string =>
+  createHash('sha256').update(value).digest('hex');
+
+describe('ApiKeyManager', () => {
+  const record = {
+    id: 'key-1',
+    name: 'billing-service',
+    keyHash: sha256('fo_secret'),
+    prefix: 'fo_secret',
+    scopes: ['EXECUTE'],
+    lastUsed: null,
+    requestCount: 4,
+    isActive: true,
+    expiresAt: null,
+    revokedAt: null,
+    createdAt: new Date('2026-01-01'),
+    userId: 'user-1',
+  };
+  const user = {
+    id: 'user-1',
+    email: 'dev@example.com',
+    name: 'Dev',
+    createdAt: new Date('2025-06-01'),
+  };
+  let manager: ApiKeyManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new ApiKeyManager();
+  });
+
+  it('should store only a hash of the new key', async () => {
+    mockPrisma.apiKey.create.mockImplementation(({ data }) =>
+      Promise.resolve({ ...record, ...data, requestCount: 0 })
+    );
+
+    const { apiKey, key } = await manager.createKey('user-1', {
+      name: 'billing-service',
+      scopes: ['EXECUTE', 'EXECUTE'],
+    });
+
+    expect(key).toMatch(/^fo_[\w-]{32}$/);
+    const [{ data }] = mockPrisma.apiKey.create.mock.calls[0];
+    expect(data).toMatchObject({
+      keyHash: sha256(key),
+      prefix: key.slice(0, 9),
+      scopes: ['EXECUTE'],
+    });
+    expect(JSON.stringify(data)).not.toContain(key);
+    expect(apiKey).not.toHaveProperty('keyHash');
+  });
+
+  it('should authenticate a key and count the request', async () => {
+    mockPrisma.apiKey.findUnique.mockResolvedValueOnce({ ...record, user });
+
+    const authUser = await manager.authenticate('fo_secret');
+
+    expect(mockPrisma.apiKey.findUnique).toHaveBeenCalledWith({
+      where: { keyHash: sha256('fo_secret') },
+      include: { user: true },
+    });
+    expect(mockPrisma.apiKey.update).toHaveBeenCalledWith({
+      where: { id: 'key-1' },
+      data: { lastUsed: expect.any(Date), requestCount: { increment: 1 } },
+    });
+    expect(authUser).toMatchObject({
+      id: 'user-1',
+      email: 'dev@example.com',
+      apiKey: { id: 'key-1', scopes: ['EXECUTE'] },
+    });
+  });
+
+  it('should reject revoked and expired keys', async () => {
+    mockPrisma.apiKey.findUnique
+      .mockResolvedValueOnce({ ...record, user, isActive: false })
+      .mockResolvedValueOnce({
+        ...record,
+        user,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+    expect(await manager.authenticate('fo_secret')).toBeNull();
+    expect(await manager.authenticate('fo_secret')).toBeNull();
+    expect(await manager.authenticate('not-a-key')).toBeNull();
+    expect(mockPrisma.apiKey.update).not.toHaveBeenCalled();
+  });
+
+  it('should let broader scopes grant narrower ones', () => {
+    expect(manager.hasScope(['EXECUTE'], 'PROMPTS_READ')).toBe(true);
+    expect(manager.hasScope(['ADMIN'], 'EXECUTE')).toBe(true);
+    expect(manager.hasScope(['PROMPTS_READ'], 'EXECUTE')).toBe(false);
+    expect(manager.hasScope(['EXECUTE'], 'ADMIN')).toBe(false);
+  });
+
+  it('should report usage per key', async () => {
+    mockPrisma.apiKey.findMany.mockResolvedValueOnce([record]);
+    mockPrisma.execution.groupBy.mockResolvedValueOnce([
+      {
+        apiKeyId: 'key-1',
+        _count: { _all: 3 },
+        _sum: { costUsd: { toNumber: (): number => 0.012 } },
+      },
+    ]);
+
+    const [apiKey] = await manager.listKeys('user-1');
+
+    expect(apiKey.usage).toEqual({
+      requests: 4,
+      lastUsed: null,
+      executions: 3,
+      totalCostUsd: 0.012,
+    });
+  });
+
+  it('should not revoke a key twice', async () => {
+    mockPrisma.apiKey.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(manager.revokeKey('user-1', 'key-1')).rejects.toThrow(
+      NotFoundError
+    );
+  });
+});
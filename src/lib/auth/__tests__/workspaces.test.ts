@@ -0,0 +1,263 @@
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/database/client';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/utils/error-handler';
+import {
+  assertCanMovePrompt,
+  assertPromptPermission,
+  promptAccess,
+} from '../access-control';
+import { WorkspaceManager } from '../workspaces';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    workspace: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    membership: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn(),
+    },
+    workspaceInvitation: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    user: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const mockPrisma = prisma as unknown as {
+  workspace: MockModel;
+  membership: MockModel;
+  workspaceInvitation: MockModel;
+  user: MockModel;
+  $transaction: jest.Mock;
+};
+
+const sha256 = (value: string): string =>
+  createHash('sha256').update(value).digest('hex');
+
+// Role the next membership lookups resolve to, keyed by user id
+const mockRoles = (roles: Record<string, string>): void => {
+  mockPrisma.membership.findUnique.mockImplementation(
+    async ({
+      where,
+    }: {
+      where: { workspaceId_userId: { userId: string } };
+    }) => {
+      const role = roles[where.workspaceId_userId.userId];
+      return role ? { id: `membership-${role}`, role } : null;
+    }
+  );
+};
+
+describe('access control', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('matches personal prompts and prompts shared with a granting role', () => {
+    expect(promptAccess('user-1', 'run')).toEqual({
+      OR: [
+        { workspaceId: null, userId: 'user-1' },
+        {
+          workspace: {
+            memberships: {
+              some: {
+                userId: 'user-1',
+                role: { in: ['OWNER', 'EDITOR', 'RUNNER'] },
+              },
+            },
+          },
+        },
+      ],
+    });
+  });
+
+  it('refuses edits from workspace runners', async () => {
+    mockRoles({ 'user-1': 'RUNNER' });
+
+    await expect(
+      assertPromptPermission({ workspaceId: 'ws-1' }, 'user-1', 'run')
+    ).resolves.toBeUndefined();
+    await expect(
+      assertPromptPermission({ workspaceId: 'ws-1' }, 'user-1', 'edit')
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('only lets the author take a prompt out of its workspace', async () => {
+    mockRoles({ 'user-1': 'OWNER', 'user-2': 'OWNER' });
+    const prompt = { userId: 'user-1', workspaceId: 'ws-1' };
+
+    await expect(assertCanMovePrompt(prompt, 'user-2', null)).rejects.toThrow(
+      ForbiddenError
+    );
+    await expect(
+      assertCanMovePrompt(prompt, 'user-1', null)
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('WorkspaceManager', () => {
+  let manager: WorkspaceManager;
+
+  beforeEach(() => {
+    manager = new WorkspaceManager();
+    jest.clearAllMocks();
+  });
+
+  it('makes the creator the owner of a new workspace', async () => {
+    mockPrisma.workspace.create.mockResolvedValue({
+      id: 'ws-1',
+      name: 'Support',
+      createdAt: new Date('2026-01-01'),
+    });
+
+    const workspace = await manager.createWorkspace('user-1', 'Support');
+
+    expect(mockPrisma.workspace.create).toHaveBeenCalledWith({
+      data: {
+        name: 'Support',
+        memberships: { create: { userId: 'user-1', role: 'OWNER' } },
+      },
+    });
+    expect(workspace).toMatchObject({ id: 'ws-1', role: 'OWNER' });
+  });
+
+  it('stores only a hash of the invitation token', async () => {
+    mockRoles({ 'user-1': 'OWNER' });
+    mockPrisma.membership.findFirst.mockResolvedValue(null);
+    mockPrisma.workspaceInvitation.create.mockImplementation(
+      async ({ data }: { data: { email: string } }) => ({
+        id: 'invite-1',
+        email: data.email,
+      })
+    );
+
+    const { invitation, token } = await manager.createInvitation(
+      'ws-1',
+      'user-1',
+      { email: 'Ada@Example.com', role: 'EDITOR' }
+    );
+
+    const { data } = mockPrisma.workspaceInvitation.create.mock.calls[0][0];
+    expect(data.tokenHash).toBe(sha256(token));
+    expect(data).not.toHaveProperty('token');
+    expect(invitation.email).toBe('ada@example.com');
+  });
+
+  it('lets only owners invite', async () => {
+    mockRoles({ 'user-1': 'EDITOR' });
+
+    await expect(
+      manager.createInvitation('ws-1', 'user-1', {
+        email: 'ada@example.com',
+        role: 'VIEWER',
+      })
+    ).rejects.toThrow(ForbiddenError);
+    expect(mockPrisma.workspaceInvitation.create).not.toHaveBeenCalled();
+  });
+
+  describe('acceptInvitation', () => {
+    const invitation = {
+      id: 'invite-1',
+      workspaceId: 'ws-1',
+      email: 'ada@example.com',
+      role: 'RUNNER',
+      acceptedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+
+    beforeEach(() => {
+      mockRoles({});
+      mockPrisma.user.findUnique.mockResolvedValue({
+        email: 'Ada@example.com',
+      });
+      mockPrisma.membership.findMany.mockResolvedValue([
+        {
+          role: 'RUNNER',
+          workspace: {
+            id: 'ws-1',
+            name: 'Support',
+            createdAt: new Date('2026-01-01'),
+            _count: { memberships: 2, prompts: 5 },
+          },
+        },
+      ]);
+    });
+
+    it('joins the workspace with the invited role', async () => {
+      mockPrisma.workspaceInvitation.findUnique.mockResolvedValue(invitation);
+
+      const workspace = await manager.acceptInvitation('secret', 'user-2');
+
+      expect(mockPrisma.workspaceInvitation.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: sha256('secret') },
+      });
+      expect(mockPrisma.membership.create).toHaveBeenCalledWith({
+        data: { workspaceId: 'ws-1', userId: 'user-2', role: 'RUNNER' },
+      });
+      expect(workspace).toMatchObject({ id: 'ws-1', role: 'RUNNER' });
+    });
+
+    it('refuses users signed in with another email', async () => {
+      mockPrisma.workspaceInvitation.findUnique.mockResolvedValue(invitation);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        email: 'eve@example.com',
+      });
+
+      await expect(
+        manager.acceptInvitation('secret', 'user-3')
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('refuses expired and used invitations', async () => {
+      mockPrisma.workspaceInvitation.findUnique.mockResolvedValueOnce({
+        ...invitation,
+        expiresAt: new Date(Date.now() - 60_000),
+      });
+      await expect(
+        manager.acceptInvitation('secret', 'user-2')
+      ).rejects.toThrow(ValidationError);
+
+      mockPrisma.workspaceInvitation.findUnique.mockResolvedValueOnce({
+        ...invitation,
+        acceptedAt: new Date(),
+      });
+      await expect(
+        manager.acceptInvitation('secret', 'user-2')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  it('keeps at least one owner', async () => {
+    mockRoles({ 'user-1': 'OWNER' });
+    mockPrisma.membership.count.mockResolvedValue(1);
+
+    await expect(
+      manager.removeMember('ws-1', 'user-1', 'user-1')
+    ).rejects.toThrow(ConflictError);
+    await expect(
+      manager.updateMemberRole('ws-1', 'user-1', 'user-1', 'EDITOR')
+    ).rejects.toThrow(ConflictError);
+    expect(mockPrisma.membership.delete).not.toHaveBeenCalled();
+    expect(mockPrisma.membership.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+import type { Prisma, Prompt, WorkspaceRole } from '@prisma/client';
+import { prisma } from '../database/client';
+import { ForbiddenError } from '../utils/error-handler';
+
+// What a user may do with a prompt and its executions
+export type Permission = 'view' | 'run' | 'edit' | 'manage';
+
+export const ROLE_PERMISSIONS: Record<WorkspaceRole, Permission[]> = {
+  OWNER: ['view', 'run', 'edit', 'manage'],
+  EDITOR: ['view', 'run', 'edit'],
+  RUNNER: ['view', 'run'],
+  VIEWER: ['view'],
+};
+
+export function hasPermission(
+  role: WorkspaceRole,
+  permission: Permission
+): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+const rolesWith = (permission: Permission): WorkspaceRole[] =>
+  (Object.keys(ROLE_PERMISSIONS) as WorkspaceRole[]).filter(role =>
+    hasPermission(role, permission)
+  );
+
+/**
+ * Prompts the user may act on: their personal prompts, and prompts in
+ * workspaces where their role grants `permission`
+ */
+export function promptAccess(
+  userId: string,
+  permission: Permission = 'view'
+): Prisma.PromptWhereInput {
+  return {
+    OR: [
+      { workspaceId: null, userId },
+      {
+        workspace: {
+          memberships: {
+            some: { userId, role: { in: rolesWith(permission) } },
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Executions belong to their prompt's workspace, so access follows the
+ * prompt's
+ */
+export function executionAccess(
+  userId: string,
+  permission: Permission = 'view'
+): Prisma.ExecutionWhereInput {
+  return { prompt: promptAccess(userId, permission) };
+}
+
+export async function getWorkspaceRole(
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const membership = await prisma.membership.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { role: true },
+  });
+  return membership?.role ?? null;
+}
+
+/**
+ * Throws a ForbiddenError unless the user's role in the workspace grants
+ * `permission`
+ */
+export async function assertWorkspacePermission(
+  workspaceId: string,
+  userId: string,
+  permission: Permission
+): Promise<WorkspaceRole> {
+  const role = await getWorkspaceRole(workspaceId, userId);
+  if (!role || !hasPermission(role, permission)) {
+    throw new ForbiddenError(
+      `Your workspace role does not allow you to ${permission} here`
+    );
+  }
+  return role;
+}
+
+/**
+ * For a prompt found through promptAccess(userId, 'view'): throws a
+ * ForbiddenError unless the user may also `permission` it. Personal
+ * prompts are always their author's to act on.
+ */
+export async function assertPromptPermission(
+  prompt: Pick<Prompt, 'workspaceId'>,
+  userId: string,
+  permission: Permission
+): Promise<void> {
+  if (!prompt.workspaceId || permission === 'view') return;
+
+  await assertWorkspacePermission(prompt.workspaceId, userId, permission);
+}
+
+/**
+ * Moving a prompt takes edit rights in the target workspace, and managing
+ * the workspace it leaves. Only its author can make a prompt personal
+ * again, since it becomes theirs.
+ */
+export async function assertCanMovePrompt(
+  prompt: Pick<Prompt, 'userId' | 'workspaceId'>,
+  userId: string,
+  workspaceId: string | null
+): Promise<void> {
+  if (workspaceId === prompt.workspaceId) return;
+
+  if (workspaceId) {
+    await assertWorkspacePermission(workspaceId, userId, 'edit');
+  } else if (prompt.userId !== userId) {
+    throw new ForbiddenError('Only its author can make a prompt personal');
+  }
+
+  if (prompt.workspaceId) {
+    await assertWorkspacePermission(prompt.workspaceId, userId, 'manage');
+  }
+}
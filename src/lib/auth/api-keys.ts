@@ -0,0 +1,200 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKey, ApiKeyScope, UserPlan } from '@prisma/client';
+import { prisma } from '../database/client';
+import { NotFoundError } from '../utils/error-handler';
+
+export const API_KEY_PREFIX = 'fo_';
+
+// Scopes a key needs at least one of for each scope a route asks for
+const GRANTING_SCOPES: Record<ApiKeyScope, ApiKeyScope[]> = {
+  PROMPTS_READ: ['PROMPTS_READ', 'EXECUTE', 'ADMIN'],
+  EXECUTE: ['EXECUTE', 'ADMIN'],
+  ADMIN: ['ADMIN'],
+};
+
+export interface AuthenticatedApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+// User a request acts as, from a session cookie or an API key
+export interface AuthUser {
+  id: string;
+  email?: string;
+  user_metadata?: { name?: string | null };
+  created_at: string;
+  // Known up front for API keys; looked up for sessions when needed
+  plan?: UserPlan;
+  // Set when the request authenticated with an API key
+  apiKey?: AuthenticatedApiKey;
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  isActive: boolean;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  usage: {
+    requests: number;
+    lastUsed: Date | null;
+    executions: number;
+    totalCostUsd: number;
+  };
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+}
+
+const hashKey = (key: string): string =>
+  createHash('sha256').update(key).digest('hex');
+
+/**
+ * API keys for programmatic access. Only a SHA-256 hash of each key is
+ * stored; the key itself is returned once, when it is created.
+ */
+export class ApiKeyManager {
+  public async createKey(
+    userId: string,
+    input: CreateApiKeyInput
+  ): Promise<{ apiKey: ApiKeyInfo; key: string }> {
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId,
+        name: input.name,
+        keyHash: hashKey(key),
+        prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+        scopes: [...new Set(input.scopes)],
+        expiresAt: input.expiresAt,
+      },
+    });
+
+    return {
+      apiKey: this.toInfo(apiKey, { executions: 0, totalCostUsd: 0 }),
+      key,
+    };
+  }
+
+  /**
+   * Lists a user's keys, newest first, with their usage
+   */
+  public async listKeys(userId: string): Promise<ApiKeyInfo[]> {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (apiKeys.length === 0) {
+      return [];
+    }
+
+    const usage = await prisma.execution.groupBy({
+      by: ['apiKeyId'],
+      where: { apiKeyId: { in: apiKeys.map(apiKey => apiKey.id) } },
+      _count: { _all: true },
+      _sum: { costUsd: true },
+    });
+    const usageByKey = new Map(
+      usage.map(group => [
+        group.apiKeyId,
+        {
+          executions: group._count._all,
+          totalCostUsd: group._sum.costUsd?.toNumber() ?? 0,
+        },
+      ])
+    );
+
+    return apiKeys.map(apiKey =>
+      this.toInfo(
+        apiKey,
+        usageByKey.get(apiKey.id) ?? { executions: 0, totalCostUsd: 0 }
+      )
+    );
+  }
+
+  /**
+   * Revokes a key. Requests using it fail from then on.
+   */
+  public async revokeKey(userId: string, id: string): Promise<void> {
+    const result = await prisma.apiKey.updateMany({
+      where: { id, userId, isActive: true },
+      data: { isActive: false, revokedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('API key');
+    }
+  }
+
+  /**
+   * Resolves a bearer token to the user it acts for, counting the request
+   * against the key. Unknown, revoked and expired keys resolve to null.
+   */
+  public async authenticate(key: string): Promise<AuthUser | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashKey(key) },
+      include: { user: true },
+    });
+    if (
+      !apiKey ||
+      !apiKey.isActive ||
+      (apiKey.expiresAt && apiKey.expiresAt <= new Date())
+    ) {
+      return null;
+    }
+
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsed: new Date(), requestCount: { increment: 1 } },
+    });
+
+    return {
+      id: apiKey.user.id,
+      email: apiKey.user.email,
+      user_metadata: { name: apiKey.user.name },
+      created_at: apiKey.user.createdAt.toISOString(),
+      plan: apiKey.user.plan,
+      apiKey: { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes },
+    };
+  }
+
+  public hasScope(granted: ApiKeyScope[], required: ApiKeyScope): boolean {
+    return GRANTING_SCOPES[required].some(scope => granted.includes(scope));
+  }
+
+  private toInfo(
+    apiKey: ApiKey,
+    usage: { executions: number; totalCostUsd: number }
+  ): ApiKeyInfo {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      isActive: apiKey.isActive,
+      expiresAt: apiKey.expiresAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+      usage: {
+        requests: apiKey.requestCount,
+        lastUsed: apiKey.lastUsed,
+        ...usage,
+      },
+    };
+  }
+}
+
+// Singleton instance
+export const apiKeyManager = new ApiKeyManager();
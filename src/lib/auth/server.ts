@@ -1,6 +1,12 @@
 import { createServerClient } from '@supabase/ssr';
-import { cookies } from 'next/headers';
+import type { ApiKeyScope } from '@prisma/client';
+import { cookies, headers } from 'next/headers';
 import type { Database } from '@/types/supabase';
+import { rateLimiter } from '../security/rate-limiter';
+import { ForbiddenError } from '../utils/error-handler';
+import { API_KEY_PREFIX, apiKeyManager, type AuthUser } from './api-keys';
+
+export type { AuthUser } from './api-keys';
 
 export const createServerSupabaseClient = async () => {
   return createServerClient<Database>(
@@ -12,7 +18,14 @@ export const createServerSupabaseClient = async () => {
   );
 };
 
-export const getUser = async () => {
+export const getUser = async (): Promise<AuthUser | null> => {
+  // API keys take precedence over a session cookie
+  const authorization = (await headers()).get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (bearer?.startsWith(API_KEY_PREFIX)) {
+    return apiKeyManager.authenticate(bearer);
+  }
+
   const supabase = await createServerSupabaseClient();
   const {
     data: { user },
@@ -26,10 +39,25 @@ export const getUser = async () => {
   return user;
 };
 
-export const requireAuth = async () => {
+/**
+ * Returns the signed-in user and counts the request against their rate
+ * limits. Session users may do anything; API keys need `scope`, which
+ * defaults to ADMIN so routes are closed to keys unless they ask for less.
+ */
+export const requireAuth = async (
+  scope: ApiKeyScope = 'ADMIN'
+): Promise<AuthUser> => {
   const user = await getUser();
   if (!user) {
+    // Anonymous and failed-auth requests share the client address quota
+    await rateLimiter.enforceForClient(await headers());
     throw new Error('Authentication required');
   }
+  if (user.apiKey && !apiKeyManager.hasScope(user.apiKey.scopes, scope)) {
+    throw new ForbiddenError(`API key is missing the ${scope} scope`);
+  }
+
+  // Throws a RateLimitError once the plan's quota is used up
+  await rateLimiter.enforceForUser(user, scope);
   return user;
 };
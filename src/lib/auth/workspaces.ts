@@ -0,0 +1,372 @@
+import { createHash, randomBytes } from 'crypto';
+import type { WorkspaceRole } from '@prisma/client';
+import { prisma } from '../database/client';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/error-handler';
+import { assertWorkspacePermission, hasPermission } from './access-control';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+  promptCount: number;
+  createdAt: Date;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+export interface InvitationInfo {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface WorkspaceDetails extends WorkspaceSummary {
+  members: WorkspaceMember[];
+  // Only shown to members who manage the workspace
+  invitations: InvitationInfo[];
+}
+
+export interface CreateInvitationInput {
+  email: string;
+  role: WorkspaceRole;
+}
+
+const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Workspaces, their members and invitations. Membership roles decide what
+ * members may do with the workspace's prompts; see access-control.
+ */
+export class WorkspaceManager {
+  /**
+   * Workspaces the user belongs to, with their role in each
+   */
+  public async listWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+    const memberships = await prisma.membership.findMany({
+      where: { userId },
+      include: {
+        workspace: {
+          include: { _count: { select: { memberships: true, prompts: true } } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map(({ role, workspace }) => ({
+      id: workspace.id,
+      name: workspace.name,
+      role,
+      memberCount: workspace._count.memberships,
+      promptCount: workspace._count.prompts,
+      createdAt: workspace.createdAt,
+    }));
+  }
+
+  /**
+   * Creates a workspace with the user as its owner
+   */
+  public async createWorkspace(
+    userId: string,
+    name: string
+  ): Promise<WorkspaceSummary> {
+    const workspace = await prisma.workspace.create({
+      data: { name, memberships: { create: { userId, role: 'OWNER' } } },
+    });
+
+    return {
+      id: workspace.id,
+      name: workspace.name,
+      role: 'OWNER',
+      memberCount: 1,
+      promptCount: 0,
+      createdAt: workspace.createdAt,
+    };
+  }
+
+  public async getWorkspace(
+    id: string,
+    userId: string
+  ): Promise<WorkspaceDetails> {
+    const workspace = await prisma.workspace.findFirst({
+      where: { id, memberships: { some: { userId } } },
+      include: {
+        memberships: {
+          include: { user: { select: { email: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        _count: { select: { prompts: true } },
+      },
+    });
+    if (!workspace) {
+      throw new NotFoundError('Workspace');
+    }
+
+    const role = workspace.memberships.find(
+      membership => membership.userId === userId
+    )!.role;
+    const invitations = hasPermission(role, 'manage')
+      ? await this.pendingInvitations(id)
+      : [];
+
+    return {
+      id: workspace.id,
+      name: workspace.name,
+      role,
+      memberCount: workspace.memberships.length,
+      promptCount: workspace._count.prompts,
+      createdAt: workspace.createdAt,
+      members: workspace.memberships.map(membership => ({
+        userId: membership.userId,
+        email: membership.user.email,
+        name: membership.user.name,
+        role: membership.role,
+        joinedAt: membership.createdAt,
+      })),
+      invitations,
+    };
+  }
+
+  public async renameWorkspace(
+    id: string,
+    userId: string,
+    name: string
+  ): Promise<void> {
+    await assertWorkspacePermission(id, userId, 'manage');
+    await prisma.workspace.update({ where: { id }, data: { name } });
+  }
+
+  /**
+   * Deletes the workspace along with its prompts and their executions
+   */
+  public async deleteWorkspace(id: string, userId: string): Promise<void> {
+    await assertWorkspacePermission(id, userId, 'manage');
+    await prisma.workspace.delete({ where: { id } });
+  }
+
+  /**
+   * Changes a member's role, returning the role they had
+   */
+  public async updateMemberRole(
+    workspaceId: string,
+    userId: string,
+    memberId: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceRole> {
+    await assertWorkspacePermission(workspaceId, userId, 'manage');
+    const membership = await this.findMembership(workspaceId, memberId);
+
+    if (membership.role === 'OWNER' && role !== 'OWNER') {
+      await this.assertAnotherOwner(workspaceId);
+    }
+
+    await prisma.membership.update({
+      where: { id: membership.id },
+      data: { role },
+    });
+    return membership.role;
+  }
+
+  /**
+   * Removes a member, returning the role they had. Members may always
+   * leave; removing anyone else takes managing the workspace.
+   */
+  public async removeMember(
+    workspaceId: string,
+    userId: string,
+    memberId: string
+  ): Promise<WorkspaceRole> {
+    if (memberId !== userId) {
+      await assertWorkspacePermission(workspaceId, userId, 'manage');
+    }
+    const membership = await this.findMembership(workspaceId, memberId);
+
+    if (membership.role === 'OWNER') {
+      await this.assertAnotherOwner(workspaceId);
+    }
+
+    await prisma.membership.delete({ where: { id: membership.id } });
+    return membership.role;
+  }
+
+  /**
+   * Invites an email address to the workspace. The token is only ever
+   * returned here; the invitee accepts with it while signed in with that
+   * email.
+   */
+  public async createInvitation(
+    workspaceId: string,
+    userId: string,
+    input: CreateInvitationInput
+  ): Promise<{ invitation: InvitationInfo; token: string }> {
+    await assertWorkspacePermission(workspaceId, userId, 'manage');
+    const email = input.email.toLowerCase();
+
+    const member = await prisma.membership.findFirst({
+      where: {
+        workspaceId,
+        user: { email: { equals: email, mode: 'insensitive' } },
+      },
+      select: { id: true },
+    });
+    if (member) {
+      throw new ConflictError(`${email} is already a member of this workspace`);
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    const invitation = await prisma.workspaceInvitation.create({
+      data: {
+        workspaceId,
+        invitedById: userId,
+        email,
+        role: input.role,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+      select: invitationSelect,
+    });
+
+    return { invitation, token };
+  }
+
+  public async listInvitations(
+    workspaceId: string,
+    userId: string
+  ): Promise<InvitationInfo[]> {
+    await assertWorkspacePermission(workspaceId, userId, 'manage');
+    return this.pendingInvitations(workspaceId);
+  }
+
+  public async revokeInvitation(
+    workspaceId: string,
+    userId: string,
+    invitationId: string
+  ): Promise<void> {
+    await assertWorkspacePermission(workspaceId, userId, 'manage');
+    const result = await prisma.workspaceInvitation.deleteMany({
+      where: { id: invitationId, workspaceId, acceptedAt: null },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Invitation');
+    }
+  }
+
+  /**
+   * Joins the invitation's workspace with its role. The user must be signed
+   * in with the invited email.
+   */
+  public async acceptInvitation(
+    token: string,
+    userId: string
+  ): Promise<WorkspaceSummary> {
+    const [invitation, user] = await Promise.all([
+      prisma.workspaceInvitation.findUnique({
+        where: { tokenHash: hashToken(token) },
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true },
+      }),
+    ]);
+    if (!invitation || invitation.acceptedAt) {
+      throw new NotFoundError('Invitation');
+    }
+    if (invitation.expiresAt < new Date()) {
+      throw new ValidationError('This invitation has expired');
+    }
+    if (user?.email.toLowerCase() !== invitation.email) {
+      throw new ForbiddenError(
+        'This invitation was sent to a different email address'
+      );
+    }
+
+    const existing = await prisma.membership.findUnique({
+      where: {
+        workspaceId_userId: { workspaceId: invitation.workspaceId, userId },
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictError('You are already a member of this workspace');
+    }
+
+    await prisma.$transaction([
+      prisma.membership.create({
+        data: {
+          workspaceId: invitation.workspaceId,
+          userId,
+          role: invitation.role,
+        },
+      }),
+      prisma.workspaceInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      }),
+    ]);
+
+    const workspaces = await this.listWorkspaces(userId);
+    return workspaces.find(
+      workspace => workspace.id === invitation.workspaceId
+    )!;
+  }
+
+  private pendingInvitations(workspaceId: string): Promise<InvitationInfo[]> {
+    return prisma.workspaceInvitation.findMany({
+      where: { workspaceId, acceptedAt: null, expiresAt: { gt: new Date() } },
+      select: invitationSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async findMembership(
+    workspaceId: string,
+    userId: string
+  ): Promise<{ id: string; role: WorkspaceRole }> {
+    const membership = await prisma.membership.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      select: { id: true, role: true },
+    });
+    if (!membership) {
+      throw new NotFoundError('Member');
+    }
+    return membership;
+  }
+
+  // Every workspace keeps at least one owner
+  private async assertAnotherOwner(workspaceId: string): Promise<void> {
+    const owners = await prisma.membership.count({
+      where: { workspaceId, role: 'OWNER' },
+    });
+    if (owners <= 1) {
+      throw new ConflictError('A workspace needs at least one owner');
+    }
+  }
+}
+
+// Singleton instance
+export const workspaceManager = new WorkspaceManager();
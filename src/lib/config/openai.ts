@@ -1,13 +1,11 @@
 import { z } from 'zod';
+import { DEFAULT_PROVIDER, parseModelRef } from '../providers/models';
 
 // Environment variable schema for validation
 const OpenAIEnvironmentSchema = z.object({
-  apiKey: z.string().min(1, 'OpenAI API key is required'),
-  defaultModel: z.enum(['gpt-3.5-turbo', 'gpt-4'], {
-    errorMap: () => ({
-      message: 'Model must be either gpt-3.5-turbo or gpt-4',
-    }),
-  }),
+  // Only required when the default model is served by OpenAI
+  apiKey: z.string(),
+  defaultModel: z.string().min(1, 'Default model is required'),
   maxTokens: z
     .number()
     .min(1)
@@ -24,7 +22,8 @@ const OpenAIEnvironmentSchema = z.object({
 
 export interface OpenAIEnvironment {
   apiKey: string;
-  defaultModel: 'gpt-3.5-turbo' | 'gpt-4';
+  // `provider:model`, or a bare OpenAI model name
+  defaultModel: string;
   maxTokens: number;
   temperature: number;
   costConfig: Record<string, { input: number; output: number }>;
@@ -52,7 +51,10 @@ class OpenAIConfigManager {
       // Parse environment variables
       const rawConfig = {
         apiKey: process.env.OPENAI_API_KEY || '',
-        defaultModel: process.env.OPENAI_DEFAULT_MODEL || 'gpt-3.5-turbo',
+        defaultModel:
+          process.env.LLM_DEFAULT_MODEL ||
+          process.env.OPENAI_DEFAULT_MODEL ||
+          'gpt-3.5-turbo',
         maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '2000', 10),
         temperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.7'),
         costConfig: {
@@ -72,8 +74,12 @@ class OpenAIConfigManager {
         errors.push('OpenAI API key must start with "sk-"');
       }
 
-      // Check for missing API key
-      if (!rawConfig.apiKey) {
+      // Check for missing API key when OpenAI serves the default model
+      // (or every model, when LLM_FORCE_MODEL points at it)
+      const usesOpenAI =
+        parseModelRef(process.env.LLM_FORCE_MODEL || rawConfig.defaultModel)
+          .provider === DEFAULT_PROVIDER;
+      if (!rawConfig.apiKey && usesOpenAI) {
         errors.push('OpenAI API key is required (OPENAI_API_KEY)');
       }
 
@@ -114,9 +120,9 @@ class OpenAIConfigManager {
       }
 
       // Generate warnings for default values
-      if (!process.env.OPENAI_DEFAULT_MODEL) {
+      if (!process.env.LLM_DEFAULT_MODEL && !process.env.OPENAI_DEFAULT_MODEL) {
         warnings.push(
-          'Using default model: gpt-3.5-turbo (set OPENAI_DEFAULT_MODEL to customize)'
+          'Using default model: gpt-3.5-turbo (set LLM_DEFAULT_MODEL to customize)'
         );
       }
 
@@ -1,5 +1,27 @@
 import { prisma } from './client';
-import type { Execution, PromptStatus, ExecutionStatus } from '@prisma/client';
+import type {
+  Batch,
+  ComparisonRun,
+  EvalCase,
+  EvalResult,
+  EvalRun,
+  EvalSuite,
+  Execution,
+  Prisma,
+  PromptBranch,
+  PromptStatus,
+  ExecutionStatus,
+} from '@prisma/client';
+import type { QueuedExecutionJob } from '../execution/job-queue';
+import {
+  assertPromptPermission,
+  executionAccess,
+  promptAccess,
+  type Permission,
+} from '../auth/access-control';
+import type { PromptMessage } from '../../types/database';
+import { budgetManager } from '../monitoring/budgets';
+import { ConflictError } from '../utils/error-handler';
 
 // User queries
 export const findUserByEmail = async (email: string) => {
@@ -22,22 +44,32 @@ export const getUserPrompts = async (
     limit = 20,
     status,
     search,
+    workspaceId,
   }: {
     page?: number;
     limit?: number;
     status?: PromptStatus;
     search?: string;
+    // Only this workspace's prompts; null for personal prompts only
+    workspaceId?: string | null;
   } = {}
 ) => {
-  const where = {
-    userId,
-    ...(status && { status }),
-    ...(search && {
-      OR: [
-        { name: { contains: search, mode: 'insensitive' as const } },
-        { description: { contains: search, mode: 'insensitive' as const } },
-      ],
-    }),
+  const where: Prisma.PromptWhereInput = {
+    AND: [
+      promptAccess(userId),
+      {
+        ...(workspaceId !== undefined && { workspaceId }),
+        ...(status && { status }),
+        ...(search && {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' as const } },
+            {
+              description: { contains: search, mode: 'insensitive' as const },
+            },
+          ],
+        }),
+      },
+    ],
   };
 
   const [prompts, total] = await Promise.all([
@@ -48,6 +80,7 @@ export const getUserPrompts = async (
         name: true,
         description: true,
         status: true,
+        workspaceId: true,
         createdAt: true,
         updatedAt: true,
         _count: {
@@ -74,9 +107,17 @@ export const getUserPrompts = async (
   };
 };
 
-export const getPromptById = async (id: string, userId: string) => {
-  return prisma.prompt.findFirst({
-    where: { id, userId },
+/**
+ * A prompt the user can see, or null. Throws a ForbiddenError when their
+ * workspace role does not grant `permission`.
+ */
+export const getPromptById = async (
+  id: string,
+  userId: string,
+  permission: Permission = 'view'
+) => {
+  const prompt = await prisma.prompt.findFirst({
+    where: { id, ...promptAccess(userId) },
     include: {
       validations: true,
       _count: {
@@ -87,6 +128,11 @@ export const getPromptById = async (id: string, userId: string) => {
       },
     },
   });
+
+  if (prompt) {
+    await assertPromptPermission(prompt, userId, permission);
+  }
+  return prompt;
 };
 
 export const createPrompt = async (
@@ -95,9 +141,13 @@ export const createPrompt = async (
     name: string;
     description?: string;
     template: string;
+    messages?: any;
     variables: any;
+    model?: string;
     status?: PromptStatus;
     tags?: string[];
+    // Callers check the user may edit prompts in the workspace
+    workspaceId?: string;
   }
 ) => {
   return prisma.prompt.create({
@@ -115,24 +165,30 @@ export const updatePrompt = async (
     name: string;
     description: string;
     template: string;
+    messages: any;
     variables: any;
+    model: string | null;
     status: PromptStatus;
     tags: string[];
+    // Callers check the user may move the prompt
+    workspaceId: string | null;
   }>
 ) => {
   return prisma.prompt.updateMany({
-    where: { id, userId },
+    where: { id, ...promptAccess(userId, 'edit') },
     data: {
       ...data,
       updatedAt: new Date(),
       ...(data.status === 'PUBLISHED' && { publishedAt: new Date() }),
+      // Only published prompts have a live version
+      ...(data.status && data.status !== 'PUBLISHED' && { liveVersion: null }),
     },
   });
 };
 
 export const deletePrompt = async (id: string, userId: string) => {
   return prisma.prompt.deleteMany({
-    where: { id, userId },
+    where: { id, ...promptAccess(userId, 'edit') },
   });
 };
 
@@ -156,7 +212,7 @@ export const getUserExecutions = async (
   } = {}
 ) => {
   const where = {
-    userId,
+    ...executionAccess(userId),
     ...(status && { status }),
     ...(promptId && { promptId }),
     ...(from || to
@@ -190,6 +246,12 @@ export const getUserExecutions = async (
             name: true,
           },
         },
+        promptVersion: {
+          select: {
+            id: true,
+            version: true,
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
       skip: (page - 1) * limit,
@@ -218,6 +280,9 @@ export const createExecution = async (
     inputs: Record<string, any>;
     priority?: 'LOW' | 'NORMAL' | 'HIGH' | 'CRITICAL';
     model?: string;
+    promptVersionId?: string;
+    promptBranchId?: string;
+    apiKeyId?: string;
   }
 ) => {
   return prisma.execution.create({
@@ -226,6 +291,10 @@ export const createExecution = async (
       promptId,
       inputs: data.inputs,
       priority: data.priority || 'NORMAL',
+      ...(data.model && { model: data.model }),
+      ...(data.promptVersionId && { promptVersionId: data.promptVersionId }),
+      ...(data.promptBranchId && { promptBranchId: data.promptBranchId }),
+      ...(data.apiKeyId && { apiKeyId: data.apiKeyId }),
       status: 'PENDING',
     },
   });
@@ -243,6 +312,9 @@ export const updateExecution = async (
     tokenUsage: any;
     startedAt: Date;
     completedAt: Date;
+    errorType: string;
+    errorMessage: string;
+    promptVersionId: string;
   }>
 ) => {
   return prisma.execution.update({
@@ -283,10 +355,21 @@ export interface ExecutionWithDetails {
   createdAt: Date;
   startedAt: Date | null;
   completedAt: Date | null;
+  cancelledAt?: Date | null;
+  cancelledBy?: string | null;
+  model?: string | null;
   prompt: {
     id: string;
     name: string;
+    // Current version, to tell whether the execution ran an older one
+    version?: number;
+    workspaceId?: string | null;
   };
+  // The version that produced the output; absent for older executions
+  promptVersion?: {
+    id: string;
+    version: number;
+  } | null;
   logs?: Array<{
     id: string;
     level: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
@@ -306,7 +389,7 @@ export async function getExecutionHistory(
 
   // Build where clause
   const where = {
-    userId,
+    ...executionAccess(userId),
     ...(promptId && { promptId }),
     ...(status && { status }),
     ...(dateRange && {
@@ -339,6 +422,12 @@ export async function getExecutionHistory(
             name: true,
           },
         },
+        promptVersion: {
+          select: {
+            id: true,
+            version: true,
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
       skip: (validatedPage - 1) * validatedLimit,
@@ -363,13 +452,18 @@ export async function getExecutionHistory(
   };
 }
 
+/**
+ * An execution the user can see, or null. Throws a ForbiddenError when
+ * their role in the prompt's workspace does not grant `permission`.
+ */
 export async function getExecutionById(
   id: string,
-  userId: string
+  userId: string,
+  permission: Permission = 'view'
 ): Promise<ExecutionWithDetails | null> {
-  // Validate execution exists and user owns it
+  // Validate execution exists and user can see it
   const execution = await prisma.execution.findFirst({
-    where: { id, userId },
+    where: { id, ...executionAccess(userId) },
     select: {
       id: true,
       status: true,
@@ -382,10 +476,21 @@ export async function getExecutionById(
       createdAt: true,
       startedAt: true,
       completedAt: true,
+      cancelledAt: true,
+      cancelledBy: true,
+      model: true,
       prompt: {
         select: {
           id: true,
           name: true,
+          version: true,
+          workspaceId: true,
+        },
+      },
+      promptVersion: {
+        select: {
+          id: true,
+          version: true,
         },
       },
       logs: {
@@ -403,6 +508,7 @@ export async function getExecutionById(
   if (!execution) {
     return null;
   }
+  await assertPromptPermission(execution.prompt, userId, permission);
 
   return {
     ...execution,
@@ -410,14 +516,26 @@ export async function getExecutionById(
   } as ExecutionWithDetails;
 }
 
+// Which prompt version a retry runs: the one the execution used, or the
+// prompt's current version
+export type RetryVersion = 'same' | 'latest';
+
+// Renders the execution's inputs with a version of its prompt, the
+// current one when none is given
+export type RetryRenderer = (
+  version?: number
+) => Promise<{ promptVersionId: string; messages: PromptMessage[] }>;
+
 export async function retryExecution(
   executionId: string,
-  userId: string
+  userId: string,
+  version: RetryVersion,
+  render: RetryRenderer
 ): Promise<Execution> {
-  // Validate execution exists and user owns it
+  // Validate execution exists and user may run its prompt
   const existingExecution = await prisma.execution.findFirst({
-    where: { id: executionId, userId },
-    include: { prompt: true },
+    where: { id: executionId, ...executionAccess(userId, 'run') },
+    include: { prompt: true, promptVersion: { select: { version: true } } },
   });
 
   if (!existingExecution) {
@@ -429,18 +547,340 @@ export async function retryExecution(
     throw new Error('Only failed executions can be retried');
   }
 
-  // Create new execution with same parameters
-  const newExecution = await prisma.execution.create({
+  // Executions that failed before saving a job re-render the version they
+  // were pinned to
+  const savedJob =
+    existingExecution.context as unknown as QueuedExecutionJob | null;
+  const pinnedVersion = existingExecution.promptVersion?.version;
+  let job = version === 'same' ? savedJob : null;
+  let promptVersionId = existingExecution.promptVersionId;
+  if (!job) {
+    if (version === 'same' && pinnedVersion === undefined) {
+      throw new ConflictError(
+        'The execution saved no prompt to run again; retry with the latest version'
+      );
+    }
+    const rerendered = await render(
+      version === 'same' ? pinnedVersion : undefined
+    );
+    // Rerendered messages keep the saved model settings
+    job = {
+      messages: rerendered.messages,
+      config: savedJob?.config ?? {
+        ...(existingExecution.model && { model: existingExecution.model }),
+      },
+    };
+    promptVersionId = rerendered.promptVersionId;
+  }
+
+  // Create new execution with same parameters, straight back on the queue
+  // once its estimated cost is reserved against the budgets
+  const reservedCostUsd = budgetManager.estimateJobCost(job);
+  return prisma.$transaction(async tx => {
+    await budgetManager.reserve(
+      tx,
+      userId,
+      existingExecution.promptId,
+      reservedCostUsd
+    );
+
+    return tx.execution.create({
+      data: {
+        userId,
+        promptId: existingExecution.promptId,
+        inputs: existingExecution.inputs || {},
+        priority: existingExecution.priority,
+        status: 'PENDING',
+        ...(existingExecution.model && { model: existingExecution.model }),
+        ...(promptVersionId && { promptVersionId }),
+        // Retries count towards the usage of the key that started the run
+        ...(existingExecution.apiKeyId && {
+          apiKeyId: existingExecution.apiKeyId,
+        }),
+        context: job as unknown as Prisma.InputJsonValue,
+        queuedAt: new Date(),
+        reservedCostUsd,
+      },
+    });
+  });
+}
+
+/**
+ * Marks a PENDING or RUNNING execution CANCELLED and records who cancelled
+ * it. Queued executions are never claimed after this; a running one is
+ * stopped by whichever process holds it. Returns false if the execution
+ * had already finished.
+ */
+export async function cancelExecution(
+  executionId: string,
+  userId: string
+): Promise<boolean> {
+  const now = new Date();
+  const { count } = await prisma.execution.updateMany({
+    where: {
+      id: executionId,
+      ...executionAccess(userId, 'run'),
+      status: { in: ['PENDING', 'RUNNING'] },
+    },
+    data: {
+      status: 'CANCELLED',
+      cancelledAt: now,
+      cancelledBy: userId,
+      completedAt: now,
+      queuedAt: null,
+    },
+  });
+
+  return count > 0;
+}
+
+// Batch queries. Batches, evaluation suites and comparisons belong to
+// their prompt's workspace, so access follows the prompt's.
+export async function getBatchById(
+  id: string,
+  userId: string,
+  permission: Permission = 'view'
+): Promise<
+  | (Batch & {
+      prompt: { id: string; name: string; workspaceId: string | null };
+    })
+  | null
+> {
+  const batch = await prisma.batch.findFirst({
+    where: { id, prompt: promptAccess(userId) },
+    include: {
+      prompt: {
+        select: {
+          id: true,
+          name: true,
+          workspaceId: true,
+        },
+      },
+    },
+  });
+
+  if (batch) {
+    await assertPromptPermission(batch.prompt, userId, permission);
+  }
+  return batch;
+}
+
+export async function getBatchesForPrompt(
+  promptId: string,
+  userId: string
+): Promise<Batch[]> {
+  return prisma.batch.findMany({
+    where: { promptId, prompt: promptAccess(userId) },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+// Evaluation queries
+export interface EvalCaseData {
+  inputs: Record<string, unknown>;
+  expected?: string | null;
+}
+
+const toEvalCaseRows = (
+  cases: EvalCaseData[]
+): Prisma.EvalCaseCreateWithoutSuiteInput[] =>
+  cases.map((evalCase, i) => ({
+    position: i + 1,
+    inputs: evalCase.inputs as Prisma.InputJsonValue,
+    expected: evalCase.expected ?? null,
+  }));
+
+export async function getEvalSuitesForPrompt(
+  promptId: string,
+  userId: string
+): Promise<Array<EvalSuite & { _count: { cases: number }; runs: EvalRun[] }>> {
+  return prisma.evalSuite.findMany({
+    where: { promptId, prompt: promptAccess(userId) },
+    include: {
+      _count: { select: { cases: true } },
+      // Latest run only
+      runs: { orderBy: { createdAt: 'desc' }, take: 1 },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function getEvalSuiteById(
+  id: string,
+  userId: string,
+  permission: Permission = 'view'
+): Promise<(EvalSuite & { cases: EvalCase[] }) | null> {
+  const suite = await prisma.evalSuite.findFirst({
+    where: { id, prompt: promptAccess(userId) },
+    include: {
+      cases: { orderBy: { position: 'asc' } },
+      prompt: { select: { workspaceId: true } },
+    },
+  });
+  if (!suite) {
+    return null;
+  }
+
+  const { prompt, ...rest } = suite;
+  await assertPromptPermission(prompt, userId, permission);
+  return rest;
+}
+
+export async function createEvalSuite(
+  userId: string,
+  promptId: string,
+  data: {
+    name: string;
+    description?: string;
+    evaluators: unknown[];
+    cases: EvalCaseData[];
+  }
+): Promise<EvalSuite> {
+  return prisma.evalSuite.create({
     data: {
       userId,
-      promptId: existingExecution.promptId,
-      inputs: existingExecution.inputs || {},
-      priority: existingExecution.priority,
-      status: 'PENDING',
+      promptId,
+      name: data.name,
+      description: data.description,
+      evaluators: data.evaluators as Prisma.InputJsonValue,
+      cases: { create: toEvalCaseRows(data.cases) },
+    },
+  });
+}
+
+/**
+ * Updates a suite; `cases` replaces every case. Results of earlier runs
+ * go with the cases they scored.
+ */
+export async function updateEvalSuite(
+  id: string,
+  data: Partial<{
+    name: string;
+    description: string | null;
+    evaluators: unknown[];
+    cases: EvalCaseData[];
+  }>
+): Promise<EvalSuite> {
+  return prisma.$transaction(async tx => {
+    if (data.cases) {
+      await tx.evalCase.deleteMany({ where: { suiteId: id } });
+    }
+
+    return tx.evalSuite.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description,
+        ...(data.evaluators && {
+          evaluators: data.evaluators as Prisma.InputJsonValue,
+        }),
+        ...(data.cases && {
+          cases: { create: toEvalCaseRows(data.cases) },
+        }),
+      },
+    });
+  });
+}
+
+export async function deleteEvalSuite(
+  id: string,
+  userId: string
+): Promise<Prisma.BatchPayload> {
+  return prisma.evalSuite.deleteMany({
+    where: { id, prompt: promptAccess(userId, 'edit') },
+  });
+}
+
+export async function getEvalRuns(suiteId: string): Promise<EvalRun[]> {
+  return prisma.evalRun.findMany({
+    where: { suiteId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function getEvalRunById(
+  runId: string,
+  suiteId: string
+): Promise<
+  | (EvalRun & {
+      results: Array<
+        EvalResult & {
+          case: EvalCase;
+          execution: {
+            status: ExecutionStatus;
+            output: string | null;
+            errorMessage: string | null;
+          } | null;
+        }
+      >;
+    })
+  | null
+> {
+  const run = await prisma.evalRun.findFirst({
+    where: { id: runId, suiteId },
+    include: {
+      results: {
+        include: {
+          case: true,
+          execution: {
+            select: { status: true, output: true, errorMessage: true },
+          },
+        },
+      },
     },
   });
 
-  return newExecution;
+  run?.results.sort((a, b) => a.case.position - b.case.position);
+  return run;
+}
+
+// A/B comparison queries
+export async function getComparisonRunsForPrompt(
+  promptId: string,
+  userId: string
+): Promise<ComparisonRun[]> {
+  return prisma.comparisonRun.findMany({
+    where: { promptId, prompt: promptAccess(userId) },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function getComparisonRunById(
+  id: string,
+  userId: string,
+  permission: Permission = 'view'
+): Promise<ComparisonRun | null> {
+  const comparison = await prisma.comparisonRun.findFirst({
+    where: { id, prompt: promptAccess(userId) },
+    include: { prompt: { select: { workspaceId: true } } },
+  });
+  if (!comparison) {
+    return null;
+  }
+
+  const { prompt, ...rest } = comparison;
+  await assertPromptPermission(prompt, userId, permission);
+  return rest;
+}
+
+export async function getPromptBranches(
+  promptId: string,
+  userId: string
+): Promise<PromptBranch[]> {
+  return prisma.promptBranch.findMany({
+    where: { promptId, prompt: promptAccess(userId) },
+    orderBy: { updatedAt: 'desc' },
+  });
+}
+
+export async function getPromptBranch(
+  promptId: string,
+  userId: string,
+  name: string
+): Promise<PromptBranch | null> {
+  return prisma.promptBranch.findFirst({
+    where: { promptId, name, prompt: promptAccess(userId) },
+  });
 }
 
 // Additional helper functions
@@ -480,9 +920,9 @@ export async function deleteExecution(
   executionId: string,
   userId: string
 ): Promise<void> {
-  // Verify user owns the execution
+  // Verify user may edit the execution's prompt
   const execution = await prisma.execution.findFirst({
-    where: { id: executionId, userId },
+    where: { id: executionId, ...executionAccess(userId, 'edit') },
   });
 
   if (!execution) {
@@ -0,0 +1,91 @@
+import { ValidationError } from '@/lib/utils/error-handler';
+import {
+  detectDatasetFormat,
+  mapDatasetRow,
+  parseDataset,
+  serializeDataset,
+} from '../dataset-parser';
+
+describe('dataset parser', () => {
+  it('should detect the format from the file name or content type', () => {
+    expect(detectDatasetFormat('rows.CSV')).toBe('csv');
+    expect(detectDatasetFormat('rows.ndjson')).toBe('jsonl');
+    expect(detectDatasetFormat('upload', 'application/jsonl')).toBe('jsonl');
+    expect(detectDatasetFormat('rows.xlsx')).toBeNull();
+  });
+
+  it('should parse quoted CSV fields with commas, quotes and line breaks', () => {
+    const dataset = parseDataset(
+      '\uFEFFname,notes\r\n"Smith, Jane","said ""hi""\nthen left"\r\nBob,\r\n',
+      'csv'
+    );
+
+    expect(dataset).toEqual({
+      format: 'csv',
+      columns: ['name', 'notes'],
+      rows: [
+        { name: 'Smith, Jane', notes: 'said "hi"\nthen left' },
+        { name: 'Bob', notes: '' },
+      ],
+    });
+  });
+
+  it('should report CSV rows with the wrong number of fields', () => {
+    let error: unknown;
+    try {
+      parseDataset('a,b\n1,2\n3\n4,5,6', 'csv');
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).details).toEqual([
+      { field: 'row 2', message: 'Expected 2 fields, got 1' },
+      { field: 'row 3', message: 'Expected 2 fields, got 3' },
+    ]);
+  });
+
+  it('should reject duplicate headers and header-only files', () => {
+    expect(() => parseDataset('a,a\n1,2', 'csv')).toThrow(
+      'Duplicate CSV column "a"'
+    );
+    expect(() => parseDataset('a,b\n', 'csv')).toThrow('Dataset has no rows');
+    expect(() => parseDataset('a\n"open', 'csv')).toThrow(ValidationError);
+  });
+
+  it('should parse JSONL objects and report bad lines', () => {
+    expect(parseDataset('{"a":1}\n\n{"b":"x","a":2}\n', 'jsonl')).toMatchObject(
+      {
+        columns: ['a', 'b'],
+        rows: [{ a: 1 }, { b: 'x', a: 2 }],
+      }
+    );
+
+    expect(() => parseDataset('{"a":1}\n[1]\nnope', 'jsonl')).toThrow(
+      'Malformed JSONL lines'
+    );
+  });
+
+  it('should map columns to prompt variables', () => {
+    const row = { Question: 'Why?', Extra: 'x' };
+
+    expect(mapDatasetRow(row, { question: 'Question' })).toEqual({
+      question: 'Why?',
+    });
+    expect(mapDatasetRow(row)).toEqual(row);
+  });
+
+  it('should serialize rows back to CSV and JSONL', () => {
+    const rows = [
+      { a: 'x,y', b: null },
+      { a: { n: 1 }, b: 2 },
+    ];
+
+    expect(serializeDataset(rows, ['a', 'b'], 'csv')).toBe(
+      'a,b\r\n"x,y",\r\n"{""n"":1}",2\r\n'
+    );
+    expect(serializeDataset(rows, ['b'], 'jsonl')).toBe(
+      '{"b":null}\n{"b":2}\n'
+    );
+  });
+});
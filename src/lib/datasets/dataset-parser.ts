@@ -0,0 +1,220 @@
+import { ValidationError } from '../utils/error-handler';
+
+export type DatasetFormat = 'csv' | 'jsonl';
+
+export type DatasetRow = Record<string, unknown>;
+
+export interface Dataset {
+  format: DatasetFormat;
+  // Column names in file order; for JSONL, keys in order of first use
+  columns: string[];
+  rows: DatasetRow[];
+}
+
+/**
+ * Picks the format from the file name, then the content type
+ */
+export function detectDatasetFormat(
+  fileName: string,
+  contentType = ''
+): DatasetFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.csv') || contentType.includes('csv')) return 'csv';
+  if (
+    name.endsWith('.jsonl') ||
+    name.endsWith('.ndjson') ||
+    contentType.includes('ndjson') ||
+    contentType.includes('jsonl')
+  ) {
+    return 'jsonl';
+  }
+  return null;
+}
+
+export function parseDataset(text: string, format: DatasetFormat): Dataset {
+  // Spreadsheet exports often start with a byte order mark
+  const content = text.replace(/^\uFEFF/, '');
+  return format === 'csv' ? parseCsv(content) : parseJsonl(content);
+}
+
+/**
+ * RFC 4180 CSV: the first record is the header; quoted fields may contain
+ * commas, doubled quotes and line breaks
+ */
+function parseCsv(text: string): Dataset {
+  const records = readCsvRecords(text).filter(
+    record => !(record.length === 1 && record[0] === '')
+  );
+  const [header, ...body] = records;
+
+  if (!header) {
+    throw new ValidationError('Dataset is empty');
+  }
+
+  const columns = header.map(column => column.trim());
+  const duplicate = columns.find((column, i) => columns.indexOf(column) !== i);
+  if (columns.some(column => !column) || duplicate !== undefined) {
+    throw new ValidationError(
+      duplicate
+        ? `Duplicate CSV column "${duplicate}"`
+        : 'CSV header has an empty column name'
+    );
+  }
+
+  const errors: Array<{ field: string; message: string }> = [];
+  const rows = body.map((record, i) => {
+    if (record.length !== columns.length) {
+      errors.push({
+        field: `row ${i + 1}`,
+        message: `Expected ${columns.length} fields, got ${record.length}`,
+      });
+    }
+    return Object.fromEntries(
+      columns.map((column, j) => [column, record[j] ?? ''])
+    );
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Malformed CSV rows', errors);
+  }
+  if (rows.length === 0) {
+    throw new ValidationError('Dataset has no rows');
+  }
+  return { format: 'csv', columns, rows };
+}
+
+function readCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('CSV ends inside a quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * One JSON object per line; blank lines are skipped
+ */
+function parseJsonl(text: string): Dataset {
+  const columns: string[] = [];
+  const rows: DatasetRow[] = [];
+  const errors: Array<{ field: string; message: string }> = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      errors.push({
+        field: `line ${i + 1}`,
+        message: error instanceof Error ? error.message : 'Invalid JSON',
+      });
+      return;
+    }
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push({
+        field: `line ${i + 1}`,
+        message: 'Expected a JSON object',
+      });
+      return;
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+    rows.push(value as DatasetRow);
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Malformed JSONL lines', errors);
+  }
+  if (rows.length === 0) {
+    throw new ValidationError('Dataset is empty');
+  }
+  return { format: 'jsonl', columns, rows };
+}
+
+/**
+ * Builds prompt inputs from a row. `mapping` is variable name -> column;
+ * without it, columns are used under their own names.
+ */
+export function mapDatasetRow(
+  row: DatasetRow,
+  mapping?: Record<string, string> | null
+): Record<string, unknown> {
+  if (!mapping) return { ...row };
+
+  return Object.fromEntries(
+    Object.entries(mapping)
+      .filter(([, column]) => row[column] !== undefined)
+      .map(([variable, column]) => [variable, row[column]])
+  );
+}
+
+export function serializeDataset(
+  rows: DatasetRow[],
+  columns: string[],
+  format: DatasetFormat
+): string {
+  if (format === 'jsonl') {
+    return rows
+      .map(row =>
+        JSON.stringify(
+          Object.fromEntries(columns.map(column => [column, row[column]]))
+        )
+      )
+      .join('\n')
+      .concat('\n');
+  }
+
+  const lines = [columns, ...rows.map(row => columns.map(c => row[c]))].map(
+    values => values.map(formatCsvField).join(',')
+  );
+  return lines.join('\r\n').concat('\r\n');
+}
+
+function formatCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
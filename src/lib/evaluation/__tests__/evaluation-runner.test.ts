@@ -0,0 +1,272 @@
+import { prisma } from '@/lib/database/client';
+import { budgetManager } from '@/lib/monitoring/budgets';
+import { snippetLibrary } from '@/lib/prompts/snippets';
+import { BudgetExceededError, NotFoundError } from '@/lib/utils/error-handler';
+import { EvaluationRunner } from '../evaluation-runner';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    promptVersion: { findUnique: jest.fn() },
+    evalCase: { findMany: jest.fn() },
+    evalRun: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    evalResult: {
+      createMany: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      update: jest.fn(),
+      count: jest.fn().mockResolvedValue(0),
+    },
+    execution: { createMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/lib/monitoring/budgets', () => ({
+  budgetManager: { reserve: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('@/lib/prompts/snippets', () => ({
+  snippetLibrary: {
+    resolveForTemplate: jest.fn().mockResolvedValue({ partials: {} }),
+    loadPinnedPartials: jest.fn(),
+  },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const mockPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  promptVersion: MockModel;
+  evalCase: MockModel;
+  evalRun: MockModel;
+  evalResult: MockModel;
+  execution: MockModel;
+};
+
+describe('EvaluationRunner', () => {
+  const prompt = {
+    id: 'prompt-1',
+    userId: 'user-1',
+    version: 3,
+    template: 'Current: {{text}}',
+    messages: [],
+    variables: [{ name: 'text', type: 'string', required: true }],
+  };
+  const evaluators = [{ type: 'exact_match', caseSensitive: true }];
+  let runner: EvaluationRunner;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runner = new EvaluationRunner();
+    mockPrisma.$transaction.mockImplementation(callback => callback(prisma));
+    mockPrisma.evalRun.findUnique.mockResolvedValue({
+      status: 'RUNNING',
+      suite: { evaluators },
+    });
+  });
+
+  it('should queue a case execution rendered from the pinned prompt version', async () => {
+    mockPrisma.promptVersion.findUnique.mockResolvedValue({
+      template: 'Old: {{text}} {{> footer}}',
+      messages: [],
+      variables: prompt.variables,
+      snippetVersions: { footer: { snippetId: 'snip-1', version: 2 } },
+    });
+    (snippetLibrary.loadPinnedPartials as jest.Mock).mockResolvedValue({
+      footer: 'v2 footer',
+    });
+    mockPrisma.evalCase.findMany.mockResolvedValue([
+      { id: 'case-1', inputs: { text: 'hi' } },
+      { id: 'case-2', inputs: {} },
+    ]);
+    mockPrisma.evalRun.create.mockResolvedValue({ id: 'run-1' });
+    // The second case fails pre-flight and is scored straight away
+    mockPrisma.evalResult.count.mockResolvedValueOnce(1);
+
+    await runner.startRun(
+      'user-1',
+      { id: 'suite-1', promptId: 'prompt-1' },
+      prompt,
+      {
+        version: 2,
+        model: 'mock:echo',
+      }
+    );
+
+    expect(mockPrisma.evalRun.create).toHaveBeenCalledWith({
+      data: { suiteId: 'suite-1', promptVersion: 2, model: 'mock:echo' },
+    });
+
+    const [{ data: executions }] =
+      mockPrisma.execution.createMany.mock.calls[0];
+    expect(executions[0]).toMatchObject({
+      status: 'PENDING',
+      queuedAt: expect.any(Date),
+      context: {
+        messages: [{ role: 'user', content: 'Old: hi v2 footer' }],
+      },
+      reservedCostUsd: expect.any(Number),
+    });
+    expect(budgetManager.reserve).toHaveBeenCalledWith(
+      prisma,
+      'user-1',
+      'prompt-1',
+      executions[0].reservedCostUsd
+    );
+    expect(executions[1]).toMatchObject({
+      status: 'FAILED',
+      errorType: 'VALIDATION_ERROR',
+    });
+
+    const [{ data: results }] = mockPrisma.evalResult.createMany.mock.calls[0];
+    expect(results).toEqual([
+      { runId: 'run-1', caseId: 'case-1', executionId: executions[0].id },
+      { runId: 'run-1', caseId: 'case-2', executionId: executions[1].id },
+    ]);
+  });
+
+  it('should start nothing when a budget has no room for every case', async () => {
+    mockPrisma.promptVersion.findUnique.mockResolvedValue({
+      template: 'Old: {{text}}',
+      messages: [],
+      variables: prompt.variables,
+      snippetVersions: null,
+    });
+    mockPrisma.evalCase.findMany.mockResolvedValue([
+      { id: 'case-1', inputs: { text: 'hi' } },
+    ]);
+    (budgetManager.reserve as jest.Mock).mockRejectedValueOnce(
+      new BudgetExceededError('Daily budget of $1.00 would be exceeded')
+    );
+
+    await expect(
+      runner.startRun(
+        'user-1',
+        { id: 'suite-1', promptId: 'prompt-1' },
+        prompt,
+        { version: 2, model: 'mock:echo' }
+      )
+    ).rejects.toThrow(BudgetExceededError);
+    expect(mockPrisma.evalRun.create).not.toHaveBeenCalled();
+    expect(mockPrisma.execution.createMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject versions that do not exist', async () => {
+    mockPrisma.promptVersion.findUnique.mockResolvedValue(null);
+
+    await expect(
+      runner.startRun(
+        'user-1',
+        { id: 'suite-1', promptId: 'prompt-1' },
+        prompt,
+        {
+          version: 9,
+          model: 'mock:echo',
+        }
+      )
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should score a finished execution and complete the run with aggregates', async () => {
+    mockPrisma.evalResult.findUnique.mockResolvedValue({
+      id: 'result-1',
+      runId: 'run-1',
+      scoredAt: null,
+    });
+    mockPrisma.evalResult.findMany
+      .mockResolvedValueOnce([
+        {
+          id: 'result-1',
+          case: { inputs: {}, expected: 'yes' },
+          execution: { status: 'COMPLETED', output: 'yes', errorMessage: null },
+        },
+      ])
+      .mockResolvedValueOnce([
+        {
+          score: 1,
+          passed: true,
+          scores: [{ name: 'exact_match', score: 1, passed: true }],
+          execution: { costUsd: { toNumber: (): number => 0.002 } },
+        },
+        {
+          score: 0,
+          passed: false,
+          scores: [{ name: 'exact_match', score: 0, passed: false }],
+          execution: null,
+        },
+      ]);
+
+    await runner.scoreExecution('exec-1');
+
+    expect(mockPrisma.evalResult.update).toHaveBeenCalledWith({
+      where: { id: 'result-1' },
+      data: expect.objectContaining({
+        score: 1,
+        passed: true,
+        scoredAt: expect.any(Date),
+      }),
+    });
+    expect(mockPrisma.evalRun.updateMany).toHaveBeenCalledWith({
+      where: { id: 'run-1', status: 'RUNNING' },
+      data: expect.objectContaining({
+        status: 'COMPLETED',
+        score: 0.5,
+        passRate: 0.5,
+        costUsd: 0.002,
+        summary: [
+          {
+            name: 'exact_match',
+            type: 'exact_match',
+            meanScore: 0.5,
+            passRate: 0.5,
+            scoredCases: 2,
+          },
+        ],
+      }),
+    });
+  });
+
+  it('should list cases that regressed since the baseline run', async () => {
+    mockPrisma.evalRun.findFirst.mockResolvedValue({
+      id: 'run-1',
+      promptVersion: 2,
+      model: 'mock:echo',
+      score: 0.75,
+      passRate: 0.5,
+      summary: [{ name: 'exact_match', meanScore: 0.75 }],
+    });
+    mockPrisma.evalResult.findMany.mockResolvedValue([
+      { runId: 'run-1', caseId: 'a', passed: true, case: { position: 1 } },
+      { runId: 'run-1', caseId: 'b', passed: false, case: { position: 2 } },
+      { runId: 'run-2', caseId: 'a', passed: false, case: { position: 1 } },
+      { runId: 'run-2', caseId: 'b', passed: true, case: { position: 2 } },
+    ]);
+
+    const comparison = await runner.compareWithBaseline({
+      id: 'run-2',
+      suiteId: 'suite-1',
+      createdAt: new Date(),
+      score: 0.5,
+      passRate: 0.5,
+      summary: [{ name: 'exact_match', meanScore: 0.5 }],
+    });
+
+    expect(comparison).toMatchObject({
+      baselineRunId: 'run-1',
+      baselineVersion: 2,
+      scoreDelta: -0.25,
+      passRateDelta: 0,
+      evaluators: [{ name: 'exact_match', meanScoreDelta: -0.25 }],
+      regressions: [{ caseId: 'a', position: 1 }],
+      fixes: [{ caseId: 'b', position: 2 }],
+    });
+  });
+});
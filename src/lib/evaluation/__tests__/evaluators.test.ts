@@ -0,0 +1,117 @@
+import {
+  EvaluatorListSchema,
+  OutputEvaluator,
+  type EvaluatorConfig,
+} from '../evaluators';
+import { bleu, rouge } from '../similarity';
+
+describe('similarity scores', () => {
+  const reference = 'the cat sat on the mat';
+
+  it('should score identical text 1 and unrelated text 0', () => {
+    expect(bleu(reference, reference)).toBeCloseTo(1);
+    expect(rouge(reference, reference, 'rouge1')).toBeCloseTo(1);
+    expect(rouge(reference, reference, 'rougeL')).toBeCloseTo(1);
+
+    expect(bleu('dogs bark loudly', reference)).toBe(0);
+    expect(rouge('dogs bark loudly', reference, 'rouge2')).toBe(0);
+  });
+
+  it('should ignore case and punctuation', () => {
+    expect(rouge('The cat sat on the mat.', reference)).toBeCloseTo(1);
+  });
+
+  it('should rank closer outputs higher', () => {
+    const close = 'the cat sat on a mat';
+    const far = 'a mat was where the cat sat';
+
+    expect(bleu(close, reference)).toBeGreaterThan(bleu(far, reference));
+    expect(rouge(close, reference, 'rougeL')).toBeGreaterThan(
+      rouge(far, reference, 'rougeL')
+    );
+  });
+
+  it('should penalize outputs shorter than the reference', () => {
+    // Every word matches, so only the brevity penalty lowers the score
+    expect(bleu('the cat sat', reference, 1)).toBeCloseTo(Math.exp(1 - 2));
+  });
+});
+
+describe('OutputEvaluator', () => {
+  const evaluator = new OutputEvaluator();
+  const evaluators = EvaluatorListSchema.parse([
+    { type: 'exact_match', caseSensitive: false },
+    { type: 'regex', pattern: '^\\{' },
+    {
+      type: 'json_schema',
+      schema: {
+        type: 'object',
+        required: ['label'],
+        properties: { label: { type: 'string' } },
+      },
+    },
+    {
+      type: 'function',
+      code: 'return JSON.parse(data).label === context.inputs.want;',
+    },
+    { type: 'rouge', variant: 'rouge1', threshold: 0.8 },
+  ]) as EvaluatorConfig[];
+
+  it('should score every evaluator and pass when all pass', async () => {
+    const result = await evaluator.scoreCase('{"label": "spam"}', evaluators, {
+      inputs: { want: 'spam' },
+      expected: '{"LABEL": "spam"}',
+    });
+
+    expect(result.scores.map(score => [score.name, score.passed])).toEqual([
+      ['exact_match', true],
+      ['regex', true],
+      ['json_schema', true],
+      ['function', true],
+      ['rouge', true],
+    ]);
+    expect(result).toMatchObject({ score: 1, passed: true });
+  });
+
+  it('should skip reference-based evaluators for cases without an expected output', async () => {
+    const result = await evaluator.scoreCase('not json', evaluators, {
+      inputs: { want: 'spam' },
+    });
+
+    expect(result.scores.find(s => s.name === 'exact_match')).toMatchObject({
+      score: null,
+      passed: null,
+    });
+    expect(result.scores.find(s => s.name === 'json_schema')).toMatchObject({
+      passed: false,
+      reason: 'Output is not valid JSON',
+    });
+    // Regex, JSON schema and function ran and failed
+    expect(result).toMatchObject({ score: 0, passed: false });
+  });
+
+  it('should pass the expected output to function evaluators', async () => {
+    const score = await evaluator.score(
+      'Paris',
+      { type: 'function', code: 'return data.includes(context.expected);' },
+      { inputs: {}, expected: 'Paris' }
+    );
+
+    expect(score.passed).toBe(true);
+  });
+
+  it('should require unique evaluator names', () => {
+    expect(
+      EvaluatorListSchema.safeParse([
+        { type: 'regex', pattern: 'a' },
+        { type: 'regex', pattern: 'b' },
+      ]).success
+    ).toBe(false);
+    expect(
+      EvaluatorListSchema.safeParse([
+        { type: 'regex', pattern: 'a' },
+        { type: 'regex', name: 'has-b', pattern: 'b' },
+      ]).success
+    ).toBe(true);
+  });
+});
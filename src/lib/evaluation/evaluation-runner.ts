@@ -0,0 +1,482 @@
+import { randomUUID } from 'crypto';
+import type { EvalRun, Prisma, Prompt } from '@prisma/client';
+import { prisma } from '@/lib/database/client';
+import type { QueuedExecutionJob } from '@/lib/execution/job-queue';
+import { budgetManager } from '@/lib/monitoring/budgets';
+import { costTracker } from '@/lib/monitoring/cost-tracker';
+import { logger } from '@/lib/monitoring/logger';
+import { llmClient } from '@/lib/providers/llm-client';
+import { templateEngine } from '@/lib/prompts/template-engine';
+import { promptBranchManager } from '@/lib/prompts/branches';
+import { promptVersionManager } from '@/lib/prompts/versioning';
+import {
+  evaluatorName,
+  outputEvaluator,
+  type EvaluatorConfig,
+  type EvaluatorScore,
+} from './evaluators';
+
+export interface StartRunOptions {
+  // Prompt version to score; defaults to the current version
+  version?: number;
+  // Draft branch to score instead of a version
+  branch?: string;
+  // Canonical `provider:model` reference
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface EvaluatorSummary {
+  name: string;
+  type: EvaluatorConfig['type'];
+  meanScore: number | null;
+  passRate: number | null;
+  // Cases the evaluator scored; it skips cases without an expected output
+  scoredCases: number;
+}
+
+export interface RunComparison {
+  baselineRunId: string;
+  baselineVersion: number;
+  baselineModel: string;
+  scoreDelta: number | null;
+  passRateDelta: number | null;
+  evaluators: Array<{ name: string; meanScoreDelta: number | null }>;
+  // Cases that passed in the baseline run and fail now
+  regressions: Array<{ caseId: string; position: number }>;
+  // Cases that failed in the baseline run and pass now
+  fixes: Array<{ caseId: string; position: number }>;
+}
+
+const FINISHED_STATUSES = ['COMPLETED', 'FAILED', 'CANCELLED'] as const;
+
+const mean = (values: number[]): number | null =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+const delta = (after: number | null, before: number | null): number | null =>
+  after === null || before === null ? null : after - before;
+
+/**
+ * Scores a prompt version and model against an evaluation suite. Each
+ * case runs as a queued execution; workers score results as executions
+ * finish, and the run completes with aggregate scores once every case is
+ * scored.
+ */
+export class EvaluationRunner {
+  /**
+   * Renders every case with the chosen prompt version and queues them,
+   * reserving their estimated cost against the budgets. Cases that fail
+   * pre-flight are scored as failures. Throws a BudgetExceededError, and
+   * starts nothing, when a budget has no room for every case.
+   */
+  public async startRun(
+    userId: string,
+    suite: { id: string; promptId: string },
+    prompt: Pick<
+      Prompt,
+      'id' | 'userId' | 'version' | 'template' | 'messages' | 'variables'
+    >,
+    options: StartRunOptions
+  ): Promise<EvalRun> {
+    const branch = options.branch
+      ? await promptBranchManager.loadBranch(userId, prompt.id, options.branch)
+      : null;
+    // Branch runs are recorded against the version the branch started from
+    const versionNumber =
+      branch?.baseVersion ?? options.version ?? prompt.version;
+    const version =
+      branch ??
+      (await promptVersionManager.loadVersion(
+        prompt.userId,
+        prompt,
+        versionNumber
+      ));
+    const cases = await prisma.evalCase.findMany({
+      where: { suiteId: suite.id },
+      orderBy: { position: 'asc' },
+    });
+
+    const config = {
+      model: options.model,
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+    };
+    const maxTokens =
+      options.maxTokens || llmClient.getDefaultConfig().maxTokens;
+    const now = new Date();
+
+    const executions = cases.map(evalCase => {
+      const inputs = (evalCase.inputs || {}) as Record<string, unknown>;
+      const { result, usage } = templateEngine.fitToContextWindow(
+        version.template,
+        inputs,
+        version.variables,
+        {
+          partials: version.partials,
+          messages: version.messages,
+          model: options.model,
+          maxTokens,
+          overflow: 'reject',
+        }
+      );
+
+      const base = {
+        id: randomUUID(),
+        userId,
+        promptId: prompt.id,
+        promptVersionId: version.id,
+        promptBranchId: version.branchId,
+        model: options.model,
+        priority: 'LOW' as const,
+        inputs: inputs as Prisma.InputJsonValue,
+      };
+
+      if (!result.isValid || !usage.fits) {
+        return {
+          ...base,
+          status: 'FAILED' as const,
+          errorType: 'VALIDATION_ERROR',
+          errorMessage: !result.isValid
+            ? 'Invalid or missing variables'
+            : 'Prompt exceeds the model context window',
+          completedAt: now,
+        };
+      }
+
+      const job: QueuedExecutionJob = { messages: result.messages, config };
+      return {
+        ...base,
+        status: 'PENDING' as const,
+        context: job as unknown as Prisma.InputJsonValue,
+        queuedAt: now,
+        reservedCostUsd: costTracker.calculateProviderCost(
+          { inputTokens: usage.promptTokens, outputTokens: usage.maxTokens },
+          options.model
+        ),
+      };
+    });
+    const estimatedCostUsd = executions.reduce(
+      (sum, execution) =>
+        sum + ('reservedCostUsd' in execution ? execution.reservedCostUsd : 0),
+      0
+    );
+
+    const run = await prisma.$transaction(async tx => {
+      await budgetManager.reserve(tx, userId, prompt.id, estimatedCostUsd);
+
+      const created = await tx.evalRun.create({
+        data: {
+          suiteId: suite.id,
+          promptVersion: versionNumber,
+          branchId: branch?.branchId,
+          model: options.model,
+        },
+      });
+
+      await tx.execution.createMany({ data: executions });
+      await tx.evalResult.createMany({
+        data: cases.map((evalCase, i) => ({
+          runId: created.id,
+          caseId: evalCase.id,
+          executionId: executions[i].id,
+        })),
+      });
+
+      return created;
+    });
+
+    await logger.info('Evaluation run started', {
+      runId: run.id,
+      suiteId: suite.id,
+      promptVersion: versionNumber,
+      branch: options.branch,
+      model: options.model,
+      cases: cases.length,
+    });
+
+    // Score cases rejected by pre-flight straight away
+    await this.advance(run.id);
+    return run;
+  }
+
+  /**
+   * Scores the result for a finished execution, then completes its run if
+   * that was the last case
+   */
+  public async scoreExecution(executionId: string): Promise<void> {
+    const result = await prisma.evalResult.findUnique({
+      where: { executionId },
+      select: { id: true, runId: true, scoredAt: true },
+    });
+    if (!result || result.scoredAt) return;
+
+    await this.scoreResults(result.runId, [result.id]);
+    await this.completeIfScored(result.runId);
+  }
+
+  /**
+   * Scores every finished but unscored case of a running run and
+   * completes it once all are scored. Catches cases whose execution
+   * finished outside a worker, e.g. cancelled ones.
+   */
+  public async advance(runId: string): Promise<void> {
+    const pending = await prisma.evalResult.findMany({
+      where: {
+        runId,
+        scoredAt: null,
+        OR: [
+          { executionId: null },
+          { execution: { status: { in: [...FINISHED_STATUSES] } } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (pending.length > 0) {
+      await this.scoreResults(
+        runId,
+        pending.map(result => result.id)
+      );
+    }
+    await this.completeIfScored(runId);
+  }
+
+  public async advanceAll(): Promise<void> {
+    const runs = await prisma.evalRun.findMany({
+      where: { status: 'RUNNING' },
+      select: { id: true },
+    });
+
+    for (const { id } of runs) {
+      await this.advance(id).catch(error =>
+        logger.error('Failed to advance evaluation run', error, { runId: id })
+      );
+    }
+  }
+
+  /**
+   * Compares a completed run with an earlier completed run of the same
+   * suite, by default the latest one before it
+   */
+  public async compareWithBaseline(
+    run: Pick<
+      EvalRun,
+      'id' | 'suiteId' | 'createdAt' | 'score' | 'passRate' | 'summary'
+    >,
+    baselineRunId?: string
+  ): Promise<RunComparison | null> {
+    const baseline = await prisma.evalRun.findFirst({
+      where: baselineRunId
+        ? { id: baselineRunId, suiteId: run.suiteId, status: 'COMPLETED' }
+        : {
+            suiteId: run.suiteId,
+            status: 'COMPLETED',
+            id: { not: run.id },
+            createdAt: { lt: run.createdAt },
+          },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!baseline) return null;
+
+    const results = await prisma.evalResult.findMany({
+      where: { runId: { in: [run.id, baseline.id] } },
+      select: {
+        runId: true,
+        caseId: true,
+        passed: true,
+        case: { select: { position: true } },
+      },
+    });
+
+    const baselinePassed = new Map(
+      results
+        .filter(result => result.runId === baseline.id)
+        .map(result => [result.caseId, result.passed])
+    );
+    const current = results
+      .filter(result => result.runId === run.id)
+      .sort((a, b) => a.case.position - b.case.position);
+
+    const changed = (before: boolean, after: boolean): RunComparison['fixes'] =>
+      current
+        .filter(
+          result =>
+            baselinePassed.get(result.caseId) === before &&
+            result.passed === after
+        )
+        .map(result => ({
+          caseId: result.caseId,
+          position: result.case.position,
+        }));
+
+    const baselineSummary = (baseline.summary ||
+      []) as unknown as EvaluatorSummary[];
+    const runSummary = (run.summary || []) as unknown as EvaluatorSummary[];
+
+    return {
+      baselineRunId: baseline.id,
+      baselineVersion: baseline.promptVersion,
+      baselineModel: baseline.model,
+      scoreDelta: delta(run.score, baseline.score),
+      passRateDelta: delta(run.passRate, baseline.passRate),
+      evaluators: runSummary.map(summary => ({
+        name: summary.name,
+        meanScoreDelta: delta(
+          summary.meanScore,
+          baselineSummary.find(before => before.name === summary.name)
+            ?.meanScore ?? null
+        ),
+      })),
+      regressions: changed(true, false),
+      fixes: changed(false, true),
+    };
+  }
+
+  private async scoreResults(
+    runId: string,
+    resultIds: string[]
+  ): Promise<void> {
+    const run = await prisma.evalRun.findUnique({
+      where: { id: runId },
+      select: { suite: { select: { evaluators: true } } },
+    });
+    if (!run) return;
+    const evaluators = run.suite.evaluators as unknown as EvaluatorConfig[];
+
+    const results = await prisma.evalResult.findMany({
+      where: { id: { in: resultIds }, scoredAt: null },
+      select: {
+        id: true,
+        case: { select: { inputs: true, expected: true } },
+        execution: {
+          select: { status: true, output: true, errorMessage: true },
+        },
+      },
+    });
+
+    for (const result of results) {
+      const { execution } = result;
+
+      let scored: {
+        score: number;
+        passed: boolean;
+        scores: EvaluatorScore[];
+      };
+      if (execution?.status === 'COMPLETED') {
+        const caseScore = await outputEvaluator.scoreCase(
+          execution.output || '',
+          evaluators,
+          {
+            inputs: (result.case.inputs || {}) as Record<string, unknown>,
+            expected: result.case.expected,
+          }
+        );
+        scored = {
+          // A case no evaluator could score neither passes nor fails
+          score: caseScore.score ?? 0,
+          passed: caseScore.passed ?? false,
+          scores: caseScore.scores,
+        };
+      } else {
+        // A case whose execution didn't complete fails every evaluator
+        const reason = execution
+          ? `Execution ${execution.status.toLowerCase()}${execution.errorMessage ? `: ${execution.errorMessage}` : ''}`
+          : 'Execution was deleted';
+        scored = {
+          score: 0,
+          passed: false,
+          scores: evaluators.map(evaluator => ({
+            name: evaluatorName(evaluator),
+            type: evaluator.type,
+            score: 0,
+            passed: false,
+            reason,
+          })),
+        };
+      }
+
+      await prisma.evalResult.update({
+        where: { id: result.id },
+        data: {
+          score: scored.score,
+          passed: scored.passed,
+          scores: scored.scores as unknown as Prisma.InputJsonValue,
+          scoredAt: new Date(),
+        },
+      });
+    }
+  }
+
+  private async completeIfScored(runId: string): Promise<void> {
+    const unscored = await prisma.evalResult.count({
+      where: { runId, scoredAt: null },
+    });
+    if (unscored > 0) return;
+
+    const run = await prisma.evalRun.findUnique({
+      where: { id: runId },
+      select: { status: true, suite: { select: { evaluators: true } } },
+    });
+    if (!run || run.status !== 'RUNNING') return;
+
+    const results = await prisma.evalResult.findMany({
+      where: { runId },
+      select: {
+        score: true,
+        passed: true,
+        scores: true,
+        execution: { select: { costUsd: true } },
+      },
+    });
+
+    const evaluators = run.suite.evaluators as unknown as EvaluatorConfig[];
+    const summary: EvaluatorSummary[] = evaluators.map(evaluator => {
+      const name = evaluatorName(evaluator);
+      const scores = results
+        .flatMap(result => (result.scores || []) as unknown as EvaluatorScore[])
+        .filter(score => score.name === name && score.score !== null);
+
+      return {
+        name,
+        type: evaluator.type,
+        meanScore: mean(scores.map(score => score.score as number)),
+        passRate: mean(scores.map(score => (score.passed ? 1 : 0))),
+        scoredCases: scores.length,
+      };
+    });
+
+    const score = mean(results.map(result => result.score || 0));
+    const passRate = mean(results.map(result => (result.passed ? 1 : 0)));
+    const costUsd = results.reduce(
+      (sum, result) => sum + (result.execution?.costUsd?.toNumber() || 0),
+      0
+    );
+
+    const { count } = await prisma.evalRun.updateMany({
+      where: { id: runId, status: 'RUNNING' },
+      data: {
+        status: 'COMPLETED',
+        score,
+        passRate,
+        summary: summary as unknown as Prisma.InputJsonValue,
+        costUsd,
+        completedAt: new Date(),
+      },
+    });
+
+    if (count > 0) {
+      await logger.info('Evaluation run completed', {
+        runId,
+        score,
+        passRate,
+        costUsd,
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const evaluationRunner = new EvaluationRunner();
@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { JsonSchemaRuleSchema } from '@/lib/prompts/variable-schema';
+import { FunctionValidator } from '@/lib/validation/function-validator';
+import { RegexValidator } from '@/lib/validation/regex-validator';
+import { SchemaValidator } from '@/lib/validation/schema-validator';
+import { bleu, rouge } from './similarity';
+
+// Similarity scores at or above the threshold pass
+const ThresholdSchema = z.number().min(0).max(1).default(0.5);
+
+const EvaluatorBaseSchema = z.object({
+  // Names the evaluator in scores; defaults to its type
+  name: z.string().min(1).max(100).optional(),
+});
+
+export const EvaluatorSchema = z.discriminatedUnion('type', [
+  EvaluatorBaseSchema.extend({
+    type: z.literal('exact_match'),
+    caseSensitive: z.boolean().default(true),
+  }),
+  EvaluatorBaseSchema.extend({
+    type: z.literal('regex'),
+    pattern: z.string().min(1).max(1000),
+    flags: z
+      .string()
+      .regex(/^[imsu]*$/, 'Flags may only include i, m, s and u')
+      .optional(),
+  }),
+  EvaluatorBaseSchema.extend({
+    type: z.literal('json_schema'),
+    schema: JsonSchemaRuleSchema,
+  }),
+  EvaluatorBaseSchema.extend({
+    type: z.literal('function'),
+    code: z.string().min(1).max(10000),
+    timeout: z.number().int().min(1).max(5000).optional(),
+  }),
+  EvaluatorBaseSchema.extend({
+    type: z.literal('bleu'),
+    maxN: z.number().int().min(1).max(4).default(4),
+    threshold: ThresholdSchema,
+  }),
+  EvaluatorBaseSchema.extend({
+    type: z.literal('rouge'),
+    variant: z.enum(['rouge1', 'rouge2', 'rougeL']).default('rougeL'),
+    threshold: ThresholdSchema,
+  }),
+]);
+
+export const EvaluatorListSchema = z
+  .array(EvaluatorSchema)
+  .min(1)
+  .max(20)
+  .refine(evaluators => {
+    const names = evaluators.map(evaluatorName);
+    return new Set(names).size === names.length;
+  }, 'Evaluator names must be unique; name evaluators of the same type');
+
+export const EvalCaseListSchema = z
+  .array(
+    z.object({
+      inputs: z.record(z.unknown()),
+      // Needed by exact match and similarity evaluators
+      expected: z.string().max(100000).nullable().optional(),
+    })
+  )
+  .min(1)
+  .max(1000);
+
+export type EvaluatorConfig = z.infer<typeof EvaluatorSchema>;
+
+export interface EvaluatorScore {
+  name: string;
+  type: EvaluatorConfig['type'];
+  // Null when the evaluator was skipped, e.g. the case has no expected output
+  score: number | null;
+  passed: boolean | null;
+  reason?: string;
+}
+
+export interface CaseScore {
+  // Mean of the evaluators that ran; null if none did
+  score: number | null;
+  // Whether every evaluator that ran passed
+  passed: boolean | null;
+  scores: EvaluatorScore[];
+}
+
+export interface EvaluationCase {
+  inputs: Record<string, unknown>;
+  expected?: string | null;
+}
+
+export function evaluatorName(evaluator: EvaluatorConfig): string {
+  return evaluator.name || evaluator.type;
+}
+
+/**
+ * Scores outputs with the configured evaluators. Structural checks reuse
+ * the output validators; similarity scores compare against the case's
+ * expected output.
+ */
+export class OutputEvaluator {
+  private schemaValidator = new SchemaValidator();
+  private regexValidator = new RegexValidator();
+  private functionValidator = new FunctionValidator();
+
+  public async scoreCase(
+    output: string,
+    evaluators: EvaluatorConfig[],
+    evaluationCase: EvaluationCase
+  ): Promise<CaseScore> {
+    const scores: EvaluatorScore[] = [];
+    for (const evaluator of evaluators) {
+      scores.push(await this.score(output, evaluator, evaluationCase));
+    }
+
+    const ran = scores.filter(score => score.score !== null);
+    if (ran.length === 0) {
+      return { score: null, passed: null, scores };
+    }
+
+    return {
+      score:
+        ran.reduce((sum, score) => sum + (score.score || 0), 0) / ran.length,
+      passed: ran.every(score => score.passed),
+      scores,
+    };
+  }
+
+  public async score(
+    output: string,
+    evaluator: EvaluatorConfig,
+    { inputs, expected }: EvaluationCase
+  ): Promise<EvaluatorScore> {
+    const name = evaluatorName(evaluator);
+    const binary = (passed: boolean, reason?: string): EvaluatorScore => ({
+      name,
+      type: evaluator.type,
+      score: passed ? 1 : 0,
+      passed,
+      ...(reason && { reason }),
+    });
+
+    switch (evaluator.type) {
+      case 'regex': {
+        const result = this.regexValidator.validate(output, evaluator);
+        return binary(
+          result.isValid,
+          result.error || (result.isValid ? undefined : 'No match')
+        );
+      }
+
+      case 'json_schema': {
+        let data: unknown;
+        try {
+          data = JSON.parse(output);
+        } catch {
+          return binary(false, 'Output is not valid JSON');
+        }
+        const result = this.schemaValidator.validate(data, evaluator.schema);
+        return binary(
+          result.isValid,
+          result.errors
+            .map(error => `${error.path || 'root'}: ${error.message}`)
+            .join('; ') || undefined
+        );
+      }
+
+      case 'function': {
+        const result = await this.functionValidator.validate(
+          output,
+          { code: evaluator.code, timeout: evaluator.timeout },
+          { inputs, expected: expected ?? undefined }
+        );
+        return binary(result.isValid, result.error);
+      }
+    }
+
+    // The rest compare against the expected output
+    if (expected === null || expected === undefined) {
+      return {
+        name,
+        type: evaluator.type,
+        score: null,
+        passed: null,
+        reason: 'Case has no expected output',
+      };
+    }
+
+    if (evaluator.type === 'exact_match') {
+      const normalize = (text: string): string =>
+        evaluator.caseSensitive ? text.trim() : text.trim().toLowerCase();
+      return binary(normalize(output) === normalize(expected));
+    }
+
+    const score =
+      evaluator.type === 'bleu'
+        ? bleu(output, expected, evaluator.maxN)
+        : rouge(output, expected, evaluator.variant);
+    return {
+      name,
+      type: evaluator.type,
+      score,
+      passed: score >= evaluator.threshold,
+    };
+  }
+}
+
+// Singleton instance
+export const outputEvaluator = new OutputEvaluator();
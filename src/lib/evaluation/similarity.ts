@@ -0,0 +1,117 @@
+/**
+ * Reference-based text similarity scores. Both work on lowercase word
+ * tokens, need no embeddings and return a score from 0 to 1.
+ */
+
+export type RougeVariant = 'rouge1' | 'rouge2' | 'rougeL';
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[\s.,;:!?"'`()[\]{}<>]+/)
+    .filter(Boolean);
+}
+
+function ngrams(tokens: string[], n: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + n <= tokens.length; i++) {
+    const gram = tokens.slice(i, i + n).join(' ');
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+// Matches clipped to how often each n-gram appears in the other text
+function overlap(a: Map<string, number>, b: Map<string, number>): number {
+  let matches = 0;
+  a.forEach((count, gram) => {
+    matches += Math.min(count, b.get(gram) || 0);
+  });
+  return matches;
+}
+
+/**
+ * Sentence-level BLEU: the geometric mean of modified n-gram precisions
+ * up to maxN, with add-one smoothing for n > 1 so short outputs don't
+ * score zero, times the brevity penalty
+ */
+export function bleu(candidate: string, reference: string, maxN = 4): number {
+  const candidateTokens = tokenize(candidate);
+  const referenceTokens = tokenize(reference);
+  if (candidateTokens.length === 0 || referenceTokens.length === 0) {
+    return candidateTokens.length === referenceTokens.length ? 1 : 0;
+  }
+
+  let logPrecision = 0;
+  for (let n = 1; n <= maxN; n++) {
+    const candidateGrams = ngrams(candidateTokens, n);
+    const matches = overlap(candidateGrams, ngrams(referenceTokens, n));
+    const total = Math.max(candidateTokens.length - n + 1, 0);
+
+    const precision = n === 1 ? matches / total : (matches + 1) / (total + 1);
+    if (precision === 0) return 0;
+    logPrecision += Math.log(precision) / maxN;
+  }
+
+  const brevityPenalty =
+    candidateTokens.length >= referenceTokens.length
+      ? 1
+      : Math.exp(1 - referenceTokens.length / candidateTokens.length);
+
+  return brevityPenalty * Math.exp(logPrecision);
+}
+
+/**
+ * ROUGE F1: unigram (rouge1) or bigram (rouge2) overlap, or the longest
+ * common subsequence of words (rougeL)
+ */
+export function rouge(
+  candidate: string,
+  reference: string,
+  variant: RougeVariant = 'rougeL'
+): number {
+  const candidateTokens = tokenize(candidate);
+  const referenceTokens = tokenize(reference);
+
+  let matches: number;
+  let candidateCount: number;
+  let referenceCount: number;
+
+  if (variant === 'rougeL') {
+    matches = longestCommonSubsequence(candidateTokens, referenceTokens);
+    candidateCount = candidateTokens.length;
+    referenceCount = referenceTokens.length;
+  } else {
+    const n = variant === 'rouge1' ? 1 : 2;
+    matches = overlap(ngrams(candidateTokens, n), ngrams(referenceTokens, n));
+    candidateCount = Math.max(candidateTokens.length - n + 1, 0);
+    referenceCount = Math.max(referenceTokens.length - n + 1, 0);
+  }
+
+  if (candidateCount === 0 || referenceCount === 0) {
+    return candidateCount === referenceCount ? 1 : 0;
+  }
+  if (matches === 0) return 0;
+
+  const precision = matches / candidateCount;
+  const recall = matches / referenceCount;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  // One row of the dynamic programming table at a time
+  let previous = new Array<number>(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] =
+        a[i - 1] === b[j - 1]
+          ? previous[j - 1] + 1
+          : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
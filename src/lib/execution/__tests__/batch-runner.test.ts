@@ -0,0 +1,317 @@
+import { prisma } from '@/lib/database/client';
+import { budgetManager } from '@/lib/monitoring/budgets';
+import { promptVersionManager } from '@/lib/prompts/versioning';
+import { BudgetExceededError } from '@/lib/utils/error-handler';
+import { BatchRunner } from '../batch-runner';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    batch: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    execution: {
+      createMany: jest.fn(),
+      groupBy: jest.fn().mockResolvedValue([]),
+      count: jest.fn().mockResolvedValue(0),
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+  },
+}));
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/lib/monitoring/budgets', () => ({
+  budgetManager: {
+    checkBudget: jest.fn().mockResolvedValue([]),
+    reserve: jest.fn().mockResolvedValue([]),
+    estimateJobCost: jest.fn(() => 0.01),
+  },
+}));
+
+jest.mock('@/lib/prompts/versioning', () => ({
+  promptVersionManager: { loadForExecution: jest.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  batch: Record<'create' | 'findUnique' | 'findMany' | 'updateMany', jest.Mock>;
+  execution: Record<
+    'createMany' | 'groupBy' | 'count' | 'findMany' | 'updateMany',
+    jest.Mock
+  >;
+};
+
+const mockLoadForExecution = promptVersionManager.loadForExecution as jest.Mock;
+
+const decimal = (value: number): { toNumber: () => number } => ({
+  toNumber: (): number => value,
+});
+
+const group = (
+  status: string,
+  count: number,
+  costUsd = 0
+): Record<string, unknown> => ({
+  status,
+  _count: { _all: count },
+  _sum: { costUsd: decimal(costUsd) },
+});
+
+describe('BatchRunner', () => {
+  let runner: BatchRunner;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runner = new BatchRunner();
+    mockPrisma.$transaction.mockImplementation(callback => callback(prisma));
+    mockPrisma.batch.findUnique.mockResolvedValue({
+      userId: 'user-1',
+      promptId: 'prompt-1',
+      status: 'RUNNING',
+      priority: 'LOW',
+      concurrency: 2,
+      costCapUsd: null,
+    });
+    mockLoadForExecution.mockResolvedValue({
+      id: 'version-1',
+      version: 1,
+      template: 'Summarize {{text}}',
+      messages: [],
+      variables: [{ name: 'text', type: 'string', required: true }],
+      partials: {},
+    });
+  });
+
+  const prompt = {
+    id: 'prompt-1',
+    userId: 'user-1',
+    version: 2,
+    // Draft edits made since version 1 was published
+    template: 'Translate {{text}}',
+    messages: [],
+    variables: [{ name: 'text', type: 'string', required: true }],
+    liveVersion: 1,
+  };
+
+  it('should store a row execution per dataset row and reject invalid rows', async () => {
+    mockPrisma.batch.create.mockResolvedValue({ id: 'batch-1', totalRows: 2 });
+
+    await runner.createBatch(
+      'user-1',
+      prompt,
+      {
+        format: 'csv',
+        columns: ['body'],
+        rows: [{ body: 'first' }, { body: '' }],
+      },
+      { name: 'Nightly', model: 'mock:echo', mapping: { text: 'body' } }
+    );
+
+    const [rows] = mockPrisma.execution.createMany.mock.calls[0];
+    expect(rows.data).toEqual([
+      expect.objectContaining({
+        batchId: 'batch-1',
+        batchRow: 1,
+        promptVersionId: 'version-1',
+        status: 'PENDING',
+        inputs: { text: 'first' },
+        context: expect.objectContaining({
+          config: expect.objectContaining({ model: 'mock:echo' }),
+        }),
+      }),
+      expect.objectContaining({
+        batchRow: 2,
+        status: 'FAILED',
+        errorType: 'VALIDATION_ERROR',
+      }),
+    ]);
+    expect(rows.data[0]).not.toHaveProperty('queuedAt');
+    expect(budgetManager.checkBudget).toHaveBeenCalledWith(
+      'user-1',
+      'prompt-1',
+      expect.any(Number)
+    );
+  });
+
+  it('should render rows with the chosen version and its pinned snippets', async () => {
+    mockPrisma.batch.create.mockResolvedValue({ id: 'batch-1', totalRows: 1 });
+    mockLoadForExecution.mockResolvedValue({
+      id: 'version-3',
+      version: 3,
+      template: 'Summarize {{> tone}} {{text}}',
+      messages: [],
+      variables: [{ name: 'text', type: 'string', required: true }],
+      partials: { tone: 'politely' },
+    });
+
+    await runner.createBatch(
+      'user-1',
+      prompt,
+      { format: 'csv', columns: ['text'], rows: [{ text: 'first' }] },
+      { name: 'Nightly', model: 'mock:echo', label: 'staging' }
+    );
+
+    expect(mockLoadForExecution).toHaveBeenCalledWith(prompt, {
+      version: undefined,
+      label: 'staging',
+    });
+    const [rows] = mockPrisma.execution.createMany.mock.calls[0];
+    expect(rows.data[0]).toMatchObject({
+      promptVersionId: 'version-3',
+      context: {
+        messages: [
+          expect.objectContaining({ content: 'Summarize politely first' }),
+        ],
+      },
+    });
+  });
+
+  it('should refuse a batch whose rows would exceed a budget', async () => {
+    (budgetManager.checkBudget as jest.Mock).mockRejectedValueOnce(
+      new BudgetExceededError('Daily budget of $1.00 would be exceeded')
+    );
+
+    await expect(
+      runner.createBatch(
+        'user-1',
+        prompt,
+        { format: 'csv', columns: ['text'], rows: [{ text: 'first' }] },
+        { name: 'Nightly', model: 'mock:echo' }
+      )
+    ).rejects.toThrow(BudgetExceededError);
+    expect(mockPrisma.batch.create).not.toHaveBeenCalled();
+  });
+
+  it('should queue rows in order until the concurrency is used', async () => {
+    mockPrisma.execution.groupBy.mockResolvedValue([
+      group('PENDING', 5),
+      group('RUNNING', 1),
+    ]);
+    mockPrisma.execution.findMany.mockResolvedValue([
+      { id: 'exec-3', context: { messages: [], config: {} } },
+    ]);
+
+    await runner.advance('batch-1');
+
+    expect(mockPrisma.execution.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { batchId: 'batch-1', status: 'PENDING', queuedAt: null },
+        orderBy: { batchRow: 'asc' },
+        take: 1,
+      })
+    );
+    expect(budgetManager.reserve).toHaveBeenCalledWith(
+      prisma,
+      'user-1',
+      'prompt-1',
+      0.01
+    );
+    expect(mockPrisma.execution.updateMany).toHaveBeenCalledWith({
+      where: { id: 'exec-3', status: 'PENDING', queuedAt: null },
+      data: {
+        queuedAt: expect.any(Date),
+        priority: 'LOW',
+        reservedCostUsd: 0.01,
+      },
+    });
+  });
+
+  it('should pause at the first row a budget has no room for', async () => {
+    mockPrisma.execution.groupBy.mockResolvedValue([group('PENDING', 5)]);
+    mockPrisma.execution.findMany.mockResolvedValue([
+      { id: 'exec-1', context: { messages: [], config: {} } },
+      { id: 'exec-2', context: { messages: [], config: {} } },
+    ]);
+    (budgetManager.reserve as jest.Mock)
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(
+        new BudgetExceededError('Daily budget of $1.00 would be exceeded')
+      );
+
+    await runner.advance('batch-1');
+
+    expect(mockPrisma.execution.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'exec-1', status: 'PENDING', queuedAt: null },
+      })
+    );
+    expect(mockPrisma.execution.updateMany).not.toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'exec-2', status: 'PENDING', queuedAt: null },
+      })
+    );
+    expect(mockPrisma.batch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', status: 'RUNNING' },
+      data: { status: 'PAUSED', pausedReason: 'BUDGET' },
+    });
+  });
+
+  it('should pause and unqueue rows once the cost cap is reached', async () => {
+    mockPrisma.batch.findUnique.mockResolvedValue({
+      status: 'RUNNING',
+      priority: 'LOW',
+      concurrency: 2,
+      costCapUsd: decimal(0.5),
+    });
+    mockPrisma.execution.groupBy.mockResolvedValue([
+      group('PENDING', 3),
+      group('COMPLETED', 4, 0.5),
+    ]);
+
+    await runner.advance('batch-1');
+
+    expect(mockPrisma.batch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', status: 'RUNNING' },
+      data: { status: 'PAUSED', pausedReason: 'COST_CAP' },
+    });
+    expect(mockPrisma.execution.updateMany).toHaveBeenCalledWith({
+      where: { batchId: 'batch-1', status: 'PENDING' },
+      data: { queuedAt: null },
+    });
+  });
+
+  it('should complete the batch once no rows are left', async () => {
+    mockPrisma.execution.groupBy.mockResolvedValue([
+      group('COMPLETED', 2, 0.02),
+      group('FAILED', 1),
+    ]);
+
+    await runner.advance('batch-1');
+
+    expect(mockPrisma.batch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', status: 'RUNNING' },
+      data: { status: 'COMPLETED', completedAt: expect.any(Date) },
+    });
+  });
+
+  it('should export inputs with the results, prefixing clashing names', async () => {
+    mockPrisma.execution.findMany.mockResolvedValue([
+      {
+        batchRow: 1,
+        inputs: { text: 'hi', status: 'vip' },
+        status: 'COMPLETED',
+        output: 'Hello, there',
+        validationStatus: 'PASSED',
+        costUsd: decimal(0.001),
+        errorMessage: null,
+      },
+    ]);
+
+    const csv = await runner.exportResults(
+      { id: 'batch-1', columns: ['text', 'status'], mapping: null },
+      'csv'
+    );
+
+    expect(csv).toBe(
+      'row,text,input_status,status,output,validationStatus,costUsd,error\r\n' +
+        '1,hi,vip,COMPLETED,"Hello, there",PASSED,0.001,\r\n'
+    );
+  });
+});
@@ -0,0 +1,231 @@
+import type { ComparisonRun } from '@prisma/client';
+import { prisma } from '@/lib/database/client';
+import { budgetManager } from '@/lib/monitoring/budgets';
+import { ComparisonRunner } from '../comparison-runner';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    comparisonRun: { create: jest.fn(), update: jest.fn() },
+    promptVersion: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    execution: {
+      createMany: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      groupBy: jest.fn().mockResolvedValue([]),
+    },
+  },
+}));
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/lib/monitoring/budgets', () => ({
+  budgetManager: { reserve: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('@/lib/prompts/snippets', () => ({
+  snippetLibrary: {
+    resolveForTemplate: jest.fn().mockResolvedValue({ partials: {} }),
+    loadPinnedPartials: jest.fn().mockResolvedValue({}),
+  },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const mockPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  comparisonRun: MockModel;
+  promptVersion: MockModel;
+  execution: MockModel;
+};
+
+const decimal = (value: number): { toNumber: () => number } => ({
+  toNumber: (): number => value,
+});
+
+const cell = (
+  side: 'A' | 'B',
+  row: number,
+  overrides: Record<string, unknown> = {}
+): Record<string, unknown> => ({
+  id: `exec-${side}-${row}`,
+  inputs: { text: `row ${row}` },
+  status: 'COMPLETED',
+  output: `${side} output`,
+  errorMessage: null,
+  latencyMs: 100,
+  costUsd: decimal(0.001),
+  validationStatus: 'PASSED',
+  comparisonSide: side,
+  comparisonRow: row,
+  ...overrides,
+});
+
+describe('ComparisonRunner', () => {
+  const prompt = {
+    id: 'prompt-1',
+    userId: 'user-1',
+    version: 3,
+    template: 'Current: {{text}}',
+    messages: [],
+    variables: [{ name: 'text', type: 'string', required: true }],
+  };
+  const run = {
+    id: 'cmp-1',
+    name: 'Tone',
+    promptId: 'prompt-1',
+    versionA: 2,
+    modelA: 'mock:echo',
+    versionB: 3,
+    modelB: 'mock:echo',
+    totalRows: 2,
+    winner: null,
+    decisionNote: null,
+    decidedAt: null,
+  } as unknown as ComparisonRun;
+  let runner: ComparisonRunner;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runner = new ComparisonRunner();
+    mockPrisma.$transaction.mockImplementation(callback => callback(prisma));
+  });
+
+  it('should queue one execution per side and input row', async () => {
+    mockPrisma.promptVersion.findUnique
+      .mockResolvedValueOnce({
+        id: 'version-2',
+        template: 'Old: {{text}}',
+        messages: [],
+        variables: prompt.variables,
+        snippetVersions: null,
+      })
+      .mockResolvedValueOnce({ id: 'version-3' });
+    mockPrisma.comparisonRun.create.mockResolvedValue({ id: 'cmp-1' });
+
+    await runner.startComparison('user-1', prompt, {
+      a: { version: 2, model: 'mock:echo' },
+      b: { version: 3, model: 'mock:echo' },
+      inputs: [{ text: 'hi' }, {}],
+    });
+
+    expect(mockPrisma.comparisonRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        versionA: 2,
+        versionB: 3,
+        totalRows: 2,
+      }),
+    });
+
+    expect(budgetManager.reserve).toHaveBeenCalledWith(
+      prisma,
+      'user-1',
+      'prompt-1',
+      expect.any(Number)
+    );
+
+    const [{ data: executions }] =
+      mockPrisma.execution.createMany.mock.calls[0];
+    expect(executions).toHaveLength(4);
+    expect(executions[0]).toMatchObject({
+      comparisonRunId: 'cmp-1',
+      comparisonSide: 'A',
+      comparisonRow: 1,
+      promptVersionId: 'version-2',
+      status: 'PENDING',
+      context: { messages: [{ role: 'user', content: 'Old: hi' }] },
+    });
+    expect(executions[1]).toMatchObject({
+      comparisonSide: 'B',
+      comparisonRow: 1,
+      promptVersionId: 'version-3',
+      context: { messages: [{ role: 'user', content: 'Current: hi' }] },
+    });
+    // The second row is missing a required variable on both sides
+    expect(executions[3]).toMatchObject({
+      comparisonSide: 'B',
+      comparisonRow: 2,
+      status: 'FAILED',
+      errorType: 'VALIDATION_ERROR',
+    });
+  });
+
+  it('should pair rows and summarize each side', async () => {
+    mockPrisma.execution.findMany.mockResolvedValueOnce([
+      cell('A', 1),
+      cell('B', 1, { latencyMs: 300, costUsd: decimal(0.003) }),
+      cell('A', 2, { validationStatus: 'FAILED' }),
+      cell('B', 2, { status: 'RUNNING', costUsd: null, latencyMs: null }),
+    ]);
+
+    const comparison = await runner.getComparison(run);
+
+    expect(comparison.status).toBe('RUNNING');
+    expect(comparison.rows).toHaveLength(2);
+    expect(comparison.rows[0]).toMatchObject({
+      row: 1,
+      a: { executionId: 'exec-A-1', output: 'A output' },
+      b: { executionId: 'exec-B-1', latencyMs: 300 },
+    });
+    expect(comparison.summary.a).toMatchObject({
+      completed: 2,
+      avgLatencyMs: 100,
+      totalCostUsd: 0.002,
+      validationPassRate: 0.5,
+    });
+    expect(comparison.summary.b).toMatchObject({
+      completed: 1,
+      pending: 1,
+      avgLatencyMs: 300,
+      avgCostUsd: 0.003,
+      validationPassRate: 1,
+    });
+  });
+
+  it('should record the winner in the winning version change log', async () => {
+    mockPrisma.comparisonRun.update.mockResolvedValue({ ...run, winner: 'B' });
+    mockPrisma.promptVersion.findUnique.mockResolvedValueOnce({
+      changeLog: 'Updated to version 3',
+    });
+
+    await runner.decide(run, 'B', 'friendlier tone');
+
+    expect(mockPrisma.comparisonRun.update).toHaveBeenCalledWith({
+      where: { id: 'cmp-1' },
+      data: {
+        winner: 'B',
+        decisionNote: 'friendlier tone',
+        decidedAt: expect.any(Date),
+      },
+    });
+    expect(mockPrisma.promptVersion.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.promptVersion.update).toHaveBeenCalledWith({
+      where: { promptId_version: { promptId: 'prompt-1', version: 3 } },
+      data: {
+        changeLog:
+          'Updated to version 3\nA/B comparison "Tone": v3 (mock:echo) beat v2 (mock:echo) (friendlier tone)',
+      },
+    });
+  });
+
+  it('should record a tie once when both sides ran the same version', async () => {
+    const tied = { ...run, versionA: 3, modelB: 'mock:other' };
+    mockPrisma.promptVersion.findUnique.mockResolvedValueOnce({
+      changeLog: null,
+    });
+
+    await runner.decide(tied, 'TIE');
+
+    expect(mockPrisma.promptVersion.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.promptVersion.update).toHaveBeenCalledWith({
+      where: { promptId_version: { promptId: 'prompt-1', version: 3 } },
+      data: {
+        changeLog:
+          'A/B comparison "Tone": v3 (mock:echo) tied with v3 (mock:other)',
+      },
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { updateExecution } from '@/lib/database/queries';
+import { EdgeDispatcher, type EdgeExecutionRequest } from '../edge-dispatcher';
+import { executionQueue } from '../job-queue';
+
+jest.mock('@/lib/agent/executor', () => ({
+  aiExecutor: {
+    executePrompt: jest.fn().mockResolvedValue({
+      output: 'Hi there',
+      tokenUsage: { input: 5, output: 2, total: 7, model: 'gpt-4o-mini' },
+      costUsd: 0.0001,
+    }),
+  },
+}));
+
+jest.mock('@/lib/database/queries', () => ({
+  updateExecution: jest.fn(),
+}));
+
+jest.mock('../job-queue', () => ({
+  executionQueue: {
+    enqueue: jest.fn().mockResolvedValue({
+      executionId: 'exec-1',
+      status: 'PENDING',
+      estimatedTime: 0,
+    }),
+  },
+}));
+
+const mockUpdateExecution = updateExecution as jest.Mock;
+const mockEnqueue = executionQueue.enqueue as jest.Mock;
+
+describe('EdgeDispatcher', () => {
+  let dispatcher: EdgeDispatcher;
+
+  const request: EdgeExecutionRequest = {
+    executionId: 'exec-1',
+    promptId: 'prompt-1',
+    promptVersionId: 'version-3',
+    userId: 'user-1',
+    template: 'Hello {{name}}',
+    inputs: { name: 'Ada' },
+    priority: 'HIGH',
+    validationRules: [],
+    options: { model: 'openai:gpt-4o-mini' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dispatcher = new EdgeDispatcher();
+  });
+
+  it('records the prompt version on queued executions', async () => {
+    await dispatcher.queueExecution(request);
+
+    expect(mockUpdateExecution).toHaveBeenCalledWith('exec-1', {
+      promptVersionId: 'version-3',
+    });
+    expect(mockEnqueue).toHaveBeenCalledWith(
+      'exec-1',
+      expect.objectContaining({
+        messages: [{ role: 'user', content: 'Hello Ada' }],
+      }),
+      'HIGH'
+    );
+  });
+
+  it('records the prompt version when running executions', async () => {
+    await dispatcher.dispatchExecution(request);
+
+    expect(mockUpdateExecution).toHaveBeenCalledWith(
+      'exec-1',
+      expect.objectContaining({
+        status: 'RUNNING',
+        promptVersionId: 'version-3',
+      })
+    );
+  });
+
+  it('leaves the version alone when none is given', async () => {
+    await dispatcher.queueExecution({
+      ...request,
+      promptVersionId: undefined,
+    });
+
+    expect(mockUpdateExecution).not.toHaveBeenCalled();
+  });
+});
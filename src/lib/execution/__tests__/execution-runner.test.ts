@@ -0,0 +1,222 @@
+import { updateExecution } from '@/lib/database/queries';
+import { providerRegistry } from '@/lib/providers/registry';
+import { MockProvider } from '@/lib/providers/mock-provider';
+import { logger } from '@/lib/monitoring/logger';
+import { webhookManager } from '@/lib/webhooks/webhook-manager';
+import { ExecutionCancelledError } from '@/lib/utils/error-handler';
+import { ExecutionRunner } from '../execution-runner';
+import { executionQueue } from '../job-queue';
+
+jest.mock('@/lib/database/queries', () => ({
+  updateExecution: jest.fn().mockResolvedValue({}),
+}));
+
+jest.mock('../job-queue', () => ({
+  executionQueue: { finish: jest.fn() },
+}));
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    logPerformance: jest.fn(),
+    logExecutionComplete: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/monitoring/cost-tracker', () => ({
+  costTracker: {
+    calculateProviderCost: jest.fn().mockReturnValue(0.001),
+    trackExecution: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/validation/schema-validator', () => ({
+  schemaValidator: {
+    validateExecutionOutput: jest.fn().mockResolvedValue({
+      isValid: true,
+      errors: [],
+      validationStatus: 'PASSED',
+    }),
+  },
+}));
+
+jest.mock('@/lib/webhooks/webhook-manager', () => ({
+  webhookManager: { dispatch: jest.fn() },
+}));
+
+const mockUpdateExecution = updateExecution as jest.MockedFunction<
+  typeof updateExecution
+>;
+const mockFinish = executionQueue.finish as jest.MockedFunction<
+  typeof executionQueue.finish
+>;
+
+describe('ExecutionRunner', () => {
+  const runner = new ExecutionRunner();
+  const messages = [{ role: 'user' as const, content: 'stream me please' }];
+  let provider: MockProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFinish.mockResolvedValue({ userId: 'user-1', promptId: 'prompt-1' });
+    provider = new MockProvider();
+    providerRegistry.register('mock', () => provider);
+  });
+
+  it('should run, validate and record a completed execution', async () => {
+    const outcome = await runner.run({
+      executionId: 'exec-1',
+      messages,
+      config: { model: 'mock:echo' },
+    });
+
+    expect(outcome).toMatchObject({
+      output: 'stream me please',
+      model: 'mock:echo',
+      costUsd: 0.001,
+      validationStatus: 'PASSED',
+    });
+    expect(mockFinish).toHaveBeenCalledWith(
+      'exec-1',
+      expect.objectContaining({
+        status: 'COMPLETED',
+        output: 'stream me please',
+        tokenUsage: expect.objectContaining({ model: 'mock:echo' }),
+      })
+    );
+    expect(webhookManager.dispatch).toHaveBeenCalledTimes(1);
+    expect(webhookManager.dispatch).toHaveBeenCalledWith(
+      'user-1',
+      'execution.completed',
+      expect.objectContaining({
+        executionId: 'exec-1',
+        promptId: 'prompt-1',
+        validationStatus: 'PASSED',
+      })
+    );
+  });
+
+  it('should stream deltas and save partial output', async () => {
+    const deltas: string[] = [];
+
+    const outcome = await runner.run({
+      executionId: 'exec-2',
+      messages,
+      config: { model: 'mock:echo' },
+      onDelta: text => deltas.push(text),
+    });
+
+    expect(deltas.join('')).toBe(outcome.output);
+    // The first delta is saved immediately, the rest when the stream closes
+    expect(mockUpdateExecution).toHaveBeenCalledWith('exec-2', {
+      output: 'stream ',
+    });
+    expect(mockUpdateExecution).toHaveBeenCalledWith('exec-2', {
+      output: 'stream me please',
+    });
+  });
+
+  it('should record cancelled streams as CANCELLED', async () => {
+    const controller = new AbortController();
+
+    const error = await runner
+      .run({
+        executionId: 'exec-3',
+        messages,
+        config: { model: 'mock:echo' },
+        signal: controller.signal,
+        onDelta: () => controller.abort(),
+      })
+      .catch(e => e);
+
+    const executionError = await runner.fail(
+      { id: 'exec-3', startedAt: new Date(), leaseOwner: 'worker-1' },
+      error
+    );
+
+    expect(executionError).toMatchObject({
+      type: 'CANCELLED',
+      retryable: false,
+    });
+    expect(mockFinish).toHaveBeenCalledWith(
+      'exec-3',
+      expect.objectContaining({ status: 'CANCELLED' }),
+      true
+    );
+    expect(mockUpdateExecution).toHaveBeenCalledWith('exec-3', {
+      output: 'stream ',
+    });
+    expect(webhookManager.dispatch).not.toHaveBeenCalled();
+  });
+
+  it('should cancel a run waiting to retry without calling the provider again', async () => {
+    // The first attempt fails with a retryable error, so the runner waits
+    provider.setFixture({ responses: [{ error: 500, times: 1 }] });
+    const complete = jest.spyOn(provider, 'complete');
+
+    const running = runner
+      .run({ executionId: 'exec-5', messages, config: { model: 'mock:echo' } })
+      .catch(e => e);
+    // Let the first attempt fail and the retry delay start
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(runner.cancel('exec-5')).toBe(true);
+    const error = await running;
+
+    expect(runner.classifyError(error).type).toBe('CANCELLED');
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(runner.cancel('exec-5')).toBe(false);
+  });
+
+  it('should record provider failures as FAILED', async () => {
+    provider.setFixture({ responses: [{ error: 400 }] });
+
+    const error = await runner
+      .run({ executionId: 'exec-4', messages, config: { model: 'mock:echo' } })
+      .catch(e => e);
+    const executionError = await runner.fail(
+      { id: 'exec-4', startedAt: null, leaseOwner: null },
+      error
+    );
+
+    expect(executionError.type).toBe('VALIDATION_ERROR');
+    // Never claimed, as when a pre-flight check fails
+    expect(mockFinish).toHaveBeenCalledWith(
+      'exec-4',
+      expect.objectContaining({ status: 'FAILED' }),
+      false
+    );
+    expect(webhookManager.dispatch).toHaveBeenCalledWith(
+      'user-1',
+      'execution.failed',
+      expect.objectContaining({
+        executionId: 'exec-4',
+        errorType: 'VALIDATION_ERROR',
+      })
+    );
+  });
+
+  it('should leave executions cancelled from another process mid-answer alone', async () => {
+    // The cancel lands after the provider answered, before any heartbeat
+    mockFinish.mockResolvedValue(null);
+
+    const error = await runner
+      .run({ executionId: 'exec-6', messages, config: { model: 'mock:echo' } })
+      .catch(e => e);
+    const executionError = await runner.fail(
+      { id: 'exec-6', startedAt: new Date(), leaseOwner: 'worker-1' },
+      error
+    );
+
+    expect(error).toBeInstanceOf(ExecutionCancelledError);
+    expect(executionError.type).toBe('CANCELLED');
+    expect(mockFinish).toHaveBeenCalledWith(
+      'exec-6',
+      expect.objectContaining({ status: 'COMPLETED' })
+    );
+    expect(logger.logExecutionComplete).not.toHaveBeenCalled();
+    expect(webhookManager.dispatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+import { prisma } from '@/lib/database/client';
+import { evaluationRunner } from '@/lib/evaluation/evaluation-runner';
+import { webhookManager } from '@/lib/webhooks/webhook-manager';
+import { batchRunner } from '../batch-runner';
+import { executionRunner } from '../execution-runner';
+import { ExecutionWorker } from '../execution-worker';
+import { executionQueue } from '../job-queue';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: { execution: { findUnique: jest.fn() } },
+}));
+
+jest.mock('@/lib/evaluation/evaluation-runner', () => ({
+  evaluationRunner: { scoreExecution: jest.fn(), advanceAll: jest.fn() },
+}));
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/lib/webhooks/webhook-manager', () => ({
+  webhookManager: { deliverDue: jest.fn().mockResolvedValue(0) },
+}));
+
+jest.mock('../execution-runner', () => ({
+  executionRunner: { run: jest.fn(), fail: jest.fn() },
+}));
+
+jest.mock('../batch-runner', () => ({
+  batchRunner: { advance: jest.fn(), advanceAll: jest.fn() },
+}));
+
+jest.mock('../job-queue', () => ({
+  executionQueue: {
+    recoverExpired: jest.fn(),
+    claimNext: jest.fn(),
+    keepAlive: jest.fn(),
+    getJob: jest.fn(),
+  },
+}));
+
+const mockQueue = executionQueue as unknown as Record<string, jest.Mock>;
+const mockRunner = executionRunner as unknown as Record<string, jest.Mock>;
+const mockBatchRunner = batchRunner as unknown as Record<string, jest.Mock>;
+const mockEvaluationRunner = evaluationRunner as unknown as Record<
+  string,
+  jest.Mock
+>;
+const mockFindUnique = prisma.execution.findUnique as jest.Mock;
+
+describe('ExecutionWorker', () => {
+  const job = {
+    messages: [{ role: 'user', content: 'Hello' }],
+    config: { model: 'mock:echo' },
+  };
+  const stopHeartbeat = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQueue.keepAlive.mockReturnValue(stopHeartbeat);
+    mockQueue.getJob.mockReturnValue(job);
+    mockRunner.fail.mockResolvedValue({ type: 'API_ERROR' });
+    mockBatchRunner.advance.mockResolvedValue(undefined);
+    mockEvaluationRunner.scoreExecution.mockResolvedValue(undefined);
+    mockFindUnique.mockImplementation(({ where }) =>
+      Promise.resolve({
+        id: where.id,
+        context: job,
+        startedAt: new Date(),
+        batchId: null,
+        evalResult: null,
+      })
+    );
+  });
+
+  it('should recover leases, then run claimed executions until none are left', async () => {
+    mockQueue.claimNext
+      .mockResolvedValueOnce('exec-1')
+      .mockResolvedValueOnce('exec-2')
+      .mockResolvedValue(null);
+
+    const processed = await new ExecutionWorker().drain({ concurrency: 2 });
+
+    expect(processed).toBe(2);
+    expect(mockQueue.recoverExpired).toHaveBeenCalled();
+    expect(mockBatchRunner.advanceAll).toHaveBeenCalled();
+    expect(mockEvaluationRunner.advanceAll).toHaveBeenCalled();
+    expect(webhookManager.deliverDue).toHaveBeenCalledWith(Infinity);
+    expect(mockRunner.run).toHaveBeenCalledWith({
+      executionId: 'exec-1',
+      ...job,
+    });
+    expect(mockRunner.run).toHaveBeenCalledWith({
+      executionId: 'exec-2',
+      ...job,
+    });
+    expect(stopHeartbeat).toHaveBeenCalledTimes(2);
+  });
+
+  it('should record failures and keep draining', async () => {
+    const error = new Error('provider down');
+    mockQueue.claimNext
+      .mockResolvedValueOnce('exec-1')
+      .mockResolvedValueOnce('exec-2')
+      .mockResolvedValue(null);
+    mockRunner.run.mockRejectedValueOnce(error);
+
+    const processed = await new ExecutionWorker().drain({ concurrency: 1 });
+
+    expect(processed).toBe(2);
+    expect(mockRunner.fail).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'exec-1' }),
+      error
+    );
+    expect(stopHeartbeat).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let the batch queue its next row when a row finishes', async () => {
+    mockFindUnique.mockResolvedValueOnce({
+      id: 'exec-1',
+      context: job,
+      startedAt: new Date(),
+      batchId: 'batch-1',
+    });
+
+    await new ExecutionWorker().process('exec-1');
+
+    expect(mockRunner.run).toHaveBeenCalled();
+    expect(mockBatchRunner.advance).toHaveBeenCalledWith('batch-1');
+  });
+
+  it('should score evaluation cases when their execution finishes', async () => {
+    const error = new Error('provider down');
+    mockRunner.run.mockRejectedValueOnce(error);
+    mockFindUnique.mockResolvedValueOnce({
+      id: 'exec-1',
+      context: job,
+      startedAt: new Date(),
+      batchId: null,
+      evalResult: { id: 'result-1' },
+    });
+
+    await new ExecutionWorker().process('exec-1');
+
+    // Failed cases are scored too, as failures
+    expect(mockRunner.fail).toHaveBeenCalled();
+    expect(mockEvaluationRunner.scoreExecution).toHaveBeenCalledWith('exec-1');
+  });
+
+  it('should stop claiming once the deadline has passed', async () => {
+    const processed = await new ExecutionWorker().drain({
+      deadline: Date.now() - 1,
+    });
+
+    expect(processed).toBe(0);
+    expect(mockQueue.claimNext).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+import { prisma } from '@/lib/database/client';
+import { ValidationError } from '@/lib/utils/error-handler';
+import { ExecutionQueue } from '../job-queue';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+    execution: {
+      update: jest.fn().mockResolvedValue({}),
+      findUnique: jest.fn().mockResolvedValue(null),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      count: jest.fn().mockResolvedValue(0),
+      aggregate: jest.fn().mockResolvedValue({ _avg: { latencyMs: null } }),
+    },
+  },
+}));
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  $queryRaw: jest.Mock;
+  $executeRaw: jest.Mock;
+  execution: Record<
+    | 'update'
+    | 'findUnique'
+    | 'findUniqueOrThrow'
+    | 'updateMany'
+    | 'count'
+    | 'aggregate',
+    jest.Mock
+  >;
+};
+
+describe('ExecutionQueue', () => {
+  const job = {
+    messages: [{ role: 'user' as const, content: 'Hello' }],
+    config: { model: 'mock:echo' },
+  };
+  let queue: ExecutionQueue;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queue = new ExecutionQueue({
+      maxConcurrent: 4,
+      reservedPercent: 50,
+      leaseMs: 30000,
+      maxAttempts: 3,
+    });
+  });
+
+  it('should save the job and estimate the wait from executions ahead', async () => {
+    mockPrisma.execution.count.mockResolvedValueOnce(6);
+    mockPrisma.execution.aggregate.mockResolvedValueOnce({
+      _avg: { latencyMs: 2000 },
+    });
+
+    const response = await queue.enqueue('exec-1', job, 'HIGH');
+
+    expect(mockPrisma.execution.update).toHaveBeenCalledWith({
+      where: { id: 'exec-1' },
+      data: expect.objectContaining({
+        status: 'PENDING',
+        priority: 'HIGH',
+        context: job,
+        queuedAt: expect.any(Date),
+      }),
+    });
+    // Only HIGH and CRITICAL executions are ahead of a HIGH one
+    expect(mockPrisma.execution.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        priority: { in: ['HIGH', 'CRITICAL'] },
+      }),
+    });
+    // 6 executions over 4 slots take two rounds
+    expect(response).toEqual({
+      executionId: 'exec-1',
+      status: 'PENDING',
+      estimatedTime: 4000,
+    });
+  });
+
+  it('should claim the next execution with SKIP LOCKED by priority then age', async () => {
+    mockPrisma.$queryRaw.mockResolvedValueOnce([{ id: 'exec-2' }]);
+
+    await expect(queue.claimNext()).resolves.toBe('exec-2');
+
+    const sql = mockPrisma.$queryRaw.mock.calls[0][0].join('?');
+    expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(sql).toContain('ORDER BY priority DESC, "createdAt" ASC');
+    expect(sql).toContain('"queuedAt" IS NOT NULL');
+    expect(mockPrisma.$queryRaw.mock.calls[0]).toContain(queue.ownerId);
+    // Claims are serialized and only take a slot the priority may use:
+    // all 4 for HIGH and CRITICAL, the reserved 2 for the rest
+    expect(mockPrisma.$executeRaw.mock.calls[0][0].join('?')).toContain(
+      'pg_advisory_xact_lock'
+    );
+    expect(sql).toContain(`WHERE status = 'RUNNING' AND "leaseExpiresAt" > ?`);
+    expect(mockPrisma.$queryRaw.mock.calls[0].slice(-2)).toEqual([4, 2]);
+
+    mockPrisma.$queryRaw.mockResolvedValueOnce([]);
+    await expect(queue.claimNext()).resolves.toBeNull();
+  });
+
+  it('should claim an execution directly only while it is pending', async () => {
+    await queue.claim('exec-3', job);
+
+    expect(mockPrisma.execution.update).toHaveBeenCalledWith({
+      where: { id: 'exec-3', status: 'PENDING' },
+      data: expect.objectContaining({
+        status: 'RUNNING',
+        context: job,
+        leaseOwner: queue.ownerId,
+        attempts: { increment: 1 },
+      }),
+    });
+  });
+
+  it('should only renew leases this process holds', async () => {
+    mockPrisma.execution.updateMany.mockResolvedValueOnce({ count: 1 });
+    await expect(queue.heartbeat('exec-4')).resolves.toBe('held');
+
+    expect(mockPrisma.execution.updateMany).toHaveBeenCalledWith({
+      where: { id: 'exec-4', status: 'RUNNING', leaseOwner: queue.ownerId },
+      data: {
+        heartbeatAt: expect.any(Date),
+        leaseExpiresAt: expect.any(Date),
+      },
+    });
+
+    mockPrisma.execution.findUnique.mockResolvedValueOnce({
+      status: 'PENDING',
+    });
+    await expect(queue.heartbeat('exec-4')).resolves.toBe('lost');
+  });
+
+  it('should only finish executions still held under this lease', async () => {
+    await expect(
+      queue.finish('exec-5', { status: 'COMPLETED' })
+    ).resolves.toBeNull();
+
+    expect(mockPrisma.execution.updateMany).toHaveBeenCalledWith({
+      where: { id: 'exec-5', status: 'RUNNING', leaseOwner: queue.ownerId },
+      data: { status: 'COMPLETED' },
+    });
+    expect(mockPrisma.execution.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+
+  it('should report cancels made from other processes', async () => {
+    jest.useFakeTimers();
+    try {
+      mockPrisma.execution.findUnique.mockResolvedValue({
+        status: 'CANCELLED',
+      });
+      const onCancel = jest.fn();
+
+      const stop = queue.keepAlive('exec-7', onCancel);
+      await jest.advanceTimersByTimeAsync(5000);
+      stop();
+
+      expect(onCancel).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should stop runs whose lease was recovered by another worker', async () => {
+    jest.useFakeTimers();
+    try {
+      mockPrisma.execution.findUnique.mockResolvedValue({ status: 'RUNNING' });
+      const onStop = jest.fn();
+
+      const stop = queue.keepAlive('exec-8', onStop);
+      await jest.advanceTimersByTimeAsync(5000);
+      stop();
+
+      expect(onStop).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should fail exhausted expired leases and requeue the rest', async () => {
+    mockPrisma.execution.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 2 });
+
+    await expect(queue.recoverExpired()).resolves.toEqual({
+      requeued: 2,
+      failed: 1,
+    });
+
+    const [failCall, requeueCall] = mockPrisma.execution.updateMany.mock.calls;
+    expect(failCall[0].where).toMatchObject({
+      status: 'RUNNING',
+      attempts: { gte: 3 },
+    });
+    expect(failCall[0].data).toMatchObject({
+      status: 'FAILED',
+      errorType: 'TIMEOUT',
+    });
+    expect(requeueCall[0].data).toMatchObject({
+      status: 'PENDING',
+      queuedAt: expect.any(Date),
+      leaseOwner: null,
+    });
+  });
+
+  it('should keep unreserved slots for HIGH and CRITICAL executions', async () => {
+    mockPrisma.execution.count.mockResolvedValue(2);
+
+    await expect(queue.hasCapacity('NORMAL')).resolves.toBe(false);
+    await expect(queue.hasCapacity('LOW')).resolves.toBe(false);
+    await expect(queue.hasCapacity('HIGH')).resolves.toBe(true);
+
+    mockPrisma.execution.count.mockResolvedValue(4);
+    await expect(queue.hasCapacity('CRITICAL')).resolves.toBe(false);
+  });
+
+  it('should reject executions without a saved job', () => {
+    expect(queue.getJob({ id: 'exec-5', context: job as never })).toEqual(job);
+    expect(() => queue.getJob({ id: 'exec-6', context: null })).toThrow(
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,416 @@
+import type { Batch, Prisma, Priority, Prompt } from '@prisma/client';
+import { prisma } from '@/lib/database/client';
+import {
+  mapDatasetRow,
+  serializeDataset,
+  type Dataset,
+  type DatasetFormat,
+  type DatasetRow,
+} from '@/lib/datasets/dataset-parser';
+import { budgetManager } from '@/lib/monitoring/budgets';
+import { costTracker } from '@/lib/monitoring/cost-tracker';
+import { logger } from '@/lib/monitoring/logger';
+import { llmClient } from '@/lib/providers/llm-client';
+import { templateEngine } from '@/lib/prompts/template-engine';
+import { promptVersionManager } from '@/lib/prompts/versioning';
+import { BudgetExceededError } from '@/lib/utils/error-handler';
+import type { QueuedExecutionJob } from './job-queue';
+
+export interface CreateBatchOptions {
+  name: string;
+  // Canonical `provider:model` reference
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+  priority?: Priority;
+  concurrency?: number;
+  costCapUsd?: number;
+  // Prompt variable name -> dataset column; defaults to matching names
+  mapping?: Record<string, string>;
+  contextOverflow?: 'reject' | 'truncate';
+  // Version to run, by number or label; defaults to the live version
+  version?: number;
+  label?: string;
+}
+
+export interface BatchProgress {
+  total: number;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  costUsd: number;
+}
+
+// Columns every results file has after the row's inputs
+const RESULT_COLUMNS = [
+  'status',
+  'output',
+  'validationStatus',
+  'costUsd',
+  'error',
+];
+
+/**
+ * Runs a prompt over every row of a dataset. Each row becomes an
+ * execution; advance() releases at most `concurrency` of them to the
+ * execution queue at a time and pauses the batch once it reaches its cost
+ * cap or a budget. Workers call advance() as rows finish.
+ */
+export class BatchRunner {
+  /**
+   * Renders every row up front with the version an execution of the
+   * prompt would run, and the snippet contents it was saved with. Rows that fail pre-flight are stored as
+   * FAILED executions so the results file accounts for every row. Throws
+   * a BudgetExceededError when the estimated cost of the rest would take
+   * spend past a budget.
+   */
+  public async createBatch(
+    userId: string,
+    prompt: Pick<
+      Prompt,
+      | 'id'
+      | 'userId'
+      | 'version'
+      | 'template'
+      | 'messages'
+      | 'variables'
+      | 'liveVersion'
+    >,
+    dataset: Dataset,
+    options: CreateBatchOptions
+  ): Promise<Batch> {
+    const version = await promptVersionManager.loadForExecution(prompt, {
+      version: options.version,
+      label: options.label,
+    });
+    const defaultMaxTokens = llmClient.getDefaultConfig().maxTokens;
+    const config = {
+      model: options.model,
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+    };
+
+    let estimatedCostUsd = 0;
+    const rows = dataset.rows.map((row, i) => {
+      const inputs = mapDatasetRow(row, options.mapping);
+      const { result, usage } = templateEngine.fitToContextWindow(
+        version.template,
+        inputs,
+        version.variables,
+        {
+          partials: version.partials,
+          messages: version.messages,
+          model: options.model,
+          maxTokens: options.maxTokens || defaultMaxTokens,
+          overflow: options.contextOverflow || 'reject',
+        }
+      );
+
+      const base = {
+        userId,
+        promptId: prompt.id,
+        promptVersionId: version.id,
+        model: options.model,
+        priority: options.priority || 'LOW',
+        inputs: inputs as Prisma.InputJsonValue,
+        batchRow: i + 1,
+      };
+
+      if (!result.isValid || !usage.fits) {
+        return {
+          ...base,
+          status: 'FAILED' as const,
+          errorType: 'VALIDATION_ERROR',
+          errorMessage: !result.isValid
+            ? [
+                ...result.missingVariables.map(name => `Missing ${name}`),
+                ...result.invalidVariables.map(
+                  ({ name, message }) => `${name}: ${message}`
+                ),
+              ].join('; ')
+            : `Prompt (${usage.promptTokens} tokens) plus maxTokens (${usage.maxTokens}) exceeds the ${usage.contextWindow}-token context window`,
+          completedAt: new Date(),
+        };
+      }
+
+      estimatedCostUsd += costTracker.calculateProviderCost(
+        { inputTokens: usage.promptTokens, outputTokens: usage.maxTokens },
+        options.model
+      );
+      const job: QueuedExecutionJob = { messages: result.messages, config };
+      return {
+        ...base,
+        status: 'PENDING' as const,
+        context: job as unknown as Prisma.InputJsonValue,
+      };
+    });
+
+    await budgetManager.checkBudget(userId, prompt.id, estimatedCostUsd);
+
+    const batch = await prisma.$transaction(async tx => {
+      const created = await tx.batch.create({
+        data: {
+          name: options.name,
+          userId,
+          promptId: prompt.id,
+          model: options.model,
+          maxTokens: options.maxTokens,
+          temperature: options.temperature,
+          priority: options.priority,
+          concurrency: options.concurrency,
+          costCapUsd: options.costCapUsd,
+          format: dataset.format,
+          columns: dataset.columns,
+          ...(options.mapping && { mapping: options.mapping }),
+          totalRows: dataset.rows.length,
+        },
+      });
+
+      await tx.execution.createMany({
+        data: rows.map(row => ({ ...row, batchId: created.id })),
+      });
+
+      return created;
+    });
+
+    await logger.info('Batch created', {
+      batchId: batch.id,
+      promptId: prompt.id,
+      userId,
+      totalRows: batch.totalRows,
+      rejectedRows: rows.filter(row => row.status === 'FAILED').length,
+    });
+
+    await this.advance(batch.id);
+    return batch;
+  }
+
+  /**
+   * Completes the batch once no rows are left, pauses it at its cost cap,
+   * and otherwise queues rows, in dataset order, until `concurrency` are
+   * queued or running. Each row reserves its estimated cost against the
+   * budgets as it is queued, and the batch pauses at the first row a
+   * budget has no room for. Two concurrent calls can briefly queue a few
+   * rows over the limit; the next call catches up.
+   */
+  public async advance(batchId: string): Promise<void> {
+    const batch = await prisma.batch.findUnique({
+      where: { id: batchId },
+      select: {
+        userId: true,
+        promptId: true,
+        status: true,
+        priority: true,
+        concurrency: true,
+        costCapUsd: true,
+      },
+    });
+    if (!batch || batch.status !== 'RUNNING') return;
+
+    const progress = await this.getProgress(batchId);
+
+    if (progress.pending + progress.running === 0) {
+      await prisma.batch.updateMany({
+        where: { id: batchId, status: 'RUNNING' },
+        data: { status: 'COMPLETED', completedAt: new Date() },
+      });
+      await logger.info('Batch completed', { batchId, ...progress });
+      return;
+    }
+
+    const costCapUsd = batch.costCapUsd?.toNumber();
+    if (costCapUsd !== undefined && progress.costUsd >= costCapUsd) {
+      await this.pause(batchId, 'COST_CAP');
+      await logger.warn('Batch paused at its cost cap', {
+        batchId,
+        costUsd: progress.costUsd,
+        costCapUsd,
+      });
+      return;
+    }
+
+    const queued = await prisma.execution.count({
+      where: { batchId, status: 'PENDING', queuedAt: { not: null } },
+    });
+    const slots = batch.concurrency - progress.running - queued;
+    if (slots <= 0) return;
+
+    const next = await prisma.execution.findMany({
+      where: { batchId, status: 'PENDING', queuedAt: null },
+      select: { id: true, context: true },
+      orderBy: { batchRow: 'asc' },
+      take: slots,
+    });
+
+    for (const row of next) {
+      const reservedCostUsd = budgetManager.estimateJobCost(
+        row.context as unknown as QueuedExecutionJob
+      );
+
+      try {
+        await prisma.$transaction(async tx => {
+          await budgetManager.reserve(
+            tx,
+            batch.userId,
+            batch.promptId,
+            reservedCostUsd
+          );
+          await tx.execution.updateMany({
+            where: { id: row.id, status: 'PENDING', queuedAt: null },
+            data: {
+              queuedAt: new Date(),
+              priority: batch.priority,
+              reservedCostUsd,
+            },
+          });
+        });
+      } catch (error) {
+        if (!(error instanceof BudgetExceededError)) throw error;
+
+        await this.pause(batchId, 'BUDGET');
+        await logger.warn('Batch paused at a budget', {
+          batchId,
+          reason: error.message,
+        });
+        return;
+      }
+    }
+  }
+
+  /**
+   * Advances every running batch, releasing slots freed by rows that
+   * finished outside a worker (cancelled or failed by lease recovery)
+   */
+  public async advanceAll(): Promise<void> {
+    const batches = await prisma.batch.findMany({
+      where: { status: 'RUNNING' },
+      select: { id: true },
+    });
+
+    for (const { id } of batches) {
+      await this.advance(id).catch(error =>
+        logger.error('Failed to advance batch', error, { batchId: id })
+      );
+    }
+  }
+
+  /**
+   * Stops queueing rows and takes queued rows no worker has claimed yet
+   * off the queue. Running rows finish. Returns false unless the batch
+   * was running.
+   */
+  public async pause(batchId: string, reason?: string): Promise<boolean> {
+    const { count } = await prisma.batch.updateMany({
+      where: { id: batchId, status: 'RUNNING' },
+      data: { status: 'PAUSED', pausedReason: reason ?? null },
+    });
+    if (count === 0) return false;
+
+    await prisma.execution.updateMany({
+      where: { batchId, status: 'PENDING' },
+      data: { queuedAt: null },
+    });
+    return true;
+  }
+
+  /**
+   * Returns false unless the batch was paused. A batch paused at its cost
+   * cap or a budget pauses again at once unless the cap or budget now has
+   * room for it.
+   */
+  public async resume(batchId: string): Promise<boolean> {
+    const { count } = await prisma.batch.updateMany({
+      where: { id: batchId, status: 'PAUSED' },
+      data: { status: 'RUNNING', pausedReason: null },
+    });
+    if (count === 0) return false;
+
+    await this.advance(batchId);
+    return true;
+  }
+
+  public async getProgress(batchId: string): Promise<BatchProgress> {
+    const groups = await prisma.execution.groupBy({
+      by: ['status'],
+      where: { batchId },
+      _count: { _all: true },
+      _sum: { costUsd: true },
+    });
+
+    const count = (status: string): number =>
+      groups.find(group => group.status === status)?._count._all || 0;
+
+    return {
+      total: groups.reduce((sum, group) => sum + group._count._all, 0),
+      pending: count('PENDING'),
+      running: count('RUNNING'),
+      completed: count('COMPLETED'),
+      failed: count('FAILED'),
+      cancelled: count('CANCELLED'),
+      costUsd: groups.reduce(
+        (sum, group) => sum + (group._sum.costUsd?.toNumber() || 0),
+        0
+      ),
+    };
+  }
+
+  /**
+   * One line per dataset row: the row number, the prompt inputs, then the
+   * execution's status, output, validation status, cost and error
+   */
+  public async exportResults(
+    batch: Pick<Batch, 'id' | 'columns' | 'mapping'>,
+    format: DatasetFormat
+  ): Promise<string> {
+    const executions = await prisma.execution.findMany({
+      where: { batchId: batch.id },
+      select: {
+        batchRow: true,
+        inputs: true,
+        status: true,
+        output: true,
+        validationStatus: true,
+        costUsd: true,
+        errorMessage: true,
+      },
+      orderBy: { batchRow: 'asc' },
+    });
+
+    const inputNames =
+      batch.mapping && typeof batch.mapping === 'object'
+        ? Object.keys(batch.mapping)
+        : (batch.columns as string[]);
+    // Inputs named like a result column keep both under a prefix
+    const inputColumns = inputNames.map(name =>
+      ['row', ...RESULT_COLUMNS].includes(name) ? `input_${name}` : name
+    );
+
+    const rows = executions.map(execution => {
+      const inputs = (execution.inputs || {}) as DatasetRow;
+      const row: DatasetRow = { row: execution.batchRow };
+      inputNames.forEach((name, i) => {
+        row[inputColumns[i]!] = inputs[name];
+      });
+
+      return {
+        ...row,
+        status: execution.status,
+        output: execution.output,
+        validationStatus: execution.validationStatus,
+        costUsd: execution.costUsd?.toNumber() ?? null,
+        error: execution.errorMessage,
+      };
+    });
+
+    return serializeDataset(
+      rows,
+      ['row', ...inputColumns, ...RESULT_COLUMNS],
+      format
+    );
+  }
+}
+
+// Singleton instance
+export const batchRunner = new BatchRunner();
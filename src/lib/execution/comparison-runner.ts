@@ -0,0 +1,421 @@
+import type {
+  ComparisonRun,
+  ComparisonSide,
+  ComparisonWinner,
+  ExecutionStatus,
+  Prisma,
+  Prompt,
+  ValidationStatus,
+} from '@prisma/client';
+import { prisma } from '@/lib/database/client';
+import { budgetManager } from '@/lib/monitoring/budgets';
+import { costTracker } from '@/lib/monitoring/cost-tracker';
+import { logger } from '@/lib/monitoring/logger';
+import { llmClient } from '@/lib/providers/llm-client';
+import { templateEngine } from '@/lib/prompts/template-engine';
+import {
+  promptVersionManager,
+  type LoadedVersion,
+} from '@/lib/prompts/versioning';
+import type { QueuedExecutionJob } from './job-queue';
+
+export interface ComparisonSideOptions {
+  version: number;
+  // Canonical `provider:model` reference
+  model: string;
+}
+
+export interface StartComparisonOptions {
+  name?: string;
+  a: ComparisonSideOptions;
+  b: ComparisonSideOptions;
+  inputs: Array<Record<string, unknown>>;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ComparisonCell {
+  executionId: string;
+  status: ExecutionStatus;
+  output: string | null;
+  errorMessage: string | null;
+  latencyMs: number | null;
+  costUsd: number | null;
+  validationStatus: ValidationStatus;
+}
+
+export interface ComparisonRow {
+  row: number;
+  inputs: Record<string, unknown>;
+  a: ComparisonCell | null;
+  b: ComparisonCell | null;
+}
+
+export interface ComparisonSideSummary {
+  version: number;
+  model: string;
+  completed: number;
+  failed: number;
+  pending: number;
+  avgLatencyMs: number | null;
+  totalCostUsd: number;
+  avgCostUsd: number | null;
+  // Share of completed outputs that passed validation, ignoring skipped ones
+  validationPassRate: number | null;
+}
+
+export type ComparisonStatus = 'RUNNING' | 'COMPLETED';
+
+export interface ComparisonDetail extends ComparisonRun {
+  status: ComparisonStatus;
+  summary: { a: ComparisonSideSummary; b: ComparisonSideSummary };
+  rows: ComparisonRow[];
+}
+
+const UNFINISHED_STATUSES: ExecutionStatus[] = ['PENDING', 'RUNNING'];
+
+const mean = (values: number[]): number | null =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+/**
+ * Runs two prompt versions, or one version on two models, over the same
+ * inputs. Every input row becomes one queued execution per side; a
+ * comparison is running until all of them have finished.
+ */
+export class ComparisonRunner {
+  /**
+   * Renders every row for both sides and queues them, reserving their
+   * estimated cost against the budgets. Rows that fail pre-flight on a
+   * side are stored as FAILED executions for that side. Throws a
+   * BudgetExceededError, and starts nothing, when a budget has no room
+   * for every row.
+   */
+  public async startComparison(
+    userId: string,
+    prompt: Pick<
+      Prompt,
+      'id' | 'userId' | 'version' | 'template' | 'messages' | 'variables'
+    >,
+    options: StartComparisonOptions
+  ): Promise<ComparisonRun> {
+    const versionA = await promptVersionManager.loadVersion(
+      prompt.userId,
+      prompt,
+      options.a.version
+    );
+    const versionB =
+      options.b.version === options.a.version
+        ? versionA
+        : await promptVersionManager.loadVersion(
+            prompt.userId,
+            prompt,
+            options.b.version
+          );
+
+    const maxTokens =
+      options.maxTokens || llmClient.getDefaultConfig().maxTokens;
+    const now = new Date();
+    const sides: Array<[ComparisonSide, ComparisonSideOptions, LoadedVersion]> =
+      [
+        ['A', options.a, versionA],
+        ['B', options.b, versionB],
+      ];
+
+    const executions = options.inputs.flatMap((inputs, i) =>
+      sides.map(([side, sideOptions, version]) => {
+        const { result, usage } = templateEngine.fitToContextWindow(
+          version.template,
+          inputs,
+          version.variables,
+          {
+            partials: version.partials,
+            messages: version.messages,
+            model: sideOptions.model,
+            maxTokens,
+            overflow: 'reject',
+          }
+        );
+
+        const base = {
+          userId,
+          promptId: prompt.id,
+          promptVersionId: version.id,
+          model: sideOptions.model,
+          inputs: inputs as Prisma.InputJsonValue,
+          comparisonSide: side,
+          comparisonRow: i + 1,
+        };
+
+        if (!result.isValid || !usage.fits) {
+          return {
+            ...base,
+            status: 'FAILED' as const,
+            errorType: 'VALIDATION_ERROR',
+            errorMessage: !result.isValid
+              ? 'Invalid or missing variables'
+              : 'Prompt exceeds the model context window',
+            completedAt: now,
+          };
+        }
+
+        const job: QueuedExecutionJob = {
+          messages: result.messages,
+          config: {
+            model: sideOptions.model,
+            maxTokens: options.maxTokens,
+            temperature: options.temperature,
+          },
+        };
+        return {
+          ...base,
+          status: 'PENDING' as const,
+          context: job as unknown as Prisma.InputJsonValue,
+          queuedAt: now,
+          reservedCostUsd: costTracker.calculateProviderCost(
+            { inputTokens: usage.promptTokens, outputTokens: usage.maxTokens },
+            sideOptions.model
+          ),
+        };
+      })
+    );
+    const estimatedCostUsd = executions.reduce(
+      (sum, execution) =>
+        sum + ('reservedCostUsd' in execution ? execution.reservedCostUsd : 0),
+      0
+    );
+
+    const run = await prisma.$transaction(async tx => {
+      await budgetManager.reserve(tx, userId, prompt.id, estimatedCostUsd);
+
+      const created = await tx.comparisonRun.create({
+        data: {
+          name: options.name,
+          userId,
+          promptId: prompt.id,
+          versionA: options.a.version,
+          modelA: options.a.model,
+          versionB: options.b.version,
+          modelB: options.b.model,
+          totalRows: options.inputs.length,
+        },
+      });
+
+      await tx.execution.createMany({
+        data: executions.map(execution => ({
+          ...execution,
+          comparisonRunId: created.id,
+        })),
+      });
+
+      return created;
+    });
+
+    await logger.info('A/B comparison started', {
+      comparisonId: run.id,
+      promptId: prompt.id,
+      a: options.a,
+      b: options.b,
+      rows: options.inputs.length,
+    });
+
+    return run;
+  }
+
+  /**
+   * Whether each comparison still has executions waiting or running
+   */
+  public async getStatuses(
+    runIds: string[]
+  ): Promise<Map<string, ComparisonStatus>> {
+    const unfinished = await prisma.execution.groupBy({
+      by: ['comparisonRunId'],
+      where: {
+        comparisonRunId: { in: runIds },
+        status: { in: UNFINISHED_STATUSES },
+      },
+      _count: { _all: true },
+    });
+
+    const running = new Set(unfinished.map(group => group.comparisonRunId));
+    return new Map(
+      runIds.map(id => [id, running.has(id) ? 'RUNNING' : 'COMPLETED'])
+    );
+  }
+
+  /**
+   * Pairs up the two sides' executions by input row and summarizes each
+   * side's latency, cost and validation results
+   */
+  public async getComparison(run: ComparisonRun): Promise<ComparisonDetail> {
+    const executions = await prisma.execution.findMany({
+      where: { comparisonRunId: run.id },
+      orderBy: { comparisonRow: 'asc' },
+      select: {
+        id: true,
+        inputs: true,
+        status: true,
+        output: true,
+        errorMessage: true,
+        latencyMs: true,
+        costUsd: true,
+        validationStatus: true,
+        comparisonSide: true,
+        comparisonRow: true,
+      },
+    });
+
+    const rows = new Map<number, ComparisonRow>();
+    for (const execution of executions) {
+      if (execution.comparisonRow === null || !execution.comparisonSide) {
+        continue;
+      }
+
+      const row = rows.get(execution.comparisonRow) || {
+        row: execution.comparisonRow,
+        inputs: (execution.inputs || {}) as Record<string, unknown>,
+        a: null,
+        b: null,
+      };
+      const cell: ComparisonCell = {
+        executionId: execution.id,
+        status: execution.status,
+        output: execution.output,
+        errorMessage: execution.errorMessage,
+        latencyMs: execution.latencyMs,
+        costUsd: execution.costUsd?.toNumber() ?? null,
+        validationStatus: execution.validationStatus,
+      };
+      if (execution.comparisonSide === 'A') {
+        row.a = cell;
+      } else {
+        row.b = cell;
+      }
+      rows.set(execution.comparisonRow, row);
+    }
+
+    const sorted = [...rows.values()].sort((a, b) => a.row - b.row);
+    const cells = (side: 'a' | 'b'): ComparisonCell[] =>
+      sorted.flatMap(row => (row[side] ? [row[side] as ComparisonCell] : []));
+    const a = this.summarize(run.versionA, run.modelA, cells('a'));
+    const b = this.summarize(run.versionB, run.modelB, cells('b'));
+
+    return {
+      ...run,
+      status: a.pending + b.pending > 0 ? 'RUNNING' : 'COMPLETED',
+      summary: { a, b },
+      rows: sorted,
+    };
+  }
+
+  /**
+   * Records the winner and appends the decision to the change log of the
+   * winning version, or of both versions on a tie
+   */
+  public async decide(
+    run: ComparisonRun,
+    winner: ComparisonWinner,
+    note?: string
+  ): Promise<ComparisonRun> {
+    const versions =
+      winner === 'A'
+        ? [run.versionA]
+        : winner === 'B'
+          ? [run.versionB]
+          : [...new Set([run.versionA, run.versionB])];
+    const entry = this.describeDecision(run, winner, note);
+
+    const decided = await prisma.$transaction(async tx => {
+      const updated = await tx.comparisonRun.update({
+        where: { id: run.id },
+        data: {
+          winner,
+          decisionNote: note ?? null,
+          decidedAt: new Date(),
+        },
+      });
+
+      // Starting the comparison stored a record of both versions
+      for (const version of versions) {
+        const stored = await tx.promptVersion.findUnique({
+          where: { promptId_version: { promptId: run.promptId, version } },
+          select: { changeLog: true },
+        });
+        if (!stored) continue;
+
+        const { changeLog } = stored;
+        await tx.promptVersion.update({
+          where: { promptId_version: { promptId: run.promptId, version } },
+          data: { changeLog: changeLog ? `${changeLog}\n${entry}` : entry },
+        });
+      }
+
+      return updated;
+    });
+
+    await logger.info('A/B comparison decided', {
+      comparisonId: run.id,
+      winner,
+    });
+
+    return decided;
+  }
+
+  private summarize(
+    version: number,
+    model: string,
+    cells: ComparisonCell[]
+  ): ComparisonSideSummary {
+    const completed = cells.filter(cell => cell.status === 'COMPLETED');
+    const validated = completed.filter(
+      cell =>
+        cell.validationStatus === 'PASSED' || cell.validationStatus === 'FAILED'
+    );
+    const costs = completed.flatMap(cell =>
+      cell.costUsd === null ? [] : [cell.costUsd]
+    );
+
+    return {
+      version,
+      model,
+      completed: completed.length,
+      failed: cells.filter(
+        cell => cell.status === 'FAILED' || cell.status === 'CANCELLED'
+      ).length,
+      pending: cells.filter(cell => UNFINISHED_STATUSES.includes(cell.status))
+        .length,
+      avgLatencyMs: mean(
+        completed.flatMap(cell =>
+          cell.latencyMs === null ? [] : [cell.latencyMs]
+        )
+      ),
+      totalCostUsd: costs.reduce((sum, cost) => sum + cost, 0),
+      avgCostUsd: mean(costs),
+      validationPassRate: mean(
+        validated.map(cell => (cell.validationStatus === 'PASSED' ? 1 : 0))
+      ),
+    };
+  }
+
+  private describeDecision(
+    run: ComparisonRun,
+    winner: ComparisonWinner,
+    note?: string
+  ): string {
+    const label = run.name ? `A/B comparison "${run.name}"` : 'A/B comparison';
+    const sideA = `v${run.versionA} (${run.modelA})`;
+    const sideB = `v${run.versionB} (${run.modelB})`;
+    const outcome =
+      winner === 'A'
+        ? `${sideA} beat ${sideB}`
+        : winner === 'B'
+          ? `${sideB} beat ${sideA}`
+          : `${sideA} tied with ${sideB}`;
+
+    return `${label}: ${outcome}${note ? ` (${note})` : ''}`;
+  }
+}
+
+// Singleton instance
+export const comparisonRunner = new ComparisonRunner();
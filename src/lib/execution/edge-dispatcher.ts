@@ -1,12 +1,18 @@
 import { aiExecutor } from '../agent/executor';
+import { templateEngine } from '../prompts/template-engine';
 import { validationEngine } from '../validation/validator';
 import { updateExecution } from '../database/queries';
+import { executionQueue } from './job-queue';
 import type { Priority, ExecutionStatus } from '@prisma/client';
 import type { ValidationRule } from '../validation/validator';
+import type { ExecuteResponse } from '../../types/api';
+import type { PromptMessage } from '../../types/database';
 
 export interface EdgeExecutionRequest {
   executionId: string;
   promptId: string;
+  // Stored prompt version the template comes from
+  promptVersionId?: string;
   userId: string;
   template: string;
   inputs: Record<string, unknown>;
@@ -17,6 +23,8 @@ export interface EdgeExecutionRequest {
     temperature?: number;
     maxTokens?: number;
     timeout?: number;
+    partials?: Record<string, string>;
+    messages?: PromptMessage[];
   };
 }
 
@@ -56,9 +64,9 @@ export class EdgeDispatcher {
     const startTime = Date.now();
     const {
       executionId,
+      promptVersionId,
       template,
       inputs,
-      priority,
       validationRules,
       options,
     } = request;
@@ -68,19 +76,15 @@ export class EdgeDispatcher {
       await updateExecution(executionId, {
         status: 'RUNNING',
         startedAt: new Date(),
+        ...(promptVersionId && { promptVersionId }),
       });
 
-      // Execute with priority management
-      const aiResult = await aiExecutor.executeWithPriority(
-        request.promptId,
-        request.userId,
+      const aiResult = await aiExecutor.executePrompt(
         template,
         inputs,
-        {
-          ...options,
-          priority,
-        }
+        options
       );
+      const aiLatency = Date.now() - startTime;
 
       // Run validation if rules are provided
       let validationSummary;
@@ -96,7 +100,7 @@ export class EdgeDispatcher {
             metadata: {
               tokenUsage: aiResult.tokenUsage,
               model: aiResult.tokenUsage.model,
-              latencyMs: aiResult.latencyMs,
+              latencyMs: aiLatency,
             },
           }
         );
@@ -181,49 +185,52 @@ export class EdgeDispatcher {
   }
 
   /**
-   * Simulates queued execution by adding delay based on system load
+   * Renders the prompt and leaves the execution on the queue for a worker
    */
-  public async queueExecution(request: EdgeExecutionRequest): Promise<{
-    queuePosition: number;
-    estimatedWaitTime: number;
-    executeWhenReady: () => Promise<EdgeExecutionResult>;
-  }> {
-    const systemLoad = aiExecutor.getSystemLoad();
-    const queuePosition = systemLoad.queuedExecutions + 1;
-    const estimatedWaitTime = queuePosition * 3000; // 3 seconds per queued item
+  public async queueExecution(
+    request: EdgeExecutionRequest
+  ): Promise<ExecuteResponse> {
+    const { promptVersionId, template, inputs, options = {} } = request;
+    if (promptVersionId) {
+      await updateExecution(request.executionId, { promptVersionId });
+    }
 
-    return {
-      queuePosition,
-      estimatedWaitTime,
-      executeWhenReady: async () => {
-        // Simulate queue waiting time
-        if (estimatedWaitTime > 0) {
-          await new Promise(resolve =>
-            setTimeout(resolve, Math.min(estimatedWaitTime, 5000))
-          );
-        }
+    const messages = templateEngine.renderMessages(
+      template,
+      options.messages || [],
+      inputs,
+      { partials: options.partials }
+    );
 
-        return this.dispatchExecution(request);
+    return executionQueue.enqueue(
+      request.executionId,
+      {
+        messages,
+        config: {
+          model: options.model,
+          maxTokens: options.maxTokens,
+          temperature: options.temperature,
+        },
       },
-    };
+      request.priority
+    );
   }
 
   /**
-   * Gets current system load for monitoring
+   * Gets current queue load for monitoring
    */
-  public getSystemLoad(): {
+  public async getSystemLoad(): Promise<{
     activeExecutions: number;
     queuedExecutions: number;
-    cpuUtilization: number;
-    shouldDegradeUI: boolean;
+    utilization: number;
     healthStatus: 'healthy' | 'degraded' | 'overloaded';
-  } {
-    const load = aiExecutor.getSystemLoad();
+  }> {
+    const load = await executionQueue.getLoad();
 
     let healthStatus: 'healthy' | 'degraded' | 'overloaded' = 'healthy';
-    if (load.cpuUtilization > 90) {
+    if (load.utilization > 90) {
       healthStatus = 'overloaded';
-    } else if (load.cpuUtilization > 70 || load.shouldDegradeUI) {
+    } else if (load.utilization > 70) {
       healthStatus = 'degraded';
     }
 
@@ -1,7 +1,17 @@
 import { logger } from '@/lib/monitoring/logger';
+import {
+  ExecutionCancelledError,
+  ProviderError,
+  ValidationError,
+} from '@/lib/utils/error-handler';
 
 export interface ExecutionError {
-  type: 'RATE_LIMIT' | 'API_ERROR' | 'TIMEOUT' | 'VALIDATION_ERROR';
+  type:
+    | 'RATE_LIMIT'
+    | 'API_ERROR'
+    | 'TIMEOUT'
+    | 'VALIDATION_ERROR'
+    | 'CANCELLED';
   message: string;
   retryable: boolean;
   retryAfter?: number;
@@ -15,6 +25,25 @@ export class ExecutionErrorHandler {
    * Handles and classifies errors from execution attempts
    */
   handleError(error: any): ExecutionError {
+    // Stopped on purpose; never retry
+    if (error instanceof ExecutionCancelledError) {
+      return { type: 'CANCELLED', message: error.message, retryable: false };
+    }
+
+    // Provider failures arrive already classified, whatever the backend
+    if (error instanceof ProviderError) {
+      return this.handleProviderError(error);
+    }
+
+    // Bad input or an unknown model; retrying would fail the same way
+    if (error instanceof ValidationError) {
+      return {
+        type: 'VALIDATION_ERROR',
+        message: error.message,
+        retryable: false,
+      };
+    }
+
     // OpenAI rate limiting errors
     if (error.status === 429 || error.code === 'rate_limit_exceeded') {
       return {
@@ -64,6 +93,35 @@ export class ExecutionErrorHandler {
     };
   }
 
+  private handleProviderError(error: ProviderError): ExecutionError {
+    switch (error.kind) {
+      case 'rate_limit':
+        return {
+          type: 'RATE_LIMIT',
+          message: 'Rate limit exceeded. Please try again later.',
+          retryable: true,
+          retryAfter: error.retryAfter || 60,
+        };
+      case 'timeout':
+        return {
+          type: 'TIMEOUT',
+          message: 'Request timed out. Please try again.',
+          retryable: true,
+        };
+      case 'server':
+        return { type: 'API_ERROR', message: error.message, retryable: true };
+      case 'authentication':
+        // A misconfigured key won't fix itself between attempts
+        return { type: 'API_ERROR', message: error.message, retryable: false };
+      default:
+        return {
+          type: 'VALIDATION_ERROR',
+          message: error.message,
+          retryable: false,
+        };
+    }
+  }
+
   /**
    * Determines if an error should be retried based on type and attempt count
    */
@@ -133,16 +191,22 @@ export class ExecutionErrorHandler {
   }
 
   /**
-   * Executes a function with retry logic
+   * Executes a function with retry logic. Aborting the signal skips any
+   * remaining retries and rejects with ExecutionCancelledError.
    */
   async executeWithRetry<T>(
     executionId: string,
     operation: () => Promise<T>,
-    onRetry?: (attempt: number, delay: number) => void
+    onRetry?: (attempt: number, delay: number) => void,
+    signal?: AbortSignal
   ): Promise<T> {
     let lastError: ExecutionError | null = null;
 
     for (let attempt = 1; attempt <= this.maxRetries + 1; attempt++) {
+      if (signal?.aborted) {
+        throw new ExecutionCancelledError();
+      }
+
       try {
         return await operation();
       } catch (error) {
@@ -159,7 +223,7 @@ export class ExecutionErrorHandler {
           const delay = this.getRetryDelay(attempt, executionError);
           onRetry?.(attempt, delay);
 
-          await this.sleep(delay);
+          await this.sleep(delay, signal);
         }
       }
     }
@@ -201,10 +265,19 @@ export class ExecutionErrorHandler {
   }
 
   /**
-   * Utility function for sleeping/waiting
+   * Utility function for sleeping/waiting; wakes early on abort
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+
+      function done(): void {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+    });
   }
 }
 
@@ -0,0 +1,305 @@
+import { updateExecution } from '@/lib/database/queries';
+import { logger } from '@/lib/monitoring/logger';
+import { llmClient, type LLMRequestConfig } from '@/lib/providers/llm-client';
+import type { CompletionTokenUsage } from '@/lib/providers/types';
+import { ExecutionCancelledError } from '@/lib/utils/error-handler';
+import { schemaValidator } from '@/lib/validation/schema-validator';
+import { webhookManager } from '@/lib/webhooks/webhook-manager';
+import type { PromptMessage } from '@/types/database';
+import { executionErrorHandler, type ExecutionError } from './error-handler';
+import { executionQueue } from './job-queue';
+
+// How often streamed output is written back to the execution record
+const PARTIAL_OUTPUT_FLUSH_MS = 1000;
+
+export interface RunExecutionOptions {
+  executionId: string;
+  messages: PromptMessage[];
+  config: Partial<LLMRequestConfig>;
+  // Streams output through onDelta and saves it as it arrives
+  onDelta?: (text: string) => void;
+  onRetry?: (attempt: number, delayMs: number) => void;
+  // Aborting cancels the run, as cancel() does
+  signal?: AbortSignal;
+}
+
+export interface ExecutionOutcome {
+  output: string;
+  tokenUsage: CompletionTokenUsage;
+  costUsd: number;
+  // Canonical `provider:model` reference
+  model: string;
+  latencyMs: number;
+  validationStatus: 'PASSED' | 'FAILED' | 'SKIPPED';
+  validationErrors: Array<{ path: string; message: string }>;
+}
+
+/**
+ * Runs an execution that has passed pre-flight checks: calls the provider
+ * with retries, validates the output and records the result. Callers
+ * report failures through fail() so every path stores them the same way.
+ */
+export class ExecutionRunner {
+  // Runs in this process, so cancel() can stop them
+  private running = new Map<string, AbortController>();
+
+  public async run(options: RunExecutionOptions): Promise<ExecutionOutcome> {
+    const { executionId, messages, config, onDelta, onRetry } = options;
+    const startTime = Date.now();
+    const partial = onDelta ? this.partialOutputWriter(executionId) : null;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    const abort = (): void => controller.abort();
+    if (options.signal?.aborted) abort();
+    options.signal?.addEventListener('abort', abort, { once: true });
+    this.running.set(executionId, controller);
+
+    let aiResult;
+    try {
+      aiResult = await executionErrorHandler.executeWithRetry(
+        executionId,
+        async () => {
+          if (!onDelta || !partial) {
+            return llmClient.executePrompt(
+              messages,
+              config,
+              executionId,
+              signal
+            );
+          }
+
+          // A retry starts the output over
+          partial.reset();
+          return llmClient.streamPrompt(messages, config, executionId, {
+            signal,
+            onDelta: text => {
+              partial.append(text);
+              onDelta(text);
+            },
+          });
+        },
+        async (attempt, delay) => {
+          onRetry?.(attempt, delay);
+          await logger.info('Execution retry attempt', {
+            executionId,
+            attempt,
+            delayMs: delay,
+          });
+        },
+        signal
+      );
+
+      // A cancel that lands as the provider answers still wins
+      if (signal.aborted) {
+        throw new ExecutionCancelledError();
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', abort);
+      this.running.delete(executionId);
+      await partial?.close();
+    }
+
+    const latencyMs = Date.now() - startTime;
+
+    // Validate AI output against prompt's validation rules (if any)
+    let validationResult = null;
+    try {
+      validationResult = await schemaValidator.validateExecutionOutput(
+        executionId,
+        aiResult.output
+      );
+    } catch (validationError) {
+      // Log validation error but don't fail the execution
+      await logger.error(
+        'Output validation failed',
+        validationError,
+        {},
+        executionId
+      );
+    }
+
+    const validationStatus = validationResult?.validationStatus || 'SKIPPED';
+    const tokenUsage = {
+      input: aiResult.tokenUsage.inputTokens,
+      output: aiResult.tokenUsage.outputTokens,
+      total: aiResult.tokenUsage.totalTokens,
+    };
+
+    const completed = await executionQueue.finish(executionId, {
+      status: 'COMPLETED',
+      output: aiResult.output,
+      validationStatus,
+      latencyMs,
+      costUsd: aiResult.costUsd,
+      completedAt: new Date(),
+      tokenUsage: { ...tokenUsage, model: aiResult.model },
+    });
+    // Cancelled from another process before its heartbeat noticed, or
+    // recovered after the lease expired: the result isn't this run's to
+    // record
+    if (!completed) {
+      throw new ExecutionCancelledError(
+        'Execution was cancelled or taken over by another worker'
+      );
+    }
+
+    await logger.logExecutionComplete(executionId, {
+      status: 'COMPLETED',
+      latencyMs,
+      tokenUsage,
+      costUsd: aiResult.costUsd,
+      validationStatus,
+    });
+
+    const event = {
+      executionId,
+      promptId: completed.promptId,
+      status: 'COMPLETED',
+      model: aiResult.model,
+      latencyMs,
+      costUsd: aiResult.costUsd,
+      tokenUsage,
+      validationStatus,
+    };
+    await webhookManager.dispatch(
+      completed.userId,
+      'execution.completed',
+      event
+    );
+    if (validationStatus === 'FAILED') {
+      await webhookManager.dispatch(completed.userId, 'validation.failed', {
+        ...event,
+        validationErrors: validationResult?.errors || [],
+      });
+    }
+
+    return {
+      output: aiResult.output,
+      tokenUsage: aiResult.tokenUsage,
+      costUsd: aiResult.costUsd,
+      model: aiResult.model,
+      latencyMs,
+      validationStatus,
+      validationErrors: validationResult?.errors || [],
+    };
+  }
+
+  /**
+   * Aborts the execution if it is running in this process. Returns false
+   * when it isn't, e.g. because another worker holds it.
+   */
+  public cancel(executionId: string): boolean {
+    const controller = this.running.get(executionId);
+    controller?.abort();
+    return controller !== undefined;
+  }
+
+  /**
+   * Classifies a failure, marks the execution FAILED (or CANCELLED) and
+   * logs it. Nothing is recorded if the execution has meanwhile been
+   * finished by someone else, such as a cancel from another process.
+   */
+  public async fail(
+    execution: {
+      id: string;
+      startedAt: Date | null;
+      leaseOwner: string | null;
+    },
+    error: unknown
+  ): Promise<ExecutionError> {
+    const executionError = this.classifyError(error);
+    const status = executionError.type === 'CANCELLED' ? 'CANCELLED' : 'FAILED';
+    const latencyMs =
+      Date.now() - (execution.startedAt?.getTime() || Date.now());
+
+    // Executions that fail pre-flight were never claimed
+    const failed = await executionQueue.finish(
+      execution.id,
+      {
+        status,
+        completedAt: new Date(),
+        latencyMs,
+        errorType: executionError.type,
+        errorMessage: executionError.message,
+      },
+      execution.leaseOwner !== null
+    );
+    if (!failed) return executionError;
+
+    await logger.logExecutionComplete(execution.id, {
+      status,
+      latencyMs,
+      error: executionError.message,
+    });
+
+    // Cancelling is the user's own doing, so it isn't announced
+    if (status === 'FAILED') {
+      await webhookManager.dispatch(failed.userId, 'execution.failed', {
+        executionId: execution.id,
+        promptId: failed.promptId,
+        status,
+        latencyMs,
+        errorType: executionError.type,
+        errorMessage: executionError.message,
+      });
+    }
+
+    return executionError;
+  }
+
+  public classifyError(error: unknown): ExecutionError {
+    // Final error from retry handler
+    if (error && typeof error === 'object' && 'executionError' in error) {
+      return (error as { executionError: ExecutionError }).executionError;
+    }
+    return executionErrorHandler.handleError(error);
+  }
+
+  /**
+   * Buffers streamed text and saves it at most once per flush interval,
+   * one write at a time. Closing saves whatever arrived since the last
+   * write, so failed and cancelled runs keep their partial output.
+   */
+  private partialOutputWriter(executionId: string): {
+    append: (text: string) => void;
+    reset: () => void;
+    close: () => Promise<void>;
+  } {
+    let output = '';
+    let saved = '';
+    let lastFlush = 0;
+    let pending: Promise<unknown> = Promise.resolve();
+
+    const flush = (): void => {
+      const snapshot = output;
+      saved = snapshot;
+      lastFlush = Date.now();
+      pending = pending
+        .then(() => updateExecution(executionId, { output: snapshot }))
+        .catch(error =>
+          logger.warn('Failed to save partial output', {
+            executionId,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+    };
+
+    return {
+      append: (text: string): void => {
+        output += text;
+        if (Date.now() - lastFlush >= PARTIAL_OUTPUT_FLUSH_MS) flush();
+      },
+      reset: (): void => {
+        output = '';
+      },
+      close: (): Promise<void> => {
+        if (output !== saved) flush();
+        return pending.then(() => undefined);
+      },
+    };
+  }
+}
+
+// Singleton instance
+export const executionRunner = new ExecutionRunner();
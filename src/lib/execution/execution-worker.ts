@@ -0,0 +1,150 @@
+import { prisma } from '@/lib/database/client';
+import { evaluationRunner } from '@/lib/evaluation/evaluation-runner';
+import { logger } from '@/lib/monitoring/logger';
+import { webhookManager } from '@/lib/webhooks/webhook-manager';
+import { batchRunner } from './batch-runner';
+import { executionRunner } from './execution-runner';
+import { executionQueue } from './job-queue';
+
+export interface DrainOptions {
+  // Executions this worker runs at once
+  concurrency?: number;
+  // Stop claiming new executions after this time (epoch ms)
+  deadline?: number;
+}
+
+/**
+ * Runs executions from the queue. drain() suits cron-style invocations
+ * with a time budget; start() keeps polling in a long-running process.
+ */
+export class ExecutionWorker {
+  private polling: Promise<void> | null = null;
+  private stopping = false;
+
+  /**
+   * Recovers expired leases, lets batches queue their next rows and
+   * catches up on evaluation scoring, then runs queued executions until
+   * the queue is empty or the deadline passes, redelivering due webhooks
+   * alongside. Resolves with how many executions ran.
+   */
+  public async drain(options: DrainOptions = {}): Promise<number> {
+    const concurrency =
+      options.concurrency ||
+      parseInt(process.env.EXECUTION_WORKER_CONCURRENCY || '2');
+    const deadline = options.deadline ?? Infinity;
+    let processed = 0;
+
+    await executionQueue.recoverExpired();
+    await batchRunner.advanceAll();
+    await evaluationRunner.advanceAll();
+
+    const slot = async (): Promise<void> => {
+      while (!this.stopping && Date.now() < deadline) {
+        const executionId = await executionQueue.claimNext();
+        if (!executionId) return;
+
+        await this.process(executionId);
+        processed++;
+      }
+    };
+
+    const redeliver = webhookManager
+      .deliverDue(deadline)
+      .catch(error => logger.error('Failed to redeliver webhooks', error));
+
+    await Promise.all([
+      ...Array.from({ length: concurrency }, slot),
+      redeliver,
+    ]);
+    return processed;
+  }
+
+  /**
+   * Runs an execution this process has claimed. Failures are recorded on
+   * the execution rather than thrown.
+   */
+  public async process(executionId: string): Promise<void> {
+    const execution = await prisma.execution.findUnique({
+      where: { id: executionId },
+      select: {
+        id: true,
+        context: true,
+        startedAt: true,
+        leaseOwner: true,
+        batchId: true,
+        evalResult: { select: { id: true } },
+      },
+    });
+    if (!execution) return;
+
+    const stopHeartbeat = executionQueue.keepAlive(executionId, () =>
+      executionRunner.cancel(executionId)
+    );
+    try {
+      const job = executionQueue.getJob(execution);
+      await executionRunner.run({
+        executionId,
+        messages: job.messages,
+        config: job.config,
+      });
+    } catch (error) {
+      await executionRunner.fail(execution, error).catch(failError =>
+        logger.error('Failed to record execution failure', failError, {
+          executionId,
+        })
+      );
+    } finally {
+      stopHeartbeat();
+    }
+
+    // The row's slot is free, so the batch can queue its next row
+    if (execution.batchId) {
+      const { batchId } = execution;
+      await batchRunner
+        .advance(batchId)
+        .catch(error =>
+          logger.error('Failed to advance batch', error, { batchId })
+        );
+    }
+    if (execution.evalResult) {
+      await evaluationRunner.scoreExecution(executionId).catch(error =>
+        logger.error('Failed to score evaluation case', error, {
+          executionId,
+        })
+      );
+    }
+  }
+
+  /**
+   * Drains the queue, then checks again every pollIntervalMs until stop()
+   */
+  public start(pollIntervalMs = 1000): void {
+    if (this.polling) return;
+    this.stopping = false;
+
+    this.polling = (async (): Promise<void> => {
+      while (!this.stopping) {
+        try {
+          await this.drain();
+        } catch (error) {
+          await logger.error('Execution worker poll failed', error);
+        }
+        if (!this.stopping) {
+          await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+        }
+      }
+    })();
+  }
+
+  /**
+   * Stops claiming executions and waits for the ones running to finish
+   */
+  public async stop(): Promise<void> {
+    this.stopping = true;
+    await this.polling;
+    this.polling = null;
+  }
+}
+
+// Singleton instance
+export const executionWorker = new ExecutionWorker();
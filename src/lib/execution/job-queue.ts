@@ -0,0 +1,378 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { Execution, Prisma, Priority } from '@prisma/client';
+import { prisma } from '@/lib/database/client';
+import { logger } from '@/lib/monitoring/logger';
+import type { LLMRequestConfig } from '@/lib/providers/llm-client';
+import { ValidationError } from '@/lib/utils/error-handler';
+import type { ExecuteResponse } from '@/types/api';
+import type { PromptMessage } from '@/types/database';
+
+// Lowest first, matching the order of the Postgres enum
+const PRIORITIES: Priority[] = ['LOW', 'NORMAL', 'HIGH', 'CRITICAL'];
+
+// Used for wait estimates until executions have completed recently
+const DEFAULT_EXECUTION_MS = 5000;
+
+// Advisory lock serializing claimNext(), so concurrent claims can't both
+// take the last free slot
+const CLAIM_LOCK_KEY = 7301;
+
+// Rendered prompt and settings, saved on the execution so any worker can
+// run it
+export interface QueuedExecutionJob {
+  messages: PromptMessage[];
+  config: Partial<LLMRequestConfig>;
+}
+
+export interface ExecutionQueueConfig {
+  // Executions allowed to run at once across all workers
+  maxConcurrent: number;
+  // Share of maxConcurrent open to LOW and NORMAL priority
+  reservedPercent: number;
+  leaseMs: number;
+  // Also how soon a cancel made from another process is noticed
+  heartbeatMs: number;
+  // Claims before an execution whose lease keeps expiring is failed
+  maxAttempts: number;
+}
+
+/**
+ * Postgres-backed execution queue. Executions wait as PENDING rows and
+ * workers claim them with `FOR UPDATE SKIP LOCKED`, highest priority and
+ * oldest first. A claim is a lease that the holder renews with heartbeats;
+ * when a worker dies its lease expires and recoverExpired() puts the
+ * execution back on the queue.
+ */
+export class ExecutionQueue {
+  // Identifies this process in the leases it holds
+  public readonly ownerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private config: ExecutionQueueConfig;
+
+  constructor(config: Partial<ExecutionQueueConfig> = {}) {
+    const leaseMs =
+      config.leaseMs ?? parseInt(process.env.EXECUTION_LEASE_MS || '60000');
+    this.config = {
+      maxConcurrent: parseInt(process.env.AGENT_MAX_CONCURRENT || '5'),
+      reservedPercent: parseInt(process.env.AGENT_CPU_RESERVE || '70'),
+      leaseMs,
+      heartbeatMs: Math.min(Math.floor(leaseMs / 3), 5000),
+      maxAttempts: 3,
+      ...config,
+    };
+  }
+
+  /**
+   * Saves the job and leaves the execution PENDING for a worker
+   */
+  public async enqueue(
+    executionId: string,
+    job: QueuedExecutionJob,
+    priority: Priority = 'NORMAL'
+  ): Promise<ExecuteResponse> {
+    await prisma.execution.update({
+      where: { id: executionId },
+      data: {
+        status: 'PENDING',
+        priority,
+        context: job as unknown as Prisma.InputJsonValue,
+        queuedAt: new Date(),
+      },
+    });
+
+    return {
+      executionId,
+      status: 'PENDING',
+      estimatedTime: await this.estimateWaitTime(priority),
+    };
+  }
+
+  /**
+   * Leases a PENDING execution to this process so it can run it right away.
+   * The job is saved too, so the execution can be recovered if the
+   * process dies.
+   */
+  public async claim(
+    executionId: string,
+    job: QueuedExecutionJob
+  ): Promise<Execution> {
+    const now = new Date();
+    return prisma.execution.update({
+      where: { id: executionId, status: 'PENDING' },
+      data: {
+        status: 'RUNNING',
+        context: job as unknown as Prisma.InputJsonValue,
+        startedAt: now,
+        heartbeatAt: now,
+        leaseOwner: this.ownerId,
+        leaseExpiresAt: new Date(now.getTime() + this.config.leaseMs),
+        attempts: { increment: 1 },
+      },
+    });
+  }
+
+  /**
+   * Leases the next queued execution, or returns null when none is
+   * waiting or every slot its priority may use is taken (see
+   * hasCapacity()). Rows other workers are claiming are skipped, not
+   * waited on.
+   */
+  public async claimNext(): Promise<string | null> {
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + this.config.leaseMs);
+
+    // Enum values sort in declaration order, so DESC puts CRITICAL first
+    const [, rows] = await prisma.$transaction([
+      prisma.$executeRaw`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`,
+      prisma.$queryRaw<Array<{ id: string }>>`
+        UPDATE executions
+        SET status = 'RUNNING',
+            "startedAt" = ${now},
+            "heartbeatAt" = ${now},
+            "leaseOwner" = ${this.ownerId},
+            "leaseExpiresAt" = ${leaseExpiresAt},
+            attempts = attempts + 1
+        WHERE id = (
+          SELECT id FROM executions
+          WHERE status = 'PENDING' AND "queuedAt" IS NOT NULL
+            AND (
+              SELECT count(*) FROM executions
+              WHERE status = 'RUNNING' AND "leaseExpiresAt" > ${now}
+            ) < CASE
+              WHEN priority IN ('HIGH', 'CRITICAL') THEN ${this.limitFor('HIGH')}
+              ELSE ${this.limitFor('NORMAL')}
+            END
+          ORDER BY priority DESC, "createdAt" ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id
+      `,
+    ]);
+
+    return rows[0]?.id ?? null;
+  }
+
+  /**
+   * Renews this process's lease. Reports `cancelled` when a cancel request
+   * took the execution, and `lost` when the lease is otherwise gone: the
+   * execution finished, or it expired and was recovered.
+   */
+  public async heartbeat(
+    executionId: string
+  ): Promise<'held' | 'cancelled' | 'lost'> {
+    const now = new Date();
+    const { count } = await prisma.execution.updateMany({
+      where: { id: executionId, status: 'RUNNING', leaseOwner: this.ownerId },
+      data: {
+        heartbeatAt: now,
+        leaseExpiresAt: new Date(now.getTime() + this.config.leaseMs),
+      },
+    });
+    if (count > 0) return 'held';
+
+    const execution = await prisma.execution.findUnique({
+      where: { id: executionId },
+      select: { status: true },
+    });
+    return execution?.status === 'CANCELLED' ? 'cancelled' : 'lost';
+  }
+
+  /**
+   * Records how an execution ended, but only while it is still this
+   * process's to finish: RUNNING under this process's lease, or, when it
+   * was never claimed, PENDING and not queued. Returns null and writes
+   * nothing otherwise, e.g. when it was cancelled from another process or
+   * its lease expired and another worker took it over.
+   */
+  public async finish(
+    executionId: string,
+    data: Prisma.ExecutionUpdateManyMutationInput,
+    claimed = true
+  ): Promise<Pick<Execution, 'userId' | 'promptId'> | null> {
+    const { count } = await prisma.execution.updateMany({
+      where: {
+        id: executionId,
+        ...(claimed
+          ? { status: 'RUNNING', leaseOwner: this.ownerId }
+          : { status: 'PENDING', queuedAt: null }),
+      },
+      data,
+    });
+    if (count === 0) return null;
+
+    return prisma.execution.findUniqueOrThrow({
+      where: { id: executionId },
+      select: { userId: true, promptId: true },
+    });
+  }
+
+  /**
+   * Sends heartbeats until the returned function is called, and calls
+   * onStop if the execution gets cancelled or the lease is lost meanwhile.
+   * A lost lease may already be running again under another worker, so
+   * this one should stop rather than finish it twice.
+   */
+  public keepAlive(executionId: string, onStop?: () => void): () => void {
+    const timer = setInterval(() => {
+      this.heartbeat(executionId)
+        .then(lease => {
+          if (lease === 'held') return;
+
+          onStop?.();
+          if (lease === 'lost') {
+            return logger.warn('Execution lease lost', {
+              executionId,
+              leaseOwner: this.ownerId,
+            });
+          }
+        })
+        .catch(error =>
+          logger.warn('Execution heartbeat failed', {
+            executionId,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+    }, this.config.heartbeatMs);
+    // Don't keep a finished worker process alive
+    timer.unref?.();
+
+    return (): void => clearInterval(timer);
+  }
+
+  /**
+   * Puts executions whose lease expired back on the queue, and fails the
+   * ones that have used up their attempts
+   */
+  public async recoverExpired(): Promise<{
+    requeued: number;
+    failed: number;
+  }> {
+    const now = new Date();
+    const expired = {
+      status: 'RUNNING' as const,
+      leaseExpiresAt: { lt: now },
+    };
+
+    const failed = await prisma.execution.updateMany({
+      where: { ...expired, attempts: { gte: this.config.maxAttempts } },
+      data: {
+        status: 'FAILED',
+        completedAt: now,
+        errorType: 'TIMEOUT',
+        errorMessage: `Worker stopped responding ${this.config.maxAttempts} times`,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      },
+    });
+    const requeued = await prisma.execution.updateMany({
+      where: expired,
+      data: {
+        status: 'PENDING',
+        queuedAt: now,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      },
+    });
+
+    if (failed.count > 0 || requeued.count > 0) {
+      await logger.warn('Recovered executions with expired leases', {
+        requeued: requeued.count,
+        failed: failed.count,
+      });
+    }
+
+    return { requeued: requeued.count, failed: failed.count };
+  }
+
+  /**
+   * Whether an execution of this priority may start now. HIGH and
+   * CRITICAL may use every slot; LOW and NORMAL only the reserved share.
+   */
+  public async hasCapacity(priority: Priority = 'NORMAL'): Promise<boolean> {
+    const running = await this.countRunning();
+    return running < this.limitFor(priority);
+  }
+
+  public async getLoad(): Promise<{
+    activeExecutions: number;
+    queuedExecutions: number;
+    utilization: number;
+  }> {
+    const [activeExecutions, queuedExecutions] = await Promise.all([
+      this.countRunning(),
+      prisma.execution.count({
+        where: { status: 'PENDING', queuedAt: { not: null } },
+      }),
+    ]);
+
+    return {
+      activeExecutions,
+      queuedExecutions,
+      utilization: (activeExecutions / this.config.maxConcurrent) * 100,
+    };
+  }
+
+  /**
+   * Milliseconds until an execution of this priority, queued now or
+   * already queued, is expected to finish
+   */
+  public async estimateWaitTime(
+    priority: Priority = 'NORMAL'
+  ): Promise<number> {
+    const since = new Date(Date.now() - 60 * 60 * 1000);
+    const [ahead, recent] = await Promise.all([
+      prisma.execution.count({
+        where: {
+          status: 'PENDING',
+          queuedAt: { not: null },
+          priority: { in: PRIORITIES.slice(PRIORITIES.indexOf(priority)) },
+        },
+      }),
+      prisma.execution.aggregate({
+        where: { status: 'COMPLETED', completedAt: { gte: since } },
+        _avg: { latencyMs: true },
+      }),
+    ]);
+
+    const averageMs = recent._avg.latencyMs || DEFAULT_EXECUTION_MS;
+    const rounds = Math.max(1, Math.ceil(ahead / this.config.maxConcurrent));
+    return Math.round(rounds * averageMs);
+  }
+
+  /**
+   * Reads the job saved by enqueue() or claim()
+   */
+  public getJob(
+    execution: Pick<Execution, 'id' | 'context'>
+  ): QueuedExecutionJob {
+    const job = execution.context as unknown as QueuedExecutionJob | null;
+    if (
+      !job ||
+      !Array.isArray(job.messages) ||
+      typeof job.config !== 'object'
+    ) {
+      throw new ValidationError(
+        `Execution ${execution.id} has no queued job to run`
+      );
+    }
+    return job;
+  }
+
+  private limitFor(priority: Priority): number {
+    return priority === 'HIGH' || priority === 'CRITICAL'
+      ? this.config.maxConcurrent
+      : Math.floor(
+          (this.config.maxConcurrent * this.config.reservedPercent) / 100
+        );
+  }
+
+  private countRunning(): Promise<number> {
+    return prisma.execution.count({
+      where: { status: 'RUNNING', leaseExpiresAt: { gt: new Date() } },
+    });
+  }
+}
+
+// Singleton instance
+export const executionQueue = new ExecutionQueue();
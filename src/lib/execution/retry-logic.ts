@@ -147,7 +147,13 @@ export class RetryManager {
     );
   }
 
-  private calculateDelay(attempt: number, config: RetryConfig): number {
+  /**
+   * Backoff before the attempt after `attempt`, with jitter
+   */
+  public calculateDelay(
+    attempt: number,
+    config: Omit<RetryConfig, 'retryableErrors'>
+  ): number {
     // Exponential backoff: baseDelay * (backoffMultiplier ^ (attempt - 1))
     const exponentialDelay =
       config.baseDelayMs * Math.pow(config.backoffMultiplier, attempt - 1);
@@ -222,6 +228,16 @@ export const retryConfigs = {
     ],
   },
 
+  // Webhook redelivery by the execution queue drain, so a delivery waits
+  // for the first drain after its backoff
+  webhook: {
+    maxAttempts: 5,
+    baseDelayMs: 60000,
+    maxDelayMs: 3600000,
+    backoffMultiplier: 4,
+    jitterMs: 5000,
+  },
+
   // Database operation retry
   database: {
     maxAttempts: 2,
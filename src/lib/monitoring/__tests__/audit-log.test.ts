@@ -0,0 +1,174 @@
+import { AuditLog, auditActor, snippetSnapshot } from '../audit-log';
+
+jest.mock('../../database/client', () => ({
+  prisma: {
+    auditEvent: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    membership: { findMany: jest.fn() },
+  },
+}));
+
+jest.mock('../logger', () => ({
+  logger: { error: jest.fn() },
+}));
+
+const { prisma } = require('../../database/client');
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const { logger } = require('../logger');
+
+describe('AuditLog', () => {
+  let auditLog: AuditLog;
+  const actor = { userId: 'user-1', apiKeyId: 'key-1', ipAddress: '10.0.0.1' };
+
+  beforeEach(() => {
+    auditLog = new AuditLog();
+    jest.clearAllMocks();
+    mockPrisma.membership.findMany.mockResolvedValue([]);
+  });
+
+  it('records the actor, target and snapshots of a change', async () => {
+    await auditLog.record(actor, {
+      action: 'prompt.update',
+      targetId: 'prompt-1',
+      workspaceId: 'ws-1',
+      before: { name: 'Old', updatedAt: new Date('2026-01-01T00:00:00Z') },
+      after: { name: 'New' },
+    });
+
+    expect(mockPrisma.auditEvent.create).toHaveBeenCalledWith({
+      data: {
+        action: 'prompt.update',
+        targetType: 'prompt',
+        targetId: 'prompt-1',
+        workspaceId: 'ws-1',
+        before: { name: 'Old', updatedAt: '2026-01-01T00:00:00.000Z' },
+        after: { name: 'New' },
+        actorId: 'user-1',
+        apiKeyId: 'key-1',
+        ipAddress: '10.0.0.1',
+        userAgent: undefined,
+      },
+    });
+  });
+
+  it('records snippet changes with the snippet as target', async () => {
+    await auditLog.record(actor, {
+      action: 'snippet.delete',
+      targetId: 'snippet-1',
+      before: snippetSnapshot({
+        name: 'signature',
+        description: null,
+        content: 'Thanks, {{agent}}',
+        version: 2,
+      }),
+    });
+
+    expect(mockPrisma.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'snippet.delete',
+        targetType: 'snippet',
+        targetId: 'snippet-1',
+        workspaceId: undefined,
+        before: {
+          name: 'signature',
+          description: null,
+          content: 'Thanks, {{agent}}',
+          version: 2,
+        },
+      }),
+    });
+  });
+
+  it('logs instead of failing when an event cannot be recorded', async () => {
+    mockPrisma.auditEvent.create.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      auditLog.record(actor, { action: 'api_key.revoke', targetId: 'key-2' })
+    ).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith(
+      'Failed to record audit event',
+      expect.any(Error),
+      expect.objectContaining({ action: 'api_key.revoke' })
+    );
+  });
+
+  it("shows owners their workspaces' events alongside their own", async () => {
+    mockPrisma.membership.findMany.mockResolvedValue([
+      { workspaceId: 'ws-1', role: 'OWNER' },
+      { workspaceId: 'ws-2', role: 'EDITOR' },
+    ]);
+    mockPrisma.auditEvent.findMany.mockResolvedValue([]);
+    mockPrisma.auditEvent.count.mockResolvedValue(0);
+
+    await auditLog.listEvents('user-1', {
+      targetType: 'prompt',
+      from: new Date('2026-01-01'),
+    });
+
+    expect(mockPrisma.auditEvent.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          AND: [
+            {
+              OR: [{ actorId: 'user-1' }, { workspaceId: { in: ['ws-1'] } }],
+            },
+            {
+              targetType: 'prompt',
+              createdAt: { gte: new Date('2026-01-01') },
+            },
+          ],
+        },
+        orderBy: { createdAt: 'desc' },
+      })
+    );
+  });
+
+  it('exports events as CSV with JSON snapshots', async () => {
+    mockPrisma.auditEvent.findMany.mockResolvedValue([
+      {
+        id: 'event-1',
+        action: 'budget.set',
+        targetType: 'budget',
+        targetId: 'budget-1',
+        before: null,
+        after: { limitUsd: 5 },
+        actorId: 'user-1',
+        apiKeyId: null,
+        workspaceId: null,
+        ipAddress: '10.0.0.1',
+        userAgent: null,
+        createdAt: new Date('2026-02-01T12:00:00Z'),
+      },
+    ]);
+
+    const csv = await auditLog.exportEvents('user-1', {}, 'csv');
+
+    expect(csv.split('\r\n')).toEqual([
+      'createdAt,action,targetType,targetId,actorId,apiKeyId,workspaceId,ipAddress,userAgent,before,after',
+      '2026-02-01T12:00:00.000Z,budget.set,budget,budget-1,user-1,,,10.0.0.1,,,"{""limitUsd"":5}"',
+      '',
+    ]);
+  });
+
+  it('reads the actor from the request and its credentials', () => {
+    const request = new Request('http://localhost/api/prompts', {
+      headers: { 'x-forwarded-for': '1.2.3.4, 10.0.0.1', 'user-agent': 'sdk' },
+    });
+
+    expect(
+      auditActor(request, {
+        id: 'user-1',
+        created_at: '2026-01-01',
+        apiKey: { id: 'key-1', name: 'ci', scopes: ['ADMIN'] },
+      })
+    ).toEqual({
+      userId: 'user-1',
+      apiKeyId: 'key-1',
+      ipAddress: '1.2.3.4',
+      userAgent: 'sdk',
+    });
+  });
+});
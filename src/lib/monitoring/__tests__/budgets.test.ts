@@ -0,0 +1,211 @@
+import { BudgetManager, getPeriodBounds } from '../budgets';
+import { BudgetExceededError, NotFoundError } from '../../utils/error-handler';
+
+jest.mock('../../database/client', () => ({
+  prisma: {
+    $executeRaw: jest.fn(),
+    user: { findUnique: jest.fn() },
+    prompt: { findFirst: jest.fn() },
+    budget: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    execution: { aggregate: jest.fn() },
+  },
+}));
+
+const { prisma } = require('../../database/client');
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const decimal = (value: number): { toNumber: () => number } => ({
+  toNumber: (): number => value,
+});
+
+// Spend per prompt id, '' for all of the user's executions, and the cost
+// reserved by those still waiting or running
+const mockSpend = (
+  spend: Record<string, number>,
+  reserved: Record<string, number> = {}
+): void => {
+  mockPrisma.execution.aggregate.mockImplementation(
+    async ({
+      where,
+      _sum,
+    }: {
+      where: { promptId?: string };
+      _sum: Record<string, boolean>;
+    }) =>
+      _sum.reservedCostUsd
+        ? {
+            _sum: {
+              reservedCostUsd: decimal(reserved[where.promptId ?? ''] ?? 0),
+            },
+          }
+        : { _sum: { costUsd: decimal(spend[where.promptId ?? ''] ?? 0) } }
+  );
+};
+
+describe('BudgetManager', () => {
+  let budgetManager: BudgetManager;
+
+  beforeEach(() => {
+    budgetManager = new BudgetManager();
+    jest.clearAllMocks();
+    mockPrisma.user.findUnique.mockResolvedValue({ plan: 'PRO' });
+    mockPrisma.budget.findMany.mockResolvedValue([]);
+  });
+
+  it('reports spend against plan caps and user budgets', async () => {
+    mockPrisma.budget.findMany.mockResolvedValue([
+      {
+        id: 'budget-1',
+        promptId: null,
+        period: 'DAILY',
+        limitUsd: decimal(5),
+        warnAtPercent: 50,
+      },
+    ]);
+    mockSpend({ '': 3 });
+
+    const status = await budgetManager.getStatus('user-1');
+
+    expect(status).toEqual([
+      expect.objectContaining({
+        budgetId: null,
+        period: 'MONTHLY',
+        limitUsd: 500,
+        spentUsd: 3,
+        percentUsed: 0.6,
+      }),
+      expect.objectContaining({
+        budgetId: 'budget-1',
+        period: 'DAILY',
+        limitUsd: 5,
+        spentUsd: 3,
+        percentUsed: 60,
+        warnAtPercent: 50,
+      }),
+    ]);
+  });
+
+  it('refuses executions that would exceed a prompt budget', async () => {
+    mockPrisma.budget.findMany.mockResolvedValue([
+      {
+        id: 'budget-1',
+        promptId: 'prompt-1',
+        period: 'DAILY',
+        limitUsd: decimal(1),
+        warnAtPercent: 80,
+      },
+    ]);
+    mockSpend({ '': 2, 'prompt-1': 0.95 });
+
+    await expect(
+      budgetManager.checkBudget('user-1', 'prompt-1', 0.1)
+    ).rejects.toThrow(BudgetExceededError);
+    expect(mockPrisma.execution.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ promptId: 'prompt-1' }),
+      })
+    );
+  });
+
+  it('warns once the estimated spend passes the soft limit', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ plan: 'FREE' });
+    mockSpend({ '': 0.8 });
+
+    const warnings = await budgetManager.checkBudget(
+      'user-1',
+      'prompt-1',
+      0.05
+    );
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ period: 'DAILY', limitUsd: 1 });
+    expect(warnings[0].spentUsd).toBeCloseTo(0.85);
+    expect(warnings[0].message).toContain('Daily plan budget 85.0% used');
+    // Spend was already at 80%, so this execution didn't cross the limit
+    expect(warnings[0].crossedThreshold).toBe(false);
+  });
+
+  it('counts the cost reserved by unfinished executions as spend', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ plan: 'FREE' });
+    mockSpend({ '': 0.5 }, { '': 0.45 });
+
+    await expect(
+      budgetManager.checkBudget('user-1', 'prompt-1', 0.1)
+    ).rejects.toThrow(BudgetExceededError);
+    expect(mockPrisma.execution.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          status: { in: ['PENDING', 'RUNNING'] },
+        }),
+        _sum: { reservedCostUsd: true },
+      })
+    );
+  });
+
+  it("locks the user's budgets before checking a reservation", async () => {
+    mockSpend({ '': 0.2 });
+
+    await budgetManager.reserve(prisma, 'user-1', 'prompt-1', 0.1);
+
+    expect(mockPrisma.$executeRaw).toHaveBeenCalled();
+    expect(mockPrisma.$executeRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      mockPrisma.execution.aggregate.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('replaces an existing budget for the same period', async () => {
+    mockPrisma.budget.findFirst.mockResolvedValue({ id: 'budget-1' });
+    mockPrisma.budget.update.mockResolvedValue({
+      id: 'budget-1',
+      promptId: null,
+      period: 'MONTHLY',
+      limitUsd: decimal(20),
+      warnAtPercent: 90,
+    });
+    mockSpend({});
+
+    const status = await budgetManager.setBudget('user-1', {
+      period: 'MONTHLY',
+      limitUsd: 20,
+      warnAtPercent: 90,
+    });
+
+    expect(mockPrisma.budget.create).not.toHaveBeenCalled();
+    expect(mockPrisma.budget.update).toHaveBeenCalledWith({
+      where: { id: 'budget-1' },
+      data: { limitUsd: 20, warnAtPercent: 90 },
+    });
+    expect(status).toMatchObject({ budgetId: 'budget-1', limitUsd: 20 });
+  });
+
+  it("rejects budgets on another user's prompt", async () => {
+    mockPrisma.prompt.findFirst.mockResolvedValue(null);
+
+    await expect(
+      budgetManager.setBudget('user-1', {
+        promptId: 'prompt-2',
+        period: 'DAILY',
+        limitUsd: 1,
+      })
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('computes UTC period bounds', () => {
+    const now = new Date('2026-03-31T23:30:00Z');
+
+    expect(getPeriodBounds('DAILY', now)).toEqual({
+      start: new Date('2026-03-31T00:00:00Z'),
+      end: new Date('2026-04-01T00:00:00Z'),
+    });
+    expect(getPeriodBounds('MONTHLY', now)).toEqual({
+      start: new Date('2026-03-01T00:00:00Z'),
+      end: new Date('2026-04-01T00:00:00Z'),
+    });
+  });
+});
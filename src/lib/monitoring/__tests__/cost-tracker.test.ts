@@ -91,6 +91,16 @@ describe('CostTracker', () => {
       expect(estimate.estimatedOutputTokens).toBe(50);
       expect(estimate.estimatedCost).toBeCloseTo(0.006, 4); // GPT-4 pricing
     });
+
+    it('should count tokens when given text', () => {
+      const estimate = costTracker.estimateExecutionCost(
+        'hello world',
+        'hello'
+      );
+
+      expect(estimate.estimatedInputTokens).toBe(2);
+      expect(estimate.estimatedOutputTokens).toBe(1);
+    });
   });
 
   describe('User Cost Metrics', () => {
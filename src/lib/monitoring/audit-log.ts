@@ -0,0 +1,308 @@
+import type { AuditEvent, Prisma, Prompt, Snippet } from '@prisma/client';
+import type { AuthUser } from '../auth/api-keys';
+import { hasPermission } from '../auth/access-control';
+import { prisma } from '../database/client';
+import {
+  serializeDataset,
+  type DatasetFormat,
+} from '../datasets/dataset-parser';
+import { getClientIp } from '../security/rate-limiter';
+import type { BudgetStatus } from './budgets';
+import { logger } from './logger';
+
+export type AuditAction =
+  | 'prompt.create'
+  | 'prompt.update'
+  | 'prompt.status_change'
+  | 'prompt.publish'
+  | 'prompt.rollback'
+  | 'prompt.delete'
+  | 'prompt.label_set'
+  | 'prompt.label_remove'
+  | 'prompt.branch_merge'
+  | 'prompt.version_delete'
+  | 'validation.create'
+  | 'validation.update'
+  | 'validation.delete'
+  | 'api_key.create'
+  | 'api_key.revoke'
+  | 'budget.set'
+  | 'budget.delete'
+  | 'workspace.create'
+  | 'workspace.update'
+  | 'workspace.delete'
+  | 'workspace.member_update'
+  | 'workspace.member_remove'
+  | 'workspace.invitation_create'
+  | 'workspace.invitation_revoke'
+  | 'workspace.invitation_accept'
+  | 'webhook.create'
+  | 'webhook.update'
+  | 'webhook.delete'
+  | 'snippet.create'
+  | 'snippet.update'
+  | 'snippet.delete';
+
+// Who made a change, and from where
+export interface AuditActor {
+  userId: string;
+  apiKeyId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  targetId?: string;
+  workspaceId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditQuery {
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  actorId?: string;
+  workspaceId?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+// Most events one export returns, newest first
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+const EXPORT_COLUMNS = [
+  'createdAt',
+  'action',
+  'targetType',
+  'targetId',
+  'actorId',
+  'apiKeyId',
+  'workspaceId',
+  'ipAddress',
+  'userAgent',
+  'before',
+  'after',
+];
+
+export function auditActor(request: Request, user: AuthUser): AuditActor {
+  return {
+    userId: user.id,
+    apiKeyId: user.apiKey?.id,
+    ipAddress: getClientIp(request.headers),
+    userAgent: request.headers.get('user-agent') ?? undefined,
+  };
+}
+
+/**
+ * The fields of a prompt an audit snapshot keeps
+ */
+export function promptSnapshot(
+  prompt: Pick<
+    Prompt,
+    | 'name'
+    | 'description'
+    | 'template'
+    | 'model'
+    | 'status'
+    | 'version'
+    | 'liveVersion'
+    | 'workspaceId'
+  > & { messages?: unknown; variables?: unknown }
+): Record<string, unknown> {
+  return {
+    name: prompt.name,
+    description: prompt.description,
+    template: prompt.template,
+    messages: prompt.messages,
+    variables: prompt.variables,
+    model: prompt.model,
+    status: prompt.status,
+    version: prompt.version,
+    liveVersion: prompt.liveVersion,
+    workspaceId: prompt.workspaceId,
+  };
+}
+
+/**
+ * The settings of a budget an audit snapshot keeps, without its spend
+ */
+export function budgetSnapshot(
+  budget: Pick<
+    BudgetStatus,
+    'promptId' | 'period' | 'limitUsd' | 'warnAtPercent'
+  >
+): Record<string, unknown> {
+  return {
+    promptId: budget.promptId,
+    period: budget.period,
+    limitUsd: budget.limitUsd,
+    warnAtPercent: budget.warnAtPercent,
+  };
+}
+
+/**
+ * The fields of a snippet an audit snapshot keeps
+ */
+export function snippetSnapshot(
+  snippet: Pick<Snippet, 'name' | 'description' | 'content' | 'version'>
+): Record<string, unknown> {
+  return {
+    name: snippet.name,
+    description: snippet.description,
+    content: snippet.content,
+    version: snippet.version,
+  };
+}
+
+/**
+ * Append-only audit trail of mutating actions. Events are never updated or
+ * deleted; users see their own, and workspace owners also see events on
+ * their workspace's prompts and settings.
+ */
+export class AuditLog {
+  /**
+   * Records an event after the change it describes has been made. Failing
+   * to record it is logged rather than failing the change.
+   */
+  public async record(
+    actor: AuditActor,
+    event: AuditEventInput
+  ): Promise<void> {
+    try {
+      await prisma.auditEvent.create({
+        data: {
+          action: event.action,
+          targetType: event.action.split('.')[0],
+          targetId: event.targetId,
+          workspaceId: event.workspaceId ?? undefined,
+          before: this.toJson(event.before),
+          after: this.toJson(event.after),
+          actorId: actor.userId,
+          apiKeyId: actor.apiKeyId,
+          ipAddress: actor.ipAddress,
+          userAgent: actor.userAgent,
+        },
+      });
+    } catch (error) {
+      await logger.error('Failed to record audit event', error, {
+        action: event.action,
+        targetId: event.targetId,
+        actorId: actor.userId,
+      });
+    }
+  }
+
+  /**
+   * Events the user may see, newest first
+   */
+  public async listEvents(
+    userId: string,
+    query: AuditQuery = {}
+  ): Promise<{
+    events: AuditEvent[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const { page = 1, limit = 50 } = query;
+    const where = await this.visibleTo(userId, query);
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return {
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * The events listEvents would return, unpaginated up to
+   * AUDIT_EXPORT_LIMIT, as CSV or JSONL
+   */
+  public async exportEvents(
+    userId: string,
+    query: AuditQuery,
+    format: DatasetFormat
+  ): Promise<string> {
+    const events = await prisma.auditEvent.findMany({
+      where: await this.visibleTo(userId, query),
+      orderBy: { createdAt: 'desc' },
+      take: AUDIT_EXPORT_LIMIT,
+    });
+
+    return serializeDataset(
+      events.map(event => ({
+        ...event,
+        createdAt: event.createdAt.toISOString(),
+      })),
+      EXPORT_COLUMNS,
+      format
+    );
+  }
+
+  private async visibleTo(
+    userId: string,
+    query: AuditQuery
+  ): Promise<Prisma.AuditEventWhereInput> {
+    const memberships = await prisma.membership.findMany({
+      where: { userId },
+      select: { workspaceId: true, role: true },
+    });
+    const managed = memberships
+      .filter(membership => hasPermission(membership.role, 'manage'))
+      .map(membership => membership.workspaceId);
+
+    return {
+      AND: [
+        {
+          OR: [
+            { actorId: userId },
+            ...(managed.length > 0 ? [{ workspaceId: { in: managed } }] : []),
+          ],
+        },
+        {
+          ...(query.action && { action: query.action }),
+          ...(query.targetType && { targetType: query.targetType }),
+          ...(query.targetId && { targetId: query.targetId }),
+          ...(query.actorId && { actorId: query.actorId }),
+          ...(query.workspaceId && { workspaceId: query.workspaceId }),
+          ...((query.from || query.to) && {
+            createdAt: {
+              ...(query.from && { gte: query.from }),
+              ...(query.to && { lt: query.to }),
+            },
+          }),
+        },
+      ],
+    };
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    if (value === undefined) return undefined;
+    // Round-trip so dates and decimals are stored as they serialize
+    return JSON.parse(JSON.stringify(value)) ?? undefined;
+  }
+}
+
+// Singleton instance
+export const auditLog = new AuditLog();
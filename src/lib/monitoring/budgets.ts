@@ -0,0 +1,342 @@
+import type { Budget, BudgetPeriod, Prisma, UserPlan } from '@prisma/client';
+import { promptAccess } from '../auth/access-control';
+import { prisma } from '../database/client';
+import type { QueuedExecutionJob } from '../execution/job-queue';
+import { llmClient } from '../providers/llm-client';
+import { tokenizer } from '../tokenizer/tokenizer';
+import { BudgetExceededError, NotFoundError } from '../utils/error-handler';
+import { costTracker } from './cost-tracker';
+
+// Spend caps that come with each plan, in USD. A user's own budgets can
+// tighten these but not lift them.
+export const PLAN_BUDGETS: Record<
+  UserPlan,
+  Partial<Record<BudgetPeriod, number>>
+> = {
+  FREE: { DAILY: 1, MONTHLY: 10 },
+  PRO: { MONTHLY: 500 },
+  ENTERPRISE: {},
+};
+
+const DEFAULT_WARN_AT_PERCENT = 80;
+
+// Namespace of the per-user advisory locks serializing reservations
+const RESERVE_LOCK_KEY = 7302;
+
+type Client = Prisma.TransactionClient;
+
+export interface BudgetStatus {
+  // Null for the caps that come with the plan
+  budgetId: string | null;
+  // Set for budgets on a single prompt
+  promptId: string | null;
+  period: BudgetPeriod;
+  limitUsd: number;
+  spentUsd: number;
+  percentUsed: number;
+  warnAtPercent: number;
+  resetsAt: Date;
+}
+
+// Budget past its soft limit once an execution's estimated cost is added
+export interface BudgetWarning extends BudgetStatus {
+  message: string;
+  // Whether this execution is the one taking it past the soft limit
+  crossedThreshold: boolean;
+}
+
+export interface SetBudgetInput {
+  promptId?: string;
+  period: BudgetPeriod;
+  limitUsd: number;
+  warnAtPercent?: number;
+}
+
+type BudgetLimit = Omit<BudgetStatus, 'spentUsd' | 'percentUsed' | 'resetsAt'>;
+
+/**
+ * Start and end of the UTC day or month containing `now`
+ */
+export function getPeriodBounds(
+  period: BudgetPeriod,
+  now = new Date()
+): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (period === 'DAILY') {
+    const day = now.getUTCDate();
+    return {
+      start: new Date(Date.UTC(year, month, day)),
+      end: new Date(Date.UTC(year, month, day + 1)),
+    };
+  }
+
+  return {
+    start: new Date(Date.UTC(year, month, 1)),
+    end: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+/**
+ * Daily and monthly spend caps, per user and per prompt, checked before an
+ * execution runs. Spend is the recorded cost of the executions created in
+ * the current UTC day or month, plus the estimated cost reserved by those
+ * still waiting or running.
+ */
+export class BudgetManager {
+  /**
+   * Status of the plan's caps and the user's budgets. With a prompt, only
+   * the budgets that apply to its executions.
+   */
+  public async getStatus(
+    userId: string,
+    promptId?: string,
+    client: Client = prisma
+  ): Promise<BudgetStatus[]> {
+    const [user, budgets] = await Promise.all([
+      client.user.findUnique({ where: { id: userId }, select: { plan: true } }),
+      client.budget.findMany({
+        where: {
+          userId,
+          ...(promptId && { OR: [{ promptId: null }, { promptId }] }),
+        },
+        orderBy: [{ promptId: 'asc' }, { period: 'asc' }],
+      }),
+    ]);
+
+    const planLimits = Object.entries(PLAN_BUDGETS[user?.plan ?? 'FREE']).map(
+      ([period, limitUsd]): BudgetLimit => ({
+        budgetId: null,
+        promptId: null,
+        period: period as BudgetPeriod,
+        limitUsd,
+        warnAtPercent: DEFAULT_WARN_AT_PERCENT,
+      })
+    );
+
+    return this.withSpend(
+      userId,
+      [...planLimits, ...budgets.map(budget => this.toLimit(budget))],
+      client
+    );
+  }
+
+  /**
+   * Creates or replaces the user's budget for a period, on all executions
+   * or on one prompt's
+   */
+  public async setBudget(
+    userId: string,
+    input: SetBudgetInput
+  ): Promise<BudgetStatus> {
+    const promptId = input.promptId ?? null;
+    if (promptId) {
+      const prompt = await prisma.prompt.findFirst({
+        where: { id: promptId, ...promptAccess(userId) },
+        select: { id: true },
+      });
+      if (!prompt) {
+        throw new NotFoundError('Prompt');
+      }
+    }
+
+    const data = {
+      limitUsd: input.limitUsd,
+      warnAtPercent: input.warnAtPercent ?? DEFAULT_WARN_AT_PERCENT,
+    };
+
+    // A null promptId never matches a unique constraint, so look it up
+    const existing = await prisma.budget.findFirst({
+      where: { userId, promptId, period: input.period },
+      select: { id: true },
+    });
+    const budget = existing
+      ? await prisma.budget.update({ where: { id: existing.id }, data })
+      : await prisma.budget.create({
+          data: { ...data, userId, promptId, period: input.period },
+        });
+
+    const [status] = await this.withSpend(userId, [this.toLimit(budget)]);
+    return status;
+  }
+
+  public async deleteBudget(userId: string, id: string): Promise<void> {
+    const result = await prisma.budget.deleteMany({ where: { id, userId } });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Budget');
+    }
+  }
+
+  /**
+   * Pre-flight check for executions of `promptId` estimated to cost
+   * `estimatedCostUsd` in total. Throws a BudgetExceededError if they
+   * would take spend past any budget, and otherwise returns the budgets
+   * they take past their soft limit.
+   */
+  public async checkBudget(
+    userId: string,
+    promptId: string,
+    estimatedCostUsd: number,
+    client: Client = prisma
+  ): Promise<BudgetWarning[]> {
+    const statuses = await this.getStatus(userId, promptId, client);
+    const warnings: BudgetWarning[] = [];
+
+    for (const status of statuses) {
+      const projectedUsd = status.spentUsd + estimatedCostUsd;
+      const label = this.describe(status);
+
+      if (projectedUsd > status.limitUsd) {
+        throw new BudgetExceededError(
+          `${label} of $${status.limitUsd.toFixed(2)} would be exceeded ($${status.spentUsd.toFixed(4)} spent, this execution is estimated at $${estimatedCostUsd.toFixed(4)})`,
+          { ...status, estimatedCostUsd }
+        );
+      }
+
+      const percentUsed = this.percentOf(projectedUsd, status.limitUsd);
+      if (percentUsed >= status.warnAtPercent) {
+        warnings.push({
+          ...status,
+          spentUsd: projectedUsd,
+          percentUsed,
+          message: `${label} ${percentUsed.toFixed(1)}% used ($${projectedUsd.toFixed(4)} of $${status.limitUsd.toFixed(2)})`,
+          crossedThreshold: status.percentUsed < status.warnAtPercent,
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * checkBudget() for use inside the transaction that records the
+   * reservation, by setting `reservedCostUsd` on the executions. Holds a
+   * lock on the user's budgets until the transaction ends, so two
+   * reservations can't both take the last of a budget.
+   */
+  public async reserve(
+    tx: Client,
+    userId: string,
+    promptId: string,
+    estimatedCostUsd: number
+  ): Promise<BudgetWarning[]> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${RESERVE_LOCK_KEY}::int, hashtext(${userId}))`;
+    return this.checkBudget(userId, promptId, estimatedCostUsd, tx);
+  }
+
+  /**
+   * Checks the budgets and reserves the estimated cost of an execution
+   * that has not been queued yet
+   */
+  public async reserveExecution(
+    userId: string,
+    promptId: string,
+    executionId: string,
+    estimatedCostUsd: number
+  ): Promise<BudgetWarning[]> {
+    return prisma.$transaction(async tx => {
+      const warnings = await this.reserve(
+        tx,
+        userId,
+        promptId,
+        estimatedCostUsd
+      );
+      await tx.execution.update({
+        where: { id: executionId },
+        data: { reservedCostUsd: estimatedCostUsd },
+      });
+      return warnings;
+    });
+  }
+
+  /**
+   * Cost of a queued job if it uses its full maxTokens of output
+   */
+  public estimateJobCost(job: QueuedExecutionJob): number {
+    const defaults = llmClient.getDefaultConfig();
+    const model = job.config.model || defaults.model;
+
+    return costTracker.calculateProviderCost(
+      {
+        inputTokens: tokenizer.countMessageTokens(job.messages, model),
+        outputTokens: job.config.maxTokens || defaults.maxTokens,
+      },
+      model
+    );
+  }
+
+  private async withSpend(
+    userId: string,
+    limits: BudgetLimit[],
+    client: Client = prisma
+  ): Promise<BudgetStatus[]> {
+    const now = new Date();
+
+    // Budgets on the same period and prompt share one spend query
+    const spendByScope = new Map<string, Promise<number>>();
+    const spendFor = (limit: BudgetLimit): Promise<number> => {
+      const scope = `${limit.period}:${limit.promptId ?? ''}`;
+      let spend = spendByScope.get(scope);
+      if (!spend) {
+        const where = {
+          userId,
+          ...(limit.promptId && { promptId: limit.promptId }),
+          createdAt: { gte: getPeriodBounds(limit.period, now).start },
+        };
+        // Executions record their cost as they finish
+        spend = Promise.all([
+          client.execution.aggregate({ where, _sum: { costUsd: true } }),
+          client.execution.aggregate({
+            where: { ...where, status: { in: ['PENDING', 'RUNNING'] } },
+            _sum: { reservedCostUsd: true },
+          }),
+        ]).then(
+          ([recorded, reserved]) =>
+            (recorded._sum.costUsd?.toNumber() ?? 0) +
+            (reserved._sum.reservedCostUsd?.toNumber() ?? 0)
+        );
+        spendByScope.set(scope, spend);
+      }
+      return spend;
+    };
+
+    return Promise.all(
+      limits.map(async limit => {
+        const spentUsd = await spendFor(limit);
+        return {
+          ...limit,
+          spentUsd,
+          percentUsed: this.percentOf(spentUsd, limit.limitUsd),
+          resetsAt: getPeriodBounds(limit.period, now).end,
+        };
+      })
+    );
+  }
+
+  private toLimit(budget: Budget): BudgetLimit {
+    return {
+      budgetId: budget.id,
+      promptId: budget.promptId,
+      period: budget.period,
+      limitUsd: budget.limitUsd.toNumber(),
+      warnAtPercent: budget.warnAtPercent,
+    };
+  }
+
+  private describe(status: BudgetStatus): string {
+    const period = status.period === 'DAILY' ? 'Daily' : 'Monthly';
+    if (status.budgetId === null) return `${period} plan budget`;
+    return status.promptId
+      ? `${period} budget for this prompt`
+      : `${period} budget`;
+  }
+
+  private percentOf(spentUsd: number, limitUsd: number): number {
+    return limitUsd > 0 ? (spentUsd / limitUsd) * 100 : 100;
+  }
+}
+
+// Singleton instance
+export const budgetManager = new BudgetManager();
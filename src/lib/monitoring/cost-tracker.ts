@@ -1,6 +1,8 @@
 import { prisma } from '../database/client';
 import { Prisma } from '@prisma/client';
 import { openAIConfig } from '../config/openai';
+import { tokenizer } from '../tokenizer/tokenizer';
+import { providerRegistry } from '../providers/registry';
 import type { TokenUsage } from '../../types/database';
 
 export interface CostMetrics {
@@ -117,6 +119,23 @@ export class CostTracker {
     );
   }
 
+  /**
+   * Cost of a completion from any registered provider. Models without
+   * known pricing, typically self-hosted ones, cost nothing.
+   */
+  public calculateProviderCost(
+    tokens: { inputTokens: number; outputTokens: number },
+    modelRef: string
+  ): number {
+    const pricing = providerRegistry.getPricing(modelRef);
+    if (!pricing) return 0;
+
+    return (
+      (tokens.inputTokens * pricing.input) / 1000 +
+      (tokens.outputTokens * pricing.output) / 1000
+    );
+  }
+
   public async trackExecution(
     executionId: string,
     cost: number,
@@ -598,25 +617,35 @@ export class CostTracker {
       .slice(0, limit);
   }
 
+  /**
+   * Estimates cost from the prompt and expected output. Text is counted
+   * with the model's tokenizer; bare character lengths fall back to the
+   * usual ~4 characters per token.
+   */
   public estimateExecutionCost(
-    templateLength: number,
-    expectedOutputLength: number,
+    input: string | number,
+    expectedOutput: string | number,
     model = 'gpt-3.5-turbo'
   ): {
     estimatedInputTokens: number;
     estimatedOutputTokens: number;
     estimatedCost: number;
   } {
-    // Rough token estimation (1 token ≈ 4 characters for English text)
-    const estimatedInputTokens = Math.ceil(templateLength / 4);
-    const estimatedOutputTokens = Math.ceil(expectedOutputLength / 4);
-
-    const modelCosts = this.getConfiguredModelCosts();
-    const costs = modelCosts[model] || modelCosts['gpt-3.5-turbo'];
-
-    const estimatedCost =
-      (estimatedInputTokens * costs.input) / 1000 +
-      (estimatedOutputTokens * costs.output) / 1000;
+    const estimateTokens = (text: string | number): number =>
+      typeof text === 'string'
+        ? tokenizer.countTokens(text, model)
+        : Math.ceil(text / 4);
+
+    const estimatedInputTokens = estimateTokens(input);
+    const estimatedOutputTokens = estimateTokens(expectedOutput);
+
+    const estimatedCost = this.calculateProviderCost(
+      {
+        inputTokens: estimatedInputTokens,
+        outputTokens: estimatedOutputTokens,
+      },
+      model
+    );
 
     return {
       estimatedInputTokens,
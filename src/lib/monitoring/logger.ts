@@ -143,7 +143,7 @@ export class Logger {
   public async logExecutionComplete(
     executionId: string,
     data: {
-      status: 'COMPLETED' | 'FAILED';
+      status: 'COMPLETED' | 'FAILED' | 'CANCELLED';
       latencyMs: number;
       tokenUsage?: {
         input: number;
@@ -155,7 +155,12 @@ export class Logger {
       error?: string;
     }
   ): Promise<void> {
-    const level = data.status === 'COMPLETED' ? 'INFO' : 'ERROR';
+    const level =
+      data.status === 'COMPLETED'
+        ? 'INFO'
+        : data.status === 'CANCELLED'
+          ? 'WARN'
+          : 'ERROR';
     const message = `Execution ${data.status.toLowerCase()}`;
 
     await this.log({
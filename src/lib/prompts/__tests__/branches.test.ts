@@ -0,0 +1,127 @@
+import { prisma } from '@/lib/database/client';
+import { ConflictError } from '@/lib/utils/error-handler';
+import { PromptBranchManager } from '../branches';
+import { promptVersionManager } from '../versioning';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    prompt: { findUniqueOrThrow: jest.fn() },
+    promptBranch: { findFirst: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('../versioning', () => ({
+  promptVersionManager: {
+    getVersion: jest.fn(),
+    createVersion: jest.fn(),
+  },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const mockPrisma = prisma as unknown as {
+  prompt: MockModel;
+  promptBranch: MockModel;
+};
+const mockVersions = promptVersionManager as unknown as Record<
+  string,
+  jest.Mock
+>;
+
+describe('PromptBranchManager', () => {
+  const variable = { name: 'name', type: 'string', required: true };
+  const base = {
+    version: 2,
+    template: 'Hello {{name}}.\nHow can I help?',
+    messages: [],
+    variables: [variable],
+  };
+  const prompt = {
+    id: 'prompt-1',
+    version: 3,
+    template: 'Hi {{name}}.\nHow can I help?',
+    messages: [],
+    variables: [variable],
+  };
+  const branch = {
+    id: 'branch-1',
+    promptId: 'prompt-1',
+    name: 'friendlier',
+    baseVersion: 2,
+    template: 'Hello {{name}}.\nHow can I help you today?',
+    messages: [],
+    variables: [variable],
+    mergedAt: null,
+    mergedVersion: null,
+  };
+  let manager: PromptBranchManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new PromptBranchManager();
+    mockPrisma.prompt.findUniqueOrThrow.mockResolvedValue(prompt);
+    mockVersions.getVersion.mockResolvedValue(base);
+  });
+
+  it('should merge changes made on both sides since the base', async () => {
+    mockPrisma.promptBranch.findFirst.mockResolvedValueOnce(branch);
+    mockVersions.createVersion.mockResolvedValueOnce({
+      prompt: { ...prompt, version: 4 },
+      newVersion: { id: 'version-4', version: 4 },
+      versionNumber: 4,
+    });
+
+    await manager.mergeBranch('prompt-1', 'user-1', 'friendlier');
+
+    expect(mockVersions.createVersion).toHaveBeenCalledWith(
+      'prompt-1',
+      'user-1',
+      expect.objectContaining({
+        template: 'Hi {{name}}.\nHow can I help you today?',
+        changeLog: 'Merged branch friendlier',
+        expectedVersion: 3,
+      })
+    );
+    expect(mockPrisma.promptBranch.update).toHaveBeenCalledWith({
+      where: { id: 'branch-1' },
+      data: { mergedAt: expect.any(Date), mergedVersion: 4 },
+    });
+  });
+
+  it('should refuse to merge conflicting changes', async () => {
+    mockPrisma.promptBranch.findFirst.mockResolvedValueOnce({
+      ...branch,
+      template: 'Hey {{name}}.\nHow can I help?',
+      variables: [{ ...variable, required: false }],
+    });
+    mockPrisma.prompt.findUniqueOrThrow.mockResolvedValueOnce({
+      ...prompt,
+      variables: [{ ...variable, defaultValue: 'there' }],
+    });
+
+    const error = await manager
+      .mergeBranch('prompt-1', 'user-1', 'friendlier')
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.details).toMatchObject({ baseVersion: 2, currentVersion: 3 });
+    expect(
+      error.details.conflicts.map(
+        (conflict: { field: string }) => conflict.field
+      )
+    ).toEqual(['template', 'variables']);
+    expect(error.details.merged.template).toContain('<<<<<<< v3');
+    expect(mockVersions.createVersion).not.toHaveBeenCalled();
+  });
+
+  it('should not merge a branch twice', async () => {
+    mockPrisma.promptBranch.findFirst.mockResolvedValueOnce({
+      ...branch,
+      mergedAt: new Date(),
+      mergedVersion: 4,
+    });
+
+    await expect(
+      manager.mergeBranch('prompt-1', 'user-1', 'friendlier')
+    ).rejects.toThrow(ConflictError);
+  });
+});
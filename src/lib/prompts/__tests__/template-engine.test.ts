@@ -0,0 +1,579 @@
+import { TemplateEngine } from '../template-engine';
+import { compileTemplate } from '../template-compiler';
+import { TemplateSyntaxError } from '../template-parser';
+import type { VariableDefinition } from '../../../types/database';
+
+describe('TemplateEngine', () => {
+  let engine: TemplateEngine;
+
+  beforeEach(() => {
+    engine = new TemplateEngine();
+  });
+
+  describe('Variable Substitution', () => {
+    it('should substitute simple and nested variables', () => {
+      const output = engine.render('Hi {{ user.name }} from {{team}}', {
+        user: { name: 'Ada' },
+        team: 'core',
+      });
+
+      expect(output).toBe('Hi Ada from core');
+    });
+
+    it('should render missing values as empty strings', () => {
+      expect(engine.render('[{{missing.deep}}]', {})).toBe('[]');
+    });
+
+    it('should format arrays and objects', () => {
+      const output = engine.render('{{list}} {{obj}}', {
+        list: ['a', 'b'],
+        obj: { a: 1 },
+      });
+
+      expect(output).toBe('a, b {"a":1}');
+    });
+
+    it('should keep escaped braces literal', () => {
+      expect(engine.render('\\{{name}}', { name: 'x' })).toBe('{{name}}');
+    });
+  });
+
+  describe('Blocks', () => {
+    it('should iterate arrays with @index and strip standalone lines', () => {
+      const template = [
+        'Points:',
+        '{{#each points}}',
+        '{{@index}}. {{this}}',
+        '{{/each}}',
+        'Done',
+      ].join('\n');
+
+      expect(engine.render(template, { points: ['a', 'b'] })).toBe(
+        'Points:\n0. a\n1. b\nDone'
+      );
+    });
+
+    it('should resolve outer variables inside loops', () => {
+      const output = engine.render(
+        '{{#each items}}{{name}}@{{store}}{{#unless @last}}, {{/unless}}{{/each}}',
+        { store: 'main', items: [{ name: 'x' }, { name: 'y' }] }
+      );
+
+      expect(output).toBe('x@main, y@main');
+    });
+
+    it('should iterate object entries with @key', () => {
+      const output = engine.render(
+        '{{#each scores}}{{@key}}={{this}};{{/each}}',
+        {
+          scores: { a: 1, b: 2 },
+        }
+      );
+
+      expect(output).toBe('a=1;b=2;');
+    });
+
+    it('should render else branches for empty loops', () => {
+      expect(
+        engine.render('{{#each items}}x{{else}}none{{/each}}', { items: [] })
+      ).toBe('none');
+    });
+
+    it('should support if / else if / else chains', () => {
+      const template =
+        '{{#if a}}A{{else if b}}B{{else unless c}}notC{{else}}C{{/if}}';
+
+      expect(engine.render(template, { a: true })).toBe('A');
+      expect(engine.render(template, { b: true })).toBe('B');
+      expect(engine.render(template, {})).toBe('notC');
+      expect(engine.render(template, { c: true })).toBe('C');
+    });
+
+    it('should treat empty arrays as falsy', () => {
+      expect(
+        engine.render('{{#if list}}yes{{else}}no{{/if}}', { list: [] })
+      ).toBe('no');
+    });
+
+    it('should ignore comments', () => {
+      expect(engine.render('a{{! note }}b{{!-- }} --}}c', {})).toBe('abc');
+    });
+  });
+
+  describe('Filters', () => {
+    it('should apply filters left to right', () => {
+      expect(
+        engine.render('{{ text | truncate:8 | upper }}', {
+          text: 'hello wonderful world',
+        })
+      ).toBe('HELLO...');
+    });
+
+    it('should accept quoted arguments containing separators', () => {
+      expect(
+        engine.render('{{ tags | join:" | " }}', { tags: ['a', 'b', 'c'] })
+      ).toBe('a | b | c');
+      expect(engine.render("{{ note | default:'n/a: none' }}", {})).toBe(
+        'n/a: none'
+      );
+    });
+
+    it('should resolve variable arguments', () => {
+      expect(
+        engine.render('{{ name | default:fallback }}', { fallback: 'anon' })
+      ).toBe('anon');
+      expect(
+        engine.extractVariables('{{ name | default:fallback | upper }}')
+      ).toEqual(['name', 'fallback']);
+    });
+
+    it('should format structured values', () => {
+      const data = { items: ['one', 'two'], user: { name: 'Ada', tags: [] } };
+
+      expect(engine.render('{{ user | json:0 }}', data)).toBe(
+        '{"name":"Ada","tags":[]}'
+      );
+      expect(engine.render('{{ items | bullet-list }}', data)).toBe(
+        '- one\n- two'
+      );
+      expect(
+        engine.render('{{ data | yaml }}', {
+          data: { name: 'Ada', note: 'a: b', list: [1, { x: true }] },
+        })
+      ).toBe('name: Ada\nnote: "a: b"\nlist:\n  - 1\n  - x: true');
+    });
+
+    it('should escape markdown', () => {
+      expect(engine.render('{{ t | escape-markdown }}', { t: '*a* [b]' })).toBe(
+        '\\*a\\* \\[b\\]'
+      );
+    });
+
+    it('should truncate by estimated tokens at word boundaries', () => {
+      expect(
+        engine.render('{{ t | token-truncate:3 }}', {
+          t: 'alpha beta gamma delta',
+        })
+      ).toBe('alpha beta...');
+    });
+
+    it('should report unknown filters from validateTemplate', () => {
+      expect(() => engine.validateTemplate('Hi\n{{ name | shout }}')).toThrow(
+        /Unknown filter "shout".*\(line 2, column 1\)/
+      );
+    });
+
+    it('should report wrong filter arity', () => {
+      expect(() => engine.validateTemplate('{{ name | truncate }}')).toThrow(
+        /Filter "truncate" expects 1-2 argument\(s\), got 0/
+      );
+    });
+
+    it('should report invalid filter arguments at render time', () => {
+      expect(() =>
+        engine.render('{{ name | truncate:"long" }}', { name: 'x' })
+      ).toThrow(/Filter "truncate" failed/);
+    });
+  });
+
+  describe('Partials', () => {
+    it('should render partials with the current scope', () => {
+      const output = engine.render(
+        '{{#each users}}{{> greeting}}{{/each}}',
+        { users: [{ name: 'A' }, { name: 'B' }] },
+        { partials: { greeting: 'Hi {{name}}! ' } }
+      );
+
+      expect(output).toBe('Hi A! Hi B! ');
+    });
+
+    it('should reject partials that include themselves at render time', () => {
+      expect(() =>
+        engine.render(
+          '{{> a}}',
+          {},
+          { partials: { a: 'x {{> b}}', b: '{{> a}}' } }
+        )
+      ).toThrow(/Circular partial reference: a -> b -> a/);
+    });
+
+    it('should resolve nested partials in dependency order', () => {
+      expect(
+        engine.resolvePartials('{{> outer}} {{> missing}}', {
+          outer: '{{> inner}}',
+          inner: 'text',
+          unused: 'x',
+        })
+      ).toEqual(['inner', 'outer']);
+    });
+
+    it('should detect include cycles before rendering', () => {
+      expect(() =>
+        engine.resolvePartials('{{> a}}', {
+          a: '{{#if x}}{{> b}}{{/if}}',
+          b: '{{> c}}',
+          c: '{{> a}}',
+        })
+      ).toThrow('Circular partial reference: a -> b -> c -> a');
+    });
+
+    it('should report unknown partials with their position', () => {
+      expect(() => engine.render('line\n  {{> missing}}', {})).toThrow(
+        /Unknown partial "missing" \(line 2, column 3\)/
+      );
+    });
+  });
+
+  describe('Syntax Errors', () => {
+    const expectSyntaxError = (
+      template: string,
+      line: number,
+      column: number
+    ): void => {
+      try {
+        engine.validateTemplate(template);
+        throw new Error('Expected a syntax error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TemplateSyntaxError);
+        expect((error as TemplateSyntaxError).line).toBe(line);
+        expect((error as TemplateSyntaxError).column).toBe(column);
+      }
+    };
+
+    it('should report unclosed blocks at the opening tag', () => {
+      expectSyntaxError('Hello\n{{#each items}}\n{{this}}', 2, 1);
+    });
+
+    it('should report mismatched closing tags', () => {
+      expectSyntaxError('{{#if a}}\n  x {{/each}}', 2, 5);
+    });
+
+    it('should report unterminated tags', () => {
+      expectSyntaxError('ok {{name', 1, 4);
+    });
+
+    it('should report invalid variable names', () => {
+      expectSyntaxError('{{ 1abc }}', 1, 1);
+    });
+
+    it('should report unknown block helpers', () => {
+      expectSyntaxError('\n\n   {{#with user}}{{/with}}', 3, 4);
+    });
+  });
+
+  describe('processTemplate', () => {
+    const definitions: VariableDefinition[] = [
+      { name: 'name', type: 'string', required: true },
+      { name: 'tone', type: 'string', required: false, defaultValue: 'calm' },
+      { name: 'count', type: 'number', required: false },
+    ];
+
+    it('should apply defaults and coerce types', () => {
+      const result = engine.processTemplate(
+        '{{name}} is {{tone}} x{{count}}',
+        { name: 'Bo', count: '3' },
+        definitions
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.processedTemplate).toBe('Bo is calm x3');
+    });
+
+    it('should report missing required variables', () => {
+      const result = engine.processTemplate('{{name}}', {}, definitions);
+
+      expect(result.isValid).toBe(false);
+      expect(result.missingVariables).toEqual(['name']);
+    });
+
+    it('should extract root variables, including names in loop bodies', () => {
+      expect(
+        engine.extractVariables(
+          '{{a}} {{#each list}}{{inner}} {{this.x}} {{@index}}{{/each}} {{#if b.c}}{{d}}{{/if}}'
+        )
+      ).toEqual(['a', 'list', 'inner', 'b', 'd']);
+    });
+
+    it('should apply defaults to root variables used only in loops', () => {
+      const result = engine.processTemplate(
+        '{{#each tags}}#{{this}}{{suffix}} {{/each}}',
+        { tags: ['news', 'tech'] },
+        [
+          { name: 'tags', type: 'array', required: true },
+          {
+            name: 'suffix',
+            type: 'string',
+            required: false,
+            defaultValue: '!',
+          },
+        ]
+      );
+
+      expect(result.processedTemplate).toBe('#news! #tech! ');
+    });
+  });
+
+  describe('Chat Messages', () => {
+    const definitions: VariableDefinition[] = [
+      { name: 'topic', type: 'string', required: true },
+      { name: 'tone', type: 'string', required: false, defaultValue: 'calm' },
+    ];
+
+    it('should render messages before the template as the last user turn', () => {
+      const result = engine.processTemplate(
+        'Explain {{topic}}',
+        { topic: 'tides' },
+        definitions,
+        {
+          messages: [
+            { role: 'system', content: 'Be {{tone}}.' },
+            { role: 'user', content: 'Explain rain' },
+            { role: 'assistant', content: 'Water falls.' },
+          ],
+        }
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.processedTemplate).toBe('Explain tides');
+      expect(result.messages).toEqual([
+        { role: 'system', content: 'Be calm.' },
+        { role: 'user', content: 'Explain rain' },
+        { role: 'assistant', content: 'Water falls.' },
+        { role: 'user', content: 'Explain tides' },
+      ]);
+    });
+
+    it('should send a plain template as a single user message', () => {
+      const result = engine.processTemplate(
+        'Explain {{topic}}',
+        { topic: 'tides' },
+        definitions
+      );
+
+      expect(result.messages).toEqual([
+        { role: 'user', content: 'Explain tides' },
+      ]);
+    });
+
+    it('should report syntax errors inside message templates', () => {
+      expect(() =>
+        engine.processTemplate('{{topic}}', { topic: 'x' }, definitions, {
+          messages: [{ role: 'system', content: '{{#if tone}}open' }],
+        })
+      ).toThrow(TemplateSyntaxError);
+    });
+
+    it('should render messages with partials', () => {
+      expect(
+        engine.renderMessages(
+          '{{q}}',
+          [{ role: 'system', content: '{{> persona}}' }],
+          { q: 'Hi', name: 'Ada' },
+          { partials: { persona: 'You are {{name}}.' } }
+        )
+      ).toEqual([
+        { role: 'system', content: 'You are Ada.' },
+        { role: 'user', content: 'Hi' },
+      ]);
+    });
+  });
+
+  describe('Variable Types', () => {
+    const validate = (
+      definition: VariableDefinition,
+      value: unknown
+    ): ReturnType<TemplateEngine['processTemplate']> =>
+      engine.processTemplate(
+        `{{ ${definition.name} | json:0 }}`,
+        {
+          [definition.name]: value,
+        },
+        [definition]
+      );
+
+    it('should parse and constrain arrays', () => {
+      const definition: VariableDefinition = {
+        name: 'scores',
+        type: 'array',
+        required: true,
+        constraints: { itemType: 'number', max: 3 },
+      };
+
+      expect(validate(definition, '1\n2\n').processedTemplate).toBe('[1,2]');
+      expect(validate(definition, [1, 2, 3, 4]).invalidVariables).toEqual([
+        {
+          name: 'scores',
+          message: 'Array must contain at most 3 element(s)',
+        },
+      ]);
+    });
+
+    it('should validate objects against their schema', () => {
+      const definition: VariableDefinition = {
+        name: 'user',
+        type: 'object',
+        required: true,
+        schema: {
+          type: 'object',
+          required: ['id'],
+          properties: { id: { type: 'number' } },
+        },
+      };
+
+      expect(validate(definition, '{"id": 7}').processedTemplate).toBe(
+        '{"id":7}'
+      );
+      expect(validate(definition, { id: 'x' }).invalidVariables[0]).toEqual({
+        name: 'user',
+        message: 'id: Expected number, received string',
+      });
+    });
+
+    it('should enforce enum options, dates and string constraints', () => {
+      expect(
+        validate(
+          { name: 'tone', type: 'enum', required: true, options: ['calm'] },
+          'loud'
+        ).invalidVariables[0].message
+      ).toBe('Must be one of: calm');
+
+      const date: VariableDefinition = {
+        name: 'due',
+        type: 'date',
+        required: true,
+        constraints: { minDate: '2024-01-01' },
+      };
+      expect(validate(date, '2024-02-30x').isValid).toBe(false);
+      expect(validate(date, '2023-12-31').isValid).toBe(false);
+      expect(validate(date, '2024-06-01').isValid).toBe(true);
+
+      const code: VariableDefinition = {
+        name: 'code',
+        type: 'string',
+        required: true,
+        constraints: { pattern: '^[A-Z]{3}$', maxLength: 3 },
+      };
+      expect(validate(code, 'ABC').isValid).toBe(true);
+      expect(validate(code, 'abcd').invalidVariables[0].message).toContain(
+        'Must match ^[A-Z]{3}$'
+      );
+    });
+
+    it('should check file type and size', () => {
+      const definition: VariableDefinition = {
+        name: 'doc',
+        type: 'file',
+        required: true,
+        constraints: { accept: ['text/*'], maxSizeBytes: 10 },
+      };
+      const file = {
+        name: 'a.txt',
+        type: 'text/plain',
+        size: 4,
+        content: 'abcd',
+      };
+
+      expect(validate(definition, file).isValid).toBe(true);
+      expect(
+        validate(definition, { ...file, type: 'image/png' }).invalidVariables[0]
+          .message
+      ).toBe('File type must be one of: text/*');
+      expect(validate(definition, { ...file, size: 11 }).isValid).toBe(false);
+    });
+
+    it('should reject inconsistent definitions', () => {
+      expect(() =>
+        engine.validateVariableDefinition({
+          name: 'tone',
+          type: 'enum',
+          required: false,
+        })
+      ).toThrow('Enum variables need at least one option');
+      expect(() =>
+        engine.validateVariableDefinition({
+          name: 'n',
+          type: 'number',
+          required: false,
+          defaultValue: 20,
+          constraints: { min: 1, max: 10 },
+        })
+      ).toThrow(/Invalid default value/);
+    });
+
+    it('should pick form widgets from the declared type', () => {
+      const fields = engine.generateVariableForm([
+        { name: 'a', type: 'string', required: true },
+        { name: 'b', type: 'long-text', required: true, description: 'x' },
+        { name: 'c', type: 'date', required: false },
+        { name: 'd', type: 'json', required: false },
+        { name: 'e', type: 'enum', required: false, options: ['x'] },
+        { name: 'f', type: 'array', required: false },
+      ]);
+
+      expect(fields.map(field => field.type)).toEqual([
+        'text',
+        'textarea',
+        'date',
+        'json',
+        'select',
+        'list',
+      ]);
+    });
+  });
+
+  describe('Context Window', () => {
+    const definitions: VariableDefinition[] = [
+      { name: 'doc', type: 'long-text', required: true },
+      { name: 'note', type: 'string', required: false },
+    ];
+    const longDoc = 'word '.repeat(3000);
+
+    it('should report prompts that do not fit', () => {
+      const { usage, truncatedVariables } = engine.fitToContextWindow(
+        'Summarize: {{doc}}',
+        { doc: longDoc },
+        definitions,
+        { model: 'gpt-4', maxTokens: 6000, overflow: 'reject' }
+      );
+
+      expect(usage.fits).toBe(false);
+      expect(usage.contextWindow).toBe(8192);
+      expect(truncatedVariables).toEqual([]);
+    });
+
+    it('should truncate the largest text input until it fits', () => {
+      const { result, usage, truncatedVariables } = engine.fitToContextWindow(
+        'Summarize: {{doc}} ({{note}})',
+        { doc: longDoc, note: 'short' },
+        definitions,
+        { model: 'gpt-4', maxTokens: 6000, overflow: 'truncate' }
+      );
+
+      expect(usage.fits).toBe(true);
+      expect(usage.promptTokens + 6000).toBeLessThanOrEqual(8192);
+      expect(truncatedVariables).toEqual(['doc']);
+      expect(result.processedTemplate).toContain('(short)');
+    });
+
+    it('should count preview tokens with the model encoding', () => {
+      const preview = engine.previewTemplate(
+        'Summarize: {{doc}}',
+        { doc: longDoc },
+        definitions,
+        { model: 'gpt-4' }
+      );
+
+      expect(preview.contextWindow).toBe(8192);
+      expect(preview.estimatedTokens).toBeGreaterThan(3000);
+      expect(preview.warnings).toEqual([]);
+    });
+  });
+
+  describe('Compilation Cache', () => {
+    it('should reuse compiled templates', () => {
+      expect(compileTemplate('{{x}} cached')).toBe(
+        compileTemplate('{{x}} cached')
+      );
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  diffLines,
+  diffSequences,
+  diffWords,
+  formatUnifiedDiff,
+  mergeSequences,
+  mergeText,
+} from '../text-diff';
+
+describe('diffSequences', () => {
+  it('should find a shortest edit script', () => {
+    const ops = diffSequences('ABCABBA'.split(''), 'CBABAC'.split(''));
+
+    // The classic Myers example needs five edits
+    expect(ops.filter(op => op.type !== 'equal')).toHaveLength(5);
+    expect(
+      ops
+        .filter(op => op.type !== 'insert')
+        .map(op => op.value)
+        .join('')
+    ).toBe('ABCABBA');
+    expect(
+      ops
+        .filter(op => op.type !== 'delete')
+        .map(op => op.value)
+        .join('')
+    ).toBe('CBABAC');
+  });
+
+  it('should handle empty sequences', () => {
+    expect(diffSequences([], [])).toEqual([]);
+    expect(diffSequences([], ['a'])).toEqual([{ type: 'insert', value: 'a' }]);
+    expect(diffSequences(['a'], [])).toEqual([{ type: 'delete', value: 'a' }]);
+  });
+});
+
+describe('diffWords', () => {
+  it('should mark only the changed words', () => {
+    const words = diffWords(
+      'Summarize the text briefly.',
+      'Summarize the text in detail.'
+    );
+
+    expect(words.old).toEqual([
+      { type: 'equal', text: 'Summarize the text ' },
+      { type: 'delete', text: 'briefly' },
+      { type: 'equal', text: '.' },
+    ]);
+    expect(words.new).toEqual([
+      { type: 'equal', text: 'Summarize the text ' },
+      { type: 'insert', text: 'in detail' },
+      { type: 'equal', text: '.' },
+    ]);
+  });
+});
+
+describe('diffLines', () => {
+  const oldText = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n');
+
+  it('should align unchanged lines around insertions', () => {
+    const diff = diffLines('one\ntwo\nthree', 'zero\none\ntwo\nthree');
+
+    expect(diff).toMatchObject({ additions: 1, deletions: 0 });
+    expect(diff.hunks[0].lines.map(line => line.type)).toEqual([
+      'add',
+      'context',
+      'context',
+      'context',
+    ]);
+  });
+
+  it('should group changes into hunks with context', () => {
+    const newText = oldText.replace('b', 'B').replace('j', 'J');
+    const diff = diffLines(oldText, newText, { context: 1 });
+
+    expect(diff.hunks).toHaveLength(2);
+    expect(diff.hunks[0]).toMatchObject({
+      oldStart: 1,
+      oldLines: 3,
+      newStart: 1,
+      newLines: 3,
+    });
+    expect(diff.hunks[1]).toMatchObject({
+      oldStart: 9,
+      oldLines: 2,
+      newStart: 9,
+      newLines: 2,
+    });
+    expect(diff.hunks[0].lines[1]).toMatchObject({
+      type: 'remove',
+      content: 'b',
+      oldNumber: 2,
+      segments: [{ type: 'delete', text: 'b' }],
+    });
+    expect(diff.hunks[0].lines[2]).toMatchObject({
+      type: 'add',
+      content: 'B',
+      newNumber: 2,
+    });
+  });
+
+  it('should merge hunks whose context overlaps', () => {
+    const newText = oldText.replace('b', 'B').replace('f', 'F');
+
+    expect(diffLines(oldText, newText).hunks).toHaveLength(1);
+  });
+
+  it('should return no hunks for identical text', () => {
+    expect(diffLines(oldText, oldText)).toEqual({
+      hunks: [],
+      additions: 0,
+      deletions: 0,
+    });
+  });
+
+  it('should format a unified diff', () => {
+    const diff = diffLines('Hello {{name}}', 'Hello {{name}}\nBe brief.');
+
+    expect(formatUnifiedDiff(diff, 'v1', 'v2')).toBe(
+      [
+        '--- v1',
+        '+++ v2',
+        '@@ -1,1 +1,2 @@',
+        ' Hello {{name}}',
+        '+Be brief.',
+      ].join('\n')
+    );
+  });
+});
+
+describe('mergeSequences', () => {
+  it('should combine changes to different parts of the base', () => {
+    const chunks = mergeSequences(
+      ['a', 'b', 'c', 'd'],
+      ['A', 'b', 'c', 'd'],
+      ['a', 'b', 'c', 'D', 'e']
+    );
+
+    expect(chunks).toEqual([
+      { type: 'resolved', values: ['A', 'b', 'c', 'D', 'e'] },
+    ]);
+  });
+
+  it('should report overlapping changes as a conflict', () => {
+    const chunks = mergeSequences(['a', 'b'], ['a', 'x'], ['a', 'y']);
+
+    expect(chunks).toEqual([
+      { type: 'resolved', values: ['a'] },
+      { type: 'conflict', base: ['b'], ours: ['x'], theirs: ['y'] },
+    ]);
+  });
+});
+
+describe('mergeText', () => {
+  const base = 'You are helpful.\nAnswer briefly.\nSign off.';
+
+  it('should merge edits to different lines', () => {
+    const merged = mergeText(
+      base,
+      'You are very helpful.\nAnswer briefly.\nSign off.',
+      'You are helpful.\nAnswer briefly.\nSign off politely.'
+    );
+
+    expect(merged).toEqual({
+      text: 'You are very helpful.\nAnswer briefly.\nSign off politely.',
+      conflicts: [],
+    });
+  });
+
+  it('should accept the same edit made on both sides', () => {
+    const edited = base.replace('briefly', 'in one line');
+
+    expect(mergeText(base, edited, edited).conflicts).toEqual([]);
+  });
+
+  it('should mark conflicting edits', () => {
+    const merged = mergeText(
+      base,
+      base.replace('briefly', 'in detail'),
+      base.replace('briefly', 'in one line'),
+      { ours: 'v4', theirs: 'shorter' }
+    );
+
+    expect(merged.conflicts).toEqual([
+      {
+        base: 'Answer briefly.',
+        ours: 'Answer in detail.',
+        theirs: 'Answer in one line.',
+      },
+    ]);
+    expect(merged.text).toBe(
+      [
+        'You are helpful.',
+        '<<<<<<< v4',
+        'Answer in detail.',
+        '=======',
+        'Answer in one line.',
+        '>>>>>>> shorter',
+        'Sign off.',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,311 @@
+import { prisma } from '@/lib/database/client';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/utils/error-handler';
+import { auditLog } from '@/lib/monitoring/audit-log';
+import { PromptVersionManager } from '../versioning';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    prompt: {
+      findFirst: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    promptVersion: {
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      count: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    promptLabel: { upsert: jest.fn(), deleteMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/prompts/snippets', () => ({
+  snippetLibrary: {
+    resolveForTemplate: jest
+      .fn()
+      .mockResolvedValue({ partials: {}, snippetVersions: null }),
+  },
+}));
+
+jest.mock('@/lib/monitoring/audit-log', () => ({
+  auditLog: { record: jest.fn() },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const mockPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  prompt: MockModel;
+  promptVersion: MockModel;
+  promptLabel: MockModel;
+};
+
+describe('PromptVersionManager', () => {
+  const prompt = {
+    id: 'prompt-1',
+    userId: 'user-1',
+    version: 3,
+    liveVersion: 2,
+    status: 'PUBLISHED',
+    template: 'Hello {{name}}',
+    messages: [],
+    variables: [],
+    updatedAt: new Date('2026-01-01'),
+  };
+  let manager: PromptVersionManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new PromptVersionManager();
+    mockPrisma.$transaction.mockImplementation(operations =>
+      typeof operations === 'function'
+        ? operations(prisma)
+        : Promise.all(operations)
+    );
+  });
+
+  it('should publish the current version as live', async () => {
+    mockPrisma.prompt.findFirst.mockResolvedValueOnce({
+      ...prompt,
+      status: 'DRAFT',
+      liveVersion: null,
+    });
+    mockPrisma.promptVersion.findUnique.mockResolvedValueOnce(null);
+
+    await manager.publish('prompt-1', 'user-1');
+
+    // The current version is saved so the live version has a record
+    expect(mockPrisma.promptVersion.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ version: 3 }),
+      })
+    );
+    expect(mockPrisma.prompt.update).toHaveBeenCalledWith({
+      where: { id: 'prompt-1' },
+      data: {
+        status: 'PUBLISHED',
+        liveVersion: 3,
+        publishedAt: expect.any(Date),
+      },
+    });
+  });
+
+  it('should reject publishing a version that does not exist', async () => {
+    mockPrisma.prompt.findFirst.mockResolvedValueOnce(prompt);
+    mockPrisma.promptVersion.count.mockResolvedValueOnce(0);
+
+    await expect(manager.publish('prompt-1', 'user-1', 7)).rejects.toThrow(
+      NotFoundError
+    );
+    expect(mockPrisma.prompt.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject publishing an archived prompt', async () => {
+    mockPrisma.prompt.findFirst.mockResolvedValueOnce({
+      ...prompt,
+      status: 'ARCHIVED',
+    });
+    mockPrisma.promptVersion.count.mockResolvedValueOnce(1);
+
+    await expect(manager.publish('prompt-1', 'user-1', 2)).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it('should move a label to another version', async () => {
+    mockPrisma.prompt.findFirst.mockResolvedValueOnce(prompt);
+    mockPrisma.promptVersion.count.mockResolvedValueOnce(1);
+
+    await manager.setLabel('prompt-1', 'user-1', 'production', 1);
+
+    expect(mockPrisma.promptLabel.upsert).toHaveBeenCalledWith({
+      where: { promptId_name: { promptId: 'prompt-1', name: 'production' } },
+      update: { version: 1 },
+      create: { promptId: 'prompt-1', name: 'production', version: 1 },
+    });
+  });
+
+  it('should not delete the live version', async () => {
+    mockPrisma.prompt.findFirst.mockResolvedValueOnce(prompt);
+
+    await expect(
+      manager.deleteVersion('prompt-1', 'user-1', 2)
+    ).rejects.toThrow('Cannot delete the live version');
+    expect(mockPrisma.promptVersion.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('should record deleted versions in the audit log', async () => {
+    const actor = { userId: 'user-1', ipAddress: '10.0.0.1' };
+    mockPrisma.prompt.findFirst.mockResolvedValueOnce({
+      ...prompt,
+      workspaceId: null,
+    });
+    mockPrisma.promptVersion.findUnique.mockResolvedValueOnce({
+      version: 1,
+      template: 'Hi {{name}}',
+      messages: [],
+      variables: [],
+      changeLog: 'First draft',
+    });
+    mockPrisma.$transaction.mockResolvedValueOnce([{ count: 1 }, { count: 0 }]);
+
+    await manager.deleteVersion('prompt-1', 'user-1', 1, actor);
+
+    expect(auditLog.record).toHaveBeenCalledWith(actor, {
+      action: 'prompt.version_delete',
+      targetId: 'prompt-1',
+      workspaceId: null,
+      before: {
+        version: 1,
+        template: 'Hi {{name}}',
+        messages: [],
+        variables: [],
+        changeLog: 'First draft',
+      },
+    });
+  });
+
+  it('should list labels and the live version in the history', async () => {
+    mockPrisma.prompt.findFirst.mockResolvedValueOnce({
+      ...prompt,
+      labels: [
+        { name: 'staging', version: 3 },
+        { name: 'production', version: 2 },
+      ],
+    });
+    mockPrisma.promptVersion.findMany.mockResolvedValueOnce([
+      {
+        id: 'version-2',
+        version: 2,
+        template: 'Hi {{name}}',
+        messages: [],
+        variables: [],
+        changeLog: 'Friendlier greeting',
+        snippetVersions: null,
+        createdAt: new Date('2025-12-01'),
+      },
+    ]);
+
+    const history = await manager.getVersionHistory('prompt-1', 'user-1');
+
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({
+      version: 3,
+      labels: ['staging'],
+      isLive: false,
+    });
+    expect(history[1]).toMatchObject({
+      id: 'version-2',
+      version: 2,
+      labels: ['production'],
+      isLive: true,
+    });
+  });
+
+  describe('createVersion', () => {
+    const edit = { template: 'Hi {{name}}!', changeLog: 'Shorter' };
+
+    it('should save the backup, prompt and new version in one transaction', async () => {
+      mockPrisma.prompt.findFirst.mockResolvedValueOnce({
+        ...prompt,
+        versions: [],
+      });
+      mockPrisma.prompt.updateMany.mockResolvedValueOnce({ count: 1 });
+      mockPrisma.prompt.findUniqueOrThrow.mockResolvedValueOnce({
+        ...prompt,
+        version: 4,
+      });
+      mockPrisma.promptVersion.upsert
+        .mockResolvedValueOnce({ version: 3 })
+        .mockResolvedValueOnce({ id: 'version-4', version: 4 });
+
+      const result = await manager.createVersion('prompt-1', 'user-1', {
+        ...edit,
+        expectedVersion: 3,
+      });
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.prompt.updateMany).toHaveBeenCalledWith({
+        where: { id: 'prompt-1', version: 3 },
+        data: expect.objectContaining({
+          template: 'Hi {{name}}!',
+          version: 4,
+        }),
+      });
+      // The backup of version 3 is kept if it already exists
+      expect(mockPrisma.promptVersion.upsert).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          where: { promptId_version: { promptId: 'prompt-1', version: 3 } },
+          update: {},
+        })
+      );
+      expect(result).toMatchObject({
+        versionNumber: 4,
+        newVersion: { id: 'version-4' },
+      });
+    });
+
+    it('should return a conflict with a diff for a stale edit', async () => {
+      mockPrisma.prompt.findFirst.mockResolvedValueOnce({
+        ...prompt,
+        versions: [],
+      });
+
+      const error = await manager
+        .createVersion('prompt-1', 'user-1', { ...edit, expectedVersion: 2 })
+        .catch(err => err);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.details).toMatchObject({
+        expectedVersion: 2,
+        currentVersion: 3,
+        changes: { templateChanged: true, messagesChanged: false },
+      });
+      expect(error.details.changes.templateDiff.hunks[0].lines).toEqual([
+        expect.objectContaining({ type: 'remove', content: 'Hello {{name}}' }),
+        expect.objectContaining({ type: 'add', content: 'Hi {{name}}!' }),
+      ]);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return the saved version when an edit is replayed', async () => {
+      const saved = { id: 'version-4', version: 4 };
+      mockPrisma.prompt.findFirst.mockResolvedValueOnce({
+        ...prompt,
+        version: 4,
+        template: edit.template,
+        versions: [saved],
+      });
+
+      const result = await manager.createVersion('prompt-1', 'user-1', {
+        ...edit,
+        expectedVersion: 3,
+      });
+
+      expect(result).toMatchObject({ versionNumber: 4, newVersion: saved });
+      expect(result.prompt).not.toHaveProperty('versions');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should fail when another save moved the version first', async () => {
+      mockPrisma.prompt.findFirst.mockResolvedValueOnce({
+        ...prompt,
+        versions: [],
+      });
+      mockPrisma.prompt.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        manager.createVersion('prompt-1', 'user-1', edit)
+      ).rejects.toThrow(ConflictError);
+      expect(mockPrisma.promptVersion.upsert).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,427 @@
+import type {
+  Prisma,
+  Prompt,
+  PromptBranch,
+  PromptVersion,
+} from '@prisma/client';
+import { prisma } from '../database/client';
+import type { PromptMessage, VariableDefinition } from '@/types';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/error-handler';
+import {
+  assertPromptPermission,
+  promptAccess,
+  type Permission,
+} from '../auth/access-control';
+import { snippetLibrary } from './snippets';
+import { mergeSequences, mergeText } from './text-diff';
+import { promptVersionManager, type LoadedVersion } from './versioning';
+
+export interface BranchContent {
+  template: string;
+  messages: PromptMessage[];
+  variables: VariableDefinition[];
+}
+
+export interface BranchMergeConflict {
+  field: 'template' | 'messages' | 'variables';
+  // Variable both sides changed, for variable conflicts
+  name?: string;
+  base: unknown;
+  // Main line, then branch
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface BranchMerge {
+  content: BranchContent;
+  conflicts: BranchMergeConflict[];
+}
+
+const toContent = (
+  source: Pick<Prompt, 'template' | 'messages' | 'variables'>
+): BranchContent => ({
+  template: source.template,
+  messages: Array.isArray(source.messages)
+    ? (source.messages as unknown as PromptMessage[])
+    : [],
+  variables: Array.isArray(source.variables)
+    ? (source.variables as unknown as VariableDefinition[])
+    : [],
+});
+
+const sameJson = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Merged branches are closed; their content lives on as a version
+const assertNotMerged = (
+  branch: Pick<PromptBranch, 'name' | 'mergedAt' | 'mergedVersion'>
+): void => {
+  if (branch.mergedAt) {
+    throw new ConflictError(
+      `Branch ${branch.name} was merged into version ${branch.mergedVersion}`
+    );
+  }
+};
+
+/**
+ * Draft branches: named copies of a prompt's content that can be edited,
+ * executed and evaluated without touching the main line, then merged
+ * back as a new version. When the main line moved on since the branch
+ * started, the merge is three-way against the version it started from.
+ */
+export class PromptBranchManager {
+  /**
+   * Starts a branch from a version, by default the current one
+   */
+  public async createBranch(
+    promptId: string,
+    userId: string,
+    name: string,
+    fromVersion?: number
+  ): Promise<PromptBranch> {
+    const prompt = await prisma.prompt.findFirst({
+      where: { id: promptId, ...promptAccess(userId) },
+    });
+    if (!prompt) {
+      throw new NotFoundError('Prompt');
+    }
+    await assertPromptPermission(prompt, userId, 'edit');
+
+    const existing = await prisma.promptBranch.findUnique({
+      where: { promptId_name: { promptId, name } },
+    });
+    if (existing) {
+      throw new ConflictError(`Branch ${name} already exists`);
+    }
+
+    const baseVersion = fromVersion ?? prompt.version;
+    let content: BranchContent;
+    if (baseVersion === prompt.version) {
+      // Merges diff against the base, so it needs a stored record
+      await promptVersionManager.ensureVersionRecord(prompt.userId, prompt);
+      content = toContent(prompt);
+    } else {
+      const version = await promptVersionManager.getVersion(
+        promptId,
+        userId,
+        baseVersion
+      );
+      content = {
+        template: version.template,
+        messages: version.messages || [],
+        variables: version.variables,
+      };
+    }
+
+    return prisma.promptBranch.create({
+      data: {
+        promptId,
+        name,
+        baseVersion,
+        template: content.template,
+        messages: content.messages as unknown as Prisma.InputJsonValue,
+        variables: content.variables as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Saves draft content. Setting `baseVersion` to the current version
+   * after resolving merge conflicts rebases the branch onto it.
+   */
+  public async updateBranch(
+    promptId: string,
+    userId: string,
+    name: string,
+    updates: Partial<BranchContent> & { baseVersion?: number }
+  ): Promise<PromptBranch> {
+    const branch = await this.findOpenBranch(promptId, userId, name);
+
+    if (updates.baseVersion !== undefined) {
+      const prompt = await prisma.prompt.findUniqueOrThrow({
+        where: { id: promptId },
+      });
+      if (updates.baseVersion > prompt.version) {
+        throw new ValidationError(
+          `Version ${updates.baseVersion} does not exist yet`
+        );
+      }
+    }
+
+    return prisma.promptBranch.update({
+      where: { id: branch.id },
+      data: {
+        ...(updates.template !== undefined && { template: updates.template }),
+        ...(updates.messages && {
+          messages: updates.messages as unknown as Prisma.InputJsonValue,
+        }),
+        ...(updates.variables && {
+          variables: updates.variables as unknown as Prisma.InputJsonValue,
+        }),
+        ...(updates.baseVersion !== undefined && {
+          baseVersion: updates.baseVersion,
+        }),
+      },
+    });
+  }
+
+  public async deleteBranch(
+    promptId: string,
+    userId: string,
+    name: string
+  ): Promise<void> {
+    const result = await prisma.promptBranch.deleteMany({
+      where: { promptId, name, prompt: promptAccess(userId, 'edit') },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError(`Branch ${name}`);
+    }
+  }
+
+  /**
+   * Previews merging the branch into the current version
+   */
+  public async previewMerge(
+    promptId: string,
+    userId: string,
+    name: string
+  ): Promise<BranchMerge & { currentVersion: number }> {
+    const branch = await this.findOpenBranch(promptId, userId, name, 'view');
+    const prompt = await prisma.prompt.findUniqueOrThrow({
+      where: { id: promptId },
+    });
+
+    return {
+      ...(await this.merge(userId, prompt, branch)),
+      currentVersion: prompt.version,
+    };
+  }
+
+  /**
+   * Saves the branch as the next version and marks it merged. Conflicting
+   * changes fail with a ConflictError listing them, and the merged content
+   * with conflict markers in the template.
+   */
+  public async mergeBranch(
+    promptId: string,
+    userId: string,
+    name: string,
+    changeLog?: string
+  ): Promise<{ prompt: Prompt; newVersion: PromptVersion }> {
+    const branch = await this.findOpenBranch(promptId, userId, name);
+    const prompt = await prisma.prompt.findUniqueOrThrow({
+      where: { id: promptId },
+    });
+
+    const { content, conflicts } = await this.merge(userId, prompt, branch);
+    if (conflicts.length > 0) {
+      throw new ConflictError(
+        `Branch ${name} conflicts with changes made since version ${branch.baseVersion}`,
+        {
+          baseVersion: branch.baseVersion,
+          currentVersion: prompt.version,
+          conflicts,
+          merged: content,
+        }
+      );
+    }
+
+    const result = await promptVersionManager.createVersion(promptId, userId, {
+      ...content,
+      changeLog: changeLog || `Merged branch ${name}`,
+      expectedVersion: prompt.version,
+    });
+
+    await prisma.promptBranch.update({
+      where: { id: branch.id },
+      data: { mergedAt: new Date(), mergedVersion: result.versionNumber },
+    });
+
+    return { prompt: result.prompt, newVersion: result.newVersion };
+  }
+
+  /**
+   * Loads a branch ready to render with the prompt author's latest
+   * snippets
+   */
+  public async loadBranch(
+    userId: string,
+    promptId: string,
+    name: string
+  ): Promise<LoadedVersion & { branchId: string; baseVersion: number }> {
+    const branch = await prisma.promptBranch.findFirst({
+      where: { promptId, name, prompt: promptAccess(userId, 'run') },
+      include: { prompt: { select: { userId: true } } },
+    });
+    if (!branch) {
+      throw new NotFoundError(`Branch ${name}`);
+    }
+    assertNotMerged(branch);
+
+    const content = toContent(branch);
+    const { partials } = await snippetLibrary.resolveForTemplate(
+      [content.template, ...content.messages.map(message => message.content)],
+      branch.prompt.userId
+    );
+
+    return {
+      ...content,
+      partials,
+      branchId: branch.id,
+      baseVersion: branch.baseVersion,
+    };
+  }
+
+  /**
+   * Three-way merge of the main line (ours) and the branch (theirs)
+   * against the version the branch started from
+   */
+  private async merge(
+    userId: string,
+    prompt: Prompt,
+    branch: PromptBranch
+  ): Promise<BranchMerge> {
+    const theirs = toContent(branch);
+    // Nothing to merge with: the branch replaces the content
+    if (branch.baseVersion === prompt.version) {
+      return { content: theirs, conflicts: [] };
+    }
+
+    const baseVersion = await promptVersionManager.getVersion(
+      prompt.id,
+      userId,
+      branch.baseVersion
+    );
+    const base: BranchContent = {
+      template: baseVersion.template,
+      messages: baseVersion.messages || [],
+      variables: baseVersion.variables,
+    };
+    const ours = toContent(prompt);
+    const conflicts: BranchMergeConflict[] = [];
+
+    const template = mergeText(base.template, ours.template, theirs.template, {
+      ours: `v${prompt.version}`,
+      theirs: branch.name,
+    });
+    conflicts.push(
+      ...template.conflicts.map(conflict => ({
+        field: 'template' as const,
+        ...conflict,
+      }))
+    );
+
+    // Messages merge as whole turns
+    const serialize = (messages: PromptMessage[]): string[] =>
+      messages.map(message => JSON.stringify(message));
+    const parse = (values: string[]): PromptMessage[] =>
+      values.map(value => JSON.parse(value) as PromptMessage);
+    const messages: PromptMessage[] = [];
+    for (const chunk of mergeSequences(
+      serialize(base.messages),
+      serialize(ours.messages),
+      serialize(theirs.messages)
+    )) {
+      if (chunk.type === 'resolved') {
+        messages.push(...parse(chunk.values));
+      } else {
+        conflicts.push({
+          field: 'messages',
+          base: parse(chunk.base),
+          ours: parse(chunk.ours),
+          theirs: parse(chunk.theirs),
+        });
+        // Keep the main line's turns until the conflict is resolved
+        messages.push(...parse(chunk.ours));
+      }
+    }
+
+    const variables = this.mergeVariables(base, ours, theirs, conflicts);
+
+    return {
+      content: { template: template.text, messages, variables },
+      conflicts,
+    };
+  }
+
+  /**
+   * Merges variable definitions by name, in main-line order with variables
+   * the branch added at the end
+   */
+  private mergeVariables(
+    base: BranchContent,
+    ours: BranchContent,
+    theirs: BranchContent,
+    conflicts: BranchMergeConflict[]
+  ): VariableDefinition[] {
+    const byName = (
+      variables: VariableDefinition[]
+    ): Map<string, VariableDefinition> =>
+      new Map(variables.map(variable => [variable.name, variable]));
+    const baseVariables = byName(base.variables);
+    const ourVariables = byName(ours.variables);
+    const theirVariables = byName(theirs.variables);
+
+    const names = [
+      ...new Set([
+        ...ours.variables.map(variable => variable.name),
+        ...theirs.variables.map(variable => variable.name),
+        ...base.variables.map(variable => variable.name),
+      ]),
+    ];
+
+    const merged: VariableDefinition[] = [];
+    for (const name of names) {
+      const baseVariable = baseVariables.get(name);
+      const ourVariable = ourVariables.get(name);
+      const theirVariable = theirVariables.get(name);
+
+      let resolved: VariableDefinition | undefined;
+      if (sameJson(ourVariable, theirVariable)) {
+        resolved = ourVariable;
+      } else if (sameJson(baseVariable, ourVariable)) {
+        resolved = theirVariable;
+      } else if (sameJson(baseVariable, theirVariable)) {
+        resolved = ourVariable;
+      } else {
+        conflicts.push({
+          field: 'variables',
+          name,
+          base: baseVariable ?? null,
+          ours: ourVariable ?? null,
+          theirs: theirVariable ?? null,
+        });
+        resolved = ourVariable;
+      }
+
+      if (resolved) merged.push(resolved);
+    }
+
+    return merged;
+  }
+
+  private async findOpenBranch(
+    promptId: string,
+    userId: string,
+    name: string,
+    permission: Permission = 'edit'
+  ): Promise<PromptBranch> {
+    const branch = await prisma.promptBranch.findFirst({
+      where: { promptId, name, prompt: promptAccess(userId, permission) },
+    });
+    if (!branch) {
+      throw new NotFoundError(`Branch ${name}`);
+    }
+    assertNotMerged(branch);
+
+    return branch;
+  }
+}
+
+// Singleton instance
+export const promptBranchManager = new PromptBranchManager();
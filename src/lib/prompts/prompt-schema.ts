@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { compileTemplate } from './template-compiler';
+import { TemplateError } from './template-parser';
+
+// Reject templates that would fail to compile at execution time
+export const TemplateSchema = z
+  .string()
+  .min(1)
+  .max(10000)
+  .superRefine((template, ctx) => {
+    try {
+      compileTemplate(template);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+    }
+  });
+
+// Chat turns sent before the template; system messages lead the conversation
+export const MessagesSchema = z
+  .array(
+    z.object({
+      role: z.enum(['system', 'user', 'assistant']),
+      content: TemplateSchema,
+    })
+  )
+  .max(50)
+  .refine(
+    messages =>
+      messages.every(
+        (message, index) =>
+          message.role !== 'system' ||
+          index === 0 ||
+          messages[index - 1].role === 'system'
+      ),
+    'System messages must come before other messages'
+  );
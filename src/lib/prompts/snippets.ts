@@ -0,0 +1,195 @@
+import { prisma } from '../database/client';
+import type { Snippet } from '@prisma/client';
+import type { SnippetVersionMap } from '@/types';
+import { NotFoundError } from '../utils/error-handler';
+import { compileTemplate } from './template-compiler';
+import { templateEngine } from './template-engine';
+
+export interface ResolvedSnippets {
+  // Snippet content keyed by name, ready to pass as render partials
+  partials: Record<string, string>;
+  // Snippet versions the template depends on, for PromptVersion records
+  snippetVersions: SnippetVersionMap;
+}
+
+export class SnippetLibrary {
+  public async listSnippets(userId: string): Promise<Snippet[]> {
+    return prisma.snippet.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  public async getSnippet(id: string, userId: string): Promise<Snippet | null> {
+    return prisma.snippet.findFirst({ where: { id, userId } });
+  }
+
+  public async createSnippet(
+    userId: string,
+    data: { name: string; description?: string; content: string }
+  ): Promise<Snippet> {
+    // Validates syntax and rejects includes that lead back to this snippet
+    await this.checkContent(userId, data.name, data.content);
+
+    return prisma.snippet.create({
+      data: {
+        ...data,
+        userId,
+        versions: { create: { version: 1, content: data.content } },
+      },
+    });
+  }
+
+  public async updateSnippet(
+    id: string,
+    userId: string,
+    data: { description?: string; content?: string }
+  ): Promise<Snippet> {
+    const snippet = await this.getSnippet(id, userId);
+    if (!snippet) {
+      throw new NotFoundError('Snippet');
+    }
+
+    if (data.content === undefined || data.content === snippet.content) {
+      return prisma.snippet.update({
+        where: { id },
+        data: { description: data.description },
+      });
+    }
+
+    await this.checkContent(userId, snippet.name, data.content);
+
+    // Every content change gets a new immutable version so prompt versions
+    // that pinned an older one can still be reproduced
+    const version = snippet.version + 1;
+    return prisma.snippet.update({
+      where: { id },
+      data: {
+        description: data.description,
+        content: data.content,
+        version,
+        versions: { create: { version, content: data.content } },
+      },
+    });
+  }
+
+  public async deleteSnippet(id: string, userId: string): Promise<void> {
+    const result = await prisma.snippet.deleteMany({ where: { id, userId } });
+    if (result.count === 0) {
+      throw new NotFoundError('Snippet');
+    }
+  }
+
+  /**
+   * Loads every snippet a template includes, directly or through other
+   * snippets. Includes without a matching snippet are left for the
+   * renderer to report with their position. Chat prompts pass the
+   * template together with their message contents.
+   */
+  public async resolveForTemplate(
+    template: string | string[],
+    userId: string
+  ): Promise<ResolvedSnippets> {
+    const templates = Array.isArray(template) ? template : [template];
+    const snippets = await this.loadIncludedSnippets(templates, userId);
+
+    const partials = Object.fromEntries(
+      snippets.map(snippet => [snippet.name, snippet.content])
+    );
+    const used = new Set(
+      templates.flatMap(source =>
+        templateEngine.resolvePartials(source, partials)
+      )
+    );
+
+    const snippetVersions: SnippetVersionMap = {};
+    for (const snippet of snippets) {
+      if (used.has(snippet.name)) {
+        snippetVersions[snippet.name] = {
+          snippetId: snippet.id,
+          version: snippet.version,
+        };
+      }
+    }
+
+    return { partials, snippetVersions };
+  }
+
+  /**
+   * Loads the exact snippet contents recorded on a prompt version
+   */
+  public async loadPinnedPartials(
+    snippetVersions: SnippetVersionMap
+  ): Promise<Record<string, string>> {
+    const entries = Object.entries(snippetVersions);
+    if (entries.length === 0) return {};
+
+    const versions = await prisma.snippetVersion.findMany({
+      where: {
+        OR: entries.map(([, ref]) => ({
+          snippetId: ref.snippetId,
+          version: ref.version,
+        })),
+      },
+    });
+
+    const partials: Record<string, string> = {};
+    for (const [name, ref] of entries) {
+      const match = versions.find(
+        v => v.snippetId === ref.snippetId && v.version === ref.version
+      );
+      if (match) {
+        partials[name] = match.content;
+      }
+    }
+
+    return partials;
+  }
+
+  private async checkContent(
+    userId: string,
+    name: string,
+    content: string
+  ): Promise<void> {
+    const snippets = await this.loadIncludedSnippets([content], userId);
+    const partials: Record<string, string> = Object.fromEntries(
+      snippets.map(snippet => [snippet.name, snippet.content])
+    );
+    partials[name] = content;
+
+    templateEngine.resolvePartials(`{{> ${name}}}`, partials);
+  }
+
+  private async loadIncludedSnippets(
+    templates: string[],
+    userId: string
+  ): Promise<Snippet[]> {
+    const loaded = new Map<string, Snippet>();
+    const requested = new Set<string>();
+    let pending = Array.from(
+      new Set(templates.flatMap(source => compileTemplate(source).partials))
+    );
+
+    // Fetch one level of includes at a time until no new names appear
+    while (pending.length > 0) {
+      pending.forEach(name => requested.add(name));
+      const snippets = await prisma.snippet.findMany({
+        where: { userId, name: { in: pending } },
+      });
+
+      const next = new Set<string>();
+      for (const snippet of snippets) {
+        loaded.set(snippet.name, snippet);
+        for (const name of compileTemplate(snippet.content).partials) {
+          if (!requested.has(name)) next.add(name);
+        }
+      }
+      pending = Array.from(next);
+    }
+
+    return Array.from(loaded.values());
+  }
+}
+
+// Singleton instance
+export const snippetLibrary = new SnippetLibrary();
@@ -0,0 +1,386 @@
+import {
+  parseTemplate,
+  TemplateError,
+  TemplateSyntaxError,
+  type BlockNode,
+  type FilterArgument,
+  type PathExpression,
+  type SourceLocation,
+  type TemplateNode,
+  type VariableNode,
+} from './template-parser';
+import {
+  getTemplateFilter,
+  stringifyValue,
+  TEMPLATE_FILTERS,
+} from './template-filters';
+
+export { stringifyValue };
+
+export interface RenderOptions {
+  // Partial templates available to `{{> name}}`, keyed by name
+  partials?: Record<string, string>;
+}
+
+export interface CompiledTemplate {
+  source: string;
+  // Root-level variable names referenced by the template, in order of
+  // appearance. Plain names in loop bodies are included, since they fall
+  // back to the root when the item doesn't define them.
+  variables: string[];
+  // Partial names included by the template
+  partials: string[];
+  render(data: Record<string, unknown>, options?: RenderOptions): string;
+}
+
+export class TemplateRenderError extends TemplateError {
+  constructor(message: string, loc: SourceLocation) {
+    super(message, loc);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+interface Frame {
+  context: unknown;
+  data: Record<string, unknown>;
+  parent: Frame | null;
+}
+
+interface RenderState {
+  options: RenderOptions;
+  // Names of the partials currently being rendered, outermost first
+  partialStack: string[];
+}
+
+type Renderer = (frame: Frame, state: RenderState) => string;
+
+const MAX_CACHE_SIZE = 500;
+const MAX_PARTIAL_DEPTH = 10;
+
+const cache = new Map<string, InternalCompiledTemplate>();
+
+export function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+function lookupPath(frame: Frame, path: PathExpression): unknown {
+  if (path.isData) {
+    for (let f: Frame | null = frame; f; f = f.parent) {
+      if (path.parts[0] in f.data) {
+        return f.data[path.parts[0]];
+      }
+    }
+    return undefined;
+  }
+
+  if (path.isThis) {
+    return resolveParts(frame.context, path.parts);
+  }
+
+  // Plain names resolve against the innermost scope that defines them,
+  // so loop bodies can still reach top-level variables
+  const [head, ...rest] = path.parts;
+  for (let f: Frame | null = frame; f; f = f.parent) {
+    if (hasProperty(f.context, head)) {
+      return resolveParts((f.context as Record<string, unknown>)[head], rest);
+    }
+  }
+
+  return undefined;
+}
+
+function resolveParts(value: unknown, parts: string[]): unknown {
+  let current = value;
+  for (const part of parts) {
+    if (!hasProperty(current, part)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function hasProperty(value: unknown, key: string): boolean {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.prototype.hasOwnProperty.call(value, key)
+  );
+}
+
+function compileNodes(nodes: TemplateNode[]): Renderer {
+  const renderers = nodes.map(compileNode);
+
+  return (frame, state) => {
+    let output = '';
+    for (const render of renderers) {
+      output += render(frame, state);
+    }
+    return output;
+  };
+}
+
+function compileNode(node: TemplateNode): Renderer {
+  switch (node.type) {
+    case 'text':
+      return () => node.value;
+
+    case 'variable':
+      return compileVariable(node);
+
+    case 'partial':
+      return (frame, state) => {
+        const source = state.options.partials?.[node.name];
+        if (source === undefined) {
+          throw new TemplateRenderError(
+            `Unknown partial "${node.name}"`,
+            node.loc
+          );
+        }
+
+        if (state.partialStack.includes(node.name)) {
+          const cycle = [...state.partialStack, node.name].join(' -> ');
+          throw new TemplateRenderError(
+            `Circular partial reference: ${cycle}`,
+            node.loc
+          );
+        }
+
+        if (state.partialStack.length >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateRenderError(
+            `Partials nested more than ${MAX_PARTIAL_DEPTH} levels deep at "${node.name}"`,
+            node.loc
+          );
+        }
+
+        const partial = getCompiled(source);
+        return partial.renderFrame(frame, {
+          ...state,
+          partialStack: [...state.partialStack, node.name],
+        });
+      };
+
+    case 'block':
+      return compileBlock(node);
+  }
+}
+
+function compileVariable(node: VariableNode): Renderer {
+  if (node.filters.length === 0) {
+    return frame => stringifyValue(lookupPath(frame, node.path));
+  }
+
+  // Resolve filters up front so unknown names fail at compile time
+  const pipeline = node.filters.map(call => {
+    const filter = getTemplateFilter(call.name);
+    if (!filter) {
+      throw new TemplateSyntaxError(
+        `Unknown filter "${call.name}". Available: ${Object.keys(TEMPLATE_FILTERS).join(', ')}`,
+        node.loc
+      );
+    }
+
+    if (
+      call.args.length < filter.minArgs ||
+      call.args.length > filter.maxArgs
+    ) {
+      const expected =
+        filter.minArgs === filter.maxArgs
+          ? `${filter.minArgs}`
+          : `${filter.minArgs}-${filter.maxArgs}`;
+      throw new TemplateSyntaxError(
+        `Filter "${call.name}" expects ${expected} argument(s), got ${call.args.length}`,
+        node.loc
+      );
+    }
+
+    return { name: call.name, filter, args: call.args };
+  });
+
+  return frame => {
+    let value = lookupPath(frame, node.path);
+
+    for (const step of pipeline) {
+      const args = step.args.map(arg => evaluateArgument(frame, arg));
+      try {
+        value = step.filter.apply(value, args);
+      } catch (error) {
+        throw new TemplateRenderError(
+          `Filter "${step.name}" failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          node.loc
+        );
+      }
+    }
+
+    return stringifyValue(value);
+  };
+}
+
+function evaluateArgument(frame: Frame, arg: FilterArgument): unknown {
+  return arg.type === 'literal' ? arg.value : lookupPath(frame, arg.path);
+}
+
+function compileBlock(node: BlockNode): Renderer {
+  const body = compileNodes(node.body);
+  const inverse = node.inverse ? compileNodes(node.inverse) : () => '';
+
+  switch (node.helper) {
+    case 'if':
+      return (frame, state) =>
+        isTruthy(lookupPath(frame, node.path))
+          ? body(frame, state)
+          : inverse(frame, state);
+
+    case 'unless':
+      return (frame, state) =>
+        isTruthy(lookupPath(frame, node.path))
+          ? inverse(frame, state)
+          : body(frame, state);
+
+    case 'each':
+      return (frame, state) => {
+        const value = lookupPath(frame, node.path);
+
+        if (Array.isArray(value)) {
+          if (value.length === 0) return inverse(frame, state);
+
+          return value
+            .map((item, index) =>
+              body(
+                {
+                  context: item,
+                  data: {
+                    '@index': index,
+                    '@first': index === 0,
+                    '@last': index === value.length - 1,
+                  },
+                  parent: frame,
+                },
+                state
+              )
+            )
+            .join('');
+        }
+
+        if (value !== null && typeof value === 'object') {
+          const entries = Object.entries(value);
+          if (entries.length === 0) return inverse(frame, state);
+
+          return entries
+            .map(([key, item], index) =>
+              body(
+                {
+                  context: item,
+                  data: {
+                    '@key': key,
+                    '@index': index,
+                    '@first': index === 0,
+                    '@last': index === entries.length - 1,
+                  },
+                  parent: frame,
+                },
+                state
+              )
+            )
+            .join('');
+        }
+
+        return inverse(frame, state);
+      };
+  }
+}
+
+function collectReferences(
+  nodes: TemplateNode[],
+  variables: Set<string>,
+  partials: Set<string>
+): void {
+  for (const node of nodes) {
+    if (node.type === 'partial') {
+      partials.add(node.name);
+      continue;
+    }
+
+    if (node.type !== 'variable' && node.type !== 'block') continue;
+
+    const paths = [node.path];
+    if (node.type === 'variable') {
+      for (const filter of node.filters) {
+        for (const arg of filter.args) {
+          if (arg.type === 'path') paths.push(arg.path);
+        }
+      }
+    }
+
+    // `this` and `@index`-style names only ever refer to the current item
+    for (const path of paths) {
+      if (!path.isThis && !path.isData) {
+        variables.add(path.parts[0]);
+      }
+    }
+
+    if (node.type === 'block') {
+      collectReferences(node.body, variables, partials);
+      if (node.inverse) {
+        collectReferences(node.inverse, variables, partials);
+      }
+    }
+  }
+}
+
+interface InternalCompiledTemplate extends CompiledTemplate {
+  renderFrame: Renderer;
+}
+
+function getCompiled(source: string): InternalCompiledTemplate {
+  const cached = cache.get(source);
+  if (cached) {
+    // Refresh recency so frequently used templates stay cached
+    cache.delete(source);
+    cache.set(source, cached);
+    return cached;
+  }
+
+  const ast = parseTemplate(source);
+  const renderFrame = compileNodes(ast.body);
+
+  const variables = new Set<string>();
+  const partials = new Set<string>();
+  collectReferences(ast.body, variables, partials);
+
+  const compiled: InternalCompiledTemplate = {
+    source,
+    variables: Array.from(variables),
+    partials: Array.from(partials),
+    renderFrame,
+    render: (data, options = {}) =>
+      renderFrame(
+        { context: data, data: {}, parent: null },
+        { options, partialStack: [] }
+      ),
+  };
+
+  if (cache.size >= MAX_CACHE_SIZE) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  cache.set(source, compiled);
+
+  return compiled;
+}
+
+/**
+ * Parses and compiles a template into a reusable render function.
+ * Compiled templates are cached by source, so repeated executions of the
+ * same prompt skip parsing entirely.
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  return getCompiled(source);
+}
+
+export function clearTemplateCache(): void {
+  cache.clear();
+}
@@ -1,6 +1,17 @@
 import { z } from 'zod';
-import type { VariableDefinition } from '../../types/database';
+import type {
+  PromptMessage,
+  VariableConstraints,
+  VariableDefinition,
+} from '../../types/database';
 import { ValidationError } from '../utils/error-handler';
+import { tokenizer, type ContextWindowUsage } from '../tokenizer/tokenizer';
+import { compileTemplate, type RenderOptions } from './template-compiler';
+import { TemplateError } from './template-parser';
+import {
+  createVariableValueSchema,
+  VariableDefinitionSchema,
+} from './variable-schema';
 
 export interface TemplateVariable {
   name: string;
@@ -9,36 +20,79 @@ export interface TemplateVariable {
   required: boolean;
 }
 
+export interface VariableIssue {
+  name: string;
+  message: string;
+}
+
 export interface TemplateResult {
   processedTemplate: string;
+  // Full conversation to send: rendered chat messages followed by the
+  // processed template as the final user turn
+  messages: PromptMessage[];
   missingVariables: string[];
+  invalidVariables: VariableIssue[];
   isValid: boolean;
 }
 
-// Zod schemas for validation (commented out as unused)
-// const VariableValueSchema = z.union([
-//   z.string(),
-//   z.number(),
-//   z.boolean(),
-//   z.array(z.unknown()),
-// ]);
+export interface ProcessOptions extends RenderOptions {
+  // Message templates of chat prompts, rendered before the main template
+  messages?: PromptMessage[];
+}
+
+export interface ContextFitOptions extends ProcessOptions {
+  model: string;
+  maxTokens: number;
+  // 'truncate' shortens the largest text inputs until the prompt fits
+  overflow: 'reject' | 'truncate';
+}
+
+export interface ContextFitResult {
+  result: TemplateResult;
+  usage: ContextWindowUsage;
+  truncatedVariables: string[];
+}
+
+// Each pass shortens one input; retokenizing may leave a few tokens over
+const MAX_TRUNCATION_PASSES = 10;
+
+export interface VariableFormField {
+  name: string;
+  label: string;
+  type:
+    | 'text'
+    | 'number'
+    | 'checkbox'
+    | 'select'
+    | 'textarea'
+    | 'date'
+    | 'file'
+    | 'json'
+    | 'list';
+  required: boolean;
+  defaultValue?: any;
+  options?: string[];
+  placeholder?: string;
+  constraints?: VariableConstraints;
+}
 
 export class TemplateEngine {
-  private static readonly VARIABLE_PATTERN =
-    /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
   private static readonly INVALID_CHARS = /<script|javascript:|data:/gi;
 
   public processTemplate(
     template: string,
     variables: Record<string, any>,
-    variableDefinitions: VariableDefinition[]
+    variableDefinitions: VariableDefinition[],
+    options: ProcessOptions = {}
   ): TemplateResult {
+    const { messages: messageTemplates = [], ...renderOptions } = options;
+
     try {
-      // Validate template for security
+      // Validate template for security and syntax
       this.validateTemplate(template);
-
-      // Extract variables from template
-      this.extractVariables(template);
+      messageTemplates.forEach(message =>
+        this.validateTemplate(message.content)
+      );
 
       // Validate provided variables against definitions
       const validationResult = this.validateVariables(
@@ -49,30 +103,40 @@ export class TemplateEngine {
       if (!validationResult.isValid) {
         return {
           processedTemplate: template,
+          messages: [],
           missingVariables: validationResult.missingRequired,
+          invalidVariables: validationResult.invalidVariables,
           isValid: false,
         };
       }
 
       // Process template with variable substitution
-      const processedTemplate = this.substituteVariables(
-        template,
+      const [processedTemplate, ...renderedMessages] = this.substituteVariables(
+        [template, ...messageTemplates.map(message => message.content)],
         variables,
-        variableDefinitions
-      );
-
-      // Check for any remaining unsubstituted variables
-      const remainingVariables = this.extractVariables(processedTemplate);
-      const missingVariables = remainingVariables.filter(varName =>
-        variableDefinitions.find(def => def.name === varName && def.required)
+        variableDefinitions,
+        renderOptions
       );
 
       return {
         processedTemplate,
-        missingVariables,
-        isValid: missingVariables.length === 0,
+        messages: [
+          ...messageTemplates.map((message, index) => ({
+            role: message.role,
+            content: renderedMessages[index],
+          })),
+          { role: 'user', content: processedTemplate },
+        ],
+        missingVariables: [],
+        invalidVariables: [],
+        isValid: true,
       };
     } catch (error) {
+      // Syntax and render errors already carry line/column information
+      if (error instanceof TemplateError) {
+        throw error;
+      }
+
       throw new ValidationError(
         `Template processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -91,31 +155,79 @@ export class TemplateEngine {
       );
     }
 
-    // Check for valid handlebars syntax
-    const variableMatches = template.match(TemplateEngine.VARIABLE_PATTERN);
-    if (variableMatches) {
-      for (const match of variableMatches) {
-        const variableName = match.replace(/\{\{\s*|\s*\}\}/g, '');
-        if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(variableName)) {
-          throw new ValidationError(`Invalid variable name: ${variableName}`);
-        }
-      }
-    }
+    // Parse the template; syntax errors are reported with line and column
+    compileTemplate(template);
   }
 
   public extractVariables(template: string): string[] {
-    const variables: string[] = [];
-    let match;
-
-    const regex = new RegExp(TemplateEngine.VARIABLE_PATTERN);
-    while ((match = regex.exec(template)) !== null) {
-      const variableName = match[1].trim();
-      if (!variables.includes(variableName)) {
-        variables.push(variableName);
+    return compileTemplate(template).variables;
+  }
+
+  /**
+   * Renders a template against raw inputs without checking them against
+   * variable definitions. Used by executors that receive pre-validated inputs.
+   */
+  public render(
+    template: string,
+    variables: Record<string, unknown>,
+    options: RenderOptions = {}
+  ): string {
+    return compileTemplate(template).render(variables, options);
+  }
+
+  /**
+   * Renders a chat prompt into the message array sent to the model, with
+   * the main template as the final user turn
+   */
+  public renderMessages(
+    template: string,
+    messages: PromptMessage[],
+    variables: Record<string, unknown>,
+    options: RenderOptions = {}
+  ): PromptMessage[] {
+    return [
+      ...messages.map(message => ({
+        role: message.role,
+        content: this.render(message.content, variables, options),
+      })),
+      { role: 'user', content: this.render(template, variables, options) },
+    ];
+  }
+
+  /**
+   * Walks the `{{> name}}` includes reachable from a template and returns
+   * the names of every partial it depends on, in dependency order.
+   * Names without a source in `partials` are skipped; rendering reports them.
+   */
+  public resolvePartials(
+    template: string,
+    partials: Record<string, string>
+  ): string[] {
+    const resolved: string[] = [];
+    const visiting: string[] = [];
+
+    const visit = (source: string): void => {
+      for (const name of compileTemplate(source).partials) {
+        if (visiting.includes(name)) {
+          const cycle = [...visiting.slice(visiting.indexOf(name)), name];
+          throw new ValidationError(
+            `Circular partial reference: ${cycle.join(' -> ')}`,
+            { cycle }
+          );
+        }
+
+        const partialSource = partials[name];
+        if (partialSource === undefined || resolved.includes(name)) continue;
+
+        visiting.push(name);
+        visit(partialSource);
+        visiting.pop();
+        resolved.push(name);
       }
-    }
+    };
 
-    return variables;
+    visit(template);
+    return resolved;
   }
 
   private validateVariables(
@@ -124,14 +236,10 @@ export class TemplateEngine {
   ): {
     isValid: boolean;
     missingRequired: string[];
-    typeErrors: Array<{ name: string; expected: string; received: string }>;
+    invalidVariables: VariableIssue[];
   } {
     const missingRequired: string[] = [];
-    const typeErrors: Array<{
-      name: string;
-      expected: string;
-      received: string;
-    }> = [];
+    const invalidVariables: VariableIssue[] = [];
 
     for (const definition of definitions) {
       const value = variables[definition.name];
@@ -146,49 +254,47 @@ export class TemplateEngine {
       }
 
       // Skip type validation for missing optional variables
-      if (value === undefined || value === null) {
+      if (value === undefined || value === null || value === '') {
         continue;
       }
 
-      // Type validation
-      const expectedType = definition.type;
-      const actualType = this.getValueType(value);
-
-      if (expectedType !== actualType) {
-        // Try type coercion for common cases
-        const coercedValue = this.coerceType(value, expectedType);
-        if (coercedValue === null) {
-          typeErrors.push({
-            name: definition.name,
-            expected: expectedType,
-            received: actualType,
-          });
-        } else {
-          // Update the variables object with coerced value
-          variables[definition.name] = coercedValue;
-        }
+      // Type and constraint validation, coercing form strings where possible
+      const result = createVariableValueSchema(definition).safeParse(value);
+      if (result.success) {
+        variables[definition.name] = result.data;
+      } else {
+        invalidVariables.push({
+          name: definition.name,
+          message: result.error.errors
+            .map(e =>
+              e.path.length > 0
+                ? `${e.path.join('.')}: ${e.message}`
+                : e.message
+            )
+            .join('; '),
+        });
       }
     }
 
     return {
-      isValid: missingRequired.length === 0 && typeErrors.length === 0,
+      isValid: missingRequired.length === 0 && invalidVariables.length === 0,
       missingRequired,
-      typeErrors,
+      invalidVariables,
     };
   }
 
   private substituteVariables(
-    template: string,
+    templates: string[],
     variables: Record<string, any>,
-    definitions: VariableDefinition[]
-  ): string {
-    let processedTemplate = template;
+    definitions: VariableDefinition[],
+    options: RenderOptions
+  ): string[] {
+    const compiled = templates.map(template => compileTemplate(template));
 
     // First, apply default values for missing optional variables
     const definitionMap = new Map(definitions.map(def => [def.name, def]));
 
-    const templateVariables = this.extractVariables(template);
-    for (const varName of templateVariables) {
+    for (const varName of compiled.flatMap(c => c.variables)) {
       const definition = definitionMap.get(varName);
       if (
         definition &&
@@ -199,85 +305,12 @@ export class TemplateEngine {
       }
     }
 
-    // Substitute variables
-    processedTemplate = processedTemplate.replace(
-      TemplateEngine.VARIABLE_PATTERN,
-      (match, variableName) => {
-        const trimmedName = variableName.trim();
-        const value = variables[trimmedName];
-
-        if (value === undefined || value === null) {
-          return match; // Keep original placeholder if no value
-        }
-
-        // Convert value to string, handling different types
-        return this.valueToString(value);
-      }
-    );
-
-    return processedTemplate;
-  }
-
-  private getValueType(value: any): 'string' | 'number' | 'boolean' | 'array' {
-    if (Array.isArray(value)) return 'array';
-    if (typeof value === 'boolean') return 'boolean';
-    if (typeof value === 'number') return 'number';
-    return 'string';
-  }
-
-  private coerceType(value: any, targetType: string): any {
-    try {
-      switch (targetType) {
-        case 'string':
-          return String(value);
-        case 'number':
-          const num = Number(value);
-          return isNaN(num) ? null : num;
-        case 'boolean':
-          if (typeof value === 'string') {
-            const lower = value.toLowerCase();
-            if (lower === 'true' || lower === '1' || lower === 'yes')
-              return true;
-            if (lower === 'false' || lower === '0' || lower === 'no')
-              return false;
-            return null;
-          }
-          return Boolean(value);
-        default:
-          return null;
-      }
-    } catch {
-      return null;
-    }
-  }
-
-  private valueToString(value: any): string {
-    if (Array.isArray(value)) {
-      return value.map(v => String(v)).join(', ');
-    }
-
-    if (typeof value === 'object' && value !== null) {
-      return JSON.stringify(value);
-    }
-
-    return String(value);
+    return compiled.map(c => c.render(variables, options));
   }
 
   public validateVariableDefinition(definition: VariableDefinition): void {
-    const schema = z.object({
-      name: z
-        .string()
-        .min(1)
-        .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Invalid variable name'),
-      type: z.enum(['string', 'number', 'boolean', 'array']),
-      required: z.boolean(),
-      description: z.string().optional(),
-      defaultValue: z.any().optional(),
-      options: z.array(z.string()).optional(),
-    });
-
     try {
-      schema.parse(definition);
+      VariableDefinitionSchema.parse(definition);
     } catch (error) {
       if (error instanceof z.ZodError) {
         const messages = error.errors.map(e => e.message).join(', ');
@@ -302,31 +335,32 @@ export class TemplateEngine {
     }
   }
 
-  public generateVariableForm(definitions: VariableDefinition[]): Array<{
-    name: string;
-    label: string;
-    type: 'text' | 'number' | 'checkbox' | 'select' | 'textarea';
-    required: boolean;
-    defaultValue?: any;
-    options?: string[];
-    placeholder?: string;
-  }> {
+  public generateVariableForm(
+    definitions: VariableDefinition[]
+  ): VariableFormField[] {
     return definitions.map(def => {
-      let type: 'text' | 'number' | 'checkbox' | 'select' | 'textarea' = 'text';
-      const placeholder = def.description || `Enter ${def.name}`;
+      let type: VariableFormField['type'] = 'text';
+      let placeholder = def.description || `Enter ${def.name}`;
 
-      // Determine form field type
-      if (def.options && def.options.length > 0) {
+      // Determine form field type from the declared variable type
+      if (def.type === 'enum' || (def.options && def.options.length > 0)) {
         type = 'select';
       } else if (def.type === 'number') {
         type = 'number';
       } else if (def.type === 'boolean') {
         type = 'checkbox';
-      } else if (
-        def.type === 'string' &&
-        (!def.description || def.description.length > 50)
-      ) {
+      } else if (def.type === 'long-text') {
         type = 'textarea';
+      } else if (def.type === 'date') {
+        type = 'date';
+      } else if (def.type === 'file') {
+        type = 'file';
+      } else if (def.type === 'object' || def.type === 'json') {
+        type = 'json';
+        placeholder = def.description || 'Enter JSON';
+      } else if (def.type === 'array') {
+        type = 'list';
+        placeholder = def.description || 'One item per line';
       }
 
       return {
@@ -339,20 +373,95 @@ export class TemplateEngine {
         defaultValue: def.defaultValue,
         options: def.options,
         placeholder,
+        constraints: def.constraints,
       };
     });
   }
 
+  /**
+   * Processes a template and checks the rendered conversation plus the
+   * requested completion against the model's context window. With the
+   * 'truncate' strategy, string inputs are cut (largest first) until the
+   * request fits or nothing is left to cut.
+   */
+  public fitToContextWindow(
+    template: string,
+    variables: Record<string, any>,
+    definitions: VariableDefinition[],
+    options: ContextFitOptions
+  ): ContextFitResult {
+    const { model, maxTokens, overflow, ...processOptions } = options;
+    const inputs = { ...variables };
+    const truncatedVariables: string[] = [];
+
+    let result = this.processTemplate(
+      template,
+      inputs,
+      definitions,
+      processOptions
+    );
+    let usage = tokenizer.checkContextWindow(result.messages, model, maxTokens);
+
+    if (!result.isValid || overflow !== 'truncate') {
+      return { result, usage, truncatedVariables };
+    }
+
+    const truncatable = definitions
+      .filter(def => def.type === 'string' || def.type === 'long-text')
+      .map(def => def.name);
+
+    for (let pass = 0; !usage.fits && pass < MAX_TRUNCATION_PASSES; pass++) {
+      const [largest] = truncatable
+        .filter(name => typeof inputs[name] === 'string' && inputs[name])
+        .map(name => ({
+          name,
+          tokens: tokenizer.countTokens(inputs[name], model),
+        }))
+        .sort((a, b) => b.tokens - a.tokens);
+      if (!largest) break;
+
+      const excess = usage.promptTokens + usage.maxTokens - usage.contextWindow;
+      inputs[largest.name] = tokenizer.truncate(
+        inputs[largest.name],
+        largest.tokens - excess,
+        model
+      );
+      if (!truncatedVariables.includes(largest.name)) {
+        truncatedVariables.push(largest.name);
+      }
+
+      result = this.processTemplate(
+        template,
+        inputs,
+        definitions,
+        processOptions
+      );
+      if (!result.isValid) break;
+      usage = tokenizer.checkContextWindow(result.messages, model, maxTokens);
+    }
+
+    return { result, usage, truncatedVariables };
+  }
+
   public previewTemplate(
     template: string,
     variables: Record<string, any>,
-    definitions: VariableDefinition[]
+    definitions: VariableDefinition[],
+    options: ProcessOptions & { model?: string } = {}
   ): {
     preview: string;
+    messages: PromptMessage[];
     warnings: string[];
     estimatedTokens: number;
+    contextWindow: number;
   } {
-    const result = this.processTemplate(template, variables, definitions);
+    const { model, ...processOptions } = options;
+    const result = this.processTemplate(
+      template,
+      variables,
+      definitions,
+      processOptions
+    );
     const warnings: string[] = [];
 
     // Add warnings for missing variables
@@ -362,18 +471,28 @@ export class TemplateEngine {
       );
     }
 
-    // Estimate token count (rough approximation: 1 token ≈ 4 characters)
-    const estimatedTokens = Math.ceil(result.processedTemplate.length / 4);
+    for (const issue of result.invalidVariables) {
+      warnings.push(`Invalid value for "${issue.name}": ${issue.message}`);
+    }
+
+    // Count with the model's own encoding, including chat formatting
+    const estimatedTokens = result.isValid
+      ? tokenizer.countMessageTokens(result.messages, model)
+      : tokenizer.countTokens(result.processedTemplate, model);
+    const { contextWindow } = tokenizer.getModelLimits(model);
 
-    // Add warnings for long templates
-    if (estimatedTokens > 3000) {
-      warnings.push('Template may exceed token limits for some models');
+    if (estimatedTokens > contextWindow) {
+      warnings.push(
+        `Prompt uses ${estimatedTokens} tokens, more than the ${contextWindow}-token context window of ${model || 'the default model'}`
+      );
     }
 
     return {
       preview: result.processedTemplate,
+      messages: result.messages,
       warnings,
       estimatedTokens,
+      contextWindow,
     };
   }
 }
@@ -0,0 +1,264 @@
+/**
+ * Built-in filters for `{{ value | filter:arg | filter }}` pipelines.
+ * Each filter receives the raw value produced by the previous step, so
+ * structured data stays structured until the final string conversion.
+ */
+export interface TemplateFilter {
+  description: string;
+  minArgs: number;
+  maxArgs: number;
+  apply(value: unknown, args: unknown[]): unknown;
+}
+
+// Rendering doesn't know the target model, so token limits are estimated
+const CHARS_PER_TOKEN = 4;
+
+const DEFAULT_TRUNCATE_SUFFIX = '...';
+
+const MARKDOWN_SPECIAL_CHARS = /[\\`*_{}[\]()#+\-.!|>~<]/g;
+
+const YAML_RESERVED =
+  /^(true|false|yes|no|on|off|null|~|[-+]?(\d[\d_]*)?\.?\d+([eE][-+]?\d+)?|\.inf|\.nan)$/i;
+
+export function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(v => stringifyValue(v)).join(', ');
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function requireNonNegativeInteger(filter: string, value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error(`"${filter}" expects a non-negative integer length`);
+  }
+  return value;
+}
+
+function truncateText(text: string, length: number, suffix: string): string {
+  if (text.length <= length) return text;
+  return text.slice(0, Math.max(0, length - suffix.length)) + suffix;
+}
+
+function toLines(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter(item => !isEmpty(item)).map(stringifyValue);
+  }
+
+  return stringifyValue(value)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+function yamlString(value: string, indent: string): string {
+  if (value.includes('\n') && !/^\s/.test(value)) {
+    const lines = value
+      .replace(/\n+$/, '')
+      .split('\n')
+      .map(line => (line ? indent + line : ''));
+    return `|-\n${lines.join('\n')}`;
+  }
+
+  const plain =
+    value !== '' &&
+    !/^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+    !/[\s:]$/.test(value) &&
+    !value.includes(': ') &&
+    !value.includes(' #') &&
+    !value.includes('\n') &&
+    !YAML_RESERVED.test(value);
+
+  // Double-quoted JSON strings are valid YAML scalars
+  return plain ? value : JSON.stringify(value);
+}
+
+function yamlScalar(value: unknown, indent: string): string {
+  if (value === undefined || value === null) return 'null';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return yamlString(value, indent);
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return Number.isNaN(value) ? '.nan' : value > 0 ? '.inf' : '-.inf';
+  }
+  return String(value);
+}
+
+function isNonEmptyCollection(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return isPlainObject(value) && Object.keys(value).length > 0;
+}
+
+export function toYaml(value: unknown, indent = ''): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+
+    return value
+      .map(item => {
+        const childIndent = indent + '  ';
+        // Nested collections start on the same line as the dash
+        const rendered = isNonEmptyCollection(item)
+          ? toYaml(item, childIndent).slice(childIndent.length)
+          : yamlScalar(item, childIndent);
+        return `${indent}- ${rendered}`;
+      })
+      .join('\n');
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return '{}';
+
+    return entries
+      .map(([key, item]) => {
+        const childIndent = indent + '  ';
+        const rendered = isNonEmptyCollection(item)
+          ? `\n${toYaml(item, childIndent)}`
+          : ` ${yamlScalar(item, childIndent)}`;
+        return `${indent}${yamlString(key, '')}:${rendered}`;
+      })
+      .join('\n');
+  }
+
+  return yamlScalar(value, indent);
+}
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  json: {
+    description: 'Serialize as JSON, optionally with an indent width',
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [indent = 2]) =>
+      JSON.stringify(
+        value === undefined ? null : value,
+        null,
+        requireNonNegativeInteger('json', indent)
+      ),
+  },
+
+  yaml: {
+    description: 'Serialize as YAML',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => toYaml(value),
+  },
+
+  truncate: {
+    description: 'Limit to a number of characters, including the suffix',
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (value, [length, suffix = DEFAULT_TRUNCATE_SUFFIX]) =>
+      truncateText(
+        stringifyValue(value),
+        requireNonNegativeInteger('truncate', length),
+        stringifyValue(suffix)
+      ),
+  },
+
+  'token-truncate': {
+    description: 'Limit to an estimated number of tokens, at a word boundary',
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (value, [maxTokens, suffix = DEFAULT_TRUNCATE_SUFFIX]) => {
+      const text = stringifyValue(value);
+      const limit =
+        requireNonNegativeInteger('token-truncate', maxTokens) *
+        CHARS_PER_TOKEN;
+      if (text.length <= limit) return text;
+
+      const cut = text.slice(0, limit);
+      // Drop a trailing partial word unless the cut landed on a boundary
+      const boundary = /\s/.test(text[limit])
+        ? cut.length
+        : cut.search(/\s+\S*$/);
+      return (
+        (boundary > 0 ? cut.slice(0, boundary) : cut).trimEnd() +
+        stringifyValue(suffix)
+      );
+    },
+  },
+
+  upper: {
+    description: 'Convert to upper case',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => stringifyValue(value).toUpperCase(),
+  },
+
+  lower: {
+    description: 'Convert to lower case',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => stringifyValue(value).toLowerCase(),
+  },
+
+  join: {
+    description: 'Join list items with a separator (default ", ")',
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [separator = ', ']) =>
+      Array.isArray(value)
+        ? value.map(stringifyValue).join(stringifyValue(separator))
+        : stringifyValue(value),
+  },
+
+  default: {
+    description: 'Fall back to a value when the input is missing or empty',
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (value, [fallback]) => (isEmpty(value) ? fallback : value),
+  },
+
+  'bullet-list': {
+    description: 'Render list items (or lines of text) as a bullet list',
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [marker = '-']) =>
+      toLines(value)
+        .map(line => `${stringifyValue(marker)} ${line.replace(/\n/g, '\n  ')}`)
+        .join('\n'),
+  },
+
+  'escape-markdown': {
+    description: 'Escape Markdown control characters',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value =>
+      stringifyValue(value).replace(MARKDOWN_SPECIAL_CHARS, '\\$&'),
+  },
+};
+
+export function getTemplateFilter(name: string): TemplateFilter | undefined {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_FILTERS, name)
+    ? TEMPLATE_FILTERS[name]
+    : undefined;
+}
@@ -0,0 +1,616 @@
+import { ValidationError } from '../utils/error-handler';
+
+export interface SourceLocation {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface PathExpression {
+  original: string;
+  parts: string[];
+  // `this`-rooted paths never fall back to enclosing scopes
+  isThis: boolean;
+  // `@index`, `@first`, `@last` and `@key` inside #each blocks
+  isData: boolean;
+}
+
+export interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+export type FilterArgument =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'path'; path: PathExpression };
+
+export interface FilterCall {
+  name: string;
+  args: FilterArgument[];
+}
+
+export interface VariableNode {
+  type: 'variable';
+  path: PathExpression;
+  // `{{ value | truncate:200 | upper }}` pipeline, applied left to right
+  filters: FilterCall[];
+  loc: SourceLocation;
+}
+
+export interface BlockNode {
+  type: 'block';
+  helper: BlockHelper;
+  path: PathExpression;
+  body: TemplateNode[];
+  inverse: TemplateNode[] | null;
+  loc: SourceLocation;
+}
+
+export interface PartialNode {
+  type: 'partial';
+  name: string;
+  loc: SourceLocation;
+}
+
+export type TemplateNode = TextNode | VariableNode | BlockNode | PartialNode;
+
+export interface TemplateAST {
+  type: 'template';
+  body: TemplateNode[];
+}
+
+export type BlockHelper = 'if' | 'unless' | 'each';
+
+const BLOCK_HELPERS: BlockHelper[] = ['if', 'unless', 'each'];
+const DATA_VARIABLES = ['@index', '@first', '@last', '@key'];
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+export const PARTIAL_NAME = /^[a-zA-Z_][a-zA-Z0-9_.-]*$/;
+const FILTER_NAME = /^[a-zA-Z][a-zA-Z0-9_-]*$/;
+const NUMBER_LITERAL = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Base class for template errors that can be traced back to a position
+ * in the template source
+ */
+export class TemplateError extends ValidationError {
+  line: number;
+  column: number;
+
+  constructor(message: string, loc: SourceLocation) {
+    super(`${message} (line ${loc.line}, column ${loc.column})`, {
+      line: loc.line,
+      column: loc.column,
+      reason: message,
+    });
+    this.name = 'TemplateError';
+    this.line = loc.line;
+    this.column = loc.column;
+  }
+}
+
+export class TemplateSyntaxError extends TemplateError {
+  constructor(message: string, loc: SourceLocation) {
+    super(message, loc);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+type Token =
+  | { kind: 'text'; value: string }
+  | {
+      kind: 'open' | 'close' | 'else' | 'variable' | 'partial' | 'comment';
+      content: string;
+      loc: SourceLocation;
+    };
+
+type TagToken = Exclude<Token, { kind: 'text' }>;
+
+interface OpenBlock {
+  node: BlockNode;
+  // Chained `{{else if}}` blocks are closed together with their parent
+  chained: boolean;
+  inInverse: boolean;
+}
+
+class TemplateParser {
+  private readonly lineStarts: number[] = [0];
+
+  constructor(private readonly source: string) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  public parse(): TemplateAST {
+    const tokens = this.tokenize();
+    this.stripStandaloneTags(tokens);
+
+    const root: TemplateNode[] = [];
+    const stack: OpenBlock[] = [];
+
+    const currentBody = (): TemplateNode[] => {
+      const top = stack[stack.length - 1];
+      if (!top) return root;
+      if (top.inInverse) {
+        top.node.inverse = top.node.inverse || [];
+        return top.node.inverse;
+      }
+      return top.node.body;
+    };
+
+    for (const token of tokens) {
+      switch (token.kind) {
+        case 'text':
+          if (token.value) {
+            currentBody().push({ type: 'text', value: token.value });
+          }
+          break;
+
+        case 'comment':
+          break;
+
+        case 'variable':
+          currentBody().push(this.parseVariable(token));
+          break;
+
+        case 'partial': {
+          const name = token.content.trim();
+          if (!PARTIAL_NAME.test(name)) {
+            throw new TemplateSyntaxError(
+              `Invalid partial name "${name}"`,
+              token.loc
+            );
+          }
+          currentBody().push({ type: 'partial', name, loc: token.loc });
+          break;
+        }
+
+        case 'open': {
+          const node = this.parseBlockOpen(token);
+          currentBody().push(node);
+          stack.push({ node, chained: false, inInverse: false });
+          break;
+        }
+
+        case 'else':
+          this.parseElse(token, stack);
+          break;
+
+        case 'close':
+          this.parseBlockClose(token, stack);
+          break;
+      }
+    }
+
+    const unclosed = stack.find(block => !block.chained);
+    if (unclosed) {
+      throw new TemplateSyntaxError(
+        `Unclosed {{#${unclosed.node.helper}}} block`,
+        unclosed.node.loc
+      );
+    }
+
+    return { type: 'template', body: root };
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const source = this.source;
+    let text = '';
+    let i = 0;
+
+    while (i < source.length) {
+      // `\{{` renders a literal `{{`
+      if (source.startsWith('\\{{', i)) {
+        text += '{{';
+        i += 3;
+        continue;
+      }
+
+      if (!source.startsWith('{{', i)) {
+        text += source[i];
+        i++;
+        continue;
+      }
+
+      const loc = this.locate(i);
+
+      if (text) {
+        tokens.push({ kind: 'text', value: text });
+        text = '';
+      }
+
+      // Long comments may contain `}}`
+      if (source.startsWith('{{!--', i)) {
+        const end = source.indexOf('--}}', i + 5);
+        if (end === -1) {
+          throw new TemplateSyntaxError('Unclosed comment', loc);
+        }
+        tokens.push({ kind: 'comment', content: '', loc });
+        i = end + 4;
+        continue;
+      }
+
+      const end = source.indexOf('}}', i + 2);
+      if (end === -1) {
+        throw new TemplateSyntaxError('Unclosed tag, expected "}}"', loc);
+      }
+
+      const raw = source.slice(i + 2, end);
+      tokens.push(this.classifyTag(raw, loc));
+      i = end + 2;
+    }
+
+    if (text) {
+      tokens.push({ kind: 'text', value: text });
+    }
+
+    return tokens;
+  }
+
+  private classifyTag(raw: string, loc: SourceLocation): TagToken {
+    const trimmed = raw.trim();
+
+    if (!trimmed) {
+      throw new TemplateSyntaxError('Empty tag', loc);
+    }
+
+    if (trimmed.includes('{{')) {
+      throw new TemplateSyntaxError('Unexpected "{{" inside tag', loc);
+    }
+
+    switch (trimmed[0]) {
+      case '!':
+        return { kind: 'comment', content: '', loc };
+      case '#':
+        return { kind: 'open', content: trimmed.slice(1).trim(), loc };
+      case '/':
+        return { kind: 'close', content: trimmed.slice(1).trim(), loc };
+      case '>':
+        return { kind: 'partial', content: trimmed.slice(1).trim(), loc };
+    }
+
+    if (trimmed === 'else' || trimmed.startsWith('else ')) {
+      return { kind: 'else', content: trimmed.slice(4).trim(), loc };
+    }
+
+    return { kind: 'variable', content: trimmed, loc };
+  }
+
+  /**
+   * Block tags that sit alone on their line are removed together with that
+   * line, so loops and conditionals do not leave blank lines behind
+   */
+  private stripStandaloneTags(tokens: Token[]): void {
+    const stripStart = new Map<number, number>();
+    const stripEnd = new Map<number, number>();
+
+    tokens.forEach((token, index) => {
+      if (
+        token.kind !== 'open' &&
+        token.kind !== 'close' &&
+        token.kind !== 'else' &&
+        token.kind !== 'comment'
+      ) {
+        return;
+      }
+
+      const prev = tokens[index - 1];
+      const next = tokens[index + 1];
+
+      let leading = 0;
+      if (prev) {
+        if (prev.kind !== 'text') return;
+        const lastNewline = prev.value.lastIndexOf('\n');
+        const indent = prev.value.slice(lastNewline + 1);
+        if (!/^[ \t]*$/.test(indent)) return;
+        if (lastNewline === -1 && index - 1 !== 0) return;
+        leading = indent.length;
+      }
+
+      let trailing = 0;
+      if (next) {
+        if (next.kind !== 'text') return;
+        const lineEnd = /^[ \t]*(\r?\n|$)/.exec(next.value);
+        if (!lineEnd) return;
+        if (!lineEnd[1] && index + 1 !== tokens.length - 1) return;
+        trailing = lineEnd[0].length;
+      }
+
+      if (prev) stripEnd.set(index - 1, leading);
+      if (next) stripStart.set(index + 1, trailing);
+    });
+
+    tokens.forEach((token, index) => {
+      if (token.kind !== 'text') return;
+      const start = stripStart.get(index) || 0;
+      const end = token.value.length - (stripEnd.get(index) || 0);
+      token.value = start < end ? token.value.slice(start, end) : '';
+    });
+  }
+
+  private parseBlockOpen(token: TagToken): BlockNode {
+    const [helper, ...rest] = token.content.split(/\s+/);
+
+    if (!BLOCK_HELPERS.includes(helper as BlockHelper)) {
+      throw new TemplateSyntaxError(
+        `Unknown block helper "#${helper}". Supported: ${BLOCK_HELPERS.map(h => `#${h}`).join(', ')}`,
+        token.loc
+      );
+    }
+
+    const argument = rest.join(' ');
+    if (!argument) {
+      throw new TemplateSyntaxError(
+        `{{#${helper}}} requires a variable`,
+        token.loc
+      );
+    }
+
+    return {
+      type: 'block',
+      helper: helper as BlockHelper,
+      path: this.parsePath(argument, token.loc),
+      body: [],
+      inverse: null,
+      loc: token.loc,
+    };
+  }
+
+  private parseElse(token: TagToken, stack: OpenBlock[]): void {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      throw new TemplateSyntaxError('{{else}} outside of a block', token.loc);
+    }
+
+    if (top.inInverse) {
+      throw new TemplateSyntaxError(
+        `Duplicate {{else}} in {{#${top.node.helper}}} block`,
+        token.loc
+      );
+    }
+
+    top.inInverse = true;
+
+    if (!token.content) return;
+
+    // `{{else if x}}` opens a nested conditional inside the inverse branch
+    const [helper, ...rest] = token.content.split(/\s+/);
+    if (helper !== 'if' && helper !== 'unless') {
+      throw new TemplateSyntaxError(
+        `Unexpected "{{else ${token.content}}}"`,
+        token.loc
+      );
+    }
+
+    if (top.node.helper === 'each') {
+      throw new TemplateSyntaxError(
+        `{{else ${helper}}} is not allowed in {{#each}} blocks`,
+        token.loc
+      );
+    }
+
+    const chained: BlockNode = {
+      type: 'block',
+      helper,
+      path: this.parsePath(rest.join(' '), token.loc),
+      body: [],
+      inverse: null,
+      loc: token.loc,
+    };
+
+    top.node.inverse = [chained];
+    stack.push({ node: chained, chained: true, inInverse: false });
+  }
+
+  private parseBlockClose(token: TagToken, stack: OpenBlock[]): void {
+    // Pop every `{{else if}}` link first, then the block that opened the chain
+    while (stack.length > 0 && stack[stack.length - 1].chained) {
+      stack.pop();
+    }
+
+    const top = stack.pop();
+    if (!top) {
+      throw new TemplateSyntaxError(
+        `Unexpected {{/${token.content}}} without a matching opening block`,
+        token.loc
+      );
+    }
+
+    if (top.node.helper !== token.content) {
+      throw new TemplateSyntaxError(
+        `Expected {{/${top.node.helper}}} to close the block opened at line ${top.node.loc.line}, column ${top.node.loc.column}, but found {{/${token.content}}}`,
+        token.loc
+      );
+    }
+  }
+
+  private parseVariable(token: TagToken): VariableNode {
+    const [expression, ...filters] = this.splitOutsideQuotes(
+      token.content,
+      '|',
+      token.loc
+    );
+
+    return {
+      type: 'variable',
+      path: this.parsePath(expression, token.loc),
+      filters: filters.map(filter => this.parseFilter(filter, token.loc)),
+      loc: token.loc,
+    };
+  }
+
+  private parseFilter(expression: string, loc: SourceLocation): FilterCall {
+    const [rawName, ...args] = this.splitOutsideQuotes(expression, ':', loc);
+    const name = rawName.trim();
+
+    if (!name) {
+      throw new TemplateSyntaxError('Missing filter name after "|"', loc);
+    }
+
+    if (!FILTER_NAME.test(name)) {
+      throw new TemplateSyntaxError(`Invalid filter name "${name}"`, loc);
+    }
+
+    return {
+      name,
+      args: args.map(arg => this.parseFilterArgument(arg, name, loc)),
+    };
+  }
+
+  private parseFilterArgument(
+    raw: string,
+    filter: string,
+    loc: SourceLocation
+  ): FilterArgument {
+    const value = raw.trim();
+
+    if (!value) {
+      throw new TemplateSyntaxError(
+        `Missing argument for filter "${filter}"`,
+        loc
+      );
+    }
+
+    const quote = value[0];
+    if (quote === '"' || quote === "'") {
+      if (value.length < 2 || !value.endsWith(quote)) {
+        throw new TemplateSyntaxError(
+          `Invalid string argument ${value} for filter "${filter}"`,
+          loc
+        );
+      }
+
+      return {
+        type: 'literal',
+        value: value
+          .slice(1, -1)
+          .replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char)),
+      };
+    }
+
+    if (NUMBER_LITERAL.test(value)) {
+      return { type: 'literal', value: Number(value) };
+    }
+
+    if (value === 'true' || value === 'false') {
+      return { type: 'literal', value: value === 'true' };
+    }
+
+    if (value === 'null') {
+      return { type: 'literal', value: null };
+    }
+
+    return { type: 'path', path: this.parsePath(value, loc) };
+  }
+
+  /**
+   * Splits a tag expression on a separator, ignoring separators inside
+   * single- or double-quoted strings
+   */
+  private splitOutsideQuotes(
+    expression: string,
+    separator: string,
+    loc: SourceLocation
+  ): string[] {
+    const segments: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < expression.length; i++) {
+      const char = expression[i];
+
+      if (quote) {
+        current += char;
+        if (char === '\\' && i + 1 < expression.length) {
+          current += expression[++i];
+        } else if (char === quote) {
+          quote = null;
+        }
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        quote = char;
+        current += char;
+      } else if (char === separator) {
+        segments.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    if (quote) {
+      throw new TemplateSyntaxError('Unterminated string in tag', loc);
+    }
+
+    segments.push(current);
+    return segments;
+  }
+
+  private parsePath(expression: string, loc: SourceLocation): PathExpression {
+    const original = expression.trim();
+
+    if (!original) {
+      throw new TemplateSyntaxError('Missing variable name', loc);
+    }
+
+    if (DATA_VARIABLES.includes(original)) {
+      return { original, parts: [original], isThis: false, isData: true };
+    }
+
+    if (original.startsWith('@')) {
+      throw new TemplateSyntaxError(
+        `Unknown data variable "${original}". Supported: ${DATA_VARIABLES.join(', ')}`,
+        loc
+      );
+    }
+
+    const parts = original.split('.');
+    parts.forEach((part, index) => {
+      const valid = IDENTIFIER.test(part) || (index > 0 && /^\d+$/.test(part));
+      if (!valid) {
+        throw new TemplateSyntaxError(
+          `Invalid variable name "${original}"`,
+          loc
+        );
+      }
+    });
+
+    const isThis = parts[0] === 'this';
+
+    return {
+      original,
+      parts: isThis ? parts.slice(1) : parts,
+      isThis,
+      isData: false,
+    };
+  }
+
+  private locate(offset: number): SourceLocation {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return {
+      line: low + 1,
+      column: offset - this.lineStarts[low] + 1,
+      offset,
+    };
+  }
+}
+
+export function parseTemplate(source: string): TemplateAST {
+  return new TemplateParser(source).parse();
+}
@@ -0,0 +1,473 @@
+/**
+ * Line diffs for prompt versions. Lines are aligned with Myers' O(ND)
+ * algorithm, grouped into unified hunks with surrounding context, and
+ * changed line pairs get a word-level diff for highlighting. Three-way
+ * merges combine two edits of a common base the way diff3 does.
+ */
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  value: T;
+}
+
+export interface DiffSegment {
+  type: DiffOpType;
+  text: string;
+}
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  content: string;
+  // Line numbers from 1; absent on the side the line doesn't exist in
+  oldNumber?: number;
+  newNumber?: number;
+  // Word changes against the paired removed or added line
+  segments?: DiffSegment[];
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+export interface DiffOptions {
+  // Unchanged lines shown around each change
+  context?: number;
+}
+
+export type MergeChunk<T> =
+  | { type: 'resolved'; values: T[] }
+  // Both sides changed the same base lines differently
+  | { type: 'conflict'; base: T[]; ours: T[]; theirs: T[] };
+
+export interface TextMergeConflict {
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export interface TextMerge {
+  // Merged text, with conflict markers around each conflict
+  text: string;
+  conflicts: TextMergeConflict[];
+}
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+const DEFAULT_CONTEXT = 3;
+
+// Runs of word characters, runs of whitespace, or single punctuation marks
+const WORD_TOKENS = /\w+|\s+|[^\w\s]/g;
+
+/**
+ * Shortest edit script turning `a` into `b`. Deletions come before
+ * insertions within a change.
+ */
+export function diffSequences<T>(a: T[], b: T[]): Array<DiffOp<T>> {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  // Furthest x per diagonal before each round, kept for the backtrack.
+  // Round d only reads diagonals -d-1..d+1, so only those are copied.
+  const trace: number[][] = [];
+
+  const pickDown = (d: number, k: number, at: (k: number) => number): boolean =>
+    k === -d || (k !== d && at(k - 1) < at(k + 1));
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = pickDown(d, k, i => v[i + offset])
+        ? v[k + 1 + offset]
+        : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  const ops: Array<DiffOp<T>> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const round = trace[d];
+    const at = (k: number): number => round[k + d + 1];
+    const k = x - y;
+    const prevK = pickDown(d, k, at) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', value: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', value: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', value: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Word-level changes between two versions of a line, as segments of the
+ * old line (equal/delete) and of the new line (equal/insert)
+ */
+export function diffWords(
+  oldLine: string,
+  newLine: string
+): { old: DiffSegment[]; new: DiffSegment[] } {
+  const ops = diffSequences(
+    oldLine.match(WORD_TOKENS) || [],
+    newLine.match(WORD_TOKENS) || []
+  );
+
+  const merge = (keep: DiffOpType): DiffSegment[] => {
+    const segments: DiffSegment[] = [];
+    for (const op of ops) {
+      if (op.type !== 'equal' && op.type !== keep) continue;
+
+      const last = segments[segments.length - 1];
+      if (last && last.type === op.type) {
+        last.text += op.value;
+      } else {
+        segments.push({ type: op.type, text: op.value });
+      }
+    }
+    return segments;
+  };
+
+  return { old: merge('delete'), new: merge('insert') };
+}
+
+/**
+ * Diffs two texts line by line into unified hunks
+ */
+export function diffLines(
+  oldText: string,
+  newText: string,
+  options: DiffOptions = {}
+): TextDiff {
+  const context = options.context ?? DEFAULT_CONTEXT;
+  const lines = alignLines(
+    diffSequences(splitLines(oldText), splitLines(newText))
+  );
+
+  const additions = lines.filter(line => line.type === 'add').length;
+  const deletions = lines.filter(line => line.type === 'remove').length;
+
+  // Changed lines with their context, merging ranges that touch
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, i) => {
+    if (line.type === 'context') return;
+
+    const start = Math.max(0, i - context);
+    const end = Math.min(lines.length, i + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  const hunks = ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end);
+    // Lines of each side before the hunk
+    const before = lines.slice(0, start);
+    const oldBefore = before.filter(line => line.type !== 'add').length;
+    const newBefore = before.filter(line => line.type !== 'remove').length;
+    const oldLines = hunkLines.filter(line => line.type !== 'add').length;
+    const newLines = hunkLines.filter(line => line.type !== 'remove').length;
+
+    // Unified diffs number an empty side by the line before it
+    return {
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkLines,
+    };
+  });
+
+  return { hunks, additions, deletions };
+}
+
+/**
+ * Renders a diff in the unified format used by `diff -u` and git
+ */
+export function formatUnifiedDiff(
+  diff: TextDiff,
+  fromLabel: string,
+  toLabel: string
+): string {
+  if (diff.hunks.length === 0) return '';
+
+  const prefix: Record<DiffLine['type'], string> = {
+    context: ' ',
+    add: '+',
+    remove: '-',
+  };
+
+  return [
+    `--- ${fromLabel}`,
+    `+++ ${toLabel}`,
+    ...diff.hunks.flatMap(hunk => [
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+      ...hunk.lines.map(line => `${prefix[line.type]}${line.content}`),
+    ]),
+  ].join('\n');
+}
+
+/**
+ * Three-way merge of two sequences edited from a common base. Changes
+ * to different base items are combined. Changes to the same items, or
+ * insertions at the same place, are taken once if both sides made the
+ * same change and otherwise become a conflict.
+ */
+export function mergeSequences<T>(
+  base: T[],
+  ours: T[],
+  theirs: T[]
+): Array<MergeChunk<T>> {
+  const changes = [
+    ...changeRanges(diffSequences(base, ours)).map(change => ({
+      ...change,
+      side: 'ours' as const,
+    })),
+    ...changeRanges(diffSequences(base, theirs)).map(change => ({
+      ...change,
+      side: 'theirs' as const,
+    })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const chunks: Array<MergeChunk<T>> = [];
+  const keep = (values: T[]): void => {
+    if (values.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'resolved') {
+      last.values.push(...values);
+    } else {
+      chunks.push({ type: 'resolved', values: [...values] });
+    }
+  };
+
+  let position = 0;
+  let i = 0;
+  while (i < changes.length) {
+    // Changes overlapping the first one, transitively
+    const group = [changes[i]];
+    const { start } = changes[i];
+    let { end } = changes[i];
+    const overlaps = (change: (typeof changes)[number]): boolean =>
+      change.start < end ||
+      // Two insertions at the same place
+      (change.start === end &&
+        change.end === end &&
+        group.some(c => c.start === end && c.end === end));
+    for (i++; i < changes.length && overlaps(changes[i]); i++) {
+      group.push(changes[i]);
+      end = Math.max(end, changes[i].end);
+    }
+
+    keep(base.slice(position, start));
+    position = end;
+
+    // Each side's version of base[start, end)
+    const apply = (side: 'ours' | 'theirs'): T[] => {
+      const values: T[] = [];
+      let at = start;
+      for (const change of group.filter(c => c.side === side)) {
+        values.push(...base.slice(at, change.start), ...change.values);
+        at = change.end;
+      }
+      values.push(...base.slice(at, end));
+      return values;
+    };
+
+    const sides = new Set(group.map(change => change.side));
+    if (sides.size === 1) {
+      keep(apply(group[0].side));
+      continue;
+    }
+
+    const oursValues = apply('ours');
+    const theirsValues = apply('theirs');
+    if (
+      oursValues.length === theirsValues.length &&
+      oursValues.every((value, j) => value === theirsValues[j])
+    ) {
+      keep(oursValues);
+    } else {
+      chunks.push({
+        type: 'conflict',
+        base: base.slice(start, end),
+        ours: oursValues,
+        theirs: theirsValues,
+      });
+    }
+  }
+  keep(base.slice(position));
+
+  return chunks;
+}
+
+/**
+ * Merges two edits of a text line by line. Conflicts are written with
+ * git-style `<<<<<<<`, `=======` and `>>>>>>>` markers.
+ */
+export function mergeText(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = { ours: 'ours', theirs: 'theirs' }
+): TextMerge {
+  // Unchanged on one side: take the other as is
+  if (ours === base || ours === theirs) return { text: theirs, conflicts: [] };
+  if (theirs === base) return { text: ours, conflicts: [] };
+
+  const lines: string[] = [];
+  const conflicts: TextMergeConflict[] = [];
+  const chunks = mergeSequences(
+    splitLines(base),
+    splitLines(ours),
+    splitLines(theirs)
+  );
+
+  for (const chunk of chunks) {
+    if (chunk.type === 'resolved') {
+      lines.push(...chunk.values);
+      continue;
+    }
+
+    conflicts.push({
+      base: chunk.base.join('\n'),
+      ours: chunk.ours.join('\n'),
+      theirs: chunk.theirs.join('\n'),
+    });
+    lines.push(
+      `<<<<<<< ${labels.ours}`,
+      ...chunk.ours,
+      '=======',
+      ...chunk.theirs,
+      `>>>>>>> ${labels.theirs}`
+    );
+  }
+
+  return { text: lines.join('\n'), conflicts };
+}
+
+/**
+ * Runs of inserted and deleted items, as the base range they replace and
+ * the items replacing it
+ */
+function changeRanges<T>(
+  ops: Array<DiffOp<T>>
+): Array<{ start: number; end: number; values: T[] }> {
+  const changes: Array<{ start: number; end: number; values: T[] }> = [];
+  let index = 0;
+  let current: { start: number; end: number; values: T[] } | null = null;
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      current = null;
+      index++;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: index, end: index, values: [] };
+      changes.push(current);
+    }
+    if (op.type === 'delete') {
+      index++;
+      current.end = index;
+    } else {
+      current.values.push(op.value);
+    }
+  }
+
+  return changes;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+/**
+ * Numbers each line and pairs the removed and added lines of every change
+ * for word highlighting. Removed lines are listed before added ones.
+ */
+function alignLines(ops: Array<DiffOp<string>>): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let oldNumber = 0;
+  let newNumber = 0;
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = (): void => {
+    for (let i = 0; i < Math.min(removed.length, added.length); i++) {
+      const words = diffWords(removed[i].content, added[i].content);
+      removed[i].segments = words.old;
+      added[i].segments = words.new;
+    }
+    lines.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'delete') {
+      removed.push({
+        type: 'remove',
+        content: op.value,
+        oldNumber: ++oldNumber,
+      });
+    } else if (op.type === 'insert') {
+      added.push({ type: 'add', content: op.value, newNumber: ++newNumber });
+    } else {
+      flush();
+      lines.push({
+        type: 'context',
+        content: op.value,
+        oldNumber: ++oldNumber,
+        newNumber: ++newNumber,
+      });
+    }
+  }
+  flush();
+
+  return lines;
+}
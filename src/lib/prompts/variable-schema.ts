@@ -0,0 +1,362 @@
+import { z } from 'zod';
+import {
+  jsonSchemaToZod,
+  type SchemaValidationRule,
+} from '../validation/json-schema';
+import type {
+  VariableConstraints,
+  VariableDefinition,
+} from '../../types/database';
+
+export const VARIABLE_TYPES = [
+  'string',
+  'long-text',
+  'number',
+  'boolean',
+  'array',
+  'object',
+  'enum',
+  'date',
+  'file',
+  'json',
+] as const;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Form fields and query strings deliver everything as text, so each type
+// accepts its common string spellings before validation
+function coerceNumber(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return Number(value);
+  }
+  return value;
+}
+
+function coerceBoolean(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+
+  const lower = value.toLowerCase();
+  if (lower === 'true' || lower === '1' || lower === 'yes') return true;
+  if (lower === 'false' || lower === '0' || lower === 'no') return false;
+  return value;
+}
+
+function coerceString(value: unknown): unknown {
+  return typeof value === 'number' || typeof value === 'boolean'
+    ? String(value)
+    : value;
+}
+
+function parseJsonInput(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function splitListInput(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+
+  // Either a JSON array or one item per line
+  if (value.trim().startsWith('[')) return parseJsonInput(value);
+  return value
+    .split(/\r?\n/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function toDateString(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+export function matchesMimeType(type: string, accept: string[]): boolean {
+  return accept.some(pattern =>
+    pattern.endsWith('/*')
+      ? type.startsWith(pattern.slice(0, -1))
+      : type === pattern
+  );
+}
+
+function createStringSchema(
+  constraints: VariableConstraints,
+  options?: string[]
+): z.ZodTypeAny {
+  let schema = z.string();
+
+  if (constraints.minLength !== undefined) {
+    schema = schema.min(constraints.minLength);
+  }
+  if (constraints.maxLength !== undefined) {
+    schema = schema.max(constraints.maxLength);
+  }
+  if (constraints.pattern) {
+    schema = schema.regex(
+      new RegExp(constraints.pattern),
+      `Must match ${constraints.pattern}`
+    );
+  }
+
+  if (options && options.length > 0) {
+    return schema.refine(value => options.includes(value), {
+      message: `Must be one of: ${options.join(', ')}`,
+    });
+  }
+
+  return schema;
+}
+
+function createItemSchema(
+  itemType: VariableConstraints['itemType']
+): z.ZodTypeAny {
+  switch (itemType) {
+    case 'number':
+      return z.preprocess(coerceNumber, z.number().finite());
+    case 'boolean':
+      return z.preprocess(coerceBoolean, z.boolean());
+    default:
+      return z.preprocess(coerceString, z.string());
+  }
+}
+
+function createFileSchema(constraints: VariableConstraints): z.ZodTypeAny {
+  const { accept, maxSizeBytes } = constraints;
+
+  return z
+    .object({
+      name: z.string(),
+      type: z.string(),
+      size: z.number().nonnegative(),
+      content: z.string(),
+    })
+    .refine(file => !accept?.length || matchesMimeType(file.type, accept), {
+      message: `File type must be one of: ${accept?.join(', ')}`,
+    })
+    .refine(file => maxSizeBytes === undefined || file.size <= maxSizeBytes, {
+      message: `File must be at most ${maxSizeBytes} bytes`,
+    });
+}
+
+function createDateSchema(constraints: VariableConstraints): z.ZodTypeAny {
+  const { minDate, maxDate } = constraints;
+
+  return z.preprocess(
+    toDateString,
+    z
+      .string()
+      .refine(value => ISO_DATE.test(value) && !isNaN(Date.parse(value)), {
+        message: 'Must be an ISO date (YYYY-MM-DD)',
+      })
+      // ISO dates compare correctly as strings
+      .refine(value => !minDate || value.slice(0, 10) >= minDate, {
+        message: `Must be on or after ${minDate}`,
+      })
+      .refine(value => !maxDate || value.slice(0, 10) <= maxDate, {
+        message: `Must be on or before ${maxDate}`,
+      })
+  );
+}
+
+/**
+ * Builds the zod schema for a single non-empty variable value, including
+ * coercion from form strings. Shared by server-side validation and the
+ * execution form so both enforce the same rules.
+ */
+export function createVariableValueSchema(
+  definition: VariableDefinition
+): z.ZodTypeAny {
+  const constraints = definition.constraints || {};
+
+  switch (definition.type) {
+    case 'string':
+    case 'long-text':
+      return z.preprocess(
+        coerceString,
+        createStringSchema(constraints, definition.options)
+      );
+
+    case 'enum':
+      return z.preprocess(
+        coerceString,
+        createStringSchema({}, definition.options)
+      );
+
+    case 'number': {
+      let schema = z.number().finite();
+      if (constraints.min !== undefined) schema = schema.min(constraints.min);
+      if (constraints.max !== undefined) schema = schema.max(constraints.max);
+      return z.preprocess(coerceNumber, schema);
+    }
+
+    case 'boolean':
+      return z.preprocess(coerceBoolean, z.boolean());
+
+    case 'array': {
+      let schema = z.array(createItemSchema(constraints.itemType));
+      if (constraints.min !== undefined) schema = schema.min(constraints.min);
+      if (constraints.max !== undefined) schema = schema.max(constraints.max);
+      return z.preprocess(splitListInput, schema);
+    }
+
+    case 'date':
+      return createDateSchema(constraints);
+
+    case 'file':
+      return createFileSchema(constraints);
+
+    case 'object':
+      return z.preprocess(
+        parseJsonInput,
+        definition.schema
+          ? jsonSchemaToZod(definition.schema)
+          : z.record(z.unknown())
+      );
+
+    case 'json':
+      return z.preprocess(
+        parseJsonInput,
+        definition.schema ? jsonSchemaToZod(definition.schema) : z.unknown()
+      );
+
+    default:
+      return z.unknown();
+  }
+}
+
+/**
+ * Schema for a variable as submitted in a form: blank values count as
+ * missing, and only optional variables may be missing
+ */
+export function createVariableSchema(
+  definition: VariableDefinition
+): z.ZodTypeAny {
+  const value = createVariableValueSchema(definition);
+
+  return z.preprocess(
+    input => (isBlank(input) ? undefined : input),
+    definition.required ? value : value.optional()
+  );
+}
+
+export const JsonSchemaRuleSchema: z.ZodType<SchemaValidationRule> = z.lazy(
+  () =>
+    z.object({
+      type: z.enum(['object', 'array', 'string', 'number', 'boolean']),
+      required: z.array(z.string()).optional(),
+      properties: z.record(JsonSchemaRuleSchema).optional(),
+      items: JsonSchemaRuleSchema.optional(),
+      enum: z.array(z.union([z.string(), z.number()])).optional(),
+      minimum: z.number().optional(),
+      maximum: z.number().optional(),
+      minLength: z.number().int().nonnegative().optional(),
+      maxLength: z.number().int().nonnegative().optional(),
+      pattern: z.string().optional(),
+    })
+);
+
+const VariableConstraintsSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  minLength: z.number().int().nonnegative().optional(),
+  maxLength: z.number().int().nonnegative().optional(),
+  pattern: z.string().optional(),
+  itemType: z.enum(['string', 'number', 'boolean']).optional(),
+  minDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  maxDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  accept: z.array(z.string().min(1)).optional(),
+  maxSizeBytes: z.number().int().positive().optional(),
+});
+
+export const VariableDefinitionSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1)
+      .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Invalid variable name'),
+    type: z.enum(VARIABLE_TYPES),
+    required: z.boolean(),
+    description: z.string().optional(),
+    defaultValue: z.unknown().optional(),
+    options: z.array(z.string()).optional(),
+    constraints: VariableConstraintsSchema.optional(),
+    schema: JsonSchemaRuleSchema.optional(),
+  })
+  .superRefine((definition, ctx) => {
+    const constraints = definition.constraints || {};
+    let valid = true;
+
+    const fail = (path: Array<string | number>, message: string): void => {
+      valid = false;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+    };
+
+    if (definition.type === 'enum' && !definition.options?.length) {
+      fail(['options'], 'Enum variables need at least one option');
+    }
+
+    if (definition.type === 'json' && !definition.schema) {
+      fail(['schema'], 'JSON variables need a schema');
+    }
+
+    if (
+      definition.type === 'object' &&
+      definition.schema &&
+      definition.schema.type !== 'object'
+    ) {
+      fail(['schema', 'type'], 'Object variables need an object schema');
+    }
+
+    if (constraints.pattern) {
+      try {
+        new RegExp(constraints.pattern);
+      } catch {
+        fail(['constraints', 'pattern'], 'Invalid regular expression');
+      }
+    }
+
+    const ranges: Array<[string, number | undefined, number | undefined]> = [
+      ['min', constraints.min, constraints.max],
+      ['minLength', constraints.minLength, constraints.maxLength],
+    ];
+    for (const [name, low, high] of ranges) {
+      if (low !== undefined && high !== undefined && low > high) {
+        fail(
+          ['constraints', name],
+          `${name} cannot be greater than ${name.replace('min', 'max')}`
+        );
+      }
+    }
+
+    if (
+      constraints.minDate &&
+      constraints.maxDate &&
+      constraints.minDate > constraints.maxDate
+    ) {
+      fail(['constraints', 'minDate'], 'minDate cannot be after maxDate');
+    }
+
+    // Only check the default once the rest of the definition is usable
+    if (valid && definition.defaultValue !== undefined) {
+      const result = createVariableValueSchema(
+        definition as VariableDefinition
+      ).safeParse(definition.defaultValue);
+      if (!result.success) {
+        fail(
+          ['defaultValue'],
+          `Invalid default value: ${result.error.errors[0]?.message}`
+        );
+      }
+    }
+  });
@@ -1,12 +1,37 @@
 import { prisma } from '../database/client';
-import type { Prompt, PromptVersion } from '@prisma/client';
-import type { VariableDefinition } from '@/types';
+import type {
+  Prisma,
+  Prompt,
+  PromptLabel,
+  PromptVersion,
+} from '@prisma/client';
+import type {
+  PromptMessage,
+  SnippetVersionMap,
+  VariableDefinition,
+} from '@/types';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/error-handler';
+import { assertPromptPermission, promptAccess } from '../auth/access-control';
+import { auditLog, type AuditActor } from '../monitoring/audit-log';
+import { snippetLibrary } from './snippets';
+import { diffLines, type TextDiff } from './text-diff';
 
 export interface VersionInfo {
+  // Absent for a current version that has no stored record yet
+  id?: string;
   version: number;
   template: string;
+  messages?: PromptMessage[];
   variables: VariableDefinition[];
   changeLog?: string;
+  snippetVersions?: SnippetVersionMap;
+  labels: string[];
+  // Whether this is the version pinned when the prompt was published
+  isLive: boolean;
   createdAt: Date;
 }
 
@@ -15,12 +40,11 @@ export interface VersionComparison {
   newVersion: VersionInfo;
   changes: {
     templateChanged: boolean;
+    messagesChanged: boolean;
     variablesChanged: boolean;
-    templateDiff?: {
-      additions: string[];
-      deletions: string[];
-      modifications: string[];
-    };
+    templateDiff?: TextDiff;
+    // Messages are compared as `[role]` headers followed by their content
+    messagesDiff?: TextDiff;
     variablesDiff?: {
       added: VariableDefinition[];
       removed: VariableDefinition[];
@@ -33,14 +57,38 @@ export interface VersionComparison {
   };
 }
 
+export interface LoadedVersion {
+  // PromptVersion record executions of this version reference; absent
+  // for a draft branch
+  id?: string;
+  // Draft branch the content comes from
+  branchId?: string;
+  template: string;
+  messages: PromptMessage[];
+  variables: VariableDefinition[];
+  partials: Record<string, string>;
+}
+
 export class PromptVersionManager {
+  /**
+   * Saves new content as the next version. The backup of the current
+   * version, the prompt update and the new version are written in one
+   * transaction that only succeeds if nobody else saved a version first.
+   *
+   * With `expectedVersion`, the version the edit was based on, a stale
+   * edit fails with a ConflictError whose details diff the latest version
+   * against the edit. Replaying an edit that was already saved returns
+   * the saved version instead of failing.
+   */
   public async createVersion(
     promptId: string,
     userId: string,
     updates: {
       template?: string;
+      messages?: PromptMessage[];
       variables?: VariableDefinition[];
       changeLog?: string;
+      expectedVersion?: number;
     }
   ): Promise<{
     prompt: Prompt;
@@ -49,13 +97,14 @@ export class PromptVersionManager {
   }> {
     // Get current prompt
     const currentPrompt = await prisma.prompt.findFirst({
-      where: { id: promptId, userId },
+      where: { id: promptId, ...promptAccess(userId) },
       include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
     });
 
     if (!currentPrompt) {
-      throw new Error('Prompt not found');
+      throw new NotFoundError('Prompt');
     }
+    await assertPromptPermission(currentPrompt, userId, 'edit');
 
     // Check if there are actually changes
     const hasTemplateChanges =
@@ -64,88 +113,189 @@ export class PromptVersionManager {
       updates.variables &&
       JSON.stringify(updates.variables) !==
         JSON.stringify(currentPrompt.variables);
+    const hasMessageChanges =
+      updates.messages &&
+      JSON.stringify(updates.messages) !==
+        JSON.stringify(currentPrompt.messages);
+    const hasChanges =
+      hasTemplateChanges || hasVariableChanges || hasMessageChanges;
+
+    const { expectedVersion } = updates;
+    const {
+      versions: [latestVersion],
+      ...prompt
+    } = currentPrompt;
+    if (
+      !hasChanges &&
+      expectedVersion !== undefined &&
+      currentPrompt.version === expectedVersion + 1 &&
+      latestVersion?.version === currentPrompt.version
+    ) {
+      // The same edit was saved already, e.g. by a retried request
+      return {
+        prompt,
+        newVersion: latestVersion,
+        versionNumber: currentPrompt.version,
+      };
+    }
+
+    if (
+      expectedVersion !== undefined &&
+      expectedVersion !== currentPrompt.version
+    ) {
+      throw this.conflict(currentPrompt, expectedVersion, updates);
+    }
 
-    if (!hasTemplateChanges && !hasVariableChanges) {
-      throw new Error('No changes detected');
+    if (!hasChanges) {
+      throw new ValidationError('No changes detected');
     }
 
     const newVersionNumber = currentPrompt.version + 1;
+    const newTemplate = updates.template || currentPrompt.template;
+    const currentMessages = Array.isArray(currentPrompt.messages)
+      ? (currentPrompt.messages as unknown as PromptMessage[])
+      : [];
+    const newMessages = updates.messages || currentMessages;
+    const newVariables = (updates.variables ||
+      currentPrompt.variables ||
+      []) as Prisma.InputJsonValue;
+
+    // Record which snippet versions each template includes so the version
+    // renders the same way after its snippets change. Templates include
+    // their author's snippets, whoever edits them.
+    const [currentSnippets, newSnippets] = await Promise.all([
+      snippetLibrary.resolveForTemplate(
+        [currentPrompt.template, ...currentMessages.map(m => m.content)],
+        currentPrompt.userId
+      ),
+      snippetLibrary.resolveForTemplate(
+        [newTemplate, ...newMessages.map(m => m.content)],
+        currentPrompt.userId
+      ),
+    ]);
+
+    const newVersionData = {
+      template: newTemplate,
+      messages: newMessages as unknown as Prisma.InputJsonValue,
+      variables: newVariables,
+      snippetVersions: newSnippets.snippetVersions,
+      changeLog: updates.changeLog || `Updated to version ${newVersionNumber}`,
+    };
 
-    // Create version record for current state before updating
-    await prisma.promptVersion.create({
-      data: {
-        promptId,
-        version: currentPrompt.version,
-        template: currentPrompt.template,
-        variables: (currentPrompt.variables || []) as any,
-        changeLog: `Version ${currentPrompt.version} backup`,
-      },
-    });
+    return prisma.$transaction(async tx => {
+      // Create version record for current state before updating, keeping
+      // the record if the version already has one
+      await tx.promptVersion.upsert({
+        where: {
+          promptId_version: { promptId, version: currentPrompt.version },
+        },
+        update: {},
+        create: {
+          promptId,
+          version: currentPrompt.version,
+          template: currentPrompt.template,
+          messages: currentMessages as unknown as Prisma.InputJsonValue,
+          variables: (currentPrompt.variables || []) as Prisma.InputJsonValue,
+          snippetVersions: currentSnippets.snippetVersions,
+          changeLog: `Version ${currentPrompt.version} backup`,
+        },
+      });
+
+      // Only bump the version we read; a concurrent save already moved it
+      const { count } = await tx.prompt.updateMany({
+        where: { id: promptId, version: currentPrompt.version },
+        data: {
+          template: newTemplate,
+          messages: newMessages as unknown as Prisma.InputJsonValue,
+          variables: newVariables,
+          version: newVersionNumber,
+          updatedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictError(
+          `Prompt was updated while version ${newVersionNumber} was being saved`,
+          { expectedVersion: currentPrompt.version }
+        );
+      }
 
-    // Update prompt with new content
-    const updatedPrompt = await prisma.prompt.update({
-      where: { id: promptId },
-      data: {
-        template: updates.template || currentPrompt.template,
-        variables: (updates.variables || currentPrompt.variables || []) as any,
-        version: newVersionNumber,
-        updatedAt: new Date(),
-      },
-    });
+      // A record left behind for this number, e.g. by a deleted version,
+      // is replaced
+      const newVersion = await tx.promptVersion.upsert({
+        where: {
+          promptId_version: { promptId, version: newVersionNumber },
+        },
+        update: newVersionData,
+        create: { promptId, version: newVersionNumber, ...newVersionData },
+      });
 
-    // Create new version record
-    const newVersion = await prisma.promptVersion.create({
-      data: {
-        promptId,
-        version: newVersionNumber,
-        template: updates.template || currentPrompt.template,
-        variables: (updates.variables || currentPrompt.variables || []) as any,
-        changeLog:
-          updates.changeLog || `Updated to version ${newVersionNumber}`,
-      },
+      return {
+        prompt: await tx.prompt.findUniqueOrThrow({ where: { id: promptId } }),
+        newVersion,
+        versionNumber: newVersionNumber,
+      };
     });
-
-    return {
-      prompt: updatedPrompt,
-      newVersion,
-      versionNumber: newVersionNumber,
-    };
   }
 
   public async getVersionHistory(
     promptId: string,
     userId: string,
-    limit = 20
+    limit = 20,
+    // Only these versions, however old
+    versionNumbers?: number[]
   ): Promise<VersionInfo[]> {
-    // Verify user owns the prompt
+    // Verify user can see the prompt
     const prompt = await prisma.prompt.findFirst({
-      where: { id: promptId, userId },
+      where: { id: promptId, ...promptAccess(userId) },
+      include: { labels: true },
     });
 
     if (!prompt) {
-      throw new Error('Prompt not found');
+      throw new NotFoundError('Prompt');
     }
 
     const versions = await prisma.promptVersion.findMany({
-      where: { promptId },
+      where: versionNumbers
+        ? { promptId, version: { in: versionNumbers } }
+        : { promptId },
       orderBy: { version: 'desc' },
       take: limit,
     });
 
+    const labelsFor = (version: number): string[] =>
+      prompt.labels
+        .filter(label => label.version === version)
+        .map(label => label.name)
+        .sort();
+    const isLive = (version: number): boolean =>
+      prompt.status === 'PUBLISHED' && prompt.liveVersion === version;
+
     // Include current version
     const allVersions: VersionInfo[] = [
       {
+        id: versions.find(v => v.version === prompt.version)?.id,
         version: prompt.version,
         template: prompt.template,
+        messages: prompt.messages as unknown as PromptMessage[],
         variables: prompt.variables as unknown as VariableDefinition[],
         changeLog: 'Current version',
+        labels: labelsFor(prompt.version),
+        isLive: isLive(prompt.version),
         createdAt: prompt.updatedAt,
       },
       ...versions.map(v => ({
+        id: v.id,
         version: v.version,
         template: v.template,
+        messages: v.messages as unknown as PromptMessage[],
         variables: v.variables as unknown as VariableDefinition[],
         changeLog: v.changeLog || undefined,
+        snippetVersions:
+          (v.snippetVersions as unknown as SnippetVersionMap | null) ||
+          undefined,
+        labels: labelsFor(v.version),
+        isLive: isLive(v.version),
         createdAt: v.createdAt,
       })),
     ];
@@ -159,51 +309,46 @@ export class PromptVersionManager {
     return uniqueVersions.sort((a, b) => b.version - a.version);
   }
 
+  public async getVersion(
+    promptId: string,
+    userId: string,
+    versionNumber: number
+  ): Promise<VersionInfo> {
+    const [version] = await this.getVersionHistory(promptId, userId, 1, [
+      versionNumber,
+    ]).then(versions => versions.filter(v => v.version === versionNumber));
+
+    if (!version) {
+      throw new NotFoundError(`Version ${versionNumber}`);
+    }
+
+    return version;
+  }
+
   public async compareVersions(
     promptId: string,
     userId: string,
     oldVersion: number,
     newVersion: number
   ): Promise<VersionComparison> {
-    const versions = await this.getVersionHistory(promptId, userId);
+    const versions = await this.getVersionHistory(promptId, userId, 20, [
+      oldVersion,
+      newVersion,
+    ]);
 
     const oldVersionInfo = versions.find(v => v.version === oldVersion);
     const newVersionInfo = versions.find(v => v.version === newVersion);
 
     if (!oldVersionInfo || !newVersionInfo) {
-      throw new Error('Version not found');
-    }
-
-    const templateChanged = oldVersionInfo.template !== newVersionInfo.template;
-    const variablesChanged =
-      JSON.stringify(oldVersionInfo.variables) !==
-      JSON.stringify(newVersionInfo.variables);
-
-    let templateDiff;
-    if (templateChanged) {
-      templateDiff = this.generateTemplateDiff(
-        oldVersionInfo.template,
-        newVersionInfo.template
-      );
-    }
-
-    let variablesDiff;
-    if (variablesChanged) {
-      variablesDiff = this.generateVariablesDiff(
-        oldVersionInfo.variables,
-        newVersionInfo.variables
+      throw new NotFoundError(
+        `Version ${!oldVersionInfo ? oldVersion : newVersion}`
       );
     }
 
     return {
       oldVersion: oldVersionInfo,
       newVersion: newVersionInfo,
-      changes: {
-        templateChanged,
-        variablesChanged,
-        templateDiff,
-        variablesDiff,
-      },
+      changes: this.diffContent(oldVersionInfo, newVersionInfo),
     };
   }
 
@@ -216,93 +361,400 @@ export class PromptVersionManager {
     prompt: Prompt;
     newVersion: PromptVersion;
   }> {
-    const versions = await this.getVersionHistory(promptId, userId);
-    const targetVersionInfo = versions.find(v => v.version === targetVersion);
-
-    if (!targetVersionInfo) {
-      throw new Error(`Version ${targetVersion} not found`);
-    }
-
-    const currentPrompt = await prisma.prompt.findFirst({
-      where: { id: promptId, userId },
-    });
-
-    if (!currentPrompt) {
-      throw new Error('Prompt not found');
-    }
+    const targetVersionInfo = await this.getVersion(
+      promptId,
+      userId,
+      targetVersion
+    );
 
     // Create a new version with the rolled-back content
     return this.createVersion(promptId, userId, {
       template: targetVersionInfo.template,
+      messages: targetVersionInfo.messages || [],
       variables: targetVersionInfo.variables,
       changeLog: changeLog || `Rolled back to version ${targetVersion}`,
     });
   }
 
+  /**
+   * The deletion is recorded in the audit log when made on behalf of an
+   * `actor`
+   */
   public async deleteVersion(
     promptId: string,
     userId: string,
-    versionNumber: number
+    versionNumber: number,
+    actor?: AuditActor
   ): Promise<void> {
-    // Verify user owns the prompt
+    // Verify user can edit the prompt
     const prompt = await prisma.prompt.findFirst({
-      where: { id: promptId, userId },
+      where: { id: promptId, ...promptAccess(userId) },
     });
 
     if (!prompt) {
-      throw new Error('Prompt not found');
+      throw new NotFoundError('Prompt');
     }
+    await assertPromptPermission(prompt, userId, 'edit');
 
     // Cannot delete current version
     if (versionNumber === prompt.version) {
-      throw new Error('Cannot delete current version');
+      throw new ValidationError('Cannot delete current version');
+    }
+
+    if (prompt.status === 'PUBLISHED' && versionNumber === prompt.liveVersion) {
+      throw new ValidationError('Cannot delete the live version');
+    }
+
+    const version = await prisma.promptVersion.findUnique({
+      where: { promptId_version: { promptId, version: versionNumber } },
+    });
+    if (!version) {
+      throw new NotFoundError('Version');
+    }
+
+    // Delete the version and the labels pointing at it
+    const [result] = await prisma.$transaction([
+      prisma.promptVersion.deleteMany({
+        where: {
+          promptId,
+          version: versionNumber,
+        },
+      }),
+      prisma.promptLabel.deleteMany({
+        where: { promptId, version: versionNumber },
+      }),
+    ]);
+
+    if (result.count === 0) {
+      throw new NotFoundError('Version');
+    }
+
+    if (actor) {
+      await auditLog.record(actor, {
+        action: 'prompt.version_delete',
+        targetId: promptId,
+        workspaceId: prompt.workspaceId,
+        before: {
+          version: version.version,
+          template: version.template,
+          messages: version.messages,
+          variables: version.variables,
+          changeLog: version.changeLog,
+        },
+      });
+    }
+  }
+
+  /**
+   * Points a label such as `production` at a version, moving it if
+   * another version has it
+   */
+  public async setLabel(
+    promptId: string,
+    userId: string,
+    name: string,
+    versionNumber: number
+  ): Promise<PromptLabel> {
+    const { prompt } = await this.findVersionTarget(
+      promptId,
+      userId,
+      versionNumber
+    );
+
+    return prisma.promptLabel.upsert({
+      where: { promptId_name: { promptId: prompt.id, name } },
+      update: { version: versionNumber },
+      create: { promptId: prompt.id, name, version: versionNumber },
+    });
+  }
+
+  public async removeLabel(
+    promptId: string,
+    userId: string,
+    name: string
+  ): Promise<void> {
+    const result = await prisma.promptLabel.deleteMany({
+      where: { promptId, name, prompt: promptAccess(userId, 'edit') },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError(`Label ${name}`);
+    }
+  }
+
+  /**
+   * Promotes a prompt to PUBLISHED with the given version, by default the
+   * current one, pinned as live. Publishing again moves the live version.
+   */
+  public async publish(
+    promptId: string,
+    userId: string,
+    versionNumber?: number
+  ): Promise<Prompt> {
+    const { prompt, version } = await this.findVersionTarget(
+      promptId,
+      userId,
+      versionNumber
+    );
+
+    if (prompt.status === 'ARCHIVED') {
+      throw new ValidationError(
+        'Archived prompts must be restored to draft before publishing'
+      );
+    }
+
+    return prisma.prompt.update({
+      where: { id: promptId },
+      data: {
+        status: 'PUBLISHED',
+        liveVersion: version,
+        publishedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Returns the stored record of a prompt's current version, saving one
+   * first if the prompt has never been edited. `userId` is the prompt's
+   * author, whose snippets the template includes.
+   */
+  public async ensureVersionRecord(
+    userId: string,
+    prompt: Pick<
+      Prompt,
+      'id' | 'version' | 'template' | 'messages' | 'variables'
+    >
+  ): Promise<PromptVersion> {
+    const where = {
+      promptId_version: { promptId: prompt.id, version: prompt.version },
+    };
+    const existing = await prisma.promptVersion.findUnique({ where });
+    if (existing) return existing;
+
+    const messages = Array.isArray(prompt.messages)
+      ? (prompt.messages as unknown as PromptMessage[])
+      : [];
+    const { snippetVersions } = await snippetLibrary.resolveForTemplate(
+      [prompt.template, ...messages.map(message => message.content)],
+      userId
+    );
+
+    return prisma.promptVersion.upsert({
+      where,
+      update: {},
+      create: {
+        promptId: prompt.id,
+        version: prompt.version,
+        template: prompt.template,
+        messages: messages as unknown as Prisma.InputJsonValue,
+        variables: (prompt.variables || []) as Prisma.InputJsonValue,
+        snippetVersions,
+        changeLog: `Version ${prompt.version}`,
+      },
+    });
+  }
+
+  /**
+   * Loads a prompt version ready to render, with the snippet contents it
+   * was saved with. The current version renders with the latest snippets
+   * of `userId`, the prompt's author.
+   */
+  public async loadVersion(
+    userId: string,
+    prompt: Pick<
+      Prompt,
+      'id' | 'version' | 'template' | 'messages' | 'variables'
+    >,
+    versionNumber: number
+  ): Promise<LoadedVersion & { id: string }> {
+    if (versionNumber === prompt.version) {
+      const { id } = await this.ensureVersionRecord(userId, prompt);
+      return { id, ...(await this.renderable(userId, prompt, null)) };
     }
 
-    // Delete the version
-    const result = await prisma.promptVersion.deleteMany({
+    const stored = await prisma.promptVersion.findUnique({
       where: {
-        promptId,
-        version: versionNumber,
+        promptId_version: { promptId: prompt.id, version: versionNumber },
       },
     });
 
-    if (result.count === 0) {
-      throw new Error('Version not found');
+    if (!stored) {
+      throw new NotFoundError(`Version ${versionNumber}`);
     }
+
+    return {
+      id: stored.id,
+      ...(await this.renderable(
+        userId,
+        stored,
+        stored.snippetVersions as unknown as SnippetVersionMap | null
+      )),
+    };
   }
 
-  private generateTemplateDiff(
-    oldTemplate: string,
-    newTemplate: string
-  ): {
-    additions: string[];
-    deletions: string[];
-    modifications: string[];
-  } {
-    const oldLines = oldTemplate.split('\n');
-    const newLines = newTemplate.split('\n');
-
-    const additions: string[] = [];
-    const deletions: string[] = [];
-    const modifications: string[] = [];
-
-    // Simple line-by-line diff (basic implementation)
-    const maxLines = Math.max(oldLines.length, newLines.length);
-
-    for (let i = 0; i < maxLines; i++) {
-      const oldLine = oldLines[i];
-      const newLine = newLines[i];
-
-      if (oldLine === undefined && newLine !== undefined) {
-        additions.push(`+${i + 1}: ${newLine}`);
-      } else if (oldLine !== undefined && newLine === undefined) {
-        deletions.push(`-${i + 1}: ${oldLine}`);
-      } else if (oldLine !== newLine) {
-        modifications.push(`~${i + 1}: "${oldLine}" → "${newLine}"`);
+  /**
+   * Loads the version an execution of the prompt runs: the one asked for
+   * by number or by label, or else the live version once the prompt has
+   * been published, and the current version until then
+   */
+  public async loadForExecution(
+    prompt: Pick<
+      Prompt,
+      | 'id'
+      | 'userId'
+      | 'version'
+      | 'template'
+      | 'messages'
+      | 'variables'
+      | 'liveVersion'
+    >,
+    selector: { version?: number; label?: string } = {}
+  ): Promise<LoadedVersion & { id: string; version: number }> {
+    let versionNumber =
+      selector.version ?? prompt.liveVersion ?? prompt.version;
+
+    if (selector.label) {
+      const label = await prisma.promptLabel.findUnique({
+        where: { promptId_name: { promptId: prompt.id, name: selector.label } },
+      });
+      if (!label) {
+        throw new NotFoundError(`Label ${selector.label}`);
       }
+      versionNumber = label.version;
+    }
+
+    return {
+      version: versionNumber,
+      ...(await this.loadVersion(prompt.userId, prompt, versionNumber)),
+    };
+  }
+
+  private async renderable(
+    userId: string,
+    stored: Pick<PromptVersion, 'template' | 'messages' | 'variables'>,
+    snippetVersions: SnippetVersionMap | null
+  ): Promise<Omit<LoadedVersion, 'id'>> {
+    const messages = Array.isArray(stored.messages)
+      ? (stored.messages as unknown as PromptMessage[])
+      : [];
+    const variables = Array.isArray(stored.variables)
+      ? (stored.variables as unknown as VariableDefinition[])
+      : [];
+
+    const partials = snippetVersions
+      ? await snippetLibrary.loadPinnedPartials(snippetVersions)
+      : (
+          await snippetLibrary.resolveForTemplate(
+            [stored.template, ...messages.map(message => message.content)],
+            userId
+          )
+        ).partials;
+
+    return { template: stored.template, messages, variables, partials };
+  }
+
+  /**
+   * Checks that the user can edit the prompt and that the version, by
+   * default the current one, exists. The current version gets a stored
+   * record so labels and executions can point at it.
+   */
+  private async findVersionTarget(
+    promptId: string,
+    userId: string,
+    versionNumber?: number
+  ): Promise<{ prompt: Prompt; version: number }> {
+    const prompt = await prisma.prompt.findFirst({
+      where: { id: promptId, ...promptAccess(userId) },
+    });
+    if (!prompt) {
+      throw new NotFoundError('Prompt');
     }
+    await assertPromptPermission(prompt, userId, 'edit');
+
+    const version = versionNumber ?? prompt.version;
+    if (version === prompt.version) {
+      await this.ensureVersionRecord(prompt.userId, prompt);
+    } else {
+      const stored = await prisma.promptVersion.count({
+        where: { promptId, version },
+      });
+      if (stored === 0) {
+        throw new NotFoundError(`Version ${version}`);
+      }
+    }
+
+    return { prompt, version };
+  }
+
+  private diffContent(
+    oldContent: Pick<VersionInfo, 'template' | 'messages' | 'variables'>,
+    newContent: Pick<VersionInfo, 'template' | 'messages' | 'variables'>
+  ): VersionComparison['changes'] {
+    const templateChanged = oldContent.template !== newContent.template;
+    const oldMessages = this.messagesToText(oldContent.messages);
+    const newMessages = this.messagesToText(newContent.messages);
+    const messagesChanged = oldMessages !== newMessages;
+    const variablesChanged =
+      JSON.stringify(oldContent.variables) !==
+      JSON.stringify(newContent.variables);
+
+    return {
+      templateChanged,
+      messagesChanged,
+      variablesChanged,
+      templateDiff: templateChanged
+        ? diffLines(oldContent.template, newContent.template)
+        : undefined,
+      messagesDiff: messagesChanged
+        ? diffLines(oldMessages, newMessages)
+        : undefined,
+      variablesDiff: variablesChanged
+        ? this.generateVariablesDiff(oldContent.variables, newContent.variables)
+        : undefined,
+    };
+  }
+
+  /**
+   * A conflict for an edit based on an older version, with what the edit
+   * would change in the latest version
+   */
+  private conflict(
+    current: Prompt,
+    expectedVersion: number,
+    updates: {
+      template?: string;
+      messages?: PromptMessage[];
+      variables?: VariableDefinition[];
+    }
+  ): ConflictError {
+    const messages = Array.isArray(current.messages)
+      ? (current.messages as unknown as PromptMessage[])
+      : [];
+    const variables = Array.isArray(current.variables)
+      ? (current.variables as unknown as VariableDefinition[])
+      : [];
+
+    return new ConflictError(
+      `Prompt is at version ${current.version}, but the edit was based on version ${expectedVersion}`,
+      {
+        expectedVersion,
+        currentVersion: current.version,
+        changes: this.diffContent(
+          { template: current.template, messages, variables },
+          {
+            template: updates.template ?? current.template,
+            messages: updates.messages ?? messages,
+            variables: updates.variables ?? variables,
+          }
+        ),
+      }
+    );
+  }
 
-    return { additions, deletions, modifications };
+  private messagesToText(messages: PromptMessage[] = []): string {
+    return messages
+      .map(message => `[${message.role}]\n${message.content}`)
+      .join('\n\n');
   }
 
   private generateVariablesDiff(
@@ -365,7 +817,8 @@ export const promptVersions = {
     userId: string
   ): Promise<VersionInfo | null> {
     const prompt = await prisma.prompt.findFirst({
-      where: { id: promptId, userId },
+      where: { id: promptId, ...promptAccess(userId) },
+      include: { labels: true },
     });
 
     if (!prompt) return null;
@@ -375,6 +828,12 @@ export const promptVersions = {
       template: prompt.template,
       variables: prompt.variables as unknown as VariableDefinition[],
       changeLog: 'Current version',
+      labels: prompt.labels
+        .filter(label => label.version === prompt.version)
+        .map(label => label.name)
+        .sort(),
+      isLive:
+        prompt.status === 'PUBLISHED' && prompt.liveVersion === prompt.version,
       createdAt: prompt.updatedAt,
     };
   },
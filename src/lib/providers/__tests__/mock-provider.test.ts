@@ -0,0 +1,202 @@
+import { ProviderError, ValidationError } from '../../utils/error-handler';
+import { ExecutionErrorHandler } from '../../execution/error-handler';
+import { MockProvider, parseMockFailures } from '../mock-provider';
+import type { CompletionRequest } from '../types';
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: { warn: jest.fn(), error: jest.fn(), info: jest.fn() },
+}));
+
+const request = (
+  content: string,
+  overrides: Partial<CompletionRequest> = {}
+): CompletionRequest => ({
+  model: 'echo',
+  messages: [
+    { role: 'system', content: 'You are a test.' },
+    { role: 'user', content },
+  ],
+  maxTokens: 100,
+  temperature: 0,
+  ...overrides,
+});
+
+describe('MockProvider', () => {
+  describe('Echo', () => {
+    it('should echo the last user message with counted usage', async () => {
+      const provider = new MockProvider();
+
+      const result = await provider.complete(request('hello world'));
+
+      expect(result.output).toBe('hello world');
+      expect(result.tokenUsage.outputTokens).toBe(2);
+      expect(result.tokenUsage.inputTokens).toBeGreaterThan(2);
+      expect(result.tokenUsage.totalTokens).toBe(
+        result.tokenUsage.inputTokens + result.tokenUsage.outputTokens
+      );
+    });
+
+    it('should reject unknown mock models', async () => {
+      const provider = new MockProvider();
+
+      await expect(
+        provider.complete(request('hi', { model: 'gpt-4' }))
+      ).rejects.toMatchObject({ kind: 'invalid_request' });
+    });
+  });
+
+  describe('Streaming', () => {
+    it('should stream the output a word at a time', async () => {
+      const provider = new MockProvider();
+      const deltas: string[] = [];
+
+      const result = await provider.stream(
+        request('the quick  brown fox'),
+        text => deltas.push(text)
+      );
+
+      expect(deltas).toEqual(['the ', 'quick  ', 'brown ', 'fox']);
+      expect(deltas.join('')).toBe(result.output);
+    });
+
+    it('should stop when the request is aborted', async () => {
+      const provider = new MockProvider({ chunkDelayMs: 5 });
+      const controller = new AbortController();
+      const deltas: string[] = [];
+
+      const streaming = provider.stream(
+        request('one two three four', { signal: controller.signal }),
+        text => {
+          deltas.push(text);
+          controller.abort();
+        }
+      );
+
+      await expect(streaming).rejects.toBeInstanceOf(ProviderError);
+      expect(deltas).toEqual(['one ']);
+    });
+  });
+
+  describe('Fixtures', () => {
+    it('should return the first response that matches the prompt', async () => {
+      const provider = new MockProvider({
+        fixture: {
+          responses: [
+            { match: 'weather', output: 'Sunny' },
+            {
+              output: 'Fallback',
+              tokenUsage: { inputTokens: 10, outputTokens: 5 },
+            },
+          ],
+        },
+      });
+
+      const weather = await provider.complete(
+        request('What is the weather?', { model: 'fixture' })
+      );
+      const other = await provider.complete(
+        request('Anything else', { model: 'fixture' })
+      );
+
+      expect(weather.output).toBe('Sunny');
+      expect(other.output).toBe('Fallback');
+      expect(other.tokenUsage).toEqual({
+        inputTokens: 10,
+        outputTokens: 5,
+        totalTokens: 15,
+      });
+    });
+
+    it('should fail fixture requests nothing matches', async () => {
+      const provider = new MockProvider({
+        fixture: { responses: [{ match: 'weather', output: 'Sunny' }] },
+      });
+
+      await expect(
+        provider.complete(request('Unrelated', { model: 'fixture' }))
+      ).rejects.toThrow('No mock fixture matches');
+      // Echo falls back to the prompt instead
+      await expect(provider.complete(request('Unrelated'))).resolves.toEqual(
+        expect.objectContaining({ output: 'Unrelated' })
+      );
+    });
+
+    it('should play limited responses in order, then start over on reset', async () => {
+      const provider = new MockProvider({
+        fixture: {
+          responses: [
+            { error: 429, retryAfter: 5, times: 1 },
+            { output: 'second', times: 1 },
+          ],
+        },
+      });
+
+      await expect(provider.complete(request('a'))).rejects.toMatchObject({
+        kind: 'rate_limit',
+        status: 429,
+        retryAfter: 5,
+      });
+      expect((await provider.complete(request('b'))).output).toBe('second');
+      expect((await provider.complete(request('c'))).output).toBe('c');
+
+      provider.reset();
+      await expect(provider.complete(request('d'))).rejects.toBeInstanceOf(
+        ProviderError
+      );
+    });
+  });
+
+  describe('Injected Failures', () => {
+    it('should map statuses to provider error kinds', async () => {
+      const provider = new MockProvider({
+        fixture: { responses: parseMockFailures('500, 401, 422, timeout') },
+      });
+
+      const kinds = [];
+      for (let i = 0; i < 4; i++) {
+        kinds.push(
+          await provider.complete(request('x')).catch(error => error.kind)
+        );
+      }
+
+      expect(kinds).toEqual([
+        'server',
+        'authentication',
+        'invalid_request',
+        'timeout',
+      ]);
+    });
+
+    it('should reject malformed failure lists', () => {
+      expect(() => parseMockFailures('429,teapot')).toThrow(ValidationError);
+    });
+
+    it('should time out when simulated latency exceeds the request timeout', async () => {
+      const provider = new MockProvider({ latencyMs: 50 });
+
+      await expect(
+        provider.complete(request('slow', { timeoutMs: 10 }))
+      ).rejects.toMatchObject({ kind: 'timeout' });
+      await expect(
+        provider.complete(request('fast', { timeoutMs: 1000 }))
+      ).resolves.toEqual(expect.objectContaining({ output: 'fast' }));
+    });
+
+    it('should be retried by the execution error handler', async () => {
+      const provider = new MockProvider({
+        fixture: { responses: parseMockFailures('500') },
+      });
+      const handler = new ExecutionErrorHandler();
+      const onRetry = jest.fn();
+
+      const result = await handler.executeWithRetry(
+        'execution-1',
+        () => provider.complete(request('recovered')),
+        onRetry
+      );
+
+      expect(result.output).toBe('recovered');
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { ProviderError, ValidationError } from '../../utils/error-handler';
+import { AnthropicProvider } from '../anthropic-provider';
+import { findModelEntry, parseModelRef } from '../models';
+import { ProviderRegistry } from '../registry';
+import type { CompletionRequest, LLMProvider } from '../types';
+
+const stubProvider = (name: string): LLMProvider => ({
+  name,
+  complete: jest.fn().mockResolvedValue({
+    output: 'ok',
+    tokenUsage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+    model: 'stub',
+  }),
+  getPricing: model =>
+    model === 'priced' ? { input: 0.001, output: 0.002 } : undefined,
+});
+
+describe('Model references', () => {
+  it('should treat bare model names as OpenAI models', () => {
+    expect(parseModelRef('gpt-4')).toEqual({
+      provider: 'openai',
+      model: 'gpt-4',
+    });
+  });
+
+  it('should split at the first colon only', () => {
+    expect(parseModelRef('local:llama3.1:8b')).toEqual({
+      provider: 'local',
+      model: 'llama3.1:8b',
+    });
+  });
+
+  it('should match dated snapshots by their longest known prefix', () => {
+    const table = { 'gpt-4': 1, 'gpt-4o': 2 };
+
+    expect(findModelEntry(table, 'gpt-4o-2024-08-06')).toBe(2);
+    expect(findModelEntry(table, 'gpt-4-0613')).toBe(1);
+    expect(findModelEntry(table, 'gpt-4omni')).toBeUndefined();
+  });
+});
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry;
+
+  beforeEach(() => {
+    registry = new ProviderRegistry();
+  });
+
+  it('should resolve references to the registered provider', () => {
+    registry.register('openai', () => stubProvider('openai'));
+    registry.register('local', () => stubProvider('local'));
+
+    const resolved = registry.resolve('local:llama3.1');
+
+    expect(resolved.provider.name).toBe('local');
+    expect(resolved.model).toBe('llama3.1');
+    expect(resolved.ref).toBe('local:llama3.1');
+    expect(registry.resolve('gpt-4').ref).toBe('openai:gpt-4');
+  });
+
+  it('should send every request to a forced model', () => {
+    registry.register('openai', () => stubProvider('openai'));
+    registry.register('mock', () => stubProvider('mock'));
+
+    registry.forceModel('mock:echo');
+    expect(registry.resolve('gpt-4').ref).toBe('mock:echo');
+
+    registry.forceModel(undefined);
+    expect(registry.resolve('gpt-4').ref).toBe('openai:gpt-4');
+  });
+
+  it('should create each provider once, on first use', () => {
+    const factory = jest.fn(() => stubProvider('openai'));
+    registry.register('openai', factory);
+
+    expect(factory).not.toHaveBeenCalled();
+    registry.get('openai');
+    registry.get('openai');
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject unknown providers and empty model names', () => {
+    registry.register('openai', () => stubProvider('openai'));
+
+    expect(() => registry.resolve('nope:model')).toThrow(ValidationError);
+    expect(() => registry.resolve('openai:')).toThrow(ValidationError);
+  });
+
+  it('should surface provider configuration errors as validation errors', () => {
+    registry.register('anthropic', () => {
+      throw new ValidationError('Provider "anthropic" is not configured');
+    });
+
+    expect(() => registry.resolve('anthropic:claude-3-5-sonnet')).toThrow(
+      'not configured'
+    );
+  });
+
+  it('should look up pricing through the provider', () => {
+    registry.register('openai', () => stubProvider('openai'));
+
+    expect(registry.getPricing('priced')).toEqual({
+      input: 0.001,
+      output: 0.002,
+    });
+    expect(registry.getPricing('unpriced')).toBeUndefined();
+    expect(registry.getPricing('nope:model')).toBeUndefined();
+  });
+
+  it('should price registered models without creating the provider', () => {
+    const factory = jest.fn(() => stubProvider('openai'));
+    registry.register('openai', factory, () => ({ input: 0.01, output: 0.03 }));
+
+    expect(registry.getPricing('gpt-4-turbo')).toEqual({
+      input: 0.01,
+      output: 0.03,
+    });
+    expect(factory).not.toHaveBeenCalled();
+  });
+});
+
+describe('AnthropicProvider', () => {
+  const originalFetch = global.fetch;
+  const provider = new AnthropicProvider({ apiKey: 'test-key' });
+  const request: CompletionRequest = {
+    model: 'claude-3-5-sonnet-latest',
+    messages: [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hello' },
+      { role: 'user', content: 'World' },
+    ],
+    maxTokens: 100,
+    temperature: 0.5,
+  };
+
+  const mockResponse = (
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ): void => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: 'Error',
+      headers: { get: (name: string) => headers[name] ?? null },
+      json: () => Promise.resolve(body),
+    });
+  };
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should move system turns out and merge consecutive roles', async () => {
+    mockResponse(200, {
+      model: 'claude-3-5-sonnet-20241022',
+      content: [{ type: 'text', text: 'Hi!' }],
+      usage: { input_tokens: 12, output_tokens: 3 },
+    });
+
+    const result = await provider.complete(request);
+
+    const body = JSON.parse(
+      (global.fetch as jest.Mock).mock.calls[0][1].body as string
+    );
+    expect(body.system).toBe('Be brief.');
+    expect(body.messages).toEqual([
+      { role: 'user', content: 'Hello\n\nWorld' },
+    ]);
+    expect(body.max_tokens).toBe(100);
+    expect(result).toEqual({
+      output: 'Hi!',
+      tokenUsage: { inputTokens: 12, outputTokens: 3, totalTokens: 15 },
+      model: 'claude-3-5-sonnet-20241022',
+    });
+  });
+
+  it('should map rate limits to retryable provider errors', async () => {
+    mockResponse(
+      429,
+      { error: { type: 'rate_limit_error', message: 'Slow down' } },
+      { 'retry-after': '20' }
+    );
+
+    await expect(provider.complete(request)).rejects.toMatchObject({
+      kind: 'rate_limit',
+      statusCode: 429,
+      retryAfter: 20,
+    });
+  });
+
+  it('should map overloaded and invalid responses', async () => {
+    mockResponse(529, { error: { message: 'Overloaded' } });
+    await expect(provider.complete(request)).rejects.toMatchObject({
+      kind: 'server',
+    });
+
+    mockResponse(400, { error: { message: 'Bad model' } });
+    const error = await provider.complete(request).catch(e => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.kind).toBe('invalid_request');
+    expect(error.message).toContain('Bad model');
+  });
+
+  it('should price known Claude models', () => {
+    expect(provider.getPricing('claude-3-5-sonnet-20241022')).toEqual({
+      input: 0.003,
+      output: 0.015,
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { ProviderError } from '../utils/error-handler';
+import { readServerSentEvents } from '../utils/sse';
+import type { PromptMessage } from '../../types/database';
+import { findModelEntry } from './models';
+import type {
+  CompletionDeltaHandler,
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  ModelPricing,
+} from './types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_TIMEOUT_MS = 60000;
+
+export const ANTHROPIC_PRICING: Record<string, ModelPricing> = {
+  'claude-3-haiku': { input: 0.00025, output: 0.00125 },
+  'claude-3-opus': { input: 0.015, output: 0.075 },
+  'claude-3-5-haiku': { input: 0.0008, output: 0.004 },
+  'claude-3-5-sonnet': { input: 0.003, output: 0.015 },
+};
+
+interface AnthropicResponse {
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicStreamEvent {
+  message?: { model: string; usage: { input_tokens: number } };
+  delta?: { type: string; text?: string };
+  usage?: { output_tokens: number };
+  error?: { type?: string; message?: string };
+}
+
+interface AnthropicErrorBody {
+  error?: { type?: string; message?: string };
+}
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+}
+
+/**
+ * Anthropic Messages API over plain fetch. System turns move to the
+ * top-level `system` field and consecutive turns from the same role are
+ * merged, since the API expects user and assistant to alternate.
+ */
+export class AnthropicProvider implements LLMProvider {
+  public readonly name = 'anthropic';
+  private apiKey: string;
+  private url: string;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.url = options.baseURL || ANTHROPIC_API_URL;
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { response, done } = await this.send(request, false);
+
+    try {
+      const body = (await response.json()) as AnthropicResponse;
+      const output = body.content
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+
+      return {
+        output,
+        tokenUsage: {
+          inputTokens: body.usage.input_tokens,
+          outputTokens: body.usage.output_tokens,
+          totalTokens: body.usage.input_tokens + body.usage.output_tokens,
+        },
+        model: body.model || request.model,
+      };
+    } finally {
+      done();
+    }
+  }
+
+  public async stream(
+    request: CompletionRequest,
+    onDelta: CompletionDeltaHandler
+  ): Promise<CompletionResult> {
+    const { response, controller, done } = await this.send(request, true);
+
+    let output = '';
+    let model = request.model;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    try {
+      for await (const { event, data } of readServerSentEvents(
+        response.body as ReadableStream<Uint8Array>
+      )) {
+        const payload = JSON.parse(data) as AnthropicStreamEvent;
+
+        if (event === 'message_start' && payload.message) {
+          model = payload.message.model || model;
+          inputTokens = payload.message.usage.input_tokens;
+        } else if (
+          event === 'content_block_delta' &&
+          payload.delta?.type === 'text_delta' &&
+          payload.delta.text
+        ) {
+          output += payload.delta.text;
+          onDelta(payload.delta.text);
+        } else if (event === 'message_delta' && payload.usage) {
+          outputTokens = payload.usage.output_tokens;
+        } else if (event === 'error') {
+          // Mid-stream errors are typically `overloaded_error`
+          throw new ProviderError(
+            this.name,
+            'server',
+            `anthropic API error: ${payload.error?.message || 'stream failed'}`
+          );
+        }
+      }
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      throw this.toNetworkError(error, controller);
+    } finally {
+      done();
+    }
+
+    return {
+      output,
+      tokenUsage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+      model,
+    };
+  }
+
+  public getPricing(model: string): ModelPricing | undefined {
+    return findModelEntry(ANTHROPIC_PRICING, model);
+  }
+
+  /**
+   * Posts the request and checks the status. The timeout keeps running
+   * until `done` is called, so it also covers reading a streamed body.
+   */
+  private async send(
+    request: CompletionRequest,
+    stream: boolean
+  ): Promise<{
+    response: Response;
+    controller: AbortController;
+    done: () => void;
+  }> {
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      request.timeoutMs || DEFAULT_TIMEOUT_MS
+    );
+    const abort = (): void => controller.abort();
+    request.signal?.addEventListener('abort', abort);
+    const done = (): void => {
+      clearTimeout(timeout);
+      request.signal?.removeEventListener('abort', abort);
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          ...(stream && { stream: true }),
+          ...this.toAnthropicMessages(request.messages),
+        }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      done();
+      throw this.toNetworkError(error, controller);
+    }
+
+    if (!response.ok) {
+      done();
+      throw await this.toProviderError(response);
+    }
+
+    return { response, controller, done };
+  }
+
+  private toNetworkError(
+    error: unknown,
+    controller: AbortController
+  ): ProviderError {
+    if (controller.signal.aborted) {
+      return new ProviderError(this.name, 'timeout', 'Request timed out');
+    }
+    return new ProviderError(
+      this.name,
+      'server',
+      `anthropic API unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  private toAnthropicMessages(messages: PromptMessage[]): {
+    system?: string;
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  } {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const turns: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+    for (const message of messages) {
+      if (message.role === 'system') continue;
+
+      const previous = turns[turns.length - 1];
+      if (previous?.role === message.role) {
+        previous.content += `\n\n${message.content}`;
+      } else {
+        turns.push({ role: message.role, content: message.content });
+      }
+    }
+
+    return { ...(system && { system }), messages: turns };
+  }
+
+  private async toProviderError(response: Response): Promise<ProviderError> {
+    const body = (await response
+      .json()
+      .catch(() => ({}))) as AnthropicErrorBody;
+    const { status } = response;
+    const message = `anthropic API error: ${body.error?.message || response.statusText}`;
+
+    if (status === 429) {
+      const retryAfter = parseInt(
+        response.headers.get('retry-after') || '',
+        10
+      );
+      return new ProviderError(this.name, 'rate_limit', message, {
+        status,
+        retryAfter: isNaN(retryAfter) ? undefined : retryAfter,
+      });
+    }
+    if (status === 401 || status === 403) {
+      return new ProviderError(this.name, 'authentication', message, {
+        status,
+      });
+    }
+    // 529 means overloaded and is worth retrying like any 5xx
+    if (status >= 500) {
+      return new ProviderError(this.name, 'server', message, { status });
+    }
+    return new ProviderError(this.name, 'invalid_request', message, {
+      status,
+    });
+  }
+}
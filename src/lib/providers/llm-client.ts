@@ -0,0 +1,311 @@
+import { costTracker } from '../monitoring/cost-tracker';
+import { logger } from '../monitoring/logger';
+import { openAIConfig } from '../config/openai';
+import {
+  ExecutionCancelledError,
+  ProviderError,
+  ValidationError,
+} from '../utils/error-handler';
+import type { PromptMessage } from '../../types/database';
+import { providerRegistry, type ProviderRegistry } from './registry';
+import type {
+  CompletionDeltaHandler,
+  CompletionRequest,
+  CompletionResult,
+  CompletionTokenUsage,
+  LLMProvider,
+} from './types';
+
+export interface LLMRequestConfig {
+  // `provider:model`, or a bare model name for the default provider
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface ExecutionResult {
+  output: string;
+  tokenUsage: CompletionTokenUsage;
+  costUsd: number;
+  // Canonical `provider:model` reference
+  model: string;
+  provider: string;
+}
+
+export interface StreamPromptOptions {
+  onDelta: CompletionDeltaHandler;
+  // Aborting cancels the upstream request and rejects with
+  // ExecutionCancelledError
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs prompts against whichever provider the model reference selects,
+ * with the same logging and cost tracking for every backend
+ */
+export class LLMClient {
+  private defaultConfig: LLMRequestConfig;
+
+  constructor(private registry: ProviderRegistry = providerRegistry) {
+    // Try to load configuration from config manager first
+    let configFromManager: ReturnType<typeof openAIConfig.getConfig> | null =
+      null;
+    try {
+      configFromManager = openAIConfig.getConfig();
+    } catch (error) {
+      // Fall back to environment variables if config manager fails
+      // eslint-disable-next-line no-console
+      console.warn(
+        'Failed to load LLM config, falling back to environment variables:',
+        error
+      );
+    }
+
+    this.defaultConfig = {
+      model:
+        configFromManager?.defaultModel ||
+        process.env.LLM_DEFAULT_MODEL ||
+        process.env.OPENAI_DEFAULT_MODEL ||
+        'gpt-3.5-turbo',
+      maxTokens:
+        configFromManager?.maxTokens ||
+        parseInt(process.env.OPENAI_MAX_TOKENS || '2000'),
+      temperature:
+        configFromManager?.temperature ||
+        parseFloat(process.env.OPENAI_TEMPERATURE || '0.7'),
+    };
+
+    this.validateConfig(this.defaultConfig);
+  }
+
+  private validateConfig(config: LLMRequestConfig): void {
+    // Validate maxTokens
+    if (config.maxTokens < 1 || config.maxTokens > 4000) {
+      throw new ValidationError('maxTokens must be between 1 and 4000');
+    }
+
+    // Validate temperature
+    if (config.temperature < 0 || config.temperature > 2) {
+      throw new ValidationError('temperature must be between 0 and 2');
+    }
+  }
+
+  /**
+   * Aborting `signal` cancels the request and rejects with
+   * ExecutionCancelledError
+   */
+  public async executePrompt(
+    prompt: string | PromptMessage[],
+    config?: Partial<LLMRequestConfig>,
+    executionId?: string,
+    signal?: AbortSignal
+  ): Promise<ExecutionResult> {
+    if (signal?.aborted) {
+      throw new ExecutionCancelledError();
+    }
+
+    return this.run(
+      prompt,
+      config,
+      executionId,
+      (provider, request) => provider.complete({ ...request, signal }),
+      signal
+    );
+  }
+
+  /**
+   * Like executePrompt, but hands output to `onDelta` as it arrives.
+   * Providers that can't stream deliver their output as a single delta.
+   */
+  public async streamPrompt(
+    prompt: string | PromptMessage[],
+    config: Partial<LLMRequestConfig> | undefined,
+    executionId: string | undefined,
+    { onDelta, signal }: StreamPromptOptions
+  ): Promise<ExecutionResult> {
+    if (signal?.aborted) {
+      throw new ExecutionCancelledError();
+    }
+
+    return this.run(
+      prompt,
+      config,
+      executionId,
+      async (provider, request) => {
+        if (provider.stream) {
+          return provider.stream({ ...request, signal }, onDelta);
+        }
+
+        const result = await provider.complete({ ...request, signal });
+        onDelta(result.output);
+        return result;
+      },
+      signal
+    );
+  }
+
+  private async run(
+    prompt: string | PromptMessage[],
+    config: Partial<LLMRequestConfig> | undefined,
+    executionId: string | undefined,
+    call: (
+      provider: LLMProvider,
+      request: CompletionRequest
+    ) => Promise<CompletionResult>,
+    signal?: AbortSignal
+  ): Promise<ExecutionResult> {
+    const executionConfig = { ...this.defaultConfig, ...config };
+    // Plain prompts are sent as a single user message
+    const messages: PromptMessage[] =
+      typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+
+    // Validate merged config and resolve the provider
+    this.validateConfig(executionConfig);
+    const { provider, model, ref } = this.registry.resolve(
+      executionConfig.model
+    );
+
+    const startTime = Date.now();
+
+    try {
+      // Log execution start
+      if (executionId) {
+        await logger.info(
+          'Starting LLM API call',
+          {
+            provider: provider.name,
+            model,
+            maxTokens: executionConfig.maxTokens,
+            temperature: executionConfig.temperature,
+            promptLength: messages.reduce(
+              (sum, message) => sum + message.content.length,
+              0
+            ),
+            messageCount: messages.length,
+          },
+          executionId
+        );
+      }
+
+      const completion = await call(provider, {
+        model,
+        messages,
+        maxTokens: executionConfig.maxTokens,
+        temperature: executionConfig.temperature,
+      }).catch(error => {
+        // Providers report aborts as timeouts or SDK errors; an abort we
+        // asked for is a cancellation
+        throw signal?.aborted ? new ExecutionCancelledError() : error;
+      });
+
+      const latencyMs = Date.now() - startTime;
+      const { output, tokenUsage } = completion;
+
+      const costUsd = costTracker.calculateProviderCost(tokenUsage, ref);
+
+      // Track execution if executionId is provided
+      if (executionId) {
+        await costTracker.trackExecution(executionId, costUsd, tokenUsage);
+      }
+
+      // Log successful completion
+      if (executionId) {
+        await logger.info(
+          'LLM API call completed successfully',
+          {
+            provider: provider.name,
+            latencyMs,
+            tokenUsage,
+            costUsd,
+            outputLength: output.length,
+          },
+          executionId
+        );
+
+        // Log performance metric
+        await logger.logPerformance({
+          name: 'llm_api_latency',
+          value: latencyMs,
+          unit: 'ms',
+          metadata: {
+            provider: provider.name,
+            model,
+            inputTokens: tokenUsage.inputTokens,
+            outputTokens: tokenUsage.outputTokens,
+          },
+        });
+      }
+
+      return {
+        output,
+        tokenUsage,
+        costUsd,
+        model: ref,
+        provider: provider.name,
+      };
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+
+      if (executionId) {
+        await logger.error(
+          'LLM API call failed',
+          error,
+          {
+            provider: provider.name,
+            latencyMs,
+            ...(error instanceof ProviderError && {
+              kind: error.kind,
+              status: error.status,
+            }),
+          },
+          executionId
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  public estimateCost(
+    input: string | number,
+    expectedOutput: string | number,
+    model?: string
+  ): {
+    estimatedInputTokens: number;
+    estimatedOutputTokens: number;
+    estimatedCost: number;
+  } {
+    return costTracker.estimateExecutionCost(
+      input,
+      expectedOutput,
+      model || this.defaultConfig.model
+    );
+  }
+
+  public getSupportedProviders(): string[] {
+    return this.registry.list();
+  }
+
+  public getDefaultConfig(): LLMRequestConfig {
+    return { ...this.defaultConfig };
+  }
+
+  public async validateConnection(model?: string): Promise<boolean> {
+    try {
+      // Test with a minimal prompt
+      const result = await this.executePrompt('Hello', {
+        model: model || this.defaultConfig.model,
+        maxTokens: 5,
+        temperature: 0,
+      });
+
+      return Boolean(result.output && result.tokenUsage.totalTokens > 0);
+    } catch (error) {
+      await logger.error('LLM connection validation failed', error);
+      return false;
+    }
+  }
+}
+
+// Create and export singleton instance
+export const llmClient = new LLMClient();
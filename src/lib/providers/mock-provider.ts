@@ -0,0 +1,272 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { tokenizer } from '../tokenizer/tokenizer';
+import { ProviderError, ValidationError } from '../utils/error-handler';
+import type { PromptMessage } from '../../types/database';
+import type {
+  CompletionDeltaHandler,
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  ModelPricing,
+} from './types';
+
+// Nominal pricing so cost tracking has something to add up
+const MOCK_PRICING: ModelPricing = { input: 0.001, output: 0.002 };
+
+// An HTTP status to answer with, or `timeout` to simulate no answer
+const MockFailureSchema = z.union([
+  z.literal('timeout'),
+  z.number().int().min(400).max(599),
+]);
+
+const MockResponseSchema = z.object({
+  // Only answer prompts containing this text; unset matches every prompt
+  match: z.string().optional(),
+  // Output to return; unset echoes the prompt back
+  output: z.string().optional(),
+  error: MockFailureSchema.optional(),
+  // Seconds, sent with 429 responses
+  retryAfter: z.number().int().min(0).optional(),
+  latencyMs: z.number().int().min(0).optional(),
+  tokenUsage: z
+    .object({
+      inputTokens: z.number().int().min(0),
+      outputTokens: z.number().int().min(0),
+    })
+    .optional(),
+  // Use this response this many times, then move on; unset never runs out
+  times: z.number().int().min(1).optional(),
+});
+
+export const MockFixtureSchema = z.object({
+  responses: z.array(MockResponseSchema),
+});
+
+export type MockFailure = z.infer<typeof MockFailureSchema>;
+export type MockResponse = z.infer<typeof MockResponseSchema>;
+export type MockFixture = z.infer<typeof MockFixtureSchema>;
+
+export interface MockProviderOptions {
+  fixture?: MockFixture;
+  // Default simulated latency for every response
+  latencyMs?: number;
+  // Pause between streamed chunks
+  chunkDelayMs?: number;
+}
+
+/**
+ * Parses `MOCK_LLM_ERRORS`-style lists such as `429,500,timeout` into
+ * one-shot responses that fail in that order before anything else runs
+ */
+export function parseMockFailures(list: string): MockResponse[] {
+  return list
+    .split(',')
+    .map(token => token.trim())
+    .filter(Boolean)
+    .map(token => {
+      const error = MockFailureSchema.safeParse(
+        token === 'timeout' ? token : Number(token)
+      );
+      if (!error.success) {
+        throw new ValidationError(
+          `Invalid mock error "${token}"; use an HTTP status or "timeout"`
+        );
+      }
+      return { error: error.data, times: 1 };
+    });
+}
+
+export function loadMockFixture(path: string): MockFixture {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new ValidationError(
+      `Could not read mock fixture ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const parsed = MockFixtureSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ValidationError(
+      `Invalid mock fixture ${path}`,
+      parsed.error.errors.map(issue => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+      }))
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Deterministic provider for tests and offline development. `mock:echo`
+ * returns the prompt itself; `mock:fixture` only answers prompts a
+ * scripted response matches. Either model plays scripted responses,
+ * including injected failures, in order before falling back.
+ */
+export class MockProvider implements LLMProvider {
+  public readonly name = 'mock';
+  private responses: MockResponse[] = [];
+  private uses: number[] = [];
+  private latencyMs: number;
+  private chunkDelayMs: number;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.latencyMs = options.latencyMs || 0;
+    this.chunkDelayMs = options.chunkDelayMs || 0;
+    this.setFixture(options.fixture || { responses: [] });
+  }
+
+  /**
+   * Replaces the scripted responses and starts them from the top
+   */
+  public setFixture(fixture: MockFixture): void {
+    this.responses = MockFixtureSchema.parse(fixture).responses;
+    this.reset();
+  }
+
+  public reset(): void {
+    this.uses = this.responses.map(() => 0);
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    if (request.model !== 'echo' && request.model !== 'fixture') {
+      throw new ProviderError(
+        this.name,
+        'invalid_request',
+        `Unknown mock model "${request.model}"; use mock:echo or mock:fixture`,
+        { status: 400 }
+      );
+    }
+
+    const prompt = this.promptText(request.messages);
+    const response = this.takeResponse(prompt);
+
+    if (!response && request.model === 'fixture') {
+      throw new ProviderError(
+        this.name,
+        'invalid_request',
+        'No mock fixture matches this prompt',
+        { status: 400 }
+      );
+    }
+
+    await this.simulateLatency(response?.latencyMs, request);
+
+    if (response?.error !== undefined) {
+      throw this.toProviderError(response);
+    }
+
+    const output = response?.output ?? this.lastUserMessage(request.messages);
+    // Count as if the default model served the request
+    const inputTokens =
+      response?.tokenUsage?.inputTokens ??
+      tokenizer.countMessageTokens(request.messages);
+    const outputTokens =
+      response?.tokenUsage?.outputTokens ?? tokenizer.countTokens(output);
+
+    return {
+      output,
+      tokenUsage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+      model: request.model,
+    };
+  }
+
+  /**
+   * Plays the same response as complete(), a word at a time
+   */
+  public async stream(
+    request: CompletionRequest,
+    onDelta: CompletionDeltaHandler
+  ): Promise<CompletionResult> {
+    const result = await this.complete(request);
+
+    for (const chunk of result.output.match(/\s*\S+\s*/g) || []) {
+      if (this.chunkDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+      }
+      this.throwIfAborted(request);
+      onDelta(chunk);
+    }
+
+    return result;
+  }
+
+  public getPricing(): ModelPricing {
+    return MOCK_PRICING;
+  }
+
+  private takeResponse(prompt: string): MockResponse | undefined {
+    const index = this.responses.findIndex(
+      (response, i) =>
+        (response.times === undefined || this.uses[i] < response.times) &&
+        (response.match === undefined || prompt.includes(response.match))
+    );
+    if (index === -1) return undefined;
+
+    this.uses[index]++;
+    return this.responses[index];
+  }
+
+  private async simulateLatency(
+    latencyMs: number = this.latencyMs,
+    { timeoutMs, signal }: CompletionRequest
+  ): Promise<void> {
+    const wait = timeoutMs ? Math.min(latencyMs, timeoutMs) : latencyMs;
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    this.throwIfAborted({ signal });
+
+    if (timeoutMs && latencyMs > timeoutMs) {
+      throw new ProviderError(this.name, 'timeout', 'Request timed out');
+    }
+  }
+
+  private throwIfAborted({ signal }: Pick<CompletionRequest, 'signal'>): void {
+    if (signal?.aborted) {
+      throw new ProviderError(this.name, 'timeout', 'Request aborted');
+    }
+  }
+
+  private toProviderError(response: MockResponse): ProviderError {
+    const { error } = response;
+    if (error === 'timeout' || error === undefined) {
+      return new ProviderError(this.name, 'timeout', 'Request timed out');
+    }
+
+    const message = `mock API error: simulated ${error} response`;
+    if (error === 429) {
+      return new ProviderError(this.name, 'rate_limit', message, {
+        status: error,
+        retryAfter: response.retryAfter ?? 1,
+      });
+    }
+    if (error === 401 || error === 403) {
+      return new ProviderError(this.name, 'authentication', message, {
+        status: error,
+      });
+    }
+    if (error >= 500) {
+      return new ProviderError(this.name, 'server', message, { status: error });
+    }
+    return new ProviderError(this.name, 'invalid_request', message, {
+      status: error,
+    });
+  }
+
+  private promptText(messages: PromptMessage[]): string {
+    return messages.map(message => message.content).join('\n\n');
+  }
+
+  private lastUserMessage(messages: PromptMessage[]): string {
+    const user = messages.filter(message => message.role === 'user');
+    return user[user.length - 1]?.content ?? '';
+  }
+}
@@ -0,0 +1,42 @@
+// Executions name models as `provider:model`; bare names use OpenAI
+export const DEFAULT_PROVIDER = 'openai';
+
+export interface ModelRef {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Splits a model reference at the first colon only, so local model tags
+ * such as `local:llama3.1:8b` keep their own colons
+ */
+export function parseModelRef(ref: string): ModelRef {
+  const separator = ref.indexOf(':');
+  if (separator === -1) {
+    return { provider: DEFAULT_PROVIDER, model: ref };
+  }
+
+  return {
+    provider: ref.slice(0, separator),
+    model: ref.slice(separator + 1),
+  };
+}
+
+/**
+ * Looks a model up by exact name, then by the longest known prefix so
+ * dated snapshots such as `gpt-4o-2024-08-06` match `gpt-4o`
+ */
+export function findModelEntry<T>(
+  table: Record<string, T>,
+  model: string
+): T | undefined {
+  if (Object.prototype.hasOwnProperty.call(table, model)) {
+    return table[model];
+  }
+
+  const prefix = Object.keys(table)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? table[prefix] : undefined;
+}
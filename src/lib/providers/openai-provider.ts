@@ -0,0 +1,173 @@
+import OpenAI from 'openai';
+import { ProviderError } from '../utils/error-handler';
+import { tokenizer } from '../tokenizer/tokenizer';
+import type {
+  CompletionDeltaHandler,
+  CompletionRequest,
+  CompletionResult,
+  CompletionTokenUsage,
+  LLMProvider,
+  ModelPricing,
+} from './types';
+
+export interface OpenAIProviderOptions {
+  name: string;
+  client: OpenAI;
+  // Price lookup; self-hosted compatible servers usually have none
+  pricing?: (model: string) => ModelPricing | undefined;
+  // Ask for usage on the final stream chunk; older Azure API versions
+  // reject the option
+  streamUsage?: boolean;
+}
+
+/**
+ * Chat completions over the OpenAI API shape. Serves OpenAI itself, Azure
+ * OpenAI (through `AzureOpenAI`) and any compatible base URL such as a
+ * local llama.cpp or Ollama server.
+ */
+export class OpenAIProvider implements LLMProvider {
+  public readonly name: string;
+  private client: OpenAI;
+  private pricing?: (model: string) => ModelPricing | undefined;
+  private streamUsage: boolean;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.client = options.client;
+    this.pricing = options.pricing;
+    this.streamUsage = options.streamUsage ?? true;
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          model: request.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+        },
+        this.requestOptions(request)
+      );
+
+      const output = completion.choices[0]?.message?.content || '';
+
+      return {
+        output,
+        tokenUsage: this.toTokenUsage(request, output, completion.usage),
+        model: completion.model || request.model,
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  public async stream(
+    request: CompletionRequest,
+    onDelta: CompletionDeltaHandler
+  ): Promise<CompletionResult> {
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          model: request.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true,
+          ...(this.streamUsage && { stream_options: { include_usage: true } }),
+        },
+        this.requestOptions(request)
+      );
+
+      let output = '';
+      let model = request.model;
+      let usage: OpenAI.CompletionUsage | undefined;
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          output += text;
+          onDelta(text);
+        }
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.model) model = chunk.model;
+      }
+
+      return {
+        output,
+        tokenUsage: this.toTokenUsage(request, output, usage),
+        model,
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  public getPricing(model: string): ModelPricing | undefined {
+    return this.pricing?.(model);
+  }
+
+  private requestOptions(request: CompletionRequest): OpenAI.RequestOptions {
+    return {
+      timeout: request.timeoutMs,
+      signal: request.signal,
+      // ExecutionErrorHandler owns retries and backoff
+      maxRetries: 0,
+    };
+  }
+
+  private toTokenUsage(
+    request: CompletionRequest,
+    output: string,
+    usage: OpenAI.CompletionUsage | null | undefined
+  ): CompletionTokenUsage {
+    // Some compatible servers omit usage; count locally instead
+    const inputTokens =
+      usage?.prompt_tokens ??
+      tokenizer.countMessageTokens(request.messages, request.model);
+    const outputTokens =
+      usage?.completion_tokens ?? tokenizer.countTokens(output, request.model);
+
+    return {
+      inputTokens,
+      outputTokens,
+      totalTokens: usage?.total_tokens ?? inputTokens + outputTokens,
+    };
+  }
+
+  private normalizeError(error: unknown): Error {
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+      return new ProviderError(this.name, 'timeout', 'Request timed out');
+    }
+
+    if (error instanceof OpenAI.APIError) {
+      const { status } = error;
+      const message = `${this.name} API error: ${error.message}`;
+
+      if (status === 429) {
+        const retryAfter = parseInt(error.headers?.['retry-after'] || '', 10);
+        return new ProviderError(this.name, 'rate_limit', message, {
+          status,
+          retryAfter: isNaN(retryAfter) ? undefined : retryAfter,
+        });
+      }
+      if (status === 401 || status === 403) {
+        return new ProviderError(this.name, 'authentication', message, {
+          status,
+        });
+      }
+      if (status !== undefined && status >= 400 && status < 500) {
+        return new ProviderError(this.name, 'invalid_request', message, {
+          status,
+        });
+      }
+
+      // 5xx responses and connection failures (no status)
+      return new ProviderError(this.name, 'server', message, { status });
+    }
+
+    return error instanceof Error
+      ? error
+      : new ProviderError(this.name, 'server', String(error));
+  }
+}
@@ -0,0 +1,239 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { z } from 'zod';
+import { openAIConfig } from '../config/openai';
+import { ValidationError } from '../utils/error-handler';
+import { ANTHROPIC_PRICING, AnthropicProvider } from './anthropic-provider';
+import {
+  loadMockFixture,
+  MockProvider,
+  parseMockFailures,
+} from './mock-provider';
+import { findModelEntry, parseModelRef } from './models';
+import { OpenAIProvider } from './openai-provider';
+import type { LLMProvider, ModelPricing } from './types';
+
+export type ProviderFactory = () => LLMProvider;
+export type PricingLookup = (model: string) => ModelPricing | undefined;
+
+export interface ResolvedModel {
+  provider: LLMProvider;
+  // Model name to send to the provider
+  model: string;
+  // Canonical `provider:model` reference for execution records
+  ref: string;
+}
+
+// Fallback when the configured cost table doesn't list a model
+const OPENAI_PRICING: Record<string, ModelPricing> = {
+  'gpt-3.5-turbo': { input: 0.0015, output: 0.002 },
+  'gpt-4': { input: 0.03, output: 0.06 },
+  'gpt-4-turbo': { input: 0.01, output: 0.03 },
+  'gpt-4o': { input: 0.0025, output: 0.01 },
+  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+};
+
+function openAIPricing(model: string): ModelPricing | undefined {
+  let configured: Record<string, ModelPricing> = {};
+  try {
+    configured = openAIConfig.getConfig().costConfig;
+  } catch {
+    // Cost configuration is optional for pricing lookups
+  }
+
+  return (
+    findModelEntry(configured, model) || findModelEntry(OPENAI_PRICING, model)
+  );
+}
+
+function azurePricing(model: string): ModelPricing | undefined {
+  return findModelEntry(OPENAI_PRICING, model);
+}
+
+function requireEnv(provider: string, name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new ValidationError(
+      `Provider "${provider}" is not configured (set ${name})`
+    );
+  }
+  return value;
+}
+
+export class ProviderRegistry {
+  private factories = new Map<string, ProviderFactory>();
+  private instances = new Map<string, LLMProvider>();
+  private pricing = new Map<string, PricingLookup>();
+  private forcedModel?: string;
+
+  /**
+   * Registers a provider under a name. Providers are created on first use,
+   * so unconfigured ones only fail when a request actually selects them.
+   * A pricing lookup lets cost estimates work without credentials.
+   */
+  public register(
+    name: string,
+    factory: ProviderFactory,
+    pricing?: PricingLookup
+  ): void {
+    this.factories.set(name, factory);
+    this.instances.delete(name);
+    if (pricing) {
+      this.pricing.set(name, pricing);
+    } else {
+      this.pricing.delete(name);
+    }
+  }
+
+  /**
+   * Sends every request to one model regardless of what was asked for,
+   * e.g. `mock:echo` for offline runs. Pass undefined to stop.
+   */
+  public forceModel(ref: string | undefined): void {
+    this.forcedModel = ref;
+  }
+
+  public has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  public list(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  public get(name: string): LLMProvider {
+    const existing = this.instances.get(name);
+    if (existing) return existing;
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new ValidationError(
+        `Unknown provider "${name}". Available: ${this.list().join(', ')}`
+      );
+    }
+
+    const provider = factory();
+    this.instances.set(name, provider);
+    return provider;
+  }
+
+  public resolve(ref: string): ResolvedModel {
+    const { provider, model } = parseModelRef(this.forcedModel || ref);
+    if (!model) {
+      throw new ValidationError(
+        `Model reference "${this.forcedModel || ref}" has no model name`
+      );
+    }
+
+    return {
+      provider: this.get(provider),
+      model,
+      ref: `${provider}:${model}`,
+    };
+  }
+
+  public getPricing(ref: string): ModelPricing | undefined {
+    const { provider, model } = parseModelRef(ref);
+    const lookup = this.pricing.get(provider);
+    if (lookup) return lookup(model);
+
+    try {
+      return this.get(provider).getPricing(model);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export function registerBuiltInProviders(registry: ProviderRegistry): void {
+  registry.register(
+    'openai',
+    () =>
+      new OpenAIProvider({
+        name: 'openai',
+        client: new OpenAI({ apiKey: requireEnv('openai', 'OPENAI_API_KEY') }),
+        pricing: openAIPricing,
+      }),
+    openAIPricing
+  );
+
+  // Models are Azure deployment names, priced like the OpenAI model they
+  // usually share a name with
+  registry.register(
+    'azure',
+    () =>
+      new OpenAIProvider({
+        name: 'azure',
+        client: new AzureOpenAI({
+          apiKey: requireEnv('azure', 'AZURE_OPENAI_API_KEY'),
+          endpoint: requireEnv('azure', 'AZURE_OPENAI_ENDPOINT'),
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+        }),
+        pricing: azurePricing,
+        streamUsage: false,
+      }),
+    azurePricing
+  );
+
+  registry.register(
+    'anthropic',
+    () =>
+      new AnthropicProvider({
+        apiKey: requireEnv('anthropic', 'ANTHROPIC_API_KEY'),
+        baseURL: process.env.ANTHROPIC_BASE_URL,
+      }),
+    model => findModelEntry(ANTHROPIC_PRICING, model)
+  );
+
+  // Any OpenAI-compatible server, e.g. llama.cpp or Ollama on localhost
+  registry.register(
+    'local',
+    () =>
+      new OpenAIProvider({
+        name: 'local',
+        client: new OpenAI({
+          baseURL: requireEnv('local', 'LOCAL_LLM_BASE_URL'),
+          // Local servers generally ignore the key, but the SDK requires one
+          apiKey: process.env.LOCAL_LLM_API_KEY || 'not-needed',
+        }),
+      })
+  );
+
+  // Scripted responses for tests and offline development; kept out of
+  // production unless explicitly enabled
+  if (
+    process.env.NODE_ENV !== 'production' ||
+    process.env.MOCK_LLM_ENABLED === 'true'
+  ) {
+    registry.register('mock', () => {
+      const fixture = process.env.MOCK_LLM_FIXTURES
+        ? loadMockFixture(process.env.MOCK_LLM_FIXTURES)
+        : { responses: [] };
+
+      return new MockProvider({
+        fixture: {
+          responses: [
+            ...parseMockFailures(process.env.MOCK_LLM_ERRORS || ''),
+            ...fixture.responses,
+          ],
+        },
+        latencyMs: parseInt(process.env.MOCK_LLM_LATENCY_MS || '0', 10),
+        chunkDelayMs: parseInt(process.env.MOCK_LLM_CHUNK_DELAY_MS || '0', 10),
+      });
+    });
+  }
+}
+
+// Singleton instance
+export const providerRegistry = new ProviderRegistry();
+registerBuiltInProviders(providerRegistry);
+providerRegistry.forceModel(process.env.LLM_FORCE_MODEL || undefined);
+
+// `provider:model`, or a bare model name for the default provider
+export const ModelRefSchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .refine(ref => providerRegistry.has(parseModelRef(ref).provider), {
+    message:
+      'Unknown provider; use "provider:model" with a registered provider',
+  });
@@ -0,0 +1,51 @@
+import type { PromptMessage } from '../../types/database';
+
+export interface CompletionRequest {
+  // Model name as the provider knows it (deployment name for Azure)
+  model: string;
+  messages: PromptMessage[];
+  maxTokens: number;
+  temperature: number;
+  timeoutMs?: number;
+  // Aborts the upstream request, e.g. when the client goes away
+  signal?: AbortSignal;
+}
+
+// Receives each piece of output text as the provider produces it
+export type CompletionDeltaHandler = (text: string) => void;
+
+export interface CompletionTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  output: string;
+  tokenUsage: CompletionTokenUsage;
+  // Model that actually served the request, as reported by the provider
+  model: string;
+}
+
+export interface ModelPricing {
+  // USD per 1K tokens
+  input: number;
+  output: number;
+}
+
+/**
+ * A chat-completion backend. Implementations translate the request into
+ * their API's format and throw `ProviderError` for every upstream failure.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Streams output through onDelta and resolves with the full result.
+  // Providers without streaming are called through complete() instead.
+  stream?(
+    request: CompletionRequest,
+    onDelta: CompletionDeltaHandler
+  ): Promise<CompletionResult>;
+  // Undefined when the model's price is unknown; such runs cost nothing
+  getPricing(model: string): ModelPricing | undefined;
+}
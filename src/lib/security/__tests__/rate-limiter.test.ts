@@ -0,0 +1,182 @@
+import { headers } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/client';
+import { RateLimitError } from '@/lib/utils/error-handler';
+import {
+  ANONYMOUS_RATE_LIMIT,
+  MemoryRateLimitStore,
+  PLAN_RATE_LIMITS,
+  RateLimiter,
+  withRateLimit,
+} from '../rate-limiter';
+
+jest.mock('next/headers', () => ({ headers: jest.fn() }));
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: { user: { findUnique: jest.fn() } },
+}));
+
+const mockFindUser = prisma.user.findUnique as jest.Mock;
+const mockHeaders = headers as jest.Mock;
+
+describe('RateLimiter', () => {
+  const rule = { limit: 10, windowMs: 60_000 };
+  // Start of a window, so the previous window is easy to reason about
+  const windowStart = 1_800_000_000_000;
+  let limiter: RateLimiter;
+  let now: jest.SpyInstance;
+
+  const hits = async (
+    key: string,
+    count: number
+  ): Promise<Array<{ allowed: boolean; remaining: number }>> => {
+    const results = [];
+    for (let i = 0; i < count; i++) {
+      results.push(await limiter.check(key, rule));
+    }
+    return results;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    limiter = new RateLimiter(new MemoryRateLimitStore());
+    now = jest.spyOn(Date, 'now').mockReturnValue(windowStart);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('should allow requests up to the limit', async () => {
+    const results = await hits('user:1', 11);
+
+    expect(results[0]).toMatchObject({ allowed: true, remaining: 9 });
+    expect(results[9]).toMatchObject({ allowed: true, remaining: 0 });
+    expect(results[10]).toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it('should weigh the previous window by how much of it still overlaps', async () => {
+    await hits('user:1', 10);
+
+    // A quarter into the next window, 75% of the last 10 hits still count
+    now.mockReturnValue(windowStart + rule.windowMs + rule.windowMs / 4);
+    const [result] = await hits('user:1', 1);
+
+    expect(result).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('should count keys separately', async () => {
+    await hits('user:1', 10);
+
+    const [result] = await hits('user:2', 1);
+
+    expect(result.allowed).toBe(true);
+  });
+
+  it('should apply plan quotas and the execution quota', async () => {
+    mockFindUser.mockResolvedValue({ plan: 'PRO' });
+    const user = { id: 'user-1', created_at: '2026-01-01' };
+
+    const handler = withRateLimit(async () => {
+      await limiter.enforceForUser(user, 'EXECUTE');
+      return NextResponse.json({});
+    });
+    const response = await handler();
+
+    // The execution quota is the one closer to running out
+    const { executions } = PLAN_RATE_LIMITS.PRO;
+    expect(response.headers.get('X-RateLimit-Limit')).toBe(
+      String(executions.limit)
+    );
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe(
+      String(executions.limit - 1)
+    );
+    expect(response.headers.get('X-RateLimit-Reset')).toBe(
+      String(Math.ceil((windowStart + executions.windowMs) / 1000))
+    );
+
+    // The plan is cached between requests
+    await limiter.enforceForUser(user, 'PROMPTS_READ');
+    expect(mockFindUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('should key API keys separately from their user', async () => {
+    const user = {
+      id: 'user-1',
+      created_at: '2026-01-01',
+      plan: 'FREE' as const,
+    };
+    const { executions } = PLAN_RATE_LIMITS.FREE;
+    for (let i = 0; i < executions.limit; i++) {
+      await limiter.enforceForUser(user, 'EXECUTE');
+    }
+
+    await expect(limiter.enforceForUser(user, 'EXECUTE')).rejects.toThrow(
+      RateLimitError
+    );
+    await expect(
+      limiter.enforceForUser(
+        { ...user, apiKey: { id: 'key-1', name: 'ci', scopes: ['EXECUTE'] } },
+        'EXECUTE'
+      )
+    ).resolves.toBeUndefined();
+    expect(mockFindUser).not.toHaveBeenCalled();
+  });
+
+  it('should add Retry-After once the limit is exceeded', async () => {
+    const handler = withRateLimit(async () => {
+      try {
+        await limiter.enforce('login:10.0.0.1', { ...rule, limit: 1 });
+        await limiter.enforce('login:10.0.0.1', { ...rule, limit: 1 });
+        return NextResponse.json({});
+      } catch (error) {
+        return NextResponse.json({}, { status: 429 });
+      }
+    });
+
+    const response = await handler();
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(response.headers.get('Retry-After')).toBe('60');
+  });
+
+  it('should count requests without credentials by client address', async () => {
+    const client = new Headers({ 'x-forwarded-for': '10.0.0.1, 10.0.0.2' });
+    for (let i = 0; i < ANONYMOUS_RATE_LIMIT.limit; i++) {
+      await limiter.enforceForClient(client);
+    }
+
+    await expect(limiter.enforceForClient(client)).rejects.toThrow(
+      RateLimitError
+    );
+    await expect(
+      limiter.enforceForClient(new Headers({ 'x-forwarded-for': '10.0.0.3' }))
+    ).resolves.toBeUndefined();
+  });
+
+  it('should reject anonymous requests over the limit before the handler runs', async () => {
+    mockHeaders.mockResolvedValue(
+      new Headers({ 'x-forwarded-for': '10.0.0.9' })
+    );
+    const route = jest.fn(async () => NextResponse.json({}));
+    const handler = withRateLimit(route, { anonymous: true });
+
+    for (let i = 0; i < ANONYMOUS_RATE_LIMIT.limit; i++) {
+      await handler();
+    }
+    const response = await handler();
+
+    expect(route).toHaveBeenCalledTimes(ANONYMOUS_RATE_LIMIT.limit);
+    expect(response.status).toBe(429);
+    await expect(response.json()).resolves.toMatchObject({
+      code: 'RATE_LIMIT_EXCEEDED',
+    });
+    expect(response.headers.get('X-RateLimit-Limit')).toBe(
+      String(ANONYMOUS_RATE_LIMIT.limit)
+    );
+    expect(response.headers.get('Retry-After')).toBe(
+      String(ANONYMOUS_RATE_LIMIT.windowMs / 1000)
+    );
+  });
+});
@@ -0,0 +1,390 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ApiKeyScope, UserPlan } from '@prisma/client';
+import { headers } from 'next/headers';
+import { NextResponse } from 'next/server';
+import type { AuthUser } from '../auth/api-keys';
+import { prisma } from '../database/client';
+import { handleApiError, RateLimitError } from '../utils/error-handler';
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // When the current window ends, in epoch milliseconds
+  resetAt: number;
+}
+
+/**
+ * Counts hits in fixed windows. The limiter weighs the previous window's
+ * count to approximate a sliding window.
+ */
+export interface RateLimitStore {
+  hit(
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ): Promise<{ current: number; previous: number }>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Quotas per key: API keys and session users each get their plan's limits
+export const PLAN_RATE_LIMITS: Record<
+  UserPlan,
+  { requests: RateLimitRule; executions: RateLimitRule }
+> = {
+  FREE: {
+    requests: { limit: 300, windowMs: HOUR_MS },
+    executions: { limit: 50, windowMs: HOUR_MS },
+  },
+  PRO: {
+    requests: { limit: 3000, windowMs: HOUR_MS },
+    executions: { limit: 500, windowMs: HOUR_MS },
+  },
+  ENTERPRISE: {
+    requests: { limit: 20000, windowMs: HOUR_MS },
+    executions: { limit: 5000, windowMs: HOUR_MS },
+  },
+};
+
+// Failed and successful attempts alike, per client address
+export const LOGIN_RATE_LIMIT: RateLimitRule = {
+  limit: 5,
+  windowMs: 15 * 60 * 1000,
+};
+
+// Requests without a valid session or API key, per client address
+export const ANONYMOUS_RATE_LIMIT: RateLimitRule = {
+  limit: 200,
+  windowMs: HOUR_MS,
+};
+
+const PLAN_CACHE_MS = 5 * 60 * 1000;
+
+/**
+ * Per-process counters, for development and tests
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+  private nextSweep = 0;
+
+  public async hit(
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ): Promise<{ current: number; previous: number }> {
+    const now = Date.now();
+    if (now >= this.nextSweep) {
+      for (const [counterKey, counter] of this.counters) {
+        if (counter.expiresAt <= now) this.counters.delete(counterKey);
+      }
+      this.nextSweep = now + windowMs;
+    }
+
+    const currentKey = `${key}:${windowStart}`;
+    const counter = this.counters.get(currentKey) ?? {
+      count: 0,
+      expiresAt: windowStart + 2 * windowMs,
+    };
+    counter.count++;
+    this.counters.set(currentKey, counter);
+
+    return {
+      current: counter.count,
+      previous:
+        this.counters.get(`${key}:${windowStart - windowMs}`)?.count ?? 0,
+    };
+  }
+}
+
+/**
+ * Counters in the rate_limit_counters table, shared by every instance.
+ * Expired rows are removed by the cleanup cron job.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  public async hit(
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ): Promise<{ current: number; previous: number }> {
+    const [counter, previous] = await Promise.all([
+      prisma.rateLimitCounter.upsert({
+        where: { key_windowStart: { key, windowStart: new Date(windowStart) } },
+        create: {
+          key,
+          windowStart: new Date(windowStart),
+          count: 1,
+          expiresAt: new Date(windowStart + 2 * windowMs),
+        },
+        update: { count: { increment: 1 } },
+        select: { count: true },
+      }),
+      prisma.rateLimitCounter.findUnique({
+        where: {
+          key_windowStart: {
+            key,
+            windowStart: new Date(windowStart - windowMs),
+          },
+        },
+        select: { count: true },
+      }),
+    ]);
+
+    return { current: counter.count, previous: previous?.count ?? 0 };
+  }
+}
+
+/**
+ * Counters in Redis, through a REST endpoint that accepts command
+ * pipelines (such as Upstash), so no connection pool is needed
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private url: string,
+    private token?: string
+  ) {}
+
+  public async hit(
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ): Promise<{ current: number; previous: number }> {
+    const currentKey = `ratelimit:${key}:${windowStart}`;
+    const response = await fetch(`${this.url.replace(/\/$/, '')}/pipeline`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token && { Authorization: `Bearer ${this.token}` }),
+      },
+      body: JSON.stringify([
+        ['INCR', currentKey],
+        ['PEXPIRE', currentKey, String(2 * windowMs)],
+        ['GET', `ratelimit:${key}:${windowStart - windowMs}`],
+      ]),
+    });
+    if (!response.ok) {
+      throw new Error(`Rate limit store failed: ${response.status}`);
+    }
+
+    const [current, , previous] = (await response.json()) as Array<{
+      result: number | string | null;
+    }>;
+    return {
+      current: Number(current.result),
+      previous: Number(previous.result ?? 0),
+    };
+  }
+}
+
+/**
+ * Picks the store from RATE_LIMIT_STORE (memory, postgres or redis). By
+ * default Redis is used when RATE_LIMIT_REDIS_URL is set, then Postgres
+ * in production and memory elsewhere.
+ */
+export function createRateLimitStore(): RateLimitStore {
+  const redisUrl = process.env.RATE_LIMIT_REDIS_URL;
+  const store =
+    process.env.RATE_LIMIT_STORE ||
+    (redisUrl
+      ? 'redis'
+      : process.env.NODE_ENV === 'production'
+        ? 'postgres'
+        : 'memory');
+
+  switch (store) {
+    case 'redis':
+      if (!redisUrl) {
+        throw new Error('RATE_LIMIT_REDIS_URL is required for the redis store');
+      }
+      return new RedisRateLimitStore(
+        redisUrl,
+        process.env.RATE_LIMIT_REDIS_TOKEN
+      );
+    case 'postgres':
+      return new PostgresRateLimitStore();
+    default:
+      return new MemoryRateLimitStore();
+  }
+}
+
+export function getClientIp(headers: Headers): string {
+  return (
+    headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    headers.get('x-real-ip') ||
+    'unknown'
+  );
+}
+
+// Result reported in the response headers of the current request
+const requestLimits = new AsyncLocalStorage<{ result?: RateLimitResult }>();
+
+/**
+ * Sliding-window rate limiting keyed by API key, user or client address
+ */
+export class RateLimiter {
+  private plans = new Map<string, { plan: UserPlan; expiresAt: number }>();
+
+  constructor(private store: RateLimitStore = createRateLimitStore()) {}
+
+  /**
+   * Counts a hit against `key` and reports it for the response headers
+   */
+  public async check(
+    key: string,
+    rule: RateLimitRule
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+    const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+    const { current, previous } = await this.store.hit(
+      key,
+      windowStart,
+      rule.windowMs
+    );
+
+    const previousWeight = 1 - (now - windowStart) / rule.windowMs;
+    const count = current + Math.floor(previous * previousWeight);
+    const result: RateLimitResult = {
+      allowed: count <= rule.limit,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - count),
+      resetAt: windowStart + rule.windowMs,
+    };
+
+    this.report(result);
+    return result;
+  }
+
+  /**
+   * Like check, but throws a RateLimitError once the limit is reached
+   */
+  public async enforce(
+    key: string,
+    rule: RateLimitRule
+  ): Promise<RateLimitResult> {
+    const result = await this.check(key, rule);
+    if (!result.allowed) {
+      throw new RateLimitError(
+        'Rate limit exceeded',
+        Math.ceil((result.resetAt - Date.now()) / 1000)
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Applies the plan's request quota, and its execution quota to routes
+   * that run prompts, to an authenticated user or API key
+   */
+  public async enforceForUser(
+    user: AuthUser,
+    scope: ApiKeyScope
+  ): Promise<void> {
+    const limits = PLAN_RATE_LIMITS[user.plan ?? (await this.planFor(user.id))];
+    const key = user.apiKey ? `key:${user.apiKey.id}` : `user:${user.id}`;
+
+    await this.enforce(`${key}:requests`, limits.requests);
+    if (scope === 'EXECUTE') {
+      await this.enforce(`${key}:executions`, limits.executions);
+    }
+  }
+
+  /**
+   * Counts an unauthenticated request, or one whose credentials were
+   * rejected, against the client address it came from
+   */
+  public async enforceForClient(requestHeaders: Headers): Promise<void> {
+    await this.enforce(
+      `ip:${getClientIp(requestHeaders)}`,
+      ANONYMOUS_RATE_LIMIT
+    );
+  }
+
+  private report(result: RateLimitResult): void {
+    const context = requestLimits.getStore();
+    if (!context) return;
+
+    // With several limits, report the one closest to running out
+    if (
+      !context.result ||
+      !result.allowed ||
+      (context.result.allowed && result.remaining < context.result.remaining)
+    ) {
+      context.result = result;
+    }
+  }
+
+  private async planFor(userId: string): Promise<UserPlan> {
+    const cached = this.plans.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.plan;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { plan: true },
+    });
+    const plan = user?.plan ?? 'FREE';
+    this.plans.set(userId, { plan, expiresAt: Date.now() + PLAN_CACHE_MS });
+    return plan;
+  }
+}
+
+/**
+ * Wraps a route handler so the rate limits checked while it runs are
+ * reported in X-RateLimit-Limit, X-RateLimit-Remaining and
+ * X-RateLimit-Reset headers, plus Retry-After once exceeded. Public routes
+ * pass `anonymous` to count every request against the client address.
+ */
+export function withRateLimit<Args extends unknown[], R extends Response>(
+  handler: (...args: Args) => Promise<R>,
+  options: { anonymous?: boolean } = {}
+): (...args: Args) => Promise<R | NextResponse> {
+  return (...args) => {
+    const context: { result?: RateLimitResult } = {};
+
+    return requestLimits.run(context, async () => {
+      const response = await limited(handler, args, options);
+      const { result } = context;
+      if (result) {
+        response.headers.set('X-RateLimit-Limit', String(result.limit));
+        response.headers.set('X-RateLimit-Remaining', String(result.remaining));
+        response.headers.set(
+          'X-RateLimit-Reset',
+          String(Math.ceil(result.resetAt / 1000))
+        );
+        if (!result.allowed) {
+          response.headers.set(
+            'Retry-After',
+            String(Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000)))
+          );
+        }
+      }
+      return response;
+    });
+  };
+}
+
+async function limited<Args extends unknown[], R extends Response>(
+  handler: (...args: Args) => Promise<R>,
+  args: Args,
+  options: { anonymous?: boolean }
+): Promise<R | NextResponse> {
+  if (options.anonymous) {
+    try {
+      await rateLimiter.enforceForClient(await headers());
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) throw error;
+      const apiError = handleApiError(error);
+      return NextResponse.json(apiError, { status: apiError.statusCode });
+    }
+  }
+  return handler(...args);
+}
+
+// Singleton instance
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,78 @@
+import { Tokenizer } from '../tokenizer';
+
+describe('Tokenizer', () => {
+  const tokenizer = new Tokenizer();
+
+  describe('Encoding', () => {
+    it('should encode with the cl100k encoding by default', () => {
+      expect(tokenizer.encode('hello world')).toEqual([15339, 1917]);
+    });
+
+    it('should use the o200k encoding for gpt-4o models', () => {
+      expect(tokenizer.encode('hello world', 'gpt-4o')).toEqual([24912, 2375]);
+      expect(tokenizer.getModelLimits('gpt-4o-2024-08-06').encoding).toBe(
+        'o200k_base'
+      );
+    });
+
+    it('should count special-token markup as plain text', () => {
+      expect(tokenizer.countTokens('<|endoftext|>')).toBeGreaterThan(1);
+    });
+
+    it('should fall back to the default model for unknown names', () => {
+      expect(tokenizer.getModelLimits('unknown-model')).toEqual(
+        tokenizer.getModelLimits('gpt-3.5-turbo')
+      );
+    });
+  });
+
+  describe('Chat Messages', () => {
+    it('should include per-message formatting overhead', () => {
+      const messages = [
+        { role: 'system' as const, content: 'Be brief.' },
+        { role: 'user' as const, content: 'hello world' },
+      ];
+
+      // 3 per message + role + content, plus 3 to prime the reply
+      expect(tokenizer.countMessageTokens(messages)).toBe(
+        3 +
+          2 * 3 +
+          tokenizer.countTokens('system') +
+          tokenizer.countTokens('Be brief.') +
+          tokenizer.countTokens('user') +
+          2
+      );
+    });
+
+    it('should check prompt plus completion against the context window', () => {
+      const messages = [{ role: 'user' as const, content: 'hello world' }];
+
+      expect(tokenizer.checkContextWindow(messages, 'gpt-4', 8000).fits).toBe(
+        true
+      );
+      expect(
+        tokenizer.checkContextWindow(messages, 'gpt-4', 8192)
+      ).toMatchObject({ fits: false, contextWindow: 8192, maxTokens: 8192 });
+    });
+  });
+
+  describe('Truncation', () => {
+    it('should keep text that already fits', () => {
+      expect(tokenizer.truncate('hello world', 5)).toBe('hello world');
+    });
+
+    it('should cut text to a token budget', () => {
+      const text = 'alpha beta gamma delta';
+      const truncated = tokenizer.truncate(text, 2);
+
+      expect(tokenizer.countTokens(truncated)).toBeLessThanOrEqual(2);
+      expect(text.startsWith(truncated)).toBe(true);
+    });
+
+    it('should not leave partial multi-byte characters', () => {
+      const truncated = tokenizer.truncate('😀😀😀', 1);
+
+      expect(truncated).not.toContain('\uFFFD');
+    });
+  });
+});
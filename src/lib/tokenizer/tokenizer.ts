@@ -0,0 +1,170 @@
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import type { PromptMessage } from '../../types/database';
+import { findModelEntry, parseModelRef } from '../providers/models';
+
+export type TokenEncoding = 'cl100k_base' | 'o200k_base';
+
+export interface ModelTokenLimits {
+  encoding: TokenEncoding;
+  // Prompt and completion tokens combined
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+export interface ContextWindowUsage {
+  model: string;
+  promptTokens: number;
+  maxTokens: number;
+  contextWindow: number;
+  fits: boolean;
+}
+
+// Ranks ship with the package, so counting never touches the network
+const ENCODING_RANKS: Record<TokenEncoding, TiktokenBPE> = {
+  cl100k_base: cl100kBase,
+  o200k_base: o200kBase,
+};
+
+export const MODEL_TOKEN_LIMITS: Record<string, ModelTokenLimits> = {
+  'gpt-3.5-turbo': {
+    encoding: 'cl100k_base',
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+  },
+  'gpt-4': {
+    encoding: 'cl100k_base',
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+  },
+  'gpt-4-turbo': {
+    encoding: 'cl100k_base',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+  },
+  'gpt-4-turbo-preview': {
+    encoding: 'cl100k_base',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+  },
+  'gpt-4o': {
+    encoding: 'o200k_base',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+  },
+  'gpt-4o-mini': {
+    encoding: 'o200k_base',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+  },
+  // Claude's tokenizer isn't published; cl100k counts come close enough
+  // for budgeting
+  'claude-3-haiku': {
+    encoding: 'cl100k_base',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+  },
+  'claude-3-opus': {
+    encoding: 'cl100k_base',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+  },
+  'claude-3-5-haiku': {
+    encoding: 'cl100k_base',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+  },
+  'claude-3-5-sonnet': {
+    encoding: 'cl100k_base',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+  },
+};
+
+const DEFAULT_MODEL = 'gpt-3.5-turbo';
+
+// Chat formatting overhead per message and for priming the reply,
+// as documented for the cl100k/o200k chat models
+const TOKENS_PER_MESSAGE = 3;
+const REPLY_PRIMING_TOKENS = 3;
+
+export class Tokenizer {
+  private encoders = new Map<TokenEncoding, Tiktoken>();
+
+  /**
+   * Token limits for a model name or `provider:model` reference. Unknown
+   * models get the default model's limits.
+   */
+  public getModelLimits(model = DEFAULT_MODEL): ModelTokenLimits {
+    return (
+      findModelEntry(MODEL_TOKEN_LIMITS, parseModelRef(model).model) ||
+      MODEL_TOKEN_LIMITS[DEFAULT_MODEL]
+    );
+  }
+
+  public encode(text: string, model?: string): number[] {
+    // Special-token markup in user input is counted as plain text
+    return this.getEncoder(model).encode(text, [], []);
+  }
+
+  public countTokens(text: string, model?: string): number {
+    return this.encode(text, model).length;
+  }
+
+  public countMessageTokens(messages: PromptMessage[], model?: string): number {
+    return messages.reduce(
+      (total, message) =>
+        total +
+        TOKENS_PER_MESSAGE +
+        this.countTokens(message.role, model) +
+        this.countTokens(message.content, model),
+      REPLY_PRIMING_TOKENS
+    );
+  }
+
+  /**
+   * Cuts text to at most `maxTokens` tokens without splitting a character
+   */
+  public truncate(text: string, maxTokens: number, model?: string): string {
+    const tokens = this.encode(text, model);
+    if (tokens.length <= maxTokens) return text;
+
+    // A cut inside a multi-byte character decodes to replacement characters
+    return this.getEncoder(model)
+      .decode(tokens.slice(0, Math.max(0, maxTokens)))
+      .replace(/\uFFFD+$/, '');
+  }
+
+  public checkContextWindow(
+    messages: PromptMessage[],
+    model: string,
+    maxTokens: number
+  ): ContextWindowUsage {
+    const { contextWindow } = this.getModelLimits(model);
+    const promptTokens = this.countMessageTokens(messages, model);
+
+    return {
+      model,
+      promptTokens,
+      maxTokens,
+      contextWindow,
+      fits: promptTokens + maxTokens <= contextWindow,
+    };
+  }
+
+  private getEncoder(model?: string): Tiktoken {
+    const { encoding } = this.getModelLimits(model);
+
+    // Building the rank table is expensive, so encoders are created lazily
+    let encoder = this.encoders.get(encoding);
+    if (!encoder) {
+      encoder = new Tiktoken(ENCODING_RANKS[encoding]);
+      this.encoders.set(encoding, encoder);
+    }
+    return encoder;
+  }
+}
+
+// Singleton instance
+export const tokenizer = new Tokenizer();
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+import { formatServerSentEvent, readServerSentEvents } from '../sse';
+
+const streamOf = (chunks: string[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller): void {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const collect = async (
+  chunks: string[]
+): Promise<Array<{ event: string; data: string }>> => {
+  const events = [];
+  for await (const event of readServerSentEvents(streamOf(chunks))) {
+    events.push(event);
+  }
+  return events;
+};
+
+describe('Server-Sent Events', () => {
+  it('should round-trip formatted events', async () => {
+    const events = await collect([
+      formatServerSentEvent('delta', { text: 'Hello\nworld' }),
+      formatServerSentEvent('completed', { ok: true }),
+    ]);
+
+    expect(events).toEqual([
+      { event: 'delta', data: '{"text":"Hello\\nworld"}' },
+      { event: 'completed', data: '{"ok":true}' },
+    ]);
+    expect(JSON.parse(events[0].data).text).toBe('Hello\nworld');
+  });
+
+  it('should reassemble events split across chunks', async () => {
+    const events = await collect([
+      'event: del',
+      'ta\ndata: {"a"',
+      ':1}\n',
+      '\n',
+    ]);
+
+    expect(events).toEqual([{ event: 'delta', data: '{"a":1}' }]);
+  });
+
+  it('should skip comments and join multi-line data', async () => {
+    const events = await collect([
+      ': keep-alive\n\n',
+      'data: first\r\ndata: second\r\n\r\n',
+    ]);
+
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+  });
+
+  it('should emit a final event without a trailing blank line', async () => {
+    const events = await collect(['event: done\ndata: {}']);
+
+    expect(events).toEqual([{ event: 'done', data: '{}' }]);
+  });
+});
@@ -26,6 +26,16 @@ export class AuthenticationError extends Error implements AppError {
   }
 }
 
+export class ForbiddenError extends Error implements AppError {
+  code = 'FORBIDDEN';
+  statusCode = 403;
+
+  constructor(message = 'Insufficient permissions') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
 export class NotFoundError extends Error implements AppError {
   code = 'NOT_FOUND';
   statusCode = 404;
@@ -48,6 +58,19 @@ export class RateLimitError extends Error implements AppError {
   }
 }
 
+// Running the request would take spend past a budget
+export class BudgetExceededError extends Error implements AppError {
+  code = 'BUDGET_EXCEEDED';
+  statusCode = 402;
+  details: unknown;
+
+  constructor(message: string, details?: unknown) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    this.details = details;
+  }
+}
+
 export class ServiceUnavailableError extends Error implements AppError {
   code = 'SERVICE_UNAVAILABLE';
   statusCode = 503;
@@ -58,6 +81,74 @@ export class ServiceUnavailableError extends Error implements AppError {
   }
 }
 
+export class ConflictError extends Error implements AppError {
+  code = 'CONFLICT';
+  statusCode = 409;
+  details: unknown;
+
+  constructor(message: string, details?: unknown) {
+    super(message);
+    this.name = 'ConflictError';
+    this.details = details;
+  }
+}
+
+// The execution was stopped on purpose, by the client or a cancel request
+export class ExecutionCancelledError extends Error implements AppError {
+  code = 'CANCELLED';
+  statusCode = 409;
+
+  constructor(message = 'Execution was cancelled') {
+    super(message);
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
+export type ProviderErrorKind =
+  | 'rate_limit'
+  | 'timeout'
+  | 'invalid_request'
+  | 'authentication'
+  | 'server';
+
+// HTTP status we answer with for each upstream failure
+const PROVIDER_ERROR_STATUS: Record<ProviderErrorKind, number> = {
+  rate_limit: 429,
+  timeout: 504,
+  invalid_request: 400,
+  authentication: 502,
+  server: 503,
+};
+
+/**
+ * Failure reported by an LLM provider, normalized so retry handling and
+ * API responses don't depend on which SDK or HTTP API produced it
+ */
+export class ProviderError extends Error implements AppError {
+  code = 'PROVIDER_ERROR';
+  statusCode: number;
+  provider: string;
+  kind: ProviderErrorKind;
+  // Upstream HTTP status, when the provider answered at all
+  status?: number;
+  retryAfter?: number;
+
+  constructor(
+    provider: string,
+    kind: ProviderErrorKind,
+    message: string,
+    options: { status?: number; retryAfter?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.kind = kind;
+    this.statusCode = PROVIDER_ERROR_STATUS[kind];
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
 export function handleApiError(error: unknown): {
   error: string;
   code: string;
@@ -0,0 +1,72 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Stop proxies such as nginx from buffering the stream
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * Serializes one event; JSON payloads never contain raw newlines, so a
+ * single `data:` line is enough
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parses an event stream as it arrives. Works on `fetch` response bodies,
+ * so it also covers POST requests that `EventSource` can't make.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      // The last block is incomplete until the stream ends
+      buffer = done ? '' : blocks.pop() || '';
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) yield event;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    // Lines starting with a colon are comments, e.g. keep-alives
+    if (!line || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
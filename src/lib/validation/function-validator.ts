@@ -19,6 +19,8 @@ export interface FunctionValidationResult {
 export interface ValidationContext {
   output: string;
   inputs: Record<string, unknown>;
+  // Reference output when scoring an evaluation case
+  expected?: string | undefined;
   metadata: {
     tokenUsage?:
       | {
@@ -174,6 +176,7 @@ export class FunctionValidator {
     return {
       output: typeof data === 'string' ? data : JSON.stringify(data),
       inputs: context?.inputs || {},
+      expected: context?.expected,
       metadata: {
         tokenUsage: context?.metadata?.tokenUsage || undefined,
         model: context?.metadata?.model || undefined,
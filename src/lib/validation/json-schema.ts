@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+// Subset of JSON Schema supported for output validation and typed variables
+export interface SchemaValidationRule {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  required?: string[];
+  properties?: Record<string, SchemaValidationRule>;
+  items?: SchemaValidationRule;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+/**
+ * Converts a JSON-schema style rule into an equivalent zod schema. Kept free
+ * of server-only imports so forms can validate with the same rules.
+ */
+export function jsonSchemaToZod(rule: SchemaValidationRule): z.ZodSchema {
+  switch (rule.type) {
+    case 'string':
+      let stringSchema = z.string();
+
+      if (rule.minLength) stringSchema = stringSchema.min(rule.minLength);
+      if (rule.maxLength) stringSchema = stringSchema.max(rule.maxLength);
+      if (rule.pattern)
+        stringSchema = stringSchema.regex(new RegExp(rule.pattern));
+      if (rule.enum) {
+        const stringEnums = rule.enum.filter(
+          v => typeof v === 'string'
+        ) as string[];
+        if (stringEnums.length > 0) {
+          return z.enum(stringEnums as [string, ...string[]]);
+        }
+      }
+
+      return stringSchema;
+
+    case 'number':
+      let numberSchema = z.number();
+
+      if (rule.minimum !== undefined)
+        numberSchema = numberSchema.min(rule.minimum);
+      if (rule.maximum !== undefined)
+        numberSchema = numberSchema.max(rule.maximum);
+      if (rule.enum) {
+        const numericEnum = rule.enum.filter(
+          v => typeof v === 'number'
+        ) as number[];
+        if (numericEnum.length > 0) {
+          return z.number().refine(val => numericEnum.includes(val), {
+            message: `Must be one of: ${numericEnum.join(', ')}`,
+          });
+        }
+      }
+
+      return numberSchema;
+
+    case 'boolean':
+      return z.boolean();
+
+    case 'array':
+      if (!rule.items) return z.array(z.unknown());
+      return z.array(jsonSchemaToZod(rule.items));
+
+    case 'object':
+      if (!rule.properties) return z.object({});
+
+      const shape: Record<string, z.ZodSchema> = {};
+
+      Object.entries(rule.properties).forEach(([key, prop]) => {
+        let schema = jsonSchemaToZod(prop);
+
+        // Make optional if not required
+        if (!rule.required?.includes(key)) {
+          schema = schema.optional();
+        }
+
+        shape[key] = schema;
+      });
+
+      return z.object(shape);
+
+    default:
+      return z.unknown();
+  }
+}
@@ -1,19 +1,10 @@
-import { z } from 'zod';
+import type { Validation } from '@prisma/client';
 import { prisma } from '../database/client';
+import { auditLog, type AuditActor } from '../monitoring/audit-log';
 import { ValidationError } from '../utils/error-handler';
+import { jsonSchemaToZod, type SchemaValidationRule } from './json-schema';
 
-export interface SchemaValidationRule {
-  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
-  required?: string[];
-  properties?: Record<string, SchemaValidationRule>;
-  items?: SchemaValidationRule;
-  enum?: (string | number)[];
-  minimum?: number;
-  maximum?: number;
-  minLength?: number;
-  maxLength?: number;
-  pattern?: string;
-}
+export type { SchemaValidationRule };
 
 export interface ValidationResult {
   isValid: boolean;
@@ -44,7 +35,7 @@ export class SchemaValidator {
     schema: SchemaValidationRule
   ): ValidationResult {
     try {
-      const zodSchema = this.convertToZodSchema(schema);
+      const zodSchema = jsonSchemaToZod(schema);
       const result = zodSchema.safeParse(data);
 
       if (result.success) {
@@ -113,76 +104,6 @@ export class SchemaValidator {
     }
   }
 
-  private convertToZodSchema(rule: SchemaValidationRule): z.ZodSchema {
-    switch (rule.type) {
-      case 'string':
-        let stringSchema = z.string();
-
-        if (rule.minLength) stringSchema = stringSchema.min(rule.minLength);
-        if (rule.maxLength) stringSchema = stringSchema.max(rule.maxLength);
-        if (rule.pattern)
-          stringSchema = stringSchema.regex(new RegExp(rule.pattern));
-        if (rule.enum) {
-          const stringEnums = rule.enum.filter(
-            v => typeof v === 'string'
-          ) as string[];
-          if (stringEnums.length > 0) {
-            return z.enum(stringEnums as [string, ...string[]]);
-          }
-        }
-
-        return stringSchema;
-
-      case 'number':
-        let numberSchema = z.number();
-
-        if (rule.minimum !== undefined)
-          numberSchema = numberSchema.min(rule.minimum);
-        if (rule.maximum !== undefined)
-          numberSchema = numberSchema.max(rule.maximum);
-        if (rule.enum) {
-          const numericEnum = rule.enum.filter(
-            v => typeof v === 'number'
-          ) as number[];
-          if (numericEnum.length > 0) {
-            return z.number().refine(val => numericEnum.includes(val), {
-              message: `Must be one of: ${numericEnum.join(', ')}`,
-            });
-          }
-        }
-
-        return numberSchema;
-
-      case 'boolean':
-        return z.boolean();
-
-      case 'array':
-        if (!rule.items) return z.array(z.unknown());
-        return z.array(this.convertToZodSchema(rule.items));
-
-      case 'object':
-        if (!rule.properties) return z.object({});
-
-        const shape: Record<string, z.ZodSchema> = {};
-
-        Object.entries(rule.properties).forEach(([key, prop]) => {
-          let schema = this.convertToZodSchema(prop);
-
-          // Make optional if not required
-          if (!rule.required?.includes(key)) {
-            schema = schema.optional();
-          }
-
-          shape[key] = schema;
-        });
-
-        return z.object(shape);
-
-      default:
-        return z.unknown();
-    }
-  }
-
   // Task 7: Database integration methods
   public async validateOutput(
     output: string,
@@ -264,9 +185,14 @@ export class SchemaValidator {
     }
   }
 
+  /**
+   * Rule changes are recorded in the audit log when made on behalf of an
+   * `actor`
+   */
   public async createValidationRule(
     promptId: string,
-    rule: Omit<ValidationRule, 'id' | 'createdAt' | 'updatedAt'>
+    rule: Omit<ValidationRule, 'id' | 'createdAt' | 'updatedAt'>,
+    actor?: AuditActor
   ): Promise<ValidationRule> {
     try {
       // Create validation rule in database
@@ -278,8 +204,18 @@ export class SchemaValidator {
           config: rule.config as any,
           isActive: rule.isActive,
         },
+        include: { prompt: { select: { workspaceId: true } } },
       });
 
+      if (actor) {
+        await auditLog.record(actor, {
+          action: 'validation.create',
+          targetId: createdRule.id,
+          workspaceId: createdRule.prompt.workspaceId,
+          after: this.ruleSnapshot(createdRule),
+        });
+      }
+
       return {
         id: createdRule.id,
         promptId: createdRule.promptId,
@@ -331,9 +267,13 @@ export class SchemaValidator {
     ruleId: string,
     updates: Partial<
       Pick<ValidationRule, 'name' | 'type' | 'config' | 'isActive'>
-    >
+    >,
+    actor?: AuditActor
   ): Promise<ValidationRule> {
     try {
+      const previousRule = actor
+        ? await prisma.validation.findUnique({ where: { id: ruleId } })
+        : null;
       const updatedRule = await prisma.validation.update({
         where: { id: ruleId },
         data: {
@@ -341,8 +281,19 @@ export class SchemaValidator {
           config: updates.config as any,
           updatedAt: new Date(),
         },
+        include: { prompt: { select: { workspaceId: true } } },
       });
 
+      if (actor) {
+        await auditLog.record(actor, {
+          action: 'validation.update',
+          targetId: ruleId,
+          workspaceId: updatedRule.prompt.workspaceId,
+          before: previousRule && this.ruleSnapshot(previousRule),
+          after: this.ruleSnapshot(updatedRule),
+        });
+      }
+
       return {
         id: updatedRule.id,
         promptId: updatedRule.promptId,
@@ -363,11 +314,24 @@ export class SchemaValidator {
     }
   }
 
-  public async deleteValidationRule(ruleId: string): Promise<void> {
+  public async deleteValidationRule(
+    ruleId: string,
+    actor?: AuditActor
+  ): Promise<void> {
     try {
-      await prisma.validation.delete({
+      const deletedRule = await prisma.validation.delete({
         where: { id: ruleId },
+        include: { prompt: { select: { workspaceId: true } } },
       });
+
+      if (actor) {
+        await auditLog.record(actor, {
+          action: 'validation.delete',
+          targetId: ruleId,
+          workspaceId: deletedRule.prompt.workspaceId,
+          before: this.ruleSnapshot(deletedRule),
+        });
+      }
     } catch (error) {
       throw new ValidationError(
         `Failed to delete validation rule: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -440,6 +404,16 @@ export class SchemaValidator {
       );
     }
   }
+
+  private ruleSnapshot(rule: Validation): Record<string, unknown> {
+    return {
+      promptId: rule.promptId,
+      name: rule.name,
+      type: rule.type,
+      config: rule.config,
+      isActive: rule.isActive,
+    };
+  }
 }
 
 // Create singleton instance
@@ -0,0 +1,321 @@
+/**
+ * @jest-environment node
+ */
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { prisma } from '@/lib/database/client';
+import { NotFoundError, ValidationError } from '@/lib/utils/error-handler';
+import {
+  WebhookManager,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../webhook-manager';
+
+jest.mock('@/lib/database/client', () => ({
+  prisma: {
+    webhook: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    webhookDelivery: {
+      create: jest.fn(),
+      update: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/monitoring/logger', () => ({
+  logger: { error: jest.fn() },
+}));
+
+type MockModel = Record<string, jest.Mock>;
+const mockPrisma = prisma as unknown as {
+  webhook: MockModel;
+  webhookDelivery: MockModel;
+};
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ id: 'delivery-1', type: 'webhook.test' });
+
+  it('verifies its own signatures', () => {
+    const header = signWebhookPayload('whsec_test', body);
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('whsec_test', body, header)).toBe(true);
+  });
+
+  it('rejects tampered bodies, other secrets and stale timestamps', () => {
+    const header = signWebhookPayload('whsec_test', body);
+    const staleHeader = signWebhookPayload(
+      'whsec_test',
+      body,
+      Math.floor(Date.now() / 1000) - 600
+    );
+
+    expect(verifyWebhookSignature('whsec_test', `${body} `, header)).toBe(
+      false
+    );
+    expect(verifyWebhookSignature('whsec_other', body, header)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', body, staleHeader)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', body, 'garbage')).toBe(false);
+  });
+});
+
+describe('WebhookManager', () => {
+  let manager: WebhookManager;
+  let server: Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  // Status codes the receiver answers with, in order, then 200
+  let responses: number[];
+
+  const webhook = { id: 'webhook-1', secret: 'whsec_test' };
+
+  // Resolves with what the first attempt recorded on the delivery
+  const settled = async (): Promise<Record<string, unknown>> => {
+    for (let i = 0; i < 100; i++) {
+      const call = mockPrisma.webhookDelivery.update.mock.calls.find(
+        ([args]) => args.data.attempts
+      );
+      if (call) return call[0].data;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('Delivery did not settle');
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end('ok');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    received = [];
+    responses = [];
+    manager = new WebhookManager({
+      maxAttempts: 3,
+      baseDelayMs: 1,
+      maxDelayMs: 5,
+      backoffMultiplier: 2,
+      jitterMs: 0,
+    });
+    mockPrisma.webhookDelivery.create.mockResolvedValue({
+      id: 'delivery-1',
+      createdAt: new Date('2026-03-01T00:00:00Z'),
+    });
+    mockPrisma.webhookDelivery.update.mockImplementation(
+      async ({ data }: { data: Record<string, unknown> }) => ({
+        id: 'delivery-1',
+        ...data,
+      })
+    );
+  });
+
+  it('POSTs signed events to active endpoints subscribed to them', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValue([{ ...webhook, url }]);
+
+    await manager.dispatch('user-1', 'execution.completed', {
+      executionId: 'exec-1',
+    });
+
+    expect(await settled()).toMatchObject({
+      status: 'SUCCEEDED',
+      attempts: 1,
+      nextAttemptAt: null,
+    });
+    expect(mockPrisma.webhookDelivery.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ nextAttemptAt: expect.any(Date) }),
+      })
+    );
+    expect(mockPrisma.webhook.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          isActive: true,
+          events: { has: 'execution.completed' },
+        },
+      })
+    );
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request.headers['x-formaops-event']).toBe('execution.completed');
+    expect(request.headers['x-formaops-delivery']).toBe('delivery-1');
+    expect(
+      verifyWebhookSignature(
+        webhook.secret,
+        request.body,
+        request.headers['x-formaops-signature'] as string
+      )
+    ).toBe(true);
+    expect(JSON.parse(request.body)).toEqual({
+      id: 'delivery-1',
+      type: 'execution.completed',
+      createdAt: '2026-03-01T00:00:00.000Z',
+      data: { executionId: 'exec-1' },
+    });
+  });
+
+  it('leaves server errors for a later attempt with a clean message', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValue([{ ...webhook, url }]);
+    responses = [503];
+
+    await manager.dispatch('user-1', 'execution.failed', {});
+
+    expect(await settled()).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      responseStatus: 503,
+      errorMessage: 'endpoint answered 503',
+      nextAttemptAt: expect.any(Date),
+    });
+    expect(received).toHaveLength(1);
+  });
+
+  it('gives up at once when the endpoint rejects the event', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValue([{ ...webhook, url }]);
+    responses = [400];
+
+    await manager.dispatch('user-1', 'execution.failed', {});
+
+    expect(await settled()).toMatchObject({
+      status: 'FAILED',
+      nextAttemptAt: null,
+    });
+    expect(received).toHaveLength(1);
+  });
+
+  describe('deliverDue', () => {
+    const due = (attempts: number): Record<string, unknown> => ({
+      id: 'delivery-1',
+      payload: {
+        id: 'delivery-1',
+        type: 'execution.failed',
+        createdAt: '2026-03-01T00:00:00.000Z',
+        data: {},
+      },
+      attempts,
+      nextAttemptAt: new Date('2026-03-01T00:01:00Z'),
+      webhook: { url, secret: webhook.secret },
+    });
+
+    beforeEach(() => {
+      mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('leases due deliveries and makes their next attempt', async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([due(1)]);
+
+      await expect(manager.deliverDue()).resolves.toBe(1);
+
+      expect(mockPrisma.webhookDelivery.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: 'PENDING',
+            nextAttemptAt: { lte: expect.any(Date) },
+          },
+        })
+      );
+      expect(mockPrisma.webhookDelivery.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'delivery-1',
+          status: 'PENDING',
+          nextAttemptAt: new Date('2026-03-01T00:01:00Z'),
+        },
+        data: { nextAttemptAt: expect.any(Date) },
+      });
+      expect(received).toHaveLength(1);
+      expect(received[0].headers['x-formaops-delivery']).toBe('delivery-1');
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'SUCCEEDED',
+            attempts: 2,
+            nextAttemptAt: null,
+          }),
+        })
+      );
+    });
+
+    it('fails the delivery when the last attempt fails', async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([due(2)]);
+      responses = [503];
+
+      await manager.deliverDue();
+
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'FAILED',
+            attempts: 3,
+            errorMessage: 'endpoint answered 503',
+            nextAttemptAt: null,
+          }),
+        })
+      );
+    });
+
+    it('skips deliveries another drain has leased', async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([due(1)]);
+      mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(manager.deliverDue()).resolves.toBe(0);
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  it('sends a single test attempt and returns its delivery', async () => {
+    mockPrisma.webhook.findFirst.mockResolvedValue({ ...webhook, url });
+    responses = [503];
+
+    const delivery = await manager.sendTestEvent('user-1', 'webhook-1');
+
+    expect(delivery).toMatchObject({ status: 'FAILED' });
+    expect(received).toHaveLength(1);
+    expect(received[0].headers['x-formaops-event']).toBe('webhook.test');
+  });
+
+  it("refuses other users' endpoints and non-http URLs", async () => {
+    mockPrisma.webhook.findFirst.mockResolvedValue(null);
+
+    await expect(manager.sendTestEvent('user-2', 'webhook-1')).rejects.toThrow(
+      NotFoundError
+    );
+    await expect(
+      manager.createWebhook('user-1', {
+        url: 'ftp://example.com/hooks',
+        events: ['execution.failed'],
+      })
+    ).rejects.toThrow(ValidationError);
+    expect(mockPrisma.webhook.create).not.toHaveBeenCalled();
+  });
+
+  it('never fails the caller when events cannot be dispatched', async () => {
+    mockPrisma.webhook.findMany.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      manager.dispatch('user-1', 'budget.threshold', {})
+    ).resolves.toBeUndefined();
+  });
+});
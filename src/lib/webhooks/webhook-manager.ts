@@ -0,0 +1,503 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type {
+  Prisma,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '@prisma/client';
+import { prisma } from '../database/client';
+import {
+  retryConfigs,
+  retryManager,
+  type RetryConfig,
+} from '../execution/retry-logic';
+import { logger } from '../monitoring/logger';
+import { NotFoundError, ValidationError } from '../utils/error-handler';
+
+export const WEBHOOK_EVENTS = [
+  'execution.completed',
+  'execution.failed',
+  'validation.failed',
+  'budget.threshold',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent by "send test event", whatever the endpoint subscribes to
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+export const SIGNATURE_HEADER = 'X-FormaOps-Signature';
+
+// Signatures older than this are rejected by verifyWebhookSignature
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// A delivery is held this long while an attempt is in flight. An attempt
+// cut short, e.g. by the process stopping, is made again after it.
+const ATTEMPT_LEASE_MS = 3 * DELIVERY_TIMEOUT_MS;
+
+// Due deliveries attempted per deliverDue() call
+const REDELIVERY_BATCH_SIZE = 20;
+
+// How much of the endpoint's response the delivery log keeps
+const RESPONSE_BODY_LIMIT = 1000;
+
+export type WebhookInfo = Omit<Webhook, 'secret' | 'userId'>;
+
+export type WebhookDeliveryInfo = Omit<WebhookDelivery, 'webhookId'>;
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+const webhookSelect = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const deliverySelect = {
+  id: true,
+  event: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  responseStatus: true,
+  responseBody: true,
+  errorMessage: true,
+  nextAttemptAt: true,
+  createdAt: true,
+  deliveredAt: true,
+} as const;
+
+type WebhookRetryConfig = Omit<RetryConfig, 'retryableErrors'>;
+
+// A stored delivery, ready for its next attempt
+interface PendingDelivery {
+  id: string;
+  payload: WebhookPayload;
+  attempts: number;
+}
+
+// What an attempt records on the delivery
+interface AttemptOutcome {
+  responseStatus: number | null;
+  responseBody: string | null;
+  errorMessage: string | null;
+  // Network errors, timeouts, 408, 429 and 5xx are worth another attempt
+  retryable: boolean;
+}
+
+/**
+ * Signature header value for a payload: `t=<unix seconds>,v1=<hex
+ * HMAC-SHA256 of "<t>.<body>">`
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Checks a received payload against its signature header, for receivers
+ * written in TypeScript
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now = Date.now()
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map(part => part.split('=', 2) as [string, string])
+  );
+  const timestamp = Number(parts.t);
+  if (
+    !Number.isInteger(timestamp) ||
+    !parts.v1 ||
+    Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    signWebhookPayload(secret, body, timestamp).split('v1=')[1],
+    'hex'
+  );
+  const received = Buffer.from(parts.v1, 'hex');
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Outbound webhooks. Events are stored as deliveries and POSTed with an
+ * HMAC signature. While the endpoint fails with a network error, a
+ * timeout, 408, 429 or a 5xx, the delivery stays PENDING with an
+ * exponential backoff in `nextAttemptAt`, and the execution queue drain
+ * makes the next attempt through deliverDue().
+ */
+export class WebhookManager {
+  constructor(
+    private readonly retryConfig: WebhookRetryConfig = retryConfigs.webhook
+  ) {}
+
+  /**
+   * Registers an endpoint. The signing secret is only ever returned here.
+   */
+  public async createWebhook(
+    userId: string,
+    input: WebhookInput
+  ): Promise<{ webhook: WebhookInfo; secret: string }> {
+    this.assertValidUrl(input.url);
+    const secret = `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        userId,
+        url: input.url,
+        description: input.description,
+        events: [...new Set(input.events)],
+        secret,
+      },
+      select: webhookSelect,
+    });
+
+    return { webhook, secret };
+  }
+
+  public async listWebhooks(userId: string): Promise<WebhookInfo[]> {
+    return prisma.webhook.findMany({
+      where: { userId },
+      select: webhookSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  public async updateWebhook(
+    userId: string,
+    id: string,
+    updates: Partial<WebhookInput & { isActive: boolean }>
+  ): Promise<WebhookInfo> {
+    if (updates.url !== undefined) {
+      this.assertValidUrl(updates.url);
+    }
+
+    const result = await prisma.webhook.updateMany({
+      where: { id, userId },
+      data: {
+        ...updates,
+        ...(updates.events && { events: [...new Set(updates.events)] }),
+      },
+    });
+    if (result.count === 0) {
+      throw new NotFoundError('Webhook');
+    }
+
+    return prisma.webhook.findUniqueOrThrow({
+      where: { id },
+      select: webhookSelect,
+    });
+  }
+
+  public async deleteWebhook(userId: string, id: string): Promise<void> {
+    const result = await prisma.webhook.deleteMany({ where: { id, userId } });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Webhook');
+    }
+  }
+
+  /**
+   * An endpoint's most recent deliveries, newest first
+   */
+  public async listDeliveries(
+    userId: string,
+    webhookId: string,
+    limit = 50
+  ): Promise<WebhookDeliveryInfo[]> {
+    await this.findWebhook(userId, webhookId);
+
+    return prisma.webhookDelivery.findMany({
+      where: { webhookId },
+      select: deliverySelect,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Sends a test event once, without retries, and returns its delivery
+   */
+  public async sendTestEvent(
+    userId: string,
+    webhookId: string
+  ): Promise<WebhookDeliveryInfo> {
+    const webhook = await this.findWebhook(userId, webhookId);
+
+    const delivery = await this.createDelivery(webhook.id, WEBHOOK_TEST_EVENT, {
+      message: 'Test event from FormaOps',
+    });
+    return this.attempt(webhook, delivery, 1);
+  }
+
+  /**
+   * Queues an event for every active endpoint of the user subscribed to it,
+   * and makes the first attempt in the background; deliverDue() makes any
+   * others. Never throws, so callers on the execution path are not failed
+   * by webhook problems.
+   */
+  public async dispatch(
+    userId: string,
+    event: WebhookEvent,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const webhooks = await prisma.webhook.findMany({
+        where: { userId, isActive: true, events: { has: event } },
+        select: { id: true, url: true, secret: true },
+      });
+
+      for (const webhook of webhooks) {
+        const delivery = await this.createDelivery(webhook.id, event, data);
+        this.attempt(webhook, delivery).catch(error =>
+          logger.error('Failed to deliver webhook', error, {
+            webhookId: webhook.id,
+            deliveryId: delivery.id,
+          })
+        );
+      }
+    } catch (error) {
+      await logger.error('Failed to dispatch webhook event', error, {
+        userId,
+        event,
+      });
+    }
+  }
+
+  /**
+   * Makes the next attempt of every PENDING delivery whose backoff has
+   * passed, or whose last attempt was cut short, oldest due first. Stops
+   * starting attempts at the deadline (epoch ms). Resolves with how many
+   * were attempted.
+   */
+  public async deliverDue(deadline = Infinity): Promise<number> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+      select: {
+        id: true,
+        payload: true,
+        attempts: true,
+        nextAttemptAt: true,
+        webhook: { select: { url: true, secret: true } },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: REDELIVERY_BATCH_SIZE,
+    });
+
+    let attempted = 0;
+    for (const delivery of due) {
+      if (Date.now() >= deadline) break;
+
+      // Concurrent drains both find the delivery; only one leases it
+      const { count } = await prisma.webhookDelivery.updateMany({
+        where: {
+          id: delivery.id,
+          status: 'PENDING',
+          nextAttemptAt: delivery.nextAttemptAt,
+        },
+        data: { nextAttemptAt: new Date(Date.now() + ATTEMPT_LEASE_MS) },
+      });
+      if (count === 0) continue;
+
+      await this.attempt(delivery.webhook, {
+        ...delivery,
+        payload: delivery.payload as unknown as WebhookPayload,
+      }).catch(error =>
+        logger.error('Failed to deliver webhook', error, {
+          deliveryId: delivery.id,
+        })
+      );
+      attempted++;
+    }
+
+    return attempted;
+  }
+
+  /**
+   * Stores a delivery, leased for the first attempt
+   */
+  private async createDelivery(
+    webhookId: string,
+    event: string,
+    data: Record<string, unknown>
+  ): Promise<PendingDelivery> {
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        webhookId,
+        event,
+        payload: {},
+        nextAttemptAt: new Date(Date.now() + ATTEMPT_LEASE_MS),
+      },
+      select: { id: true, createdAt: true },
+    });
+
+    // The payload carries the delivery id, so receivers can deduplicate
+    const payload: WebhookPayload = {
+      id: delivery.id,
+      type: event,
+      createdAt: delivery.createdAt.toISOString(),
+      data,
+    };
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        payload: JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue,
+      },
+    });
+
+    return { id: delivery.id, payload, attempts: 0 };
+  }
+
+  /**
+   * Makes one attempt and records it. A failure worth retrying leaves the
+   * delivery PENDING until its backoff has passed, unless it used the last
+   * of `maxAttempts`.
+   */
+  private async attempt(
+    webhook: Pick<Webhook, 'url' | 'secret'>,
+    delivery: PendingDelivery,
+    maxAttempts = this.retryConfig.maxAttempts
+  ): Promise<WebhookDeliveryInfo> {
+    const attempts = delivery.attempts + 1;
+    const { retryable, ...outcome } = await this.post(webhook, delivery);
+
+    const retry = retryable && attempts < maxAttempts;
+    const status: WebhookDeliveryStatus =
+      outcome.errorMessage === null
+        ? 'SUCCEEDED'
+        : retry
+          ? 'PENDING'
+          : 'FAILED';
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        ...outcome,
+        attempts,
+        status,
+        nextAttemptAt: retry
+          ? new Date(
+              Date.now() +
+                retryManager.calculateDelay(attempts, this.retryConfig)
+            )
+          : null,
+        ...(status === 'SUCCEEDED' && { deliveredAt: new Date() }),
+      },
+      select: deliverySelect,
+    });
+  }
+
+  private async post(
+    webhook: Pick<Webhook, 'url' | 'secret'>,
+    delivery: PendingDelivery
+  ): Promise<AttemptOutcome> {
+    const body = JSON.stringify(delivery.payload);
+    let response: Response;
+    try {
+      response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'FormaOps-Webhooks/1.0',
+          'X-FormaOps-Event': delivery.payload.type,
+          'X-FormaOps-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return {
+        responseStatus: null,
+        responseBody: null,
+        errorMessage: `request failed: ${reason}`,
+        retryable: true,
+      };
+    }
+
+    const responseBody = (await response.text().catch(() => '')).slice(
+      0,
+      RESPONSE_BODY_LIMIT
+    );
+    if (response.ok) {
+      return {
+        responseStatus: response.status,
+        responseBody,
+        errorMessage: null,
+        retryable: false,
+      };
+    }
+
+    return {
+      responseStatus: response.status,
+      responseBody,
+      errorMessage: `endpoint answered ${response.status}`,
+      retryable:
+        response.status >= 500 ||
+        response.status === 408 ||
+        response.status === 429,
+    };
+  }
+
+  private async findWebhook(
+    userId: string,
+    id: string
+  ): Promise<Pick<Webhook, 'id' | 'url' | 'secret'>> {
+    const webhook = await prisma.webhook.findFirst({
+      where: { id, userId },
+      select: { id: true, url: true, secret: true },
+    });
+    if (!webhook) {
+      throw new NotFoundError('Webhook');
+    }
+    return webhook;
+  }
+
+  private assertValidUrl(url: string): void {
+    let protocol: string;
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      throw new ValidationError('Webhook URL is not a valid URL');
+    }
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      throw new ValidationError('Webhook URL must use http or https');
+    }
+  }
+}
+
+// Singleton instance
+export const webhookManager = new WebhookManager();
@@ -1,9 +1,6 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 
-// Rate limiting storage (in production, use Redis or database)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
 // Security headers
 const securityHeaders = {
   'X-Content-Type-Options': 'nosniff',
@@ -14,23 +11,6 @@ const securityHeaders = {
   'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
 };
 
-// Rate limit configuration
-const RATE_LIMIT_CONFIG = {
-  '/api/auth/login': { limit: 5, window: 15 * 60 * 1000 }, // 5 attempts per 15 minutes
-  '/api/executions': { limit: 50, window: 60 * 60 * 1000 }, // 50 executions per hour
-  '/api/prompts': { limit: 100, window: 60 * 60 * 1000 }, // 100 requests per hour
-  default: { limit: 200, window: 60 * 60 * 1000 }, // 200 requests per hour default
-};
-
-function getRateLimit(pathname: string): { limit: number; window: number } {
-  for (const [path, config] of Object.entries(RATE_LIMIT_CONFIG)) {
-    if (path !== 'default' && pathname.startsWith(path)) {
-      return config;
-    }
-  }
-  return RATE_LIMIT_CONFIG.default;
-}
-
 function getClientId(request: NextRequest): string {
   // In production, consider using multiple factors for client identification
   const forwarded = request.headers.get('x-forwarded-for');
@@ -43,39 +23,6 @@ function getClientId(request: NextRequest): string {
   return `${ip}:${userAgent.substring(0, 50)}`;
 }
 
-function isRateLimited(
-  clientId: string,
-  config: { limit: number; window: number }
-): boolean {
-  const now = Date.now();
-  const clientData = rateLimitMap.get(clientId);
-
-  if (!clientData || now > clientData.resetTime) {
-    // Reset or initialize
-    rateLimitMap.set(clientId, { count: 1, resetTime: now + config.window });
-    return false;
-  }
-
-  if (clientData.count >= config.limit) {
-    return true;
-  }
-
-  clientData.count++;
-  return false;
-}
-
-function cleanupRateLimit(): void {
-  const now = Date.now();
-  for (const [key, data] of rateLimitMap.entries()) {
-    if (now > data.resetTime) {
-      rateLimitMap.delete(key);
-    }
-  }
-}
-
-// Cleanup old rate limit entries every 10 minutes
-setInterval(cleanupRateLimit, 10 * 60 * 1000);
-
 export function middleware(request: NextRequest): NextResponse {
   const { pathname } = request.nextUrl;
 
@@ -98,29 +45,8 @@ export function middleware(request: NextRequest): NextResponse {
   });
 
   // CORS for API routes
+  // Rate limits are applied by the route handlers (see lib/security/rate-limiter)
   if (pathname.startsWith('/api/')) {
-    // Rate limiting for API routes
-    const clientId = getClientId(request);
-    const rateLimit = getRateLimit(pathname);
-
-    if (isRateLimited(clientId, rateLimit)) {
-      return new NextResponse(
-        JSON.stringify({
-          error: 'Rate limit exceeded',
-          message: `Too many requests. Try again later.`,
-          retryAfter: Math.ceil(rateLimit.window / 1000),
-        }),
-        {
-          status: 429,
-          headers: {
-            'Content-Type': 'application/json',
-            'Retry-After': Math.ceil(rateLimit.window / 1000).toString(),
-            ...securityHeaders,
-          },
-        }
-      );
-    }
-
     // CORS headers
     if (process.env.NODE_ENV === 'development') {
       response.headers.set('Access-Control-Allow-Origin', '*');
@@ -132,6 +58,10 @@ export function middleware(request: NextRequest): NextResponse {
         'Access-Control-Allow-Headers',
         'Content-Type, Authorization'
       );
+      response.headers.set(
+        'Access-Control-Expose-Headers',
+        'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After'
+      );
     }
 
     // Handle preflight requests
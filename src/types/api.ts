@@ -43,6 +43,8 @@ export interface CreatePromptRequest {
   template: string;
   variables: VariableDefinition[];
   validations?: ValidationRule[];
+  // Shares the prompt with a workspace; personal when omitted
+  workspaceId?: string;
 }
 
 export interface UpdatePromptRequest {
@@ -52,6 +54,11 @@ export interface UpdatePromptRequest {
   variables?: VariableDefinition[];
   validations?: ValidationRule[];
   status?: PromptStatus;
+  changeLog?: string;
+  // Moves the prompt to a workspace, or back to personal with null
+  workspaceId?: string | null;
+  // Version the edit was based on, to detect concurrent edits
+  expectedVersion?: number;
 }
 
 export interface ValidationRule {
@@ -83,6 +90,8 @@ export interface PromptsQuery {
   limit?: number;
   status?: PromptStatus;
   search?: string;
+  // A workspace id, or `personal` for prompts outside any workspace
+  workspace?: string;
 }
 
 export interface PromptsResponse {
@@ -91,6 +100,7 @@ export interface PromptsResponse {
     name: string;
     description: string | null;
     status: PromptStatus;
+    workspaceId: string | null;
     createdAt: string;
     updatedAt: string;
     _count: {
@@ -2,10 +2,16 @@ import type {
   User,
   Prompt,
   PromptVersion,
+  Snippet,
+  SnippetVersion,
   Execution,
   ExecutionLog,
   Validation,
   ApiKey,
+  ApiKeyScope,
+  Workspace,
+  Membership,
+  WorkspaceRole,
   UserPlan,
   PromptStatus,
   ExecutionStatus,
@@ -14,16 +20,23 @@ import type {
   ValidationType,
   LogLevel,
 } from '@prisma/client';
+import type { SchemaValidationRule } from '../lib/validation/json-schema';
 
 // Base database types
 export type {
   User,
   Prompt,
   PromptVersion,
+  Snippet,
+  SnippetVersion,
   Execution,
   ExecutionLog,
   Validation,
   ApiKey,
+  ApiKeyScope,
+  Workspace,
+  Membership,
+  WorkspaceRole,
   UserPlan,
   PromptStatus,
   ExecutionStatus,
@@ -68,15 +81,72 @@ export type ExecutionListItem = Pick<
 };
 
 // Variable definitions
+export type VariableType =
+  | 'string'
+  | 'long-text'
+  | 'number'
+  | 'boolean'
+  | 'array'
+  | 'object'
+  | 'enum'
+  | 'date'
+  | 'file'
+  | 'json';
+
+export interface VariableConstraints {
+  // Value range for numbers, item count for arrays
+  min?: number | undefined;
+  max?: number | undefined;
+  // Text length and format for string and long-text
+  minLength?: number | undefined;
+  maxLength?: number | undefined;
+  pattern?: string | undefined;
+  // Element type for arrays
+  itemType?: 'string' | 'number' | 'boolean' | undefined;
+  // Inclusive bounds for dates, as ISO dates (YYYY-MM-DD)
+  minDate?: string | undefined;
+  maxDate?: string | undefined;
+  // Accepted MIME types (e.g. "text/*") and size limit for files
+  accept?: string[] | undefined;
+  maxSizeBytes?: number | undefined;
+}
+
+// Uploaded files are read as text in the browser before execution
+export interface FileVariableValue {
+  name: string;
+  type: string;
+  size: number;
+  content: string;
+}
+
 export interface VariableDefinition {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'array';
+  type: VariableType;
   required: boolean;
   description?: string | undefined;
   defaultValue?: unknown | undefined;
+  // Allowed values for enum variables (and legacy string selects)
   options?: string[] | undefined;
+  constraints?: VariableConstraints | undefined;
+  // Shape of object and json variables
+  schema?: SchemaValidationRule | undefined;
 }
 
+// Chat prompts: role-tagged message templates sent before the prompt's
+// `template`, which always renders as the final user turn
+export type PromptMessageRole = 'system' | 'user' | 'assistant';
+
+export interface PromptMessage {
+  role: PromptMessageRole;
+  content: string;
+}
+
+// Snippet versions pinned by a prompt version, keyed by snippet name
+export type SnippetVersionMap = Record<
+  string,
+  { snippetId: string; version: number }
+>;
+
 // Validation configurations
 export interface SchemaValidationConfig {
   type: 'object';